@@ -8,12 +8,59 @@
  *   npx quicktype -s typescript -o unity/Assets/Scripts/Generated/ApiTypes.cs shared/api-types.ts
  */
 
+// ============================================================================
+// Auth API
+// ============================================================================
+
+/**
+ * Authenticated requests send `Authorization: Bearer <accessToken>` and
+ * `X-Device-ID: <deviceId>`. The player and their crew come from the
+ * session, never from the request.
+ */
+
+export interface RegisterRequest {
+  username: string;
+  deviceId: string;
+  platform?: 'ios' | 'android';
+}
+
+export interface RegisterResponse {
+  userId: string;
+  deviceSecret: string; // Shown once; store it securely to log in again
+  tokens: AuthTokens;
+}
+
+export interface LoginRequest {
+  deviceId: string;
+  deviceSecret: string;
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
+  deviceId: string;
+}
+
+export interface AuthTokensResponse {
+  tokens: AuthTokens;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  accessTokenExpiresAt: string; // ISO 8601
+  refreshToken: string; // Single use
+  refreshTokenExpiresAt: string; // ISO 8601
+}
+
+export interface MeResponse {
+  userId: string;
+  crewId: string | null;
+}
+
 // ============================================================================
 // Location API
 // ============================================================================
 
 export interface LocationValidationRequest {
-  userId: string;
   sessionId: string;
   latitude: number;
   longitude: number;
@@ -58,6 +105,58 @@ export type ZoneCategory =
   | 'residential'
   | 'custom';
 
+/**
+ * POST /api/v1/zones/custom (admin)
+ */
+export interface CustomZoneRequest {
+  name: string;
+  category?: ZoneCategory;       // Default: custom
+  geometry: {
+    type: 'Polygon' | 'MultiPolygon';
+    coordinates: number[][][] | number[][][][];  // [lng, lat], closed rings
+  };
+  effectiveFrom?: string;        // Default: now
+  effectiveUntil?: string;       // Unset: permanent
+  reason?: string;
+}
+
+export interface CustomZoneResponse {
+  id: string;
+  name: string;
+  category: ZoneCategory;
+  geometry: {
+    type: 'MultiPolygon';
+    coordinates: number[][][][];
+  };
+  h3Cells: string[];             // Resolution 7 cells the zone covers
+  source: 'manual';
+  effectiveFrom: string;
+  effectiveUntil?: string;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * GET /api/v1/zones/buffers (admin)
+ */
+export interface ZoneBuffersResponse {
+  buffers: Record<ZoneCategory, number>;  // Meters around each category's zones
+}
+
+/**
+ * PUT /api/v1/zones/buffers/:category (admin)
+ */
+export interface ZoneBufferRequest {
+  bufferMeters: number;          // 0-500
+}
+
+export interface ZoneBufferResponse {
+  category: ZoneCategory;
+  bufferMeters: number;
+  recomputedZones: number;       // Zones whose cells were recomputed
+}
+
 export interface SpeedCheckResult {
   allowed: boolean;
   currentSpeedKmh: number;
@@ -145,25 +244,57 @@ export interface TurfLeaderboardEntry {
 
 export interface RaidInitiateRequest {
   targetCellH3: string;
-  attackPower: number;
+  squad: string[];  // 1-3 owned Synthling IDs
+}
+
+export interface RaidDefendRequest {
+  squad: string[];  // 1-3 owned Synthling IDs
 }
 
 export interface RaidResponse {
   id: string;
   attackingCrewId: string;
   targetCellH3: string;
+  defendingCrewId?: string;
   status: 'pending' | 'in_progress' | 'resolved';
-  attackPower: number;
-  defensePower: number;
+  attackerSquad: string[];
+  defenderSquad: string[];
+  defendedBy?: string;
+  startedAt: string;
+  windowEndsAt: string;  // Raid resolves when the defender window ends
+  attackPower: number;   // Squad rating
+  defensePower: number;  // Squad rating incl. outpost and allied outpost bonuses
+  attackerCooldownUntil?: string;  // Set after a failed raid on this cell
+  againstRival?: boolean;  // Success transfers 30% instead of 20%
   result?: RaidResult;
 }
 
 export interface RaidResult {
   success: boolean;
   influenceTransferred: number;
+  attackerPenalty?: number;  // Influence the attacker lost on failure
   outpostDamage?: number;
   attackerRewards: RaidReward[];
   defenderLosses: RaidLoss[];
+  battle?: RaidBattle;  // Absent if the cell was undefended
+}
+
+export interface RaidBattle {
+  seed: string;
+  defenseBonus: number;
+  winner: 'attacker' | 'defender' | 'draw';
+  turns: number;
+  log: BattleLogEntry[];
+}
+
+export interface BattleLogEntry {
+  turn: number;
+  action: string;
+  actor: string;
+  target?: string;
+  result: string;
+  damage?: number;
+  timestamp: string;
 }
 
 export interface RaidReward {
@@ -176,6 +307,146 @@ export interface RaidLoss {
   amount: number;
 }
 
+export interface ContractResponse {
+  id: string;
+  districtId: string;
+  type: 'capture' | 'survey' | 'patrol' | 'raid' | 'defend';
+  title: string;
+  description: string;
+  requirements: ContractRequirement[];
+  rewards: ContractReward[];
+  expiresAt: string;
+  claimedBy?: string;
+  claimedAt?: string;
+  completedAt?: string;
+}
+
+export interface ContractRequirement {
+  type: 'synthling_capture' | 'fingerprint_submission' | 'cell_visit' | 'raid_success' | 'raid_defense';
+  target: number;
+  current: number;
+}
+
+export interface ContractReward {
+  type: 'influence' | 'resource' | 'synthling' | 'outpost_module';
+  amount: number;
+  details?: Record<string, unknown>;  // itemId for resources, moduleType for modules
+}
+
+export type ControlEventType =
+  | 'cell_captured'
+  | 'cell_lost'
+  | 'contested_started'
+  | 'district_gained'
+  | 'district_lost';
+
+export interface ControlEventResponse {
+  id: string;
+  type: ControlEventType;
+  cellH3?: string;
+  districtId?: string;
+  crewId?: string;       // Crew the event is about
+  otherCrewId?: string;  // Previous controller for gains, new controller for losses
+  occurredAt: string;
+  metadata?: Record<string, unknown>;
+}
+
+// ============================================================================
+// Crew API
+// ============================================================================
+
+export type CrewRole = 'leader' | 'officer' | 'member';
+
+export interface CrewMemberResponse {
+  userId: string;
+  username?: string;
+  role: CrewRole;
+  joinedAt: string;
+}
+
+export interface CrewInviteResponse {
+  id: string;
+  crewId: string;
+  code: string;
+  createdBy: string;
+  maxUses: number;
+  uses: number;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface CrewInviteCreateRequest {
+  maxUses?: number;        // 1-100, default 10
+  expiresInHours?: number; // 1-168, default 48
+}
+
+export interface CrewJoinRequest {
+  code: string;
+}
+
+export interface CrewRoleUpdateRequest {
+  role: CrewRole;
+}
+
+/**
+ * Result of leaving or being removed from a crew.
+ */
+export interface CrewDepartureResponse {
+  crewId: string;
+  newLeaderId?: string;        // Set when the leader left
+  reassignedOutposts: number;  // Passed to crewmates
+  forfeitedOutposts: number;   // Removed
+  cooldownUntil: string;       // No influence or raids until then
+}
+
+export type CrewRelationType = 'alliance' | 'non_aggression' | 'rivalry';
+
+export type CrewRelationStatus = 'proposed' | 'active' | 'declined' | 'cancelled' | 'ended' | 'expired';
+
+export interface CrewRelationResponse {
+  id: string;
+  type: CrewRelationType;
+  status: CrewRelationStatus;
+  proposerCrewId: string;      // Proposer, or the crew that declared a rivalry
+  targetCrewId: string;
+  proposedBy: string;
+  respondedBy?: string;
+  durationDays?: number;       // Unset: lasts until ended
+  proposedAt: string;
+  proposalExpiresAt?: string;  // Proposals only
+  startedAt?: string;
+  expiresAt?: string;
+  endedAt?: string;
+}
+
+export interface CrewRelationRequest {
+  crewId: string;              // The other crew
+  type: CrewRelationType;
+  durationDays?: number;       // 1-30; rivalries default to 7
+}
+
+/**
+ * GET /api/v1/turf/crew/presence
+ */
+export interface CrewPresenceResponse {
+  cellH3: string | null;       // Viewer's resolution 7 cell; null without a recent location
+  radiusKm: number;            // 3km, widened by nearby crew beacons
+  hidden: boolean;
+  members: Array<{
+    userId: string;
+    username?: string;
+    cellH3: string;            // Resolution 7
+    updatedAt: string;
+  }>;
+}
+
+/**
+ * PATCH /api/v1/turf/crew/presence
+ */
+export interface CrewPresenceRequest {
+  hidden: boolean;
+}
+
 // ============================================================================
 // Outpost API
 // ============================================================================
@@ -212,40 +483,254 @@ export interface OutpostModuleInstallRequest {
 }
 
 // ============================================================================
-// Synthling API (Placeholder)
+// Synthling API
 // ============================================================================
 
+/**
+ * Player location sent with every spawn, encounter and evolve call;
+ * validated by the geofencing service before anything else happens.
+ */
+export interface GameplayLocation {
+  sessionId: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  timestamp: string; // ISO 8601
+}
+
 export interface SynthlingSpawnResponse {
   id: string;
   archetypeId: string;
   cellH3: string;
-  attributes: SynthlingAttributes;
+  imprint: SynthlingImprint;
+  level: number;
+  rarity: RarityTier;
+  spawnedAt: string;
   expiresAt: string;
 }
 
-export interface SynthlingAttributes {
-  palette: ColorRGB[];
-  geometry: GeometryType;
-  motion: MotionType;
-  sound: SoundType;
+export interface SynthlingImprint {
+  palette: {
+    primary: ColorRGB;
+    secondary: ColorRGB;
+    accent: ColorRGB;
+  };
+  pattern: {
+    type: 'solid' | 'striped' | 'spotted' | 'gradient' | 'marbled';
+    intensity: number;
+  };
+  morphology: {
+    scale: number;
+    proportion: number;
+    texture: 'smooth' | 'rough' | 'crystalline' | 'organic';
+  };
+  voice: {
+    pitch: number;
+    timbre: 'bright' | 'warm' | 'hollow' | 'metallic';
+    rhythm: number;
+  };
+}
+
+export type RarityTier = 'common' | 'uncommon' | 'rare' | 'legendary';
+
+export interface SynthlingStats {
+  vitality: number;
+  power: number;
+  resilience: number;
+  agility: number;
+  focus: number;
+}
+
+export interface SynthlingResponse {
+  id: string;
+  archetypeId: string;
+  nickname?: string;
   rarity: RarityTier;
+  imprint: SynthlingImprint;
+  stats: SynthlingStats;
+  level: number;
+  experience: number;
+  capturedAt: string;
+  capturedAtCell: string;
+  evolutionHistory: SynthlingEvolutionEntry[];
+}
+
+export interface SynthlingEvolutionEntry {
+  fromArchetype: string;
+  toArchetype: string;
+  evolvedAt: string;
+  locationCell: string;
+}
+
+export interface SynthlingEncounterStartRequest {
+  spawnId: string;
+  location: GameplayLocation;
 }
 
-export type GeometryType = 'crystalline' | 'organic' | 'geometric' | 'fluid' | 'fractal';
-export type MotionType = 'float' | 'pulse' | 'spiral' | 'bounce' | 'swarm';
-export type SoundType = 'ambient' | 'melodic' | 'percussive' | 'harmonic' | 'noise';
-export type RarityTier = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+export interface SynthlingEncounterResponse {
+  id: string;
+  spawnId: string;
+  status: 'active' | 'captured' | 'fled' | 'abandoned';
+  synthling: SynthlingResponse;
+  captureAttempts: number;
+  weakenProgress: number; // 0-100
+  startedAt: string;
+  endedAt?: string;
+}
 
 export interface SynthlingCaptureRequest {
+  location: GameplayLocation;
+}
+
+export interface SynthlingCaptureResponse {
+  outcome: 'captured' | 'escaped' | 'fled';
+  encounter: SynthlingEncounterResponse;
+  synthling?: SynthlingResponse;
+  influenceAwarded: number;
+}
+
+export interface SynthlingCollectionResponse {
+  synthlings: SynthlingResponse[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface SynthlingNicknameRequest {
+  nickname: string | null; // null clears
+}
+
+export interface SynthlingEvolveRequest {
+  fingerprintId: string; // Captured in the player's current cell
+  location: GameplayLocation;
+}
+
+export interface EvolutionRequirementStatus {
+  type: 'level' | 'location' | 'fingerprint_diversity' | 'battle_wins' | 'item';
+  value: number | string;
+  description: string;
+  met: boolean;
+  reason?: string;
+}
+
+export interface EvolutionCheckResponse {
   synthlingId: string;
+  fromArchetypeId: string;
+  toArchetypeId: string | null;
+  eligible: boolean;
+  requirements: EvolutionRequirementStatus[];
+  reasons: string[]; // One per unmet requirement
+}
+
+export interface SynthlingEvolveResponse {
+  synthling: SynthlingResponse;
+  evolution: EvolutionCheckResponse;
+}
+
+export interface CollectionStatsResponse {
+  userId: string;
+  totalCaptured: number;
+  uniqueArchetypes: number;
+  evolutionsCompleted: number;
+  battlesWon: number;
+  favoriteArchetype?: string;
+  rarestCapture?: {
+    synthlingId: string;
+    rarity: RarityTier;
+    capturedAt: string;
+  };
+}
+
+// ============================================================================
+// Realtime API
+// ============================================================================
+
+/**
+ * GET /api/v1/realtime/stream?cells=...&districts=...
+ * Server-sent events; the SSE event name is the event type.
+ */
+export type RealtimeEventType =
+  | 'influence_changed'
+  | 'control_changed'
+  | 'outpost_damaged'
+  | 'raid_started'
+  | 'raid_resolved'
+  | 'presence_changed'
+  | 'spawns_appeared';
+
+export interface RealtimeReadyEvent {
+  topics: string[];  // e.g. "cell:{h3Index}", "district:{id}", "crew:{id}"
+}
+
+export interface RealtimeEventMessage<T = Record<string, unknown>> {
+  topics: string[];
+  occurredAt: string;
+  data: T;
+}
+
+export interface InfluenceChangedData {
   cellH3: string;
+  districtId?: string;
+  crewId: string;
+  userId: string;
+  source: string;
+  amount: number;
+  crewInfluence: number;
+  totalInfluence: number;
 }
 
-export interface SynthlingCaptureResponse {
+export interface ControlChangedData {
+  controlEventId: string;
+  controlEventType: string;
+  cellH3?: string;
+  districtId?: string;
+  crewId?: string;
+  otherCrewId?: string;
+}
+
+export interface OutpostDamagedData {
+  outpostId: string;
+  cellH3: string;
+  districtId: string;
+  crewId: string;
+  damage: number;
+  health: number;
+}
+
+export interface RaidStartedData {
+  raidId: string;
+  cellH3: string;
+  attackingCrewId: string;
+  defendingCrewId: string;
+  windowEndsAt: string;
+}
+
+export interface RaidResolvedData {
+  raidId: string;
+  cellH3: string;
+  attackingCrewId: string;
+  defendingCrewId?: string;
   success: boolean;
-  message?: string;
-  synthling?: SynthlingSpawnResponse;
-  influenceAwarded?: number;
+  influenceTransferred: number;
+  controllingCrewId: string | null;
+}
+
+export interface PresenceChangedData {
+  userId: string;
+  crewId: string;
+  cellH3: string | null;       // null: the player hid themselves
+}
+
+export interface SpawnsAppearedData {
+  cellH3: string;
+  districtId?: string;
+  spawns: Array<{
+    id: string;
+    archetypeId: string;
+    rarity: RarityTier;
+    level: number;
+    expiresAt: string;
+  }>;
 }
 
 // ============================================================================
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for admin API routes acting on districts and zones.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import Fastify from 'fastify';
+import { createTestUuid } from '../setup.js';
+
+vi.hoisted(() => {
+  process.env.ADMIN_API_KEY = 'test-admin-key';
+});
+
+// Mock the turf services
+vi.mock('../../services/turf/index.js', () => ({
+  districtBuilder: {
+    renameDistrict: vi.fn(),
+    deleteDistrict: vi.fn(),
+  },
+  turfService: {
+    getDistrict: vi.fn(),
+  },
+}));
+
+// Mock the job scheduler
+vi.mock('../../services/jobs/index.js', () => ({
+  jobScheduler: {},
+}));
+
+// Mock the geofencing services
+vi.mock('../../services/geofencing/index.js', () => ({
+  zoneChecker: {
+    getZone: vi.fn(),
+    deleteZone: vi.fn(),
+  },
+}));
+
+// Import after mocks are set up
+import { districtBuilder, turfService } from '../../services/turf/index.js';
+import { zoneChecker } from '../../services/geofencing/index.js';
+import { adminRoutes } from '../../api/v1/admin.js';
+import { zoneRoutes } from '../../api/v1/zones.js';
+
+const mockDistrictBuilder = vi.mocked(districtBuilder);
+const mockTurfService = vi.mocked(turfService);
+const mockZoneChecker = vi.mocked(zoneChecker);
+
+describe('admin routes', () => {
+  const app = Fastify();
+  app.register(adminRoutes, { prefix: '/admin' });
+  app.register(zoneRoutes, { prefix: '/zones' });
+
+  const headers = { 'x-admin-key': 'test-admin-key' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it.each([
+    ['GET', undefined],
+    ['PATCH', { name: 'Copper Heights' }],
+    ['DELETE', undefined],
+  ] as const)('should answer %s of a district with a malformed ID as not found', async (method, payload) => {
+    const response = await app.inject({ method, url: '/admin/districts/not-a-uuid', headers, payload });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json()).toEqual({ error: 'District not found' });
+    expect(mockTurfService.getDistrict).not.toHaveBeenCalled();
+    expect(mockDistrictBuilder.renameDistrict).not.toHaveBeenCalled();
+    expect(mockDistrictBuilder.deleteDistrict).not.toHaveBeenCalled();
+  });
+
+  it('should delete a district by ID', async () => {
+    const districtId = createTestUuid(3);
+
+    const response = await app.inject({ method: 'DELETE', url: `/admin/districts/${districtId}`, headers });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockDistrictBuilder.deleteDistrict).toHaveBeenCalledWith(districtId);
+  });
+
+  it('should answer deletion of a zone with a malformed ID as not found', async () => {
+    const response = await app.inject({ method: 'DELETE', url: '/zones/custom/not-a-uuid', headers });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json()).toEqual({ error: 'Zone not found' });
+    expect(mockZoneChecker.getZone).not.toHaveBeenCalled();
+  });
+});
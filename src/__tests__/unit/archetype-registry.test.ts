@@ -0,0 +1,193 @@
+/**
+ * Unit tests for ArchetypeRegistry and AffinityScorer.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { PlaceFingerprint } from '../../types/fingerprint.js';
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { ArchetypeRegistry, archetypeRegistry } from '../../services/synthling/archetype-registry.js';
+import { affinityScorer } from '../../services/synthling/affinity-scorer.js';
+import archetypeData from '../../services/synthling/data/archetypes.v1.json' with { type: 'json' };
+
+function cloneData(): { version: number; archetypes: Array<Record<string, any>> } {
+  return JSON.parse(JSON.stringify(archetypeData));
+}
+
+function createFingerprint(overrides: Partial<PlaceFingerprint> = {}): PlaceFingerprint {
+  return {
+    version: 1,
+    id: 'fp-1',
+    palette: {
+      colors: [
+        { r: 30, g: 110, b: 200, weight: 0.6 },
+        { r: 60, g: 150, b: 210, weight: 0.4 },
+      ],
+      brightness: 0.5,
+      saturation: 0.6,
+    },
+    geometry: {
+      edgeHistogram: Array.from({ length: 8 }, (_, i) => ({ angle: i * 22.5, magnitude: 0.125 })),
+      surfaceDistribution: {
+        sky: 0.2, vegetation: 0, building: 0, ground: 0, water: 0.8, road: 0, unknown: 0,
+      },
+      verticalBias: -0.5,
+      complexity: 0.3,
+    },
+    motion: { level: 0.3, periodicity: 0.5 },
+    audio: {
+      spectralCentroid: 900,
+      harmonicRatio: 0.6,
+      rhythmDensity: 0.3,
+      loudness: 0.4,
+      dominantFrequencyBand: 'low',
+    },
+    locality: { h3Cell: '872a1072bffffff', timeOfDay: 'morning', dayType: 'weekday' },
+    capturedAt: new Date('2026-01-29T09:00:00Z'),
+    deviceId: 'device-hash',
+    hash: 'fingerprint-hash',
+    ...overrides,
+  };
+}
+
+describe('ArchetypeRegistry', () => {
+  describe('bundled data', () => {
+    it('should load the 30 MVP archetypes', () => {
+      expect(archetypeRegistry.version).toBe(1);
+      expect(archetypeRegistry.size).toBe(30);
+      expect(archetypeRegistry.get('ARCH_001')?.name).toBe('Luminar');
+      expect(archetypeRegistry.get('ARCH_030')?.rarity).toBe('legendary');
+    });
+
+    it('should return archetypes ordered by ID', () => {
+      const ids = archetypeRegistry.getAll().map((a) => a.id);
+
+      expect(ids).toEqual([...ids].sort());
+    });
+
+    it('should filter by rarity', () => {
+      const legendary = archetypeRegistry.getByRarity('legendary');
+
+      expect(legendary.length).toBeGreaterThan(0);
+      expect(legendary.every((a) => a.rarity === 'legendary')).toBe(true);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject unsupported data versions', () => {
+      const data = cloneData();
+      data.version = 2;
+
+      expect(() => new ArchetypeRegistry(data)).toThrow('Unsupported archetype data version: 2');
+    });
+
+    it('should reject schema violations', () => {
+      const data = cloneData();
+      data.archetypes[0]!.environmentAffinity.preferredPalette.saturationRange = [0.9, 0.1];
+
+      expect(() => new ArchetypeRegistry(data)).toThrow('Archetype data validation failed');
+    });
+
+    it('should reject duplicate IDs', () => {
+      const data = cloneData();
+      data.archetypes[1]!.id = 'ARCH_001';
+
+      expect(() => new ArchetypeRegistry(data)).toThrow('Duplicate archetype ID: ARCH_001');
+    });
+
+    it('should reject evolution links to unknown archetypes', () => {
+      const data = cloneData();
+      data.archetypes[0]!.evolutionChain.evolvesTo = 'ARCH_999';
+
+      expect(() => new ArchetypeRegistry(data)).toThrow('ARCH_001 evolves to unknown archetype ARCH_999');
+    });
+
+    it('should reject one-way evolution links', () => {
+      const data = cloneData();
+      const target = data.archetypes.find((a) => a.id === 'ARCH_011')!;
+      delete target.evolutionChain.evolvesFrom;
+
+      expect(() => new ArchetypeRegistry(data)).toThrow('ARCH_011 does not list ARCH_001 as evolvesFrom');
+    });
+  });
+});
+
+describe('AffinityScorer', () => {
+  it('should rank water archetypes first for a waterfront fingerprint', () => {
+    const [best] = affinityScorer.rank(createFingerprint(), { limit: 1 });
+    const bestArchetype = archetypeRegistry.get(best!.archetypeId)!;
+
+    expect(bestArchetype.environmentAffinity.preferredGeometry.surfaceTypes).toContain('water');
+  });
+
+  it('should score scenes inside every preferred range as a full match', () => {
+    const luminar = archetypeRegistry.get('ARCH_001')!;
+    const fingerprint = createFingerprint({
+      palette: {
+        colors: [{ r: 230, g: 200, b: 60, weight: 1 }],  // hue ~49
+        brightness: 0.8,
+        saturation: 0.6,
+      },
+      geometry: {
+        ...createFingerprint().geometry,
+        surfaceDistribution: {
+          sky: 0, vegetation: 0, building: 0.6, ground: 0, water: 0, road: 0.4, unknown: 0,
+        },
+        complexity: 0.5,
+      },
+      audio: { ...createFingerprint().audio, harmonicRatio: 0.4, rhythmDensity: 0.6 },
+      locality: { h3Cell: '872a1072bffffff', timeOfDay: 'evening', dayType: 'weekday' },
+    });
+
+    const result = affinityScorer.score(luminar, fingerprint);
+
+    expect(result.breakdown).toEqual({ palette: 1, geometry: 1, audio: 1, time: 1 });
+    expect(result.score).toBe(1);
+  });
+
+  it('should handle hue ranges that wrap around zero', () => {
+    const luminar = archetypeRegistry.get('ARCH_001')!;
+    const red = createFingerprint({
+      palette: { colors: [{ r: 220, g: 20, b: 30, weight: 1 }], brightness: 0.5, saturation: 0.8 },
+    });
+    const wrapping = {
+      ...luminar,
+      environmentAffinity: {
+        ...luminar.environmentAffinity,
+        preferredPalette: { ...luminar.environmentAffinity.preferredPalette, hueRange: [330, 20] as [number, number] },
+      },
+    };
+
+    expect(affinityScorer.score(wrapping, red).breakdown.palette)
+      .toBeGreaterThan(affinityScorer.score(luminar, red).breakdown.palette);
+  });
+
+  it('should give neutral time score to archetypes without a preference', () => {
+    const wavix = archetypeRegistry.get('ARCH_002')!;
+
+    expect(wavix.environmentAffinity.timePreference).toBeUndefined();
+    expect(affinityScorer.score(wavix, createFingerprint()).breakdown.time).toBe(0.5);
+  });
+
+  it('should filter by rarity and break ties by ID', () => {
+    const ranked = affinityScorer.rank(createFingerprint(), { rarity: 'common' });
+
+    expect(ranked).toHaveLength(archetypeRegistry.getByRarity('common').length);
+    for (let i = 1; i < ranked.length; i++) {
+      const prev = ranked[i - 1]!;
+      const curr = ranked[i]!;
+      expect(prev.score > curr.score || (prev.score === curr.score && prev.archetypeId < curr.archetypeId))
+        .toBe(true);
+    }
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Unit tests for BattleEngine and MoveCatalog.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTestUuid, testData } from '../setup.js';
+import type { Synthling, SynthlingStats } from '../../types/synthling.js';
+import type { PlaceFingerprint } from '../../types/fingerprint.js';
+
+import { BattleEngine } from '../../services/synthling/battle-engine.js';
+import type { BattleSetup } from '../../services/synthling/battle-engine.js';
+import { moveCatalog } from '../../services/synthling/move-catalog.js';
+import { archetypeRegistry } from '../../services/synthling/archetype-registry.js';
+
+const startedAt = new Date('2026-03-01T18:00:00Z');
+
+function createSynthling(
+  n: number,
+  archetypeId: string,
+  stats: Partial<SynthlingStats> = {},
+  level = 10
+): Synthling {
+  const color = { r: 100, g: 100, b: 100 };
+  const fullStats = { vitality: 60, power: 45, resilience: 40, agility: 50, focus: 50, ...stats };
+  const archetype = archetypeRegistry.get(archetypeId);
+
+  return {
+    id: createTestUuid(n),
+    archetypeId,
+    ownerId: testData.userId,
+    imprint: {
+      palette: { primary: color, secondary: color, accent: color },
+      pattern: { type: 'solid', intensity: 0.5 },
+      morphology: { scale: 1, proportion: 1, texture: 'smooth' },
+      voice: { pitch: 1, timbre: 'warm', rhythm: 1 },
+    },
+    stats: fullStats,
+    level,
+    experience: 0,
+    moves: archetype ? moveCatalog.getLearnedMoves(archetype, level) : [],
+    condition: {
+      currentHp: fullStats.vitality,
+      maxHp: fullStats.vitality,
+      statusEffects: [],
+      fatigue: 0,
+    },
+    capturedAt: startedAt,
+    capturedAtCell: testData.cellH3,
+    capturedFingerprint: {} as PlaceFingerprint,
+    evolutionHistory: [],
+  };
+}
+
+function createSetup(overrides: Partial<BattleSetup> = {}): BattleSetup {
+  return {
+    id: createTestUuid(90),
+    type: 'pve',
+    seed: 'battle-seed',
+    sides: [
+      {
+        id: 'attackers',
+        userId: testData.userId,
+        squad: [
+          createSynthling(1, 'ARCH_001', { agility: 70 }),
+          createSynthling(2, 'ARCH_002'),
+          createSynthling(3, 'ARCH_003'),
+        ],
+      },
+      {
+        id: 'defenders',
+        squad: [
+          createSynthling(4, 'ARCH_004', { agility: 30 }),
+          createSynthling(5, 'ARCH_005', { agility: 80 }),
+          createSynthling(6, 'ARCH_006', { agility: 20 }),
+        ],
+      },
+    ],
+    startedAt,
+    ...overrides,
+  };
+}
+
+describe('MoveCatalog', () => {
+  it('should define every move in every archetype move pool', () => {
+    for (const archetype of archetypeRegistry.getAll()) {
+      for (const moveId of archetype.movePool) {
+        expect(moveCatalog.has(moveId), `${archetype.id} ${moveId}`).toBe(true);
+      }
+    }
+  });
+
+  it('should learn move-pool slots with level, keeping the latest four', () => {
+    const archetype = archetypeRegistry.get('ARCH_001');
+    expect(archetype).toBeDefined();
+    if (!archetype) return;
+
+    expect(moveCatalog.getLearnedMoves(archetype, 1).map((m) => m.id)).toEqual(['tackle', 'focus_up']);
+    expect(moveCatalog.getLearnedMoves(archetype, 10).map((m) => m.id)).toEqual([
+      'tackle',
+      'focus_up',
+      'spark_jab',
+      'flare_burst',
+    ]);
+    expect(moveCatalog.getLearnedMoves(archetype, 30).map((m) => m.id)).toEqual([
+      'spark_jab',
+      'flare_burst',
+      'dazzle',
+      'overcharge',
+    ]);
+  });
+});
+
+describe('BattleEngine', () => {
+  let engine: BattleEngine;
+
+  beforeEach(() => {
+    engine = new BattleEngine();
+  });
+
+  it('should replay identically from the same seed and squads', () => {
+    const first = engine.simulate(createSetup());
+    const second = engine.simulate(createSetup());
+
+    expect(second).toEqual(first);
+  });
+
+  it('should diverge with a different seed', () => {
+    const first = engine.simulate(createSetup());
+    const second = engine.simulate(createSetup({ seed: 'another-seed' }));
+
+    expect(second.log).not.toEqual(first.log);
+  });
+
+  it('should not mutate the input squads', () => {
+    const setup = createSetup();
+    const before = structuredClone(setup);
+
+    engine.simulate(setup);
+
+    expect(setup).toEqual(before);
+  });
+
+  it('should order turns by agility', () => {
+    const battle = engine.simulate(createSetup());
+
+    expect(battle.turnOrder[0]).toBe(createTestUuid(5));
+    expect(battle.turnOrder[1]).toBe(createTestUuid(1));
+    expect(battle.turnOrder.at(-1)).toBe(createTestUuid(6));
+    expect(battle.turnOrder).toHaveLength(6);
+
+    // The faster active Synthling acts first
+    expect(battle.log[0]?.actor).toBe(createTestUuid(1));
+  });
+
+  it('should resolve with a winner and a complete log', () => {
+    const battle = engine.simulate(createSetup());
+
+    expect(battle.status).toBe('resolved');
+    expect(['attackers', 'defenders']).toContain(battle.winner);
+    expect(battle.seed).toBe('battle-seed');
+
+    const loser = battle.participants.find((p) => p.id !== battle.winner);
+    expect(loser?.squad.every((s) => s.condition.currentHp === 0)).toBe(true);
+
+    const faints = battle.log.filter((e) => e.action === 'faint');
+    expect(faints.length).toBeGreaterThanOrEqual(3);
+
+    for (const entry of battle.log) {
+      expect(entry.turn).toBeGreaterThanOrEqual(1);
+      expect(entry.turn).toBeLessThanOrEqual(battle.currentTurn);
+      expect(entry.timestamp.getTime()).toBeGreaterThan(startedAt.getTime());
+    }
+
+    const totalDamage = battle.log.reduce((sum, e) => sum + (e.damage ?? 0), 0);
+    expect(totalDamage).toBeGreaterThanOrEqual(180);
+  });
+
+  it('should respect focus costs and cooldowns', () => {
+    const battle = engine.simulate(createSetup());
+    const lastUse = new Map<string, number>();
+
+    for (const entry of battle.log) {
+      const move = moveCatalog.get(entry.action);
+      if (!move || move.cooldown === 0) continue;
+
+      const key = `${entry.actor}:${move.id}`;
+      const previous = lastUse.get(key);
+      if (previous !== undefined && previous !== entry.turn) {
+        expect(entry.turn - previous).toBeGreaterThan(move.cooldown);
+      }
+      lastUse.set(key, entry.turn);
+    }
+
+    for (const participant of battle.participants) {
+      expect(participant.focusMeter).toBeGreaterThanOrEqual(0);
+      expect(participant.focusMeter).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('should accumulate fatigue and clear battle statuses', () => {
+    const battle = engine.simulate(createSetup());
+    const fatigued = battle.participants.flatMap((p) => p.squad).filter((s) => s.condition.fatigue > 0);
+
+    expect(fatigued.length).toBeGreaterThan(0);
+    for (const participant of battle.participants) {
+      for (const synthling of participant.squad) {
+        expect(synthling.condition.statusEffects).toEqual([]);
+      }
+    }
+  });
+
+  it('should judge by remaining HP when the turn limit is reached', () => {
+    const setup = createSetup({ maxTurns: 1 });
+    const battle = engine.simulate(setup);
+
+    expect(battle.currentTurn).toBe(1);
+    expect(battle.log.at(-1)?.action).toBe('timeout');
+    expect(battle.winner).toBeDefined();
+  });
+
+  it('should let a full-strength side beat a fainted squad immediately', () => {
+    const setup = createSetup();
+    for (const synthling of setup.sides[1].squad) {
+      synthling.condition.currentHp = 0;
+    }
+
+    const battle = engine.simulate(setup);
+
+    expect(battle.winner).toBe('attackers');
+    expect(battle.currentTurn).toBe(0);
+  });
+
+  it('should reject oversized or overlapping squads', () => {
+    const setup = createSetup();
+    setup.sides[0].squad.push(createSynthling(7, 'ARCH_001'));
+    expect(() => engine.simulate(setup)).toThrow('Squads must have 1-3 Synthlings');
+
+    const overlapping = createSetup();
+    overlapping.sides[1].squad[0] = createSynthling(1, 'ARCH_001');
+    expect(() => engine.simulate(overlapping)).toThrow('appears more than once');
+  });
+});
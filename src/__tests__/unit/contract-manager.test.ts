@@ -0,0 +1,306 @@
+/**
+ * Unit tests for ContractManager service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as h3 from 'h3-js';
+import { mockQueryResult, testData, createTestUuid } from '../setup.js';
+import type { ContractRequirement, ContractReward, ContractType } from '../../types/turf.js';
+
+const mockClient = vi.hoisted(() => ({ query: vi.fn() }));
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(async (fn: (client: typeof mockClient) => unknown) => fn(mockClient)),
+}));
+
+// Mock the influence manager
+vi.mock('../../services/turf/influence-manager.js', () => ({
+  influenceManager: {
+    awardInfluence: vi.fn(),
+    getBaseAmount: vi.fn(() => 25),
+  },
+}));
+
+// Mock the realtime bus
+vi.mock('../../services/realtime/event-bus.js', () => ({
+  realtimeBus: { publish: vi.fn() },
+  RealtimeTopics: {},
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Mock uuid
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => createTestUuid(300)),
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { influenceManager } from '../../services/turf/influence-manager.js';
+import { moduleItemId } from '../../services/turf/outpost-manager.js';
+import { ContractManager } from '../../services/turf/contract-manager.js';
+import { territoryCellAt } from '../../services/turf/territory.js';
+
+const mockQuery = vi.mocked(query);
+const mockInfluenceManager = vi.mocked(influenceManager);
+
+const contractId = createTestUuid(300);
+const cellH3 = testData.cellH3;
+const now = new Date('2026-03-01T12:00:00Z');
+
+function contractRow(
+  type: ContractType,
+  requirements: ContractRequirement[],
+  overrides: Record<string, unknown> = {}
+) {
+  const rewards: ContractReward[] = [
+    { type: 'influence', amount: 30 },
+    { type: 'resource', amount: 1, details: { itemId: 'storm_core' } },
+  ];
+
+  return {
+    id: contractId,
+    district_id: testData.districtId,
+    type,
+    title: 'Contract',
+    description: 'Complete this contract',
+    requirements,
+    rewards,
+    expires_at: new Date('2026-03-02T12:00:00Z'),
+    claimed_by: testData.userId,
+    claimed_at: now,
+    completed_at: null,
+    visited_cells: [],
+    ...overrides,
+  };
+}
+
+function getContractUpdate(): unknown[] {
+  const call = mockClient.query.mock.calls.find(([text]) => String(text).includes('UPDATE contracts'));
+  return (call?.[1] ?? []) as unknown[];
+}
+
+describe('ContractManager', () => {
+  let manager: ContractManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue(mockQueryResult([]));
+    mockClient.query.mockResolvedValue(mockQueryResult([]));
+    manager = new ContractManager();
+  });
+
+  describe('generateContracts', () => {
+    it('should top up a district to three open contracts with requirements and rewards', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ count: '1' }]));
+
+      const generated = await manager.generateContracts(testData.districtId, 'Mission Flats', now);
+
+      expect(generated).toBe(2);
+
+      const inserts = mockQuery.mock.calls.filter(([text]) => String(text).includes('INSERT INTO contracts'));
+      expect(inserts).toHaveLength(2);
+
+      for (const [, params] of inserts) {
+        const [, districtId, type, , description, requirements, rewards, expiresAt] = params as unknown[];
+        const parsedRequirements = JSON.parse(String(requirements)) as ContractRequirement[];
+        const parsedRewards = JSON.parse(String(rewards)) as ContractReward[];
+
+        expect(districtId).toBe(testData.districtId);
+        expect(['capture', 'survey', 'patrol', 'raid', 'defend']).toContain(type);
+        expect(description).toContain('Mission Flats');
+        expect(parsedRequirements).toHaveLength(1);
+        expect(parsedRequirements[0]?.current).toBe(0);
+        expect(parsedRequirements[0]?.target).toBeGreaterThanOrEqual(1);
+        expect(parsedRewards[0]?.type).toBe('influence');
+        expect(parsedRewards[0]?.amount).toBeGreaterThanOrEqual(15);
+        expect(parsedRewards[0]?.amount).toBeLessThanOrEqual(50);
+        expect(expiresAt).toEqual(new Date('2026-03-02T12:00:00Z'));
+      }
+    });
+
+    it('should generate nothing when the district is already stocked', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ count: '3' }]));
+
+      const generated = await manager.generateContracts(testData.districtId, 'Mission Flats', now);
+
+      expect(generated).toBe(0);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('claimContract', () => {
+    it('should claim an open contract', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ count: '0' }]));
+      mockQuery.mockResolvedValueOnce(
+        mockQueryResult([contractRow('survey', [{ type: 'fingerprint_submission', target: 5, current: 0 }])])
+      );
+
+      const contract = await manager.claimContract(contractId, testData.userId, now);
+
+      expect(contract.claimedBy).toBe(testData.userId);
+      expect(contract.claimedAt).toEqual(now);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('claimed_by IS NULL'),
+        [contractId, testData.userId, now]
+      );
+    });
+
+    it('should reject a contract someone else claimed first', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ count: '0' }]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: contractId }]));
+
+      await expect(manager.claimContract(contractId, testData.userId, now)).rejects.toThrow(
+        'Contract is no longer available'
+      );
+    });
+
+    it('should reject unknown contracts', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ count: '0' }]));
+
+      await expect(manager.claimContract('nonexistent', testData.userId, now)).rejects.toThrow(
+        'Contract not found'
+      );
+    });
+
+    it('should cap active contracts per player', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ count: '3' }]));
+
+      await expect(manager.claimContract(contractId, testData.userId, now)).rejects.toThrow(
+        'Cannot hold more than 3 active contracts'
+      );
+    });
+  });
+
+  describe('recordProgress', () => {
+    it('should advance matching requirements without completing', async () => {
+      mockClient.query.mockResolvedValueOnce(
+        mockQueryResult([contractRow('capture', [{ type: 'synthling_capture', target: 3, current: 1 }])])
+      );
+
+      const completed = await manager.recordProgress(testData.userId, 'synthling_capture', cellH3, now);
+
+      expect(completed).toEqual([]);
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('requirements @> $2::jsonb'),
+        [testData.userId, JSON.stringify([{ type: 'synthling_capture' }]), cellH3, now]
+      );
+
+      const [id, requirements, , completedAt] = getContractUpdate();
+      expect(id).toBe(contractId);
+      expect(JSON.parse(String(requirements))).toEqual([{ type: 'synthling_capture', target: 3, current: 2 }]);
+      expect(completedAt).toBeNull();
+      expect(mockInfluenceManager.awardInfluence).not.toHaveBeenCalled();
+    });
+
+    it('should complete the contract and pay influence and items', async () => {
+      mockClient.query.mockResolvedValueOnce(
+        mockQueryResult([contractRow('capture', [{ type: 'synthling_capture', target: 3, current: 2 }])])
+      );
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([], 1)); // Contract update
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([{ crew_id: testData.crewId }]));
+
+      const completed = await manager.recordProgress(testData.userId, 'synthling_capture', cellH3, now);
+
+      expect(completed).toHaveLength(1);
+      expect(completed[0]?.completedAt).toEqual(now);
+      expect(getContractUpdate()[3]).toEqual(now);
+      expect(mockInfluenceManager.awardInfluence).toHaveBeenCalledWith(
+        cellH3,
+        testData.crewId,
+        testData.userId,
+        'contract_completion',
+        1.2,  // 30 over the 25 base
+        mockClient
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO user_items'),
+        [testData.userId, 'storm_core', 1]
+      );
+    });
+
+    it('should pay module rewards as the item installModule spends', async () => {
+      mockClient.query.mockResolvedValueOnce(
+        mockQueryResult([
+          contractRow('capture', [{ type: 'synthling_capture', target: 3, current: 2 }], {
+            rewards: [{ type: 'outpost_module', amount: 1, details: { moduleType: 'beacon', level: 1 } }],
+          }),
+        ])
+      );
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([], 1)); // Contract update
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([{ crew_id: testData.crewId }]));
+
+      await manager.recordProgress(testData.userId, 'synthling_capture', cellH3, now);
+
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO user_items'),
+        [testData.userId, moduleItemId('beacon', 1), 1]
+      );
+    });
+
+    it('should count each patrol cell once', async () => {
+      mockClient.query.mockResolvedValueOnce(
+        mockQueryResult([
+          contractRow('patrol', [{ type: 'cell_visit', target: 5, current: 1 }], { visited_cells: [cellH3] }),
+        ])
+      );
+
+      await manager.recordProgress(testData.userId, 'cell_visit', cellH3, now);
+
+      expect(getContractUpdate()).toEqual([]);
+    });
+
+    it('should record a new patrol cell', async () => {
+      const otherCell = h3.gridDisk(cellH3, 1).find((cell) => cell !== cellH3) as string;
+      mockClient.query.mockResolvedValueOnce(
+        mockQueryResult([
+          contractRow('patrol', [{ type: 'cell_visit', target: 5, current: 1 }], { visited_cells: [cellH3] }),
+        ])
+      );
+
+      await manager.recordProgress(testData.userId, 'cell_visit', otherCell, now);
+
+      const [, requirements, visitedCells] = getContractUpdate();
+      expect(JSON.parse(String(requirements))[0].current).toBe(2);
+      expect(visitedCells).toEqual([cellH3, otherCell]);
+    });
+
+    it('should match cells of any finer resolution to the district cell they fall in', async () => {
+      // District cells as the builder tiles them around a real location
+      const districtCells = h3.gridDisk(territoryCellAt(37.8044, -122.2712), 1);
+      mockClient.query.mockImplementation(async (text: string, params?: unknown[]) =>
+        String(text).includes('JOIN turf_cells') && districtCells.includes(String(params?.[2]))
+          ? mockQueryResult([contractRow('survey', [{ type: 'fingerprint_submission', target: 5, current: 0 }])])
+          : mockQueryResult([])
+      );
+
+      // A fingerprint's resolution 7 cell and a resolution 9 gameplay cell nearby
+      await manager.recordProgress(testData.userId, 'fingerprint_submission', territoryCellAt(37.806, -122.27), now);
+      await manager.recordProgress(
+        testData.userId, 'fingerprint_submission', h3.latLngToCell(37.803, -122.273, 9), now
+      );
+
+      const updates = mockClient.query.mock.calls.filter(([text]) => String(text).includes('UPDATE contracts'));
+      expect(updates).toHaveLength(2);
+    });
+
+    it('should swallow tracking failures', async () => {
+      mockClient.query.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(
+        manager.recordProgress(testData.userId, 'fingerprint_submission', cellH3, now)
+      ).resolves.toEqual([]);
+    });
+  });
+});
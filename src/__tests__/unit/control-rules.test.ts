@@ -0,0 +1,230 @@
+/**
+ * Unit and property tests for the cell control rules.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTestUuid } from '../setup.js';
+import { SeededRandom } from '../../services/synthling/seeded-random.js';
+import {
+  CONTROL_RULES,
+  INFLUENCE_CAPS,
+  capInfluenceAmount,
+  findTiedLeaders,
+  resolveCellControl,
+  roundInfluence,
+} from '../../services/turf/control-rules.js';
+
+const crews = [1, 2, 3, 4, 5, 6, 7].map((n) => createTestUuid(n));
+const users = [11, 12, 13, 14, 15, 16].map((n) => createTestUuid(n));
+
+/**
+ * In-memory cell applying awards, decay and raid penalties the way the
+ * influence manager and raid engine do.
+ */
+interface SimulatedCell {
+  scores: Record<string, number>;
+  players: Record<string, number>;
+  lastInfluenceAt: Record<string, number>;
+}
+
+/**
+ * Sum as stored in total_influence, NUMERIC(12, 2).
+ */
+function total(values: Record<string, number>): number {
+  return roundInfluence(Object.values(values).reduce((sum, v) => sum + v, 0));
+}
+
+function award(cell: SimulatedCell, crewId: string, userId: string, requested: number, at: number): number {
+  const amount = capInfluenceAmount(requested, cell.players[userId] ?? 0, total(cell.scores));
+  if (amount > 0) {
+    cell.scores[crewId] = roundInfluence((cell.scores[crewId] ?? 0) + amount);
+    cell.players[userId] = roundInfluence((cell.players[userId] ?? 0) + amount);
+    cell.lastInfluenceAt[crewId] = at;
+  }
+  return amount;
+}
+
+function decay(values: Record<string, number>, factor: number): void {
+  for (const [key, value] of Object.entries(values)) {
+    const next = value * factor;
+    if (next >= 1) {
+      values[key] = next;
+    } else {
+      delete values[key];
+    }
+  }
+}
+
+function shuffled<T>(items: T[], rng: SeededRandom): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = rng.int(0, i);
+    [copy[i], copy[j]] = [copy[j] as T, copy[i] as T];
+  }
+  return copy;
+}
+
+describe('control rules', () => {
+  describe('resolveCellControl', () => {
+    it('should give control to the plurality crew', () => {
+      const control = resolveCellControl({ [crews[0] as string]: 30, [crews[1] as string]: 70 });
+
+      expect(control).toEqual({ controllingCrewId: crews[1], contested: false, share: 0.7 });
+    });
+
+    it('should leave an empty cell uncontrolled and uncontested', () => {
+      expect(resolveCellControl({})).toEqual({ controllingCrewId: null, contested: false, share: 0 });
+    });
+
+    it('should need a 20% share to control a cell', () => {
+      const scores: Record<string, number> = {};
+      crews.forEach((crewId, i) => {
+        scores[crewId] = 10 + i;  // Leader holds 16 of 91
+      });
+
+      const control = resolveCellControl(scores);
+
+      expect(control.controllingCrewId).toBeNull();
+      expect(control.contested).toBe(true);
+      expect(control.share).toBeLessThan(CONTROL_RULES.minControlShare);
+    });
+
+    it('should accept exactly 20%', () => {
+      const scores = Object.fromEntries(crews.slice(0, 6).map((c, i) => [c, [20, 19, 19, 19, 19, 4][i]]));
+
+      expect(resolveCellControl(scores)).toEqual({ controllingCrewId: crews[0], contested: false, share: 0.2 });
+    });
+
+    it('should break ties by most recent influence and mark the cell contested', () => {
+      const scores = { [crews[0] as string]: 50, [crews[1] as string]: 50 };
+
+      const control = resolveCellControl(scores, { [crews[0] as string]: 2000, [crews[1] as string]: 1000 });
+
+      expect(control.controllingCrewId).toBe(crews[0]);
+      expect(control.contested).toBe(true);
+    });
+  });
+
+  describe('findTiedLeaders', () => {
+    it('should return the crews sharing the top score', () => {
+      const scores = { [crews[0] as string]: 50, [crews[1] as string]: 50, [crews[2] as string]: 10 };
+
+      expect(findTiedLeaders(scores).sort()).toEqual([crews[0], crews[1]].sort());
+    });
+
+    it('should return nothing when one crew leads', () => {
+      expect(findTiedLeaders({ [crews[0] as string]: 51, [crews[1] as string]: 50 })).toEqual([]);
+    });
+  });
+
+  describe('capInfluenceAmount', () => {
+    it.each([
+      [10, 0, 0, 10],
+      [10, 995, 0, 5],
+      [10, 0, 9993.5, 6.5],
+      [10, 1000, 0, 0],
+      [10, 0, 10000, 0],
+      [0.29, 0, 0, 0.29],
+    ])('should allow %d with %d player and %d cell influence to be %d', (amount, player, cell, expected) => {
+      expect(capInfluenceAmount(amount, player, cell)).toBe(expected);
+    });
+  });
+
+  describe('properties over random influence sequences', () => {
+    const runs = 200;
+    const steps = 80;
+
+    it('should hold control and cap invariants after every step', () => {
+      for (let run = 0; run < runs; run++) {
+        const rng = new SeededRandom(`control-rules:${run}`);
+        const cell: SimulatedCell = { scores: {}, players: {}, lastInfluenceAt: {} };
+        const crewPool = crews.slice(0, rng.int(2, crews.length));
+
+        for (let step = 1; step <= steps; step++) {
+          const action = rng.weighted({ award: 8, decay: 1, penalty: 1 });
+
+          if (action === 'award') {
+            const requested = roundInfluence(rng.pick([5, 10, 15, 25, 50]) * rng.range(0.5, 8));
+            const applied = award(cell, rng.pick(crewPool), rng.pick(users), requested, step);
+            expect(applied).toBeGreaterThanOrEqual(0);
+            expect(applied).toBeLessThanOrEqual(requested);
+          } else if (action === 'decay') {
+            const factor = rng.range(0.5, 0.99);
+            decay(cell.scores, factor);
+            decay(cell.players, factor);
+          } else {
+            const crewId = rng.pick(crewPool);
+            const next = roundInfluence((cell.scores[crewId] ?? 0) * 0.75);
+            if (next > 0) {
+              cell.scores[crewId] = next;
+            } else {
+              delete cell.scores[crewId];
+            }
+          }
+
+          // FR-2 caps
+          expect(total(cell.scores)).toBeLessThanOrEqual(INFLUENCE_CAPS.perCell);
+          for (const amount of Object.values(cell.players)) {
+            expect(amount).toBeLessThanOrEqual(INFLUENCE_CAPS.perPlayerPerCell);
+          }
+
+          // FR-3 control
+          const control = resolveCellControl(cell.scores, cell.lastInfluenceAt);
+          const cellTotal = total(cell.scores);
+          const scores = Object.entries(cell.scores);
+          const top = Math.max(0, ...scores.map(([, s]) => s));
+          const leaders = scores.filter(([, s]) => s === top).map(([c]) => c);
+
+          if (control.controllingCrewId) {
+            const held = cell.scores[control.controllingCrewId] ?? 0;
+            expect(held).toBe(top);
+            expect(held / cellTotal).toBeGreaterThanOrEqual(CONTROL_RULES.minControlShare);
+            for (const crewId of leaders) {
+              expect(cell.lastInfluenceAt[control.controllingCrewId] ?? 0)
+                .toBeGreaterThanOrEqual(cell.lastInfluenceAt[crewId] ?? 0);
+            }
+          } else if (cellTotal > 0) {
+            expect(top / cellTotal).toBeLessThan(CONTROL_RULES.minControlShare);
+          }
+
+          const expectContested = cellTotal > 0 && (control.controllingCrewId === null || leaders.length > 1);
+          expect(control.contested).toBe(expectContested);
+
+          // Order of the scores never matters
+          const reordered = Object.fromEntries(shuffled(scores, rng));
+          expect(resolveCellControl(reordered, cell.lastInfluenceAt)).toEqual(control);
+        }
+      }
+    });
+
+    it('should let a player reach but never pass the per-player cap', () => {
+      for (let run = 0; run < runs; run++) {
+        const rng = new SeededRandom(`player-cap:${run}`);
+        const cell: SimulatedCell = { scores: {}, players: {}, lastInfluenceAt: {} };
+        const userId = rng.pick(users);
+
+        for (let step = 1; step <= steps; step++) {
+          award(cell, rng.pick(crews), userId, roundInfluence(rng.range(1, 120)), step);
+        }
+
+        expect(cell.players[userId]).toBeLessThanOrEqual(INFLUENCE_CAPS.perPlayerPerCell);
+        expect(cell.players[userId]).toBeGreaterThan(INFLUENCE_CAPS.perPlayerPerCell - 1);
+      }
+    });
+
+    it('should let a cell fill to but never past the per-cell cap', () => {
+      for (let run = 0; run < runs; run++) {
+        const rng = new SeededRandom(`cell-cap:${run}`);
+        const cell: SimulatedCell = { scores: {}, players: {}, lastInfluenceAt: {} };
+        const manyUsers = Array.from({ length: 15 }, (_, i) => createTestUuid(100 + i));
+
+        for (let step = 1; step <= 400; step++) {
+          award(cell, rng.pick(crews), rng.pick(manyUsers), roundInfluence(rng.range(5, 200)), step);
+        }
+
+        expect(total(cell.scores)).toBeLessThanOrEqual(INFLUENCE_CAPS.perCell);
+        expect(total(cell.scores)).toBeGreaterThan(INFLUENCE_CAPS.perCell - 1);
+      }
+    });
+  });
+});
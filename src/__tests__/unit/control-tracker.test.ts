@@ -0,0 +1,256 @@
+/**
+ * Unit tests for ControlTracker service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type pg from 'pg';
+import { mockQueryResult, testData, createTestUuid } from '../setup.js';
+
+const mockClient = vi.hoisted(() => ({ query: vi.fn() }));
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(async (fn: (client: typeof mockClient) => unknown) => fn(mockClient)),
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Mock uuid
+let uuidCounter = 0;
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => createTestUuid(500 + ++uuidCounter)),
+}));
+
+// Mock the realtime bus
+vi.mock('../../services/realtime/event-bus.js', () => ({
+  realtimeBus: {
+    publish: vi.fn(),
+  },
+  RealtimeTopics: {
+    cell: (h3Index: string) => `cell:${h3Index}`,
+    district: (districtId: string) => `district:${districtId}`,
+    crew: (crewId: string) => `crew:${crewId}`,
+  },
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { ControlTracker, majorityThreshold } from '../../services/turf/control-tracker.js';
+
+const mockQuery = vi.mocked(query);
+const client = mockClient as unknown as pg.PoolClient;
+
+const crewA = testData.crewId;
+const crewB = createTestUuid(5);
+
+/**
+ * Answer the district lock and cell count queries; everything else
+ * returns no rows.
+ */
+function mockDistrict(
+  controllingCrewId: string | null,
+  counts: Array<{ crewId: string | null; cells: number; influence?: number }>
+): void {
+  mockClient.query.mockImplementation(async (text: string) => {
+    if (text.includes('FROM districts WHERE id = $1 FOR UPDATE')) {
+      return mockQueryResult([{ controlling_crew_id: controllingCrewId }]);
+    }
+    if (text.includes('GROUP BY controlling_crew_id')) {
+      return mockQueryResult(counts.map((c) => ({
+        controlling_crew_id: c.crewId,
+        cells: String(c.cells),
+        influence: String(c.influence ?? 0),
+      })));
+    }
+    return mockQueryResult([], 1);
+  });
+}
+
+function getDistrictUpdate(): unknown[] | undefined {
+  const call = mockClient.query.mock.calls.find(([text]) => String(text).includes('UPDATE districts'));
+  return call?.[1] as unknown[] | undefined;
+}
+
+function getSavedEventTypes(): string[] {
+  return mockClient.query.mock.calls
+    .filter(([text]) => String(text).includes('INSERT INTO control_events'))
+    .map(([, params]) => String((params as unknown[])[1]));
+}
+
+describe('ControlTracker', () => {
+  let tracker: ControlTracker;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClient.query.mockReset();
+    uuidCounter = 0;
+    tracker = new ControlTracker();
+  });
+
+  describe('majorityThreshold', () => {
+    it.each([
+      [7, 4],
+      [19, 10],
+      [6, 4],
+      [1, 1],
+    ])('should need a majority of %i cells to be %i', (cells, expected) => {
+      expect(majorityThreshold(cells)).toBe(expected);
+    });
+  });
+
+  describe('recordCellChange', () => {
+    const capture = {
+      cellH3: testData.cellH3,
+      districtId: testData.districtId,
+      previousCrewId: null,
+      newCrewId: crewA,
+      contestedStarted: false,
+    };
+
+    it('should record a capture without changing district control below a majority', async () => {
+      mockDistrict(null, [
+        { crewId: crewA, cells: 3, influence: 120 },
+        { crewId: null, cells: 4 },
+      ]);
+
+      const events = await tracker.recordCellChange(capture, client);
+
+      expect(events.map((e) => e.type)).toEqual(['cell_captured']);
+      expect(events[0]).toMatchObject({ cellH3: testData.cellH3, crewId: crewA, otherCrewId: undefined });
+      expect(getDistrictUpdate()).toEqual([testData.districtId, null, 0, 120]);
+      expect(getSavedEventTypes()).toEqual(['cell_captured']);
+    });
+
+    it('should give the district to a crew holding 4 of 7 cells', async () => {
+      mockDistrict(null, [
+        { crewId: crewA, cells: 4, influence: 200 },
+        { crewId: crewB, cells: 2, influence: 80 },
+        { crewId: null, cells: 1 },
+      ]);
+
+      const events = await tracker.recordCellChange(capture, client);
+
+      expect(events.map((e) => e.type)).toEqual(['cell_captured', 'district_gained']);
+      expect(events[1]).toMatchObject({
+        districtId: testData.districtId,
+        crewId: crewA,
+        metadata: { cells: 4, totalCells: 7, threshold: 4 },
+      });
+      expect(getDistrictUpdate()).toEqual([testData.districtId, crewA, 57.14, 280]);
+    });
+
+    it('should need 10 of 19 cells in a large district', async () => {
+      mockDistrict(null, [
+        { crewId: crewA, cells: 9 },
+        { crewId: crewB, cells: 8 },
+        { crewId: null, cells: 2 },
+      ]);
+
+      const events = await tracker.recordCellChange(capture, client);
+
+      expect(events.map((e) => e.type)).toEqual(['cell_captured']);
+      expect(getDistrictUpdate()?.[1]).toBeNull();
+    });
+
+    it('should record a district changing hands as a loss and a gain', async () => {
+      mockDistrict(crewA, [
+        { crewId: crewB, cells: 4 },
+        { crewId: crewA, cells: 3 },
+      ]);
+
+      const events = await tracker.recordCellChange(
+        { ...capture, previousCrewId: crewA, newCrewId: crewB, contestedStarted: true },
+        client
+      );
+
+      expect(events.map((e) => e.type)).toEqual([
+        'cell_captured',
+        'contested_started',
+        'district_lost',
+        'district_gained',
+      ]);
+      expect(events[2]).toMatchObject({ crewId: crewA, otherCrewId: crewB });
+      expect(events[3]).toMatchObject({ crewId: crewB, otherCrewId: crewA });
+      expect(getSavedEventTypes()).toHaveLength(4);
+    });
+
+    it('should leave a district uncontrolled when its controller loses the majority', async () => {
+      mockDistrict(crewA, [
+        { crewId: crewA, cells: 3 },
+        { crewId: crewB, cells: 3 },
+        { crewId: null, cells: 1 },
+      ]);
+
+      const events = await tracker.recordCellChange(
+        { ...capture, previousCrewId: crewA, newCrewId: null },
+        client
+      );
+
+      expect(events.map((e) => e.type)).toEqual(['cell_lost', 'district_lost']);
+      expect(events[1]).toMatchObject({ crewId: crewA, otherCrewId: undefined });
+    });
+
+    it('should only record contested cells when control is unchanged', async () => {
+      mockClient.query.mockResolvedValue(mockQueryResult([], 1));
+
+      const unchanged = await tracker.recordCellChange(
+        { ...capture, previousCrewId: crewA, newCrewId: crewA, contestedStarted: true },
+        client
+      );
+
+      expect(unchanged.map((e) => e.type)).toEqual(['contested_started']);
+      expect(getDistrictUpdate()).toBeUndefined();
+    });
+
+    it('should skip the rollup for cells without a district', async () => {
+      mockClient.query.mockResolvedValue(mockQueryResult([], 1));
+
+      const events = await tracker.recordCellChange({ ...capture, districtId: null }, client);
+
+      expect(events.map((e) => e.type)).toEqual(['cell_captured']);
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getEvents', () => {
+    it('should map rows and clamp the limit', async () => {
+      const occurredAt = new Date();
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{
+        id: createTestUuid(20),
+        event_type: 'district_gained',
+        cell_h3: null,
+        district_id: testData.districtId,
+        crew_id: crewA,
+        other_crew_id: null,
+        occurred_at: occurredAt,
+        metadata: { cells: 4 },
+      }]));
+
+      const events = await tracker.getEvents({ crewId: crewA, limit: 1000 });
+
+      expect(events).toEqual([{
+        id: createTestUuid(20),
+        type: 'district_gained',
+        cellH3: undefined,
+        districtId: testData.districtId,
+        crewId: crewA,
+        otherCrewId: undefined,
+        occurredAt,
+        metadata: { cells: 4 },
+      }]);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('FROM control_events'),
+        [null, crewA, null, null, null, 200]
+      );
+    });
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Unit tests for CrewManager service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockQueryResult, testData, createTestUuid } from '../setup.js';
+
+const mockClient = vi.hoisted(() => ({ query: vi.fn() }));
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(async (fn: (client: typeof mockClient) => unknown) => fn(mockClient)),
+}));
+
+// Mock the realtime gateway
+vi.mock('../../services/realtime/gateway.js', () => ({
+  realtimeGateway: {
+    disconnectUser: vi.fn(),
+  },
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { realtimeGateway } from '../../services/realtime/gateway.js';
+import { CrewManager } from '../../services/turf/crew-manager.js';
+
+const mockQuery = vi.mocked(query);
+const mockGateway = vi.mocked(realtimeGateway);
+
+const now = new Date('2026-03-01T12:00:00Z');
+const crewId = testData.crewId;
+const leaderId = testData.userId;
+const officerId = createTestUuid(10);
+const memberId = createTestUuid(11);
+
+type Role = 'leader' | 'officer' | 'member';
+
+interface ClientState {
+  memberships?: Record<string, { crewId: string; role: Role } | null>;
+  invite?: Record<string, unknown> | null;
+  memberCount?: number;
+  pendingRaid?: boolean;
+  successorId?: string | null;
+  outposts?: Array<{ id: string; district_id: string }>;
+  heirId?: string | null;
+  insertedCrewId?: string | null;
+}
+
+/**
+ * Answer client queries by SQL text; writes report one affected row.
+ */
+function mockClientState(state: ClientState): void {
+  mockClient.query.mockImplementation(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('SELECT crew_id, crew_role FROM users')) {
+      const membership = state.memberships?.[params[0] as string];
+      return mockQueryResult(membership ? [{ crew_id: membership.crewId, crew_role: membership.role }] : []);
+    }
+    if (sql.includes('INSERT INTO crews')) {
+      return mockQueryResult(state.insertedCrewId === null ? [] : [{ id: state.insertedCrewId ?? crewId }]);
+    }
+    if (sql.includes('FROM crew_invites WHERE code')) {
+      return mockQueryResult(state.invite ? [state.invite] : []);
+    }
+    if (sql.includes('COUNT(*)')) {
+      return mockQueryResult([{ count: String(state.memberCount ?? 1) }]);
+    }
+    if (sql.includes('FROM raids')) {
+      return mockQueryResult(state.pendingRaid ? [{ id: createTestUuid(50) }] : []);
+    }
+    if (sql.includes('SELECT id FROM users')) {
+      return mockQueryResult(state.successorId ? [{ id: state.successorId }] : []);
+    }
+    if (sql.includes('SELECT id, district_id FROM outposts')) {
+      return mockQueryResult(state.outposts ?? []);
+    }
+    if (sql.includes('SELECT u.id FROM users u')) {
+      return mockQueryResult(state.heirId ? [{ id: state.heirId }] : []);
+    }
+    return mockQueryResult([], 1);
+  });
+}
+
+/**
+ * Params of every client query containing the fragment.
+ */
+function findClientCalls(fragment: string): unknown[][] {
+  return mockClient.query.mock.calls
+    .filter(([sql]) => (sql as string).includes(fragment))
+    .map(([, params]) => params as unknown[]);
+}
+
+function inviteRow(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: createTestUuid(60),
+    crew_id: crewId,
+    code: 'ABCD2345',
+    created_by: leaderId,
+    max_uses: 10,
+    uses: 0,
+    expires_at: new Date(now.getTime() + 86_400_000),
+    revoked_at: null,
+    created_at: now,
+    ...overrides,
+  };
+}
+
+const fullCrew = {
+  [leaderId]: { crewId, role: 'leader' as const },
+  [officerId]: { crewId, role: 'officer' as const },
+  [memberId]: { crewId, role: 'member' as const },
+};
+
+describe('CrewManager', () => {
+  let manager: CrewManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClient.query.mockReset();
+    mockQuery.mockResolvedValue(mockQueryResult([], 1));
+    manager = new CrewManager();
+  });
+
+  describe('createCrew', () => {
+    it('should make the founder the crew leader', async () => {
+      mockClientState({});
+
+      const id = await manager.createCrew('Night Owls', 'OWL', '#112233', leaderId, now);
+
+      expect(id).toBe(crewId);
+      expect(findClientCalls("crew_role = 'leader', crew_joined_at")).toEqual([[leaderId, crewId, now]]);
+    });
+
+    it('should reject a founder who is already in a crew', async () => {
+      mockClientState({ memberships: { [leaderId]: { crewId, role: 'member' } } });
+
+      await expect(manager.createCrew('Night Owls', 'OWL', '#112233', leaderId, now)).rejects.toThrow('Already in a crew');
+      expect(findClientCalls('INSERT INTO crews')).toHaveLength(0);
+    });
+
+    it('should reject a taken name or tag', async () => {
+      mockClientState({ insertedCrewId: null });
+
+      await expect(manager.createCrew('Night Owls', 'OWL', '#112233', leaderId, now)).rejects.toThrow(
+        'Crew name or tag already taken'
+      );
+    });
+  });
+
+  describe('invites', () => {
+    it('should let officers create invite codes', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ crew_id: crewId, crew_role: 'officer' }]));
+      mockQuery.mockImplementationOnce(async (_sql, params) =>
+        mockQueryResult([inviteRow({ code: params?.[1], max_uses: params?.[3], expires_at: params?.[4] })])
+      );
+
+      const invite = await manager.createInvite(officerId, { maxUses: 5, expiresInHours: 24 }, now);
+
+      expect(invite.code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+      expect(invite.maxUses).toBe(5);
+      expect(invite.expiresAt).toEqual(new Date(now.getTime() + 24 * 60 * 60 * 1000));
+    });
+
+    it('should not let members manage invites', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ crew_id: crewId, crew_role: 'member' }]));
+
+      await expect(manager.createInvite(memberId, { maxUses: 5, expiresInHours: 24 }, now)).rejects.toThrow(
+        'Only leaders and officers can manage invites'
+      );
+    });
+
+    it('should only revoke invites of the actor\'s crew', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ crew_id: crewId, crew_role: 'leader' }]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([], 0));
+
+      await expect(manager.revokeInvite(leaderId, createTestUuid(61), now)).rejects.toThrow('Invite not found');
+      expect(mockQuery.mock.calls[1]?.[1]).toEqual([createTestUuid(61), crewId, now]);
+    });
+  });
+
+  describe('joinCrew', () => {
+    const joinerId = createTestUuid(12);
+
+    it('should join as a member, use the invite and refresh crew stats', async () => {
+      mockClientState({ invite: inviteRow() });
+
+      expect(await manager.joinCrew(joinerId, 'abcd2345', now)).toBe(crewId);
+
+      expect(findClientCalls('FROM crew_invites WHERE code')).toEqual([['ABCD2345']]);
+      expect(findClientCalls('SET uses = uses + 1')).toEqual([[createTestUuid(60)]]);
+      expect(findClientCalls('SET crew_id = $2')).toEqual([[joinerId, crewId, now, 'member']]);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('member_count'), [crewId]);
+    });
+
+    it('should close the player\'s realtime streams once the crew is left', async () => {
+      mockClientState({ memberships: fullCrew });
+
+      await manager.leaveCrew(memberId, now);
+
+      expect(mockGateway.disconnectUser).toHaveBeenCalledWith(memberId, { reason: 'crew_changed' }, mockClient);
+    });
+
+    it('should reject players already in a crew', async () => {
+      mockClientState({ memberships: { [joinerId]: { crewId: createTestUuid(4), role: 'member' } } });
+
+      await expect(manager.joinCrew(joinerId, 'ABCD2345', now)).rejects.toThrow('Already in a crew');
+    });
+
+    it.each([
+      ['unknown', null],
+      ['revoked', inviteRow({ revoked_at: now })],
+      ['expired', inviteRow({ expires_at: now })],
+      ['used up', inviteRow({ uses: 10 })],
+    ])('should reject an %s invite', async (_label, invite) => {
+      mockClientState({ invite });
+
+      await expect(manager.joinCrew(joinerId, 'ABCD2345', now)).rejects.toThrow('Invalid or expired invite code');
+    });
+
+    it('should make the first player to join a crew its leader left lead it', async () => {
+      mockClientState({ memberships: { [leaderId]: { crewId, role: 'leader' } } });
+
+      const departure = await manager.leaveCrew(leaderId, now);
+
+      expect(departure.newLeaderId).toBeUndefined();
+
+      mockClient.query.mockReset();
+      mockClientState({ invite: inviteRow(), memberCount: 0 });
+
+      await manager.joinCrew(joinerId, 'ABCD2345', now);
+
+      expect(findClientCalls('SET crew_id = $2')).toEqual([[joinerId, crewId, now, 'leader']]);
+    });
+
+    it('should reject joining a full crew', async () => {
+      mockClientState({ invite: inviteRow(), memberCount: 50 });
+
+      await expect(manager.joinCrew(joinerId, 'ABCD2345', now)).rejects.toThrow('Crew is full');
+      expect(findClientCalls('SET uses = uses + 1')).toHaveLength(0);
+    });
+  });
+
+  describe('leaveCrew', () => {
+    it('should start a 7-day cooldown', async () => {
+      mockClientState({ memberships: fullCrew });
+
+      const departure = await manager.leaveCrew(memberId, now);
+
+      const cooldownUntil = new Date(now.getTime() + 7 * 86_400_000);
+      expect(departure).toEqual({ crewId, reassignedOutposts: 0, forfeitedOutposts: 0, cooldownUntil });
+      expect(findClientCalls('crew_cooldown_until = $2')).toEqual([[memberId, cooldownUntil]]);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('member_count'), [crewId]);
+    });
+
+    it('should pass leadership on when the leader leaves', async () => {
+      mockClientState({ memberships: fullCrew, successorId: officerId });
+
+      const departure = await manager.leaveCrew(leaderId, now);
+
+      expect(departure.newLeaderId).toBe(officerId);
+      expect(findClientCalls("SET crew_role = 'leader'")).toEqual([[officerId]]);
+    });
+
+    it('should reassign outposts a crewmate can take and forfeit the rest', async () => {
+      mockClientState({
+        memberships: fullCrew,
+        outposts: [{ id: createTestUuid(70), district_id: testData.districtId }],
+        heirId: officerId,
+      });
+
+      const departure = await manager.leaveCrew(memberId, now);
+
+      expect(departure.reassignedOutposts).toBe(1);
+      expect(findClientCalls('UPDATE outposts SET owner_id')).toEqual([[createTestUuid(70), officerId]]);
+
+      mockClient.query.mockReset();
+      mockClientState({
+        memberships: fullCrew,
+        outposts: [{ id: createTestUuid(70), district_id: testData.districtId }],
+      });
+
+      const forfeit = await manager.leaveCrew(memberId, now);
+
+      expect(forfeit.forfeitedOutposts).toBe(1);
+      expect(findClientCalls('DELETE FROM outposts')).toEqual([[createTestUuid(70)]]);
+    });
+
+    it('should not allow leaving during a pending raid', async () => {
+      mockClientState({ memberships: fullCrew, pendingRaid: true });
+
+      await expect(manager.leaveCrew(memberId, now)).rejects.toThrow('Cannot leave a crew during a pending raid');
+      expect(findClientCalls('crew_cooldown_until = $2')).toHaveLength(0);
+      expect(mockGateway.disconnectUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject players without a crew', async () => {
+      mockClientState({});
+
+      await expect(manager.leaveCrew(memberId, now)).rejects.toThrow('Not in a crew');
+    });
+  });
+
+  describe('kickMember', () => {
+    it('should let officers remove members', async () => {
+      mockClientState({ memberships: fullCrew });
+
+      const departure = await manager.kickMember(officerId, memberId, now);
+
+      expect(departure.crewId).toBe(crewId);
+      expect(findClientCalls('crew_cooldown_until = $2')[0]?.[0]).toBe(memberId);
+      expect(mockGateway.disconnectUser).toHaveBeenCalledWith(memberId, { reason: 'crew_changed' }, mockClient);
+    });
+
+    it('should not let officers remove officers or the leader', async () => {
+      mockClientState({ memberships: { ...fullCrew, [memberId]: { crewId, role: 'officer' } } });
+
+      await expect(manager.kickMember(officerId, memberId, now)).rejects.toThrow('Not allowed to remove this member');
+      await expect(manager.kickMember(officerId, leaderId, now)).rejects.toThrow('Not allowed to remove this member');
+    });
+
+    it('should reject players from another crew', async () => {
+      mockClientState({ memberships: { ...fullCrew, [memberId]: { crewId: createTestUuid(4), role: 'member' } } });
+
+      await expect(manager.kickMember(leaderId, memberId, now)).rejects.toThrow('Not a member of your crew');
+    });
+  });
+
+  describe('setMemberRole', () => {
+    it('should hand over leadership and demote the old leader to officer', async () => {
+      mockClientState({ memberships: fullCrew });
+
+      await manager.setMemberRole(leaderId, memberId, 'leader');
+
+      const demote = mockClient.query.mock.calls.findIndex(([sql]) => (sql as string).includes("crew_role = 'officer'"));
+      const promote = mockClient.query.mock.calls.findIndex(([, params]) =>
+        (params as unknown[] | undefined)?.[1] === 'leader'
+      );
+      expect(demote).toBeGreaterThanOrEqual(0);
+      expect(demote).toBeLessThan(promote);
+    });
+
+    it('should only let the leader change roles', async () => {
+      mockClientState({ memberships: fullCrew });
+
+      await expect(manager.setMemberRole(officerId, memberId, 'officer')).rejects.toThrow(
+        'Only the crew leader can change roles'
+      );
+    });
+  });
+
+  describe('getCooldownUntil', () => {
+    it('should return the end of an active cooldown', async () => {
+      const until = new Date(now.getTime() + 86_400_000);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ crew_cooldown_until: until }]));
+
+      expect(await manager.getCooldownUntil(memberId, now)).toEqual(until);
+      expect(mockQuery.mock.calls[0]?.[1]).toEqual([memberId, now]);
+    });
+
+    it('should return null without an active cooldown', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+
+      expect(await manager.getCooldownUntil(memberId, now)).toBeNull();
+    });
+  });
+});
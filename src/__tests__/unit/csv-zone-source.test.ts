@@ -0,0 +1,210 @@
+/**
+ * Unit tests for the CSV/WKT open-data zone source and WKT parsing.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer } from 'http';
+import { mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { CsvZoneSource, parseCsv } from '../../services/geofencing/csv-zone-source.js';
+import { parseWktPolygon } from '../../services/geofencing/wkt.js';
+import type { CsvZoneSourceOptions } from '../../services/geofencing/csv-zone-source.js';
+
+const FIXTURE = new URL('../fixtures/open-data/schools.csv', import.meta.url).pathname;
+
+const SCHOOL_FEED: Omit<CsvZoneSourceOptions, 'location'> = {
+  name: 'sf-schools',
+  categoryMapping: { 'Public School': 'school', 'Private School': 'school' },
+  columns: { id: 'site_id', name: 'site_name', category: 'facility_type', wkt: 'the_geom' },
+};
+
+describe('CsvZoneSource', () => {
+  describe('local feeds', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'zone-feed-'));
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should map rows by category label and skip unmapped, invalid and duplicate rows', async () => {
+      const { zones, invalidSourceIds, complete } = await new CsvZoneSource({ ...SCHOOL_FEED, location: FIXTURE }).fetchZones(null);
+
+      expect(zones?.map((zone) => [zone.sourceId, zone.name, zone.category])).toEqual([
+        ['sf-schools:101', 'Lincoln Elementary', 'school'],
+        ['sf-schools:102', 'St. Mary\'s "Academy"', 'school'],
+      ]);
+      expect(zones?.[0]?.metadata).toEqual({ feed: 'sf-schools', label: 'Public School' });
+      expect(zones?.[1]?.geometry.coordinates).toHaveLength(2);
+      expect(invalidSourceIds).toEqual(['sf-schools:104', 'sf-schools:105']);
+      expect(complete).toBe(true);
+    });
+
+    it('should prefix source IDs with the feed name', () => {
+      const source = new CsvZoneSource({ ...SCHOOL_FEED, location: FIXTURE });
+
+      expect(source).toMatchObject({ name: 'csv:sf-schools', source: 'open_data', sourceIdPrefix: 'sf-schools:' });
+    });
+
+    it('should map every row with a wildcard and no category column', async () => {
+      const path = join(dir, 'courts.csv');
+      writeFileSync(path, 'id,name,wkt\n7,Hall of Justice,"POLYGON ((0 0, 1 0, 1 1, 0 0))"\n');
+
+      const { zones } = await new CsvZoneSource({
+        name: 'sf-courts',
+        location: path,
+        categoryMapping: { '*': 'government' },
+      }).fetchZones(null);
+
+      expect(zones?.map((zone) => [zone.sourceId, zone.category])).toEqual([['sf-courts:7', 'government']]);
+    });
+
+    it('should use the file modification time as the cursor', async () => {
+      const path = join(dir, 'schools.csv');
+      writeFileSync(path, readFileSync(FIXTURE));
+      utimesSync(path, new Date('2024-03-01T00:00:00Z'), new Date('2024-03-01T00:00:00Z'));
+      const source = new CsvZoneSource({ ...SCHOOL_FEED, location: path });
+
+      const first = await source.fetchZones(null);
+      const again = await source.fetchZones(first.cursor);
+
+      expect(first.cursor).toBe('mtime:2024-03-01T00:00:00.000Z');
+      expect(again).toEqual({ cursor: first.cursor, zones: null, removedSourceIds: [], invalidSourceIds: [], complete: true });
+    });
+
+    it('should reject feeds missing a configured column', async () => {
+      const source = new CsvZoneSource({ ...SCHOOL_FEED, location: FIXTURE, columns: { id: 'site_id' } });
+
+      await expect(source.fetchZones(null)).rejects.toThrow('Feed csv:sf-schools has no "name" column');
+    });
+
+    it('should reject feed names unsafe as a source ID prefix', () => {
+      expect(() => new CsvZoneSource({ ...SCHOOL_FEED, name: 'sf:schools', location: FIXTURE })).toThrow(
+        'Invalid feed name: sf:schools'
+      );
+    });
+  });
+
+  describe('HTTP feeds', () => {
+    const requests: Array<Record<string, string | string[] | undefined>> = [];
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      const body = readFileSync(FIXTURE);
+
+      server = createServer((req, res) => {
+        requests.push(req.headers);
+
+        if (req.url === '/etag.csv') {
+          if (req.headers['if-none-match'] === '"v1"') {
+            res.statusCode = 304;
+            res.end();
+            return;
+          }
+          res.setHeader('ETag', '"v1"');
+        } else if (req.url === '/dated.csv') {
+          res.setHeader('Last-Modified', 'Fri, 01 Mar 2024 00:00:00 GMT');
+        } else {
+          res.statusCode = 404;
+          res.end();
+          return;
+        }
+        res.end(body);
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      requests.length = 0;
+    });
+
+    it('should send the stored ETag and treat 304 as unchanged', async () => {
+      const source = new CsvZoneSource({ ...SCHOOL_FEED, location: `${baseUrl}/etag.csv` });
+
+      const first = await source.fetchZones(null);
+      const again = await source.fetchZones(first.cursor);
+
+      expect(first.cursor).toBe('etag:"v1"');
+      expect(first.zones).toHaveLength(2);
+      expect(requests[1]?.['if-none-match']).toBe('"v1"');
+      expect(again).toEqual({ cursor: 'etag:"v1"', zones: null, removedSourceIds: [], invalidSourceIds: [], complete: true });
+    });
+
+    it('should fall back to Last-Modified for the cursor', async () => {
+      const source = new CsvZoneSource({ ...SCHOOL_FEED, location: `${baseUrl}/dated.csv` });
+
+      const first = await source.fetchZones(null);
+      await source.fetchZones(first.cursor);
+
+      expect(first.cursor).toBe('last-modified:Fri, 01 Mar 2024 00:00:00 GMT');
+      expect(requests[1]?.['if-modified-since']).toBe('Fri, 01 Mar 2024 00:00:00 GMT');
+    });
+
+    it('should throw when the feed cannot be downloaded', async () => {
+      const source = new CsvZoneSource({ ...SCHOOL_FEED, location: `${baseUrl}/missing.csv` });
+
+      await expect(source.fetchZones(null)).rejects.toThrow('Open-data feed error: 404');
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should keep commas, line breaks and doubled quotes inside quoted fields', () => {
+      expect(parseCsv('\uFEFFa,b\r\n"1, 2","line\nbreak ""q"""\r\n\r\n3,\n')).toEqual([
+        ['a', 'b'],
+        ['1, 2', 'line\nbreak "q"'],
+        ['3', ''],
+      ]);
+    });
+  });
+});
+
+describe('parseWktPolygon', () => {
+  it('should parse polygons with holes as one-polygon multipolygons', () => {
+    expect(parseWktPolygon('POLYGON ((0 0, 4 0, 4 4, 0 0), (1 1, 2 1, 2 2, 1 1))')).toEqual({
+      type: 'MultiPolygon',
+      coordinates: [[[[0, 0], [4, 0], [4, 4], [0, 0]], [[1, 1], [2, 1], [2, 2], [1, 1]]]],
+    });
+  });
+
+  it('should accept SRID prefixes and drop Z and M ordinates', () => {
+    expect(parseWktPolygon('SRID=4326;MULTIPOLYGON ZM (((0 0 5 1, 1 0 5 1, 1 1 5 1, 0 0 5 1)))')).toEqual({
+      type: 'MultiPolygon',
+      coordinates: [[[[0, 0], [1, 0], [1, 1], [0, 0]]]],
+    });
+  });
+
+  it('should return null for empty geometries', () => {
+    expect(parseWktPolygon('POLYGON EMPTY')).toBeNull();
+  });
+
+  it('should reject other geometry types, unclosed rings and bad positions', () => {
+    expect(() => parseWktPolygon('POINT (0 0)')).toThrow('Unsupported WKT geometry');
+    expect(() => parseWktPolygon('POLYGON ((0 0, 1 0, 1 1, 0 1))')).toThrow('rings must be closed');
+    expect(() => parseWktPolygon('POLYGON ((0 0, 1 x, 1 1, 0 0))')).toThrow('Invalid WKT position');
+  });
+});
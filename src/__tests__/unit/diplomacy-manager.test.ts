@@ -0,0 +1,271 @@
+/**
+ * Unit tests for DiplomacyManager service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockQueryResult, testData, createTestUuid } from '../setup.js';
+
+const mockClient = vi.hoisted(() => ({ query: vi.fn() }));
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(async (fn: (client: typeof mockClient) => unknown) => fn(mockClient)),
+}));
+
+// Mock the crew manager
+vi.mock('../../services/turf/crew-manager.js', () => ({
+  crewManager: {
+    requireOfficer: vi.fn(),
+  },
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Mock uuid
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => createTestUuid(90)),
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { crewManager } from '../../services/turf/crew-manager.js';
+import { DiplomacyManager } from '../../services/turf/diplomacy-manager.js';
+
+const mockQuery = vi.mocked(query);
+const mockCrewManager = vi.mocked(crewManager);
+
+const now = new Date('2026-03-01T12:00:00Z');
+const crewId = testData.crewId;
+const otherCrewId = createTestUuid(4);
+const actorId = testData.userId;
+const relationId = createTestUuid(90);
+const day = 24 * 60 * 60 * 1000;
+
+function relationRow(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: relationId,
+    type: 'alliance',
+    status: 'proposed',
+    proposer_crew_id: otherCrewId,
+    target_crew_id: crewId,
+    proposed_by: createTestUuid(5),
+    responded_by: null,
+    duration_days: null,
+    proposed_at: now,
+    proposal_expires_at: new Date(now.getTime() + 2 * day),
+    started_at: null,
+    expires_at: null,
+    ended_at: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Echo the INSERT's params back as the stored row.
+ */
+function mockInsert(): void {
+  mockClient.query.mockImplementation(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('INSERT INTO crew_relations')) {
+      return mockQueryResult([relationRow({
+        type: params[1],
+        status: params[2],
+        proposer_crew_id: params[3],
+        target_crew_id: params[4],
+        proposed_by: params[5],
+        duration_days: params[6],
+        proposal_expires_at: params[8],
+        started_at: params[9],
+        expires_at: params[10],
+      })]);
+    }
+    return mockQueryResult([], 0);
+  });
+}
+
+describe('DiplomacyManager', () => {
+  let manager: DiplomacyManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClient.query.mockReset();
+    mockCrewManager.requireOfficer.mockResolvedValue({ crewId, role: 'leader' });
+    mockQuery.mockResolvedValue(mockQueryResult([{ id: otherCrewId }]));
+    manager = new DiplomacyManager();
+  });
+
+  describe('propose', () => {
+    it('should propose an alliance that expires unanswered after 48 hours', async () => {
+      mockInsert();
+
+      const relation = await manager.propose(actorId, otherCrewId, 'alliance', undefined, now);
+
+      expect(relation).toMatchObject({
+        type: 'alliance',
+        status: 'proposed',
+        proposerCrewId: crewId,
+        targetCrewId: otherCrewId,
+        proposalExpiresAt: new Date(now.getTime() + 2 * day),
+      });
+      expect(relation.startedAt).toBeUndefined();
+      expect(mockCrewManager.requireOfficer).toHaveBeenCalledWith(actorId, 'manage diplomacy');
+    });
+
+    it('should declare a rivalry that takes effect immediately for 7 days', async () => {
+      mockInsert();
+
+      const relation = await manager.propose(actorId, otherCrewId, 'rivalry', undefined, now);
+
+      expect(relation).toMatchObject({
+        status: 'active',
+        durationDays: 7,
+        startedAt: now,
+        expiresAt: new Date(now.getTime() + 7 * day),
+      });
+      expect(relation.proposalExpiresAt).toBeUndefined();
+    });
+
+    it('should expire the pair\'s lapsed relations before proposing', async () => {
+      mockInsert();
+
+      await manager.propose(actorId, otherCrewId, 'non_aggression', 14, now);
+
+      const [sweep] = mockClient.query.mock.calls[0] as [string, unknown[]];
+      expect(sweep).toContain("SET status = 'expired'");
+      expect(sweep).toContain('NOT');
+      expect(mockClient.query.mock.calls[0]?.[1]).toEqual([crewId, otherCrewId, now]);
+    });
+
+    it('should reject a pair that already has an open relation', async () => {
+      mockClient.query.mockResolvedValue(mockQueryResult([], 0));
+
+      await expect(manager.propose(actorId, otherCrewId, 'alliance', undefined, now)).rejects.toThrow(
+        'These crews already have an open proposal or agreement'
+      );
+    });
+
+    it('should reject proposals to the actor\'s own crew or an unknown crew', async () => {
+      await expect(manager.propose(actorId, crewId, 'alliance', undefined, now)).rejects.toThrow(
+        'Cannot propose to your own crew'
+      );
+
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+      await expect(manager.propose(actorId, otherCrewId, 'alliance', undefined, now)).rejects.toThrow('Crew not found');
+    });
+
+    it('should reject durations outside 1-30 days', async () => {
+      await expect(manager.propose(actorId, otherCrewId, 'non_aggression', 31, now)).rejects.toThrow(
+        'Duration must be 1-30 days'
+      );
+    });
+  });
+
+  describe('respond', () => {
+    it('should activate an accepted pact for its duration', async () => {
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([relationRow({ type: 'non_aggression', duration_days: 14 })]));
+      mockClient.query.mockImplementationOnce(async (_sql: string, params: unknown[] = []) =>
+        mockQueryResult([relationRow({
+          type: 'non_aggression',
+          duration_days: 14,
+          status: params[1],
+          responded_by: params[2],
+          started_at: params[3],
+          expires_at: params[4],
+        })])
+      );
+
+      const relation = await manager.respond(actorId, relationId, true, now);
+
+      expect(relation).toMatchObject({
+        status: 'active',
+        respondedBy: actorId,
+        startedAt: now,
+        expiresAt: new Date(now.getTime() + 14 * day),
+      });
+    });
+
+    it('should record a declined proposal', async () => {
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([relationRow()]));
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([relationRow({ status: 'declined' })]));
+
+      expect((await manager.respond(actorId, relationId, false, now)).status).toBe('declined');
+      expect(mockClient.query.mock.calls[1]?.[1]).toEqual([relationId, 'declined', actorId, null, null]);
+    });
+
+    it('should only let the receiving crew answer', async () => {
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([relationRow({ proposer_crew_id: crewId, target_crew_id: otherCrewId })]));
+
+      await expect(manager.respond(actorId, relationId, true, now)).rejects.toThrow('Proposal not found');
+    });
+
+    it('should reject an expired proposal', async () => {
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([relationRow({ proposal_expires_at: now })]));
+
+      await expect(manager.respond(actorId, relationId, true, now)).rejects.toThrow('Proposal has expired');
+    });
+  });
+
+  describe('end', () => {
+    it('should let either crew end an alliance', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([relationRow({ status: 'active', started_at: now })]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([relationRow({ status: 'ended', ended_at: now })]));
+
+      expect((await manager.end(actorId, relationId, now)).status).toBe('ended');
+      expect(mockQuery.mock.calls[1]?.[1]).toEqual([relationId, 'ended', now, actorId, 'active']);
+    });
+
+    it('should cancel the actor\'s own proposal', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([relationRow({ proposer_crew_id: crewId, target_crew_id: otherCrewId })]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([relationRow({ status: 'cancelled' })]));
+
+      await manager.end(actorId, relationId, now);
+
+      expect(mockQuery.mock.calls[1]?.[1]?.[1]).toBe('cancelled');
+    });
+
+    it('should not let the other crew withdraw a proposal or end a rivalry', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([relationRow()]));
+      await expect(manager.end(actorId, relationId, now)).rejects.toThrow('Decline the proposal instead');
+
+      mockQuery.mockResolvedValueOnce(mockQueryResult([relationRow({ type: 'rivalry', status: 'active' })]));
+      await expect(manager.end(actorId, relationId, now)).rejects.toThrow('Only the declaring crew can end a rivalry');
+    });
+
+    it('should reject relations of other crews', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([relationRow({ target_crew_id: createTestUuid(6) })]));
+
+      await expect(manager.end(actorId, relationId, now)).rejects.toThrow('Relation not found');
+    });
+  });
+
+  describe('lookups', () => {
+    it('should find the active relation between two crews in either direction', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([relationRow({ type: 'rivalry', status: 'active' })]));
+
+      const relation = await manager.getActiveRelation(crewId, otherCrewId, now);
+
+      expect(relation?.type).toBe('rivalry');
+      expect(mockQuery.mock.calls[0]?.[1]).toEqual([crewId, otherCrewId, now]);
+    });
+
+    it('should list allied crew IDs', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ ally_id: otherCrewId }]));
+
+      expect(await manager.getAllies(crewId, now)).toEqual([otherCrewId]);
+    });
+
+    it('should count expired relations', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([], 3));
+
+      expect(await manager.expireRelations(now)).toBe(3);
+    });
+  });
+});
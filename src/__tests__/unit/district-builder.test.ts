@@ -0,0 +1,247 @@
+/**
+ * Unit tests for DistrictBuilder service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as h3 from 'h3-js';
+import { mockQueryResult, createTestUuid } from '../setup.js';
+
+const mockClient = vi.hoisted(() => ({ query: vi.fn() }));
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(async (fn: (client: typeof mockClient) => unknown) => fn(mockClient)),
+}));
+
+// Mock Redis, which the H3 cache imports
+vi.mock('../../db/redis.js', () => ({
+  redis: {},
+  RedisKeys: {},
+  RedisTTL: {},
+}));
+
+// Mock the zone checker
+vi.mock('../../services/geofencing/zone-checker.js', () => ({
+  zoneChecker: {
+    findExcludedCells: vi.fn(),
+  },
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Mock uuid
+let uuidCounter = 0;
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => createTestUuid(400 + ++uuidCounter)),
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { zoneChecker } from '../../services/geofencing/zone-checker.js';
+import { h3Cache } from '../../services/geofencing/h3-cache.js';
+import { DistrictBuilder } from '../../services/turf/district-builder.js';
+import { TERRITORY_RESOLUTION } from '../../services/turf/territory.js';
+
+const mockQuery = vi.mocked(query);
+const mockZoneChecker = vi.mocked(zoneChecker);
+
+const origin = h3.latLngToCell(37.8044, -122.2712, TERRITORY_RESOLUTION);
+const options = {
+  region: 'Oakland',
+  latitude: 37.8044,
+  longitude: -122.2712,
+  radiusKm: 12,
+  clusterSize: 7 as const,
+};
+
+function getDistrictInserts(): unknown[][] {
+  return mockClient.query.mock.calls
+    .filter(([text]) => String(text).includes('INSERT INTO districts'))
+    .map(([, params]) => params as unknown[]);
+}
+
+function getCellAssignments(): Array<[string[], string]> {
+  return mockClient.query.mock.calls
+    .filter(([text]) => String(text).includes('INSERT INTO turf_cells'))
+    .map(([, params]) => params as [string[], string]);
+}
+
+describe('DistrictBuilder', () => {
+  let builder: DistrictBuilder;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    uuidCounter = 0;
+    mockQuery.mockResolvedValue(mockQueryResult([]));
+    mockClient.query.mockResolvedValue(mockQueryResult([]));
+    mockZoneChecker.findExcludedCells.mockResolvedValue(new Set());
+    builder = new DistrictBuilder();
+  });
+
+  describe('planDistricts', () => {
+    it.each([7, 19] as const)('should tile %i-cell clusters without overlap or gaps', (size) => {
+      const radius = 8;
+      const plans = builder.planDistricts(origin, radius, size);
+      const owner = new Map<string, string>();
+
+      for (const plan of plans) {
+        expect(plan.cells).toHaveLength(size);
+        expect(plan.cells).toContain(plan.centerH3);
+
+        for (const cell of plan.cells) {
+          expect(owner.has(cell)).toBe(false);
+          owner.set(cell, plan.centerH3);
+          expect(h3.gridDistance(origin, cell)).toBeLessThanOrEqual(radius);
+        }
+      }
+
+      // The inner area is fully covered
+      for (const cell of h3.gridDisk(origin, radius - 2 * (size === 7 ? 1 : 2))) {
+        expect(owner.has(cell)).toBe(true);
+      }
+    });
+
+    it('should center the first cluster on the origin', () => {
+      const plans = builder.planDistricts(origin, 4, 7);
+
+      expect(plans[0]?.centerH3).toBe(origin);
+      expect(plans[0]?.cells.sort()).toEqual(h3.gridDisk(origin, 1).sort());
+    });
+  });
+
+  describe('buildDistricts', () => {
+    it('should create named districts and assign their cells', async () => {
+      const result = await builder.buildDistricts(options);
+
+      expect(result.region).toBe('Oakland');
+      expect(result.districts.length).toBeGreaterThan(1);
+      expect(result.skippedDistricts).toBe(0);
+
+      const names = result.districts.map((d) => d.name);
+      expect(new Set(names).size).toBe(names.length);
+      for (const name of names) {
+        expect(name).toMatch(/^[A-Z][a-z]+ [A-Z][a-z]+( \d+)?$/);
+      }
+
+      const inserts = getDistrictInserts();
+      expect(inserts).toHaveLength(result.districts.length);
+      expect(JSON.parse(String(inserts[0]?.[3]))).toEqual({
+        region: 'Oakland',
+        clusterSize: 7,
+        excludedCells: [],
+      });
+
+      const assignments = getCellAssignments();
+      expect(assignments[0]?.[0]).toHaveLength(7);
+      expect(assignments[0]?.[1]).toBe(result.districts[0]?.id);
+    });
+
+    it('should assign the cells players are located by', async () => {
+      const result = await builder.buildDistricts(options);
+
+      // A location a few blocks from the center, as validateLocation reports it
+      const visitedCell = h3Cache.getH3Cell(37.8101, -122.2655);
+      const owner = getCellAssignments().find(([cells]) => cells.includes(visitedCell));
+
+      expect(owner?.[1]).toBe(result.districts[0]?.id);
+    });
+
+    it('should name districts the same way on every build', async () => {
+      const first = await builder.buildDistricts(options);
+      mockClient.query.mockClear();
+      const second = await builder.buildDistricts(options);
+
+      expect(second.districts.map((d) => d.name)).toEqual(first.districts.map((d) => d.name));
+    });
+
+    it('should skip cells in exclusion zones', async () => {
+      const excludedCell = h3.gridDisk(origin, 1).find((c) => c !== origin) as string;
+      mockZoneChecker.findExcludedCells.mockResolvedValueOnce(new Set([excludedCell]));
+
+      const result = await builder.buildDistricts(options);
+
+      expect(result.excludedCells).toBe(1);
+      expect(result.districts[0]?.cellCount).toBe(6);
+      expect(getCellAssignments()[0]?.[0]).not.toContain(excludedCell);
+      expect(JSON.parse(String(getDistrictInserts()[0]?.[3])).excludedCells).toEqual([excludedCell]);
+    });
+
+    it('should leave cells that already have a district alone', async () => {
+      const taken = h3.gridDisk(origin, 1).map((h3_index) => ({ h3_index }));
+      mockClient.query.mockResolvedValueOnce(mockQueryResult(taken)); // Assigned cells
+
+      const result = await builder.buildDistricts(options);
+
+      expect(result.skippedDistricts).toBe(1);
+      expect(result.districts.every((d) => d.centerH3 !== origin)).toBe(true);
+    });
+
+    it('should continue the existing tiling so overlapping builds leave no fragments', async () => {
+      const first = await builder.buildDistricts(options);
+      const firstCells = getCellAssignments().flatMap(([cells]) => cells);
+
+      mockClient.query.mockClear();
+      mockQuery.mockResolvedValueOnce(mockQueryResult(first.districts.map((d) => ({ center_h3: d.centerH3 }))));
+      mockClient.query.mockResolvedValueOnce(mockQueryResult(firstCells.map((h3_index) => ({ h3_index }))));
+
+      // A region centered about 4 km east, off the first build's lattice
+      const east = { ...options, region: 'East', longitude: -122.23 };
+      const second = await builder.buildDistricts(east);
+      const secondCells = getCellAssignments().flatMap(([cells]) => cells);
+
+      expect(second.districts.length).toBeGreaterThan(0);
+      expect(second.districts.every((d) => d.cellCount === 7)).toBe(true);
+      expect(secondCells.filter((c) => firstCells.includes(c))).toEqual([]);
+
+      // Together the builds cover the second region's inner area without gaps
+      const covered = new Set([...firstCells, ...secondCells]);
+      const eastOrigin = h3.latLngToCell(east.latitude, east.longitude, TERRITORY_RESOLUTION);
+      for (const cell of h3.gridDisk(eastOrigin, 3)) {
+        expect(covered.has(cell)).toBe(true);
+      }
+    });
+
+    it('should number names that are already in use', async () => {
+      const first = await builder.buildDistricts(options);
+      const firstName = first.districts[0]?.name;
+
+      mockClient.query.mockClear();
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([])); // Assigned cells
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([{ name: firstName }]));
+
+      const second = await builder.buildDistricts(options);
+
+      expect(second.districts[0]?.name).toBe(`${firstName} 2`);
+    });
+  });
+
+  describe('deleteDistrict', () => {
+    it('should refuse to remove a district with outposts', async () => {
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([{ id: createTestUuid(10) }]));
+
+      await expect(builder.deleteDistrict(createTestUuid(3))).rejects.toThrow('District has outposts');
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the district cells', async () => {
+      mockClient.query.mockResolvedValue(mockQueryResult([], 1));
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([]));
+
+      await builder.deleteDistrict(createTestUuid(3));
+
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('SET district_id = NULL'),
+        [createTestUuid(3)]
+      );
+    });
+  });
+});
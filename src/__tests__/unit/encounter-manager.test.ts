@@ -0,0 +1,330 @@
+/**
+ * Unit tests for EncounterManager service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockQueryResult, testData, createTestUuid } from '../setup.js';
+import type { PlaceFingerprint } from '../../types/fingerprint.js';
+import type { Synthling, SynthlingSpawn } from '../../types/synthling.js';
+
+const mockClient = vi.hoisted(() => ({ query: vi.fn() }));
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(async (fn: (client: unknown) => Promise<unknown>) => fn(mockClient)),
+}));
+
+// Mock the spawn engine
+vi.mock('../../services/synthling/spawn-engine.js', () => ({
+  spawnEngine: {
+    getSpawn: vi.fn(),
+  },
+}));
+
+// Mock the influence manager
+vi.mock('../../services/turf/influence-manager.js', () => ({
+  influenceManager: {
+    awardInfluence: vi.fn(),
+  },
+}));
+
+// Mock the contract manager
+vi.mock('../../services/turf/contract-manager.js', () => ({
+  contractManager: {
+    recordProgress: vi.fn(),
+  },
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Mock uuid
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => createTestUuid(100)),
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { spawnEngine } from '../../services/synthling/spawn-engine.js';
+import { influenceManager } from '../../services/turf/influence-manager.js';
+import { contractManager } from '../../services/turf/contract-manager.js';
+import { EncounterManager } from '../../services/synthling/encounter-manager.js';
+
+const mockQuery = vi.mocked(query);
+const mockSpawnEngine = vi.mocked(spawnEngine);
+const mockInfluenceManager = vi.mocked(influenceManager);
+const mockContractManager = vi.mocked(contractManager);
+
+const cellH3 = testData.cellH3;
+const spawnId = createTestUuid(50);
+const encounterId = createTestUuid(60);
+const now = new Date('2026-01-29T14:25:00Z');
+
+function createFingerprint(): PlaceFingerprint {
+  return {
+    version: 1,
+    id: 'fp-1',
+    palette: {
+      colors: [
+        { r: 200, g: 180, b: 90, weight: 0.6 },
+        { r: 90, g: 90, b: 110, weight: 0.4 },
+      ],
+      brightness: 0.6,
+      saturation: 0.5,
+    },
+    geometry: {
+      edgeHistogram: Array.from({ length: 8 }, (_, i) => ({ angle: i * 22.5, magnitude: 0.125 })),
+      surfaceDistribution: {
+        sky: 0.2, vegetation: 0.1, building: 0.4, ground: 0.1, water: 0, road: 0.2, unknown: 0,
+      },
+      verticalBias: 0.3,
+      complexity: 0.5,
+    },
+    motion: { level: 0.4, periodicity: 0.2 },
+    audio: {
+      spectralCentroid: 1800,
+      harmonicRatio: 0.35,
+      rhythmDensity: 0.6,
+      loudness: 0.5,
+      dominantFrequencyBand: 'mid',
+    },
+    locality: { h3Cell: cellH3, timeOfDay: 'afternoon', dayType: 'weekday' },
+    capturedAt: new Date('2026-01-29T13:10:00Z'),
+    deviceId: 'device-hash',
+    hash: 'a1b2c3d4e5f60718293a4b5c6d7e8f90',
+  };
+}
+
+describe('EncounterManager', () => {
+  let manager: EncounterManager;
+  let spawn: SynthlingSpawn;
+  let wild: Synthling;
+
+  function createEncounterRow(overrides: Record<string, unknown> = {}) {
+    return {
+      id: encounterId,
+      spawn_id: spawnId,
+      user_id: testData.userId,
+      cell_h3: cellH3,
+      status: 'active',
+      synthling: JSON.parse(JSON.stringify(wild)) as Synthling,
+      spawn_expires_at: spawn.expiresAt,
+      capture_attempts: 0,
+      weaken_progress: 0,
+      started_at: now,
+      ended_at: null,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    manager = new EncounterManager();
+
+    spawn = {
+      id: spawnId,
+      archetypeId: 'ARCH_001',
+      cellH3,
+      fingerprint: createFingerprint(),
+      imprint: {} as SynthlingSpawn['imprint'],
+      spawnedAt: new Date('2026-01-29T14:00:00Z'),
+      expiresAt: new Date('2026-01-29T15:00:00Z'),
+      level: 5,
+      rarity: 'common',
+      visible: true,
+    };
+    wild = manager.buildWildSynthling(spawn, testData.userId);
+    spawn.imprint = wild.imprint;
+  });
+
+  describe('buildWildSynthling', () => {
+    it('should scale stats with spawn level and start at full health', () => {
+      const levelOne = manager.buildWildSynthling({ ...spawn, level: 1 }, testData.userId);
+
+      expect(wild.level).toBe(5);
+      expect(wild.stats.vitality).toBe(Math.round(levelOne.stats.vitality * 1.2));
+      expect(wild.condition.currentHp).toBe(wild.stats.vitality);
+      expect(wild.condition.maxHp).toBe(wild.stats.vitality);
+    });
+
+    it('should keep the fingerprint but not the device that captured it', () => {
+      expect(wild.capturedFingerprint.hash).toBe(spawn.fingerprint.hash);
+      expect(wild.capturedFingerprint.deviceId).toBe('');
+    });
+  });
+
+  describe('startEncounter', () => {
+    it('should reject spawns outside the player cell', async () => {
+      mockSpawnEngine.getSpawn.mockResolvedValue(null);
+
+      await expect(
+        manager.startEncounter(testData.userId, spawnId, cellH3, now)
+      ).rejects.toThrow('Spawn not found in current cell');
+    });
+
+    it('should create an active encounter', async () => {
+      mockSpawnEngine.getSpawn.mockResolvedValue(spawn);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // SELECT existing
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // INSERT
+
+      const encounter = await manager.startEncounter(testData.userId, spawnId, cellH3, now);
+
+      expect(encounter).toMatchObject({
+        spawnId,
+        userId: testData.userId,
+        status: 'active',
+        captureAttempts: 0,
+        weakenProgress: 0,
+      });
+      expect(encounter.synthling.imprint).toEqual(spawn.imprint);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO synthling_encounters'),
+        expect.arrayContaining([spawnId, testData.userId, cellH3, spawn.expiresAt])
+      );
+    });
+
+    it('should reject a spawn the player already finished with', async () => {
+      mockSpawnEngine.getSpawn.mockResolvedValue(spawn);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([createEncounterRow({ status: 'fled' })]));
+
+      await expect(
+        manager.startEncounter(testData.userId, spawnId, cellH3, now)
+      ).rejects.toThrow('Spawn already encountered');
+    });
+  });
+
+  describe('attemptCapture', () => {
+    it('should persist the Synthling and award capture influence', async () => {
+      vi.spyOn(manager, 'getCaptureChance').mockReturnValue(1);
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([createEncounterRow()])); // SELECT FOR UPDATE
+      mockClient.query.mockResolvedValue(mockQueryResult([]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ crew_id: testData.crewId }]));
+      mockInfluenceManager.awardInfluence.mockResolvedValue({
+        id: createTestUuid(200),
+        cellH3,
+        crewId: testData.crewId,
+        userId: testData.userId,
+        source: 'synthling_capture',
+        amount: 5,
+        timestamp: now,
+      });
+
+      const result = await manager.attemptCapture(testData.userId, encounterId, cellH3, now);
+
+      expect(result.outcome).toBe('captured');
+      expect(result.synthling?.capturedAt).toEqual(now);
+      expect(result.influenceAwarded).toBe(5);
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO synthlings'),
+        expect.arrayContaining([wild.id, testData.userId, 'ARCH_001', 'common', spawnId])
+      );
+      expect(mockInfluenceManager.awardInfluence).toHaveBeenCalledWith(
+        cellH3,
+        testData.crewId,
+        testData.userId,
+        'synthling_capture'
+      );
+      expect(mockContractManager.recordProgress).toHaveBeenCalledWith(testData.userId, 'synthling_capture', cellH3);
+    });
+
+    it('should not award influence to crewless players', async () => {
+      vi.spyOn(manager, 'getCaptureChance').mockReturnValue(1);
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([createEncounterRow()]));
+      mockClient.query.mockResolvedValue(mockQueryResult([]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ crew_id: null }]));
+
+      const result = await manager.attemptCapture(testData.userId, encounterId, cellH3, now);
+
+      expect(result.outcome).toBe('captured');
+      expect(result.influenceAwarded).toBe(0);
+      expect(mockInfluenceManager.awardInfluence).not.toHaveBeenCalled();
+    });
+
+    it('should weaken the Synthling on a failed attempt', async () => {
+      vi.spyOn(manager, 'getCaptureChance').mockReturnValue(0);
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([createEncounterRow()]));
+      mockClient.query.mockResolvedValue(mockQueryResult([]));
+
+      const result = await manager.attemptCapture(testData.userId, encounterId, cellH3, now);
+
+      expect(result.outcome).toBe('escaped');
+      expect(result.encounter.captureAttempts).toBe(1);
+      expect(result.encounter.weakenProgress).toBe(20);
+      expect(result.synthling).toBeUndefined();
+      expect(mockContractManager.recordProgress).not.toHaveBeenCalled();
+    });
+
+    it('should flee after the last failed attempt', async () => {
+      vi.spyOn(manager, 'getCaptureChance').mockReturnValue(0);
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([
+        createEncounterRow({ capture_attempts: 2, weaken_progress: 40 }),
+      ]));
+      mockClient.query.mockResolvedValue(mockQueryResult([]));
+
+      const result = await manager.attemptCapture(testData.userId, encounterId, cellH3, now);
+
+      expect(result.outcome).toBe('fled');
+      expect(result.encounter.status).toBe('fled');
+      expect(result.encounter.captureAttempts).toBe(3);
+    });
+
+    it('should flee once the spawn has expired', async () => {
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([createEncounterRow()]));
+      mockClient.query.mockResolvedValue(mockQueryResult([]));
+
+      const result = await manager.attemptCapture(
+        testData.userId,
+        encounterId,
+        cellH3,
+        new Date('2026-01-29T15:01:00Z')
+      );
+
+      expect(result.outcome).toBe('fled');
+      expect(result.encounter.captureAttempts).toBe(0);
+    });
+
+    it('should require the player to be in the encounter cell', async () => {
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([createEncounterRow()]));
+
+      await expect(
+        manager.attemptCapture(testData.userId, encounterId, '89283082817ffff', now)
+      ).rejects.toThrow('You must be in the encounter cell');
+    });
+
+    it('should reject encounters that are over', async () => {
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([createEncounterRow({ status: 'captured' })]));
+
+      await expect(
+        manager.attemptCapture(testData.userId, encounterId, cellH3, now)
+      ).rejects.toThrow('Encounter is captured');
+    });
+  });
+
+  describe('getCaptureChance', () => {
+    it('should add up to 35% at full weakening', () => {
+      expect(manager.getCaptureChance('rare', 0)).toBeCloseTo(0.25);
+      expect(manager.getCaptureChance('rare', 100)).toBeCloseTo(0.60);
+      expect(manager.getCaptureChance('common', 100)).toBeCloseTo(0.95);
+    });
+  });
+
+  describe('abandonEncounter', () => {
+    it('should close the encounter', async () => {
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([createEncounterRow()]));
+      mockClient.query.mockResolvedValue(mockQueryResult([]));
+
+      const encounter = await manager.abandonEncounter(testData.userId, encounterId, cellH3, now);
+
+      expect(encounter.status).toBe('abandoned');
+      expect(encounter.endedAt).toEqual(now);
+    });
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Unit tests for EvolutionEngine service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockQueryResult, testData, createTestUuid } from '../setup.js';
+import type { PlaceFingerprint } from '../../types/fingerprint.js';
+import type { Synthling } from '../../types/synthling.js';
+
+const mockClient = vi.hoisted(() => ({ query: vi.fn() }));
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(async (fn: (client: unknown) => Promise<unknown>) => fn(mockClient)),
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Mock uuid
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => createTestUuid(100)),
+}));
+
+// Import after mocks are set up
+import { query, transaction } from '../../db/connection.js';
+import { EvolutionEngine } from '../../services/synthling/evolution-engine.js';
+import type { EvolutionContext } from '../../services/synthling/evolution-engine.js';
+import { fingerprintAssembler } from '../../services/fingerprint/assembler.js';
+import { archetypeRegistry } from '../../services/synthling/archetype-registry.js';
+
+const mockQuery = vi.mocked(query);
+const mockTransaction = vi.mocked(transaction);
+
+const cellH3 = testData.cellH3;
+const now = new Date('2026-02-10T12:00:00Z');
+
+/**
+ * Three places that are mutually distinct (similarity < 0.5).
+ */
+const PLACES = {
+  beach: {
+    colors: [{ r: 250, g: 220, b: 40, weight: 1 }],
+    brightness: 0.9,
+    saturation: 0.9,
+    edgeIndex: 0,
+    complexity: 0.1,
+    verticalBias: -1,
+    audio: { spectralCentroid: 100, harmonicRatio: 0, rhythmDensity: 0, loudness: 0, dominantFrequencyBand: 'low' as const },
+    surfaces: { sky: 0.5, vegetation: 0, building: 0, ground: 0.1, water: 0.4, road: 0, unknown: 0 },
+  },
+  subway: {
+    colors: [{ r: 10, g: 20, b: 120, weight: 1 }],
+    brightness: 0.1,
+    saturation: 0.1,
+    edgeIndex: 4,
+    complexity: 0.9,
+    verticalBias: 1,
+    audio: { spectralCentroid: 15000, harmonicRatio: 1, rhythmDensity: 1, loudness: 1, dominantFrequencyBand: 'high' as const },
+    surfaces: { sky: 0, vegetation: 0, building: 0.6, ground: 0.2, water: 0, road: 0.2, unknown: 0 },
+  },
+  park: {
+    colors: [{ r: 40, g: 200, b: 60, weight: 1 }],
+    brightness: 0.5,
+    saturation: 0.5,
+    edgeIndex: 2,
+    complexity: 0.5,
+    verticalBias: 0,
+    audio: { spectralCentroid: 1500, harmonicRatio: 0.5, rhythmDensity: 0.5, loudness: 0.5, dominantFrequencyBand: 'mid' as const },
+    surfaces: { sky: 0.2, vegetation: 0.6, building: 0, ground: 0.2, water: 0, road: 0, unknown: 0 },
+  },
+};
+
+function createPlace(place: keyof typeof PLACES, id: string = place): PlaceFingerprint {
+  const p = PLACES[place];
+  return {
+    version: 1,
+    id,
+    palette: { colors: p.colors, brightness: p.brightness, saturation: p.saturation },
+    geometry: {
+      edgeHistogram: Array.from({ length: 8 }, (_, i) => ({ angle: i * 22.5, magnitude: i === p.edgeIndex ? 1 : 0 })),
+      surfaceDistribution: p.surfaces,
+      verticalBias: p.verticalBias,
+      complexity: p.complexity,
+    },
+    motion: { level: 0.3, periodicity: 0.2 },
+    audio: p.audio,
+    locality: { h3Cell: cellH3, timeOfDay: 'afternoon', dayType: 'weekday' },
+    capturedAt: new Date('2026-02-05T12:00:00Z'),
+    deviceId: 'device-hash',
+    hash: `${id}-hash-0123456789abcdef`,
+  };
+}
+
+function createSynthling(overrides: Partial<Synthling> = {}): Synthling {
+  const color = { r: 100, g: 100, b: 100 };
+  return {
+    id: createTestUuid(10),
+    archetypeId: 'ARCH_001',
+    ownerId: testData.userId,
+    imprint: {
+      palette: { primary: color, secondary: color, accent: color },
+      pattern: { type: 'solid', intensity: 0.5 },
+      morphology: { scale: 1, proportion: 1, texture: 'smooth' },
+      voice: { pitch: 1, timbre: 'warm', rhythm: 1 },
+    },
+    stats: { vitality: 60, power: 45, resilience: 40, agility: 55, focus: 50 },
+    level: 16,
+    experience: 0,
+    moves: [],
+    condition: { currentHp: 30, maxHp: 60, statusEffects: [], fatigue: 0 },
+    capturedAt: new Date('2026-02-01T12:00:00Z'),
+    capturedAtCell: cellH3,
+    capturedFingerprint: createPlace('beach', 'capture'),
+    evolutionHistory: [],
+    ...overrides,
+  };
+}
+
+function createContext(overrides: Partial<EvolutionContext> = {}): EvolutionContext {
+  return {
+    fingerprint: createPlace('beach'),
+    diversityCandidates: [createPlace('subway'), createPlace('park')],
+    battleWins: 0,
+    items: {},
+    ...overrides,
+  };
+}
+
+describe('EvolutionEngine', () => {
+  let engine: EvolutionEngine;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    engine = new EvolutionEngine();
+  });
+
+  it('should use places that the assembler rates as distinct', () => {
+    const [a, b, c] = [createPlace('beach'), createPlace('subway'), createPlace('park')];
+
+    expect(fingerprintAssembler.calculateSimilarity(a, b).overall).toBeLessThan(0.5);
+    expect(fingerprintAssembler.calculateSimilarity(a, c).overall).toBeLessThan(0.5);
+    expect(fingerprintAssembler.calculateSimilarity(b, c).overall).toBeLessThan(0.5);
+  });
+
+  describe('countDistinctFingerprints', () => {
+    it('should not count revisits of the same place', () => {
+      expect(engine.countDistinctFingerprints([
+        createPlace('beach'),
+        createPlace('beach', 'beach-again'),
+        createPlace('park'),
+      ])).toBe(2);
+    });
+  });
+
+  describe('checkEvolution', () => {
+    it('should allow evolution when every requirement is met', () => {
+      const check = engine.checkEvolution(createSynthling(), createContext());
+
+      expect(check.eligible).toBe(true);
+      expect(check.toArchetypeId).toBe('ARCH_011');
+      expect(check.reasons).toEqual([]);
+      expect(check.requirements.every((r) => r.met)).toBe(true);
+    });
+
+    it('should give a reason for each unmet requirement', () => {
+      const check = engine.checkEvolution(
+        createSynthling({ level: 12 }),
+        createContext({ diversityCandidates: [createPlace('beach', 'beach-again')] })
+      );
+
+      expect(check.eligible).toBe(false);
+      expect(check.reasons).toEqual([
+        'Reach level 16 (currently level 12)',
+        'Visit 3 distinct places (1 so far)',
+      ]);
+    });
+
+    it('should check battle wins, location and items', () => {
+      const check = engine.checkEvolution(
+        createSynthling({ archetypeId: 'ARCH_016', level: 40 }),
+        createContext({
+          fingerprint: createPlace('subway'),
+          diversityCandidates: [createPlace('beach'), createPlace('park')],
+          battleWins: 4,
+        })
+      );
+
+      expect(check.reasons).toEqual([
+        'Win 10 battles (4 so far)',
+        'Evolve somewhere with more sky in view',
+        'Requires a storm_core',
+      ]);
+
+      const ready = engine.checkEvolution(
+        createSynthling({ archetypeId: 'ARCH_016', level: 40 }),
+        createContext({ battleWins: 10, items: { storm_core: 1 } })
+      );
+
+      expect(ready.eligible).toBe(true);
+    });
+
+    it('should reject places similar to an earlier evolution', () => {
+      const check = engine.checkEvolution(
+        createSynthling({
+          archetypeId: 'ARCH_011',
+          level: 40,
+          nickname: 'Sparky',
+          evolutionHistory: [{
+            fromArchetype: 'ARCH_001',
+            toArchetype: 'ARCH_011',
+            evolvedAt: new Date('2026-02-03T12:00:00Z'),
+            triggerFingerprint: createPlace('beach', 'earlier'),
+            locationCell: cellH3,
+          }],
+        }),
+        createContext({ battleWins: 10, items: { solar_shard: 1 } })
+      );
+
+      expect(check.eligible).toBe(false);
+      expect(check.reasons).toEqual(['This place feels familiar to Sparky']);
+    });
+
+    it('should stop at the final stage', () => {
+      const check = engine.checkEvolution(createSynthling({ archetypeId: 'ARCH_021' }), createContext());
+
+      expect(check.eligible).toBe(false);
+      expect(check.toArchetypeId).toBeNull();
+      expect(check.reasons).toEqual(['Solarch is fully evolved']);
+    });
+  });
+
+  describe('applyEvolution', () => {
+    it('should move to the next archetype, blend 30% and grow stats', () => {
+      const target = archetypeRegistry.get('ARCH_011');
+      if (!target) throw new Error('missing fixture archetype');
+
+      const synthling = createSynthling();
+      const { synthling: evolved, record } = engine.applyEvolution(
+        synthling,
+        target,
+        createPlace('park'),
+        cellH3,
+        now
+      );
+
+      expect(evolved.archetypeId).toBe('ARCH_011');
+      expect(evolved.evolutionHistory).toEqual([record]);
+      expect(record).toMatchObject({ fromArchetype: 'ARCH_001', toArchetype: 'ARCH_011', locationCell: cellH3 });
+      expect(record.triggerFingerprint?.deviceId).toBe('');
+
+      // vitality 60 * (70 / 60) * 1.1
+      expect(evolved.stats.vitality).toBe(77);
+      expect(evolved.condition.maxHp).toBe(77);
+      expect(evolved.condition.currentHp).toBe(39);
+
+      // Imprint keeps 70% of the original
+      const primary = evolved.imprint.palette.primary;
+      expect(Math.abs(primary.r - 100)).toBeLessThanOrEqual(Math.ceil(155 * 0.3));
+      expect(evolved.imprint.pattern.type).toBe('solid');
+    });
+  });
+
+  describe('blendImprint', () => {
+    it('should interpolate continuous values by the blend weight', () => {
+      const current = createSynthling().imprint;
+      const incoming = {
+        ...current,
+        palette: { ...current.palette, primary: { r: 200, g: 0, b: 100 } },
+        morphology: { scale: 1.2, proportion: 0.8, texture: 'rough' as const },
+      };
+
+      const blended = engine.blendImprint(current, incoming, 0.3);
+
+      expect(blended.palette.primary).toEqual({ r: 130, g: 70, b: 100 });
+      expect(blended.morphology.scale).toBeCloseTo(1.06);
+      expect(blended.morphology.texture).toBe('smooth');
+    });
+  });
+
+  describe('evolve', () => {
+    function mockEvolutionQueries(synthling: Synthling, trigger: PlaceFingerprint) {
+      const toRow = (fp: PlaceFingerprint) => ({
+        id: fp.id,
+        version: 1,
+        hash: fp.hash,
+        device_id: fp.deviceId,
+        palette: fp.palette,
+        geometry: fp.geometry,
+        motion: fp.motion,
+        audio: fp.audio,
+        locality: fp.locality,
+        captured_at: fp.capturedAt,
+      });
+
+      mockQuery.mockImplementation(async (text: string) => {
+        if (text.includes('FROM synthlings WHERE id = $1') && text.includes('captured_fingerprint')) {
+          return mockQueryResult([{
+            id: synthling.id,
+            owner_id: synthling.ownerId,
+            archetype_id: synthling.archetypeId,
+            nickname: null,
+            imprint: synthling.imprint,
+            stats: synthling.stats,
+            level: synthling.level,
+            experience: 0,
+            moves: [],
+            condition: synthling.condition,
+            captured_at: synthling.capturedAt,
+            captured_at_cell: cellH3,
+            captured_fingerprint: synthling.capturedFingerprint,
+          }]) as never;
+        }
+        if (text.includes('FROM fingerprints WHERE id = $1')) {
+          return mockQueryResult([toRow(trigger)]) as never;
+        }
+        if (text.includes('FROM fingerprints')) {
+          return mockQueryResult([toRow(createPlace('subway')), toRow(createPlace('park'))]) as never;
+        }
+        if (text.includes('SELECT battle_wins')) {
+          return mockQueryResult([{ battle_wins: 0 }]) as never;
+        }
+        return mockQueryResult([]) as never;
+      });
+    }
+
+    it('should persist the evolution and its record', async () => {
+      const synthling = createSynthling();
+      mockEvolutionQueries(synthling, createPlace('beach'));
+      mockClient.query.mockResolvedValue(mockQueryResult([], 1));
+
+      const result = await engine.evolve(testData.userId, synthling.id, 'beach', cellH3, now);
+
+      expect(result.evolved).toBe(true);
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE synthlings'),
+        expect.arrayContaining([synthling.id, testData.userId, 'ARCH_011', 'uncommon', 'ARCH_001'])
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO synthling_evolutions'),
+        expect.arrayContaining([synthling.id, 'ARCH_001', 'ARCH_011', now, cellH3])
+      );
+    });
+
+    it('should not touch the database when requirements are unmet', async () => {
+      const synthling = createSynthling({ level: 3 });
+      mockEvolutionQueries(synthling, createPlace('beach'));
+
+      const result = await engine.evolve(testData.userId, synthling.id, 'beach', cellH3, now);
+
+      expect(result.evolved).toBe(false);
+      expect(result.check.reasons).toEqual(['Reach level 16 (currently level 3)']);
+      expect(mockTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should require a fingerprint from the current cell', async () => {
+      const synthling = createSynthling();
+      mockEvolutionQueries(synthling, createPlace('beach'));
+
+      await expect(
+        engine.evolve(testData.userId, synthling.id, 'beach', '89283082817ffff', now)
+      ).rejects.toThrow('Fingerprint was not captured in your current cell');
+    });
+  });
+});
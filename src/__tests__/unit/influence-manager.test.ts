@@ -5,9 +5,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { mockQueryResult, testData, createTestUuid } from '../setup.js';
 
-// Mock the database module
+const dbQuery = vi.hoisted(() => vi.fn());
+
+// Mock the database module; transactions run on the same query mock
 vi.mock('../../db/connection.js', () => ({
-  query: vi.fn(),
+  query: dbQuery,
+  transaction: vi.fn(async (fn: (client: { query: typeof dbQuery }) => unknown) => fn({ query: dbQuery })),
   pool: {
     query: vi.fn(),
     connect: vi.fn(),
@@ -38,17 +41,83 @@ vi.mock('../../utils/logger.js', () => ({
   },
 }));
 
+// Mock the control tracker
+vi.mock('../../services/turf/control-tracker.js', () => ({
+  controlTracker: {
+    recordCellChange: vi.fn().mockResolvedValue([]),
+  },
+}));
+
+// Mock the crew manager
+vi.mock('../../services/turf/crew-manager.js', () => ({
+  crewManager: {
+    getCooldownUntil: vi.fn().mockResolvedValue(null),
+  },
+}));
+
 // Mock uuid
 vi.mock('uuid', () => ({
   v4: vi.fn(() => createTestUuid(100)),
 }));
 
+// Mock the realtime bus
+vi.mock('../../services/realtime/event-bus.js', () => ({
+  realtimeBus: {
+    publish: vi.fn(),
+  },
+  RealtimeTopics: {
+    cell: (h3Index: string) => `cell:${h3Index}`,
+    district: (districtId: string) => `district:${districtId}`,
+    crew: (crewId: string) => `crew:${crewId}`,
+  },
+}));
+
 // Import after mocks are set up
 import { query } from '../../db/connection.js';
 import { InfluenceManager } from '../../services/turf/influence-manager.js';
+import { controlTracker } from '../../services/turf/control-tracker.js';
+import { crewManager } from '../../services/turf/crew-manager.js';
+import { realtimeBus } from '../../services/realtime/event-bus.js';
 import type { InfluenceSource } from '../../types/turf.js';
 
 const mockQuery = vi.mocked(query);
+const mockControlTracker = vi.mocked(controlTracker);
+const mockCrewManager = vi.mocked(crewManager);
+const mockRealtimeBus = vi.mocked(realtimeBus);
+
+const otherCrewId = createTestUuid(5);
+
+/**
+ * Answer the cell lock and tie-break queries from one cell row;
+ * everything else returns no rows.
+ */
+function mockCell(
+  cell: Record<string, unknown> = {},
+  lastInfluence: Array<{ crew_id: string; last_at: Date }> = []
+): void {
+  const row = {
+    controlling_crew_id: null,
+    contested_since: null,
+    influence_scores: {},
+    player_influence: {},
+    district_id: testData.districtId,
+    ...cell,
+  };
+
+  mockQuery.mockImplementation(async (text: string) => {
+    if (text.includes('FOR UPDATE')) {
+      return mockQueryResult([row]);
+    }
+    if (text.includes('MAX(timestamp)')) {
+      return mockQueryResult(lastInfluence);
+    }
+    return mockQueryResult([], 1);
+  });
+}
+
+function getCall(text: string): unknown[] | undefined {
+  return mockQuery.mock.calls.find(([sql]) => String(sql).includes(text));
+}
 
 describe('InfluenceManager', () => {
   let manager: InfluenceManager;
@@ -60,10 +129,7 @@ describe('InfluenceManager', () => {
 
   describe('awardInfluence', () => {
     it('should award base influence for fingerprint submission', async () => {
-      // Setup: Mock insert query and cell update
-      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // INSERT influence_events
-      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // INSERT/UPDATE turf_cells
-      mockQuery.mockResolvedValueOnce(mockQueryResult([{ controlling_crew_id: testData.crewId }])); // UPDATE control
+      mockCell();
 
       const event = await manager.awardInfluence(
         testData.cellH3,
@@ -84,9 +150,7 @@ describe('InfluenceManager', () => {
     });
 
     it('should apply multiplier to influence amount', async () => {
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
-      mockQuery.mockResolvedValueOnce(mockQueryResult([{ controlling_crew_id: testData.crewId }]));
+      mockCell();
 
       const event = await manager.awardInfluence(
         testData.cellH3,
@@ -111,9 +175,7 @@ describe('InfluenceManager', () => {
 
       for (const { source, expected } of sources) {
         vi.clearAllMocks();
-        mockQuery.mockResolvedValueOnce(mockQueryResult([]));
-        mockQuery.mockResolvedValueOnce(mockQueryResult([]));
-        mockQuery.mockResolvedValueOnce(mockQueryResult([{ controlling_crew_id: testData.crewId }]));
+        mockCell();
 
         const event = await manager.awardInfluence(
           testData.cellH3,
@@ -127,9 +189,7 @@ describe('InfluenceManager', () => {
     });
 
     it('should record event in database', async () => {
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
-      mockQuery.mockResolvedValueOnce(mockQueryResult([{ controlling_crew_id: testData.crewId }]));
+      mockCell();
 
       await manager.awardInfluence(
         testData.cellH3,
@@ -151,31 +211,179 @@ describe('InfluenceManager', () => {
         ])
       );
     });
+
+    it('should add to the crew score and the player share', async () => {
+      mockCell({
+        influence_scores: { [testData.crewId]: 40, [otherCrewId]: 20 },
+        player_influence: { [testData.userId]: 15 },
+      });
+
+      await manager.awardInfluence(
+        testData.cellH3,
+        testData.crewId,
+        testData.userId,
+        'fingerprint_submission'
+      );
+
+      const params = getCall('SET influence_scores')?.[1];
+      expect(JSON.parse(String(params?.[1]))).toEqual({ [testData.crewId]: 50, [otherCrewId]: 20 });
+      expect(JSON.parse(String(params?.[2]))).toEqual({ [testData.userId]: 25 });
+      expect(params?.[3]).toBe(70);
+      expect(mockRealtimeBus.publish).toHaveBeenCalledWith(
+        'influence_changed',
+        [`cell:${testData.cellH3}`, `crew:${testData.crewId}`, `district:${testData.districtId}`],
+        expect.objectContaining({ amount: 10, crewInfluence: 50, totalInfluence: 70 }),
+        expect.anything()
+      );
+      expect(mockRealtimeBus.publish.mock.calls[0]?.[2]).not.toHaveProperty('userId');
+    });
+
+    it('should cap a player at 1000 influence per cell', async () => {
+      mockCell({
+        influence_scores: { [testData.crewId]: 996 },
+        player_influence: { [testData.userId]: 996 },
+      });
+
+      const event = await manager.awardInfluence(
+        testData.cellH3,
+        testData.crewId,
+        testData.userId,
+        'fingerprint_submission'
+      );
+
+      expect(event.amount).toBe(4);
+      expect(event.metadata).toEqual({ requestedAmount: 10 });
+    });
+
+    it('should cap a cell at 10000 total influence', async () => {
+      mockCell({
+        influence_scores: { [testData.crewId]: 6000, [otherCrewId]: 4000 },
+      });
+
+      const event = await manager.awardInfluence(
+        testData.cellH3,
+        testData.crewId,
+        testData.userId,
+        'fingerprint_submission'
+      );
+
+      expect(event.amount).toBe(0);
+      expect(getCall('SET influence_scores')).toBeUndefined();
+      expect(mockRealtimeBus.publish).not.toHaveBeenCalled();
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO influence_events'),
+        expect.arrayContaining([0, JSON.stringify({ requestedAmount: 10 })])
+      );
+    });
+
+    it('should award nothing during a crew-switch cooldown', async () => {
+      const cooldownUntil = new Date('2026-03-08T12:00:00Z');
+      mockCell();
+      mockCrewManager.getCooldownUntil.mockResolvedValueOnce(cooldownUntil);
+
+      const event = await manager.awardInfluence(
+        testData.cellH3,
+        testData.crewId,
+        testData.userId,
+        'fingerprint_submission'
+      );
+
+      expect(event.amount).toBe(0);
+      expect(event.metadata).toEqual({ requestedAmount: 10, crewCooldownUntil: cooldownUntil.toISOString() });
+      expect(getCall('SET influence_scores')).toBeUndefined();
+    });
   });
 
   describe('updateCellControl', () => {
-    it('should update controlling crew based on highest influence', async () => {
-      const newControllerCrewId = createTestUuid(5);
-      mockQuery.mockResolvedValueOnce(
-        mockQueryResult([{ controlling_crew_id: newControllerCrewId }])
-      );
+    it('should give control to the crew with the most influence', async () => {
+      mockCell({ influence_scores: { [testData.crewId]: 30, [otherCrewId]: 70 } });
 
       const controllerId = await manager.updateCellControl(testData.cellH3);
 
-      expect(controllerId).toBe(newControllerCrewId);
+      expect(controllerId).toBe(otherCrewId);
       expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining('UPDATE turf_cells'),
-        [testData.cellH3]
+        expect.stringContaining('SET controlling_crew_id'),
+        [testData.cellH3, otherCrewId, null]
       );
     });
 
-    it('should return null when no controlling crew', async () => {
+    it('should return null when the cell does not exist', async () => {
       mockQuery.mockResolvedValueOnce(mockQueryResult([]));
 
       const controllerId = await manager.updateCellControl(testData.cellH3);
 
       expect(controllerId).toBeNull();
     });
+
+    it('should leave the cell uncontrolled and contested when no crew has 20%', async () => {
+      const scores: Record<string, number> = {};
+      for (let i = 0; i < 7; i++) {
+        scores[createTestUuid(10 + i)] = 10 + i;
+      }
+      mockCell({ controlling_crew_id: testData.crewId, influence_scores: scores });
+
+      const controllerId = await manager.updateCellControl(testData.cellH3);
+
+      expect(controllerId).toBeNull();
+      expect(getCall('SET controlling_crew_id')?.[1]?.[2]).toBeInstanceOf(Date);
+      expect(mockControlTracker.recordCellChange).toHaveBeenCalledWith(
+        {
+          cellH3: testData.cellH3,
+          districtId: testData.districtId,
+          previousCrewId: testData.crewId,
+          newCrewId: null,
+          contestedStarted: true,
+        },
+        expect.objectContaining({ query: mockQuery })
+      );
+    });
+
+    it('should break ties by most recent influence', async () => {
+      mockCell(
+        { influence_scores: { [testData.crewId]: 50, [otherCrewId]: 50 } },
+        [
+          { crew_id: testData.crewId, last_at: new Date('2026-03-01T10:00:00Z') },
+          { crew_id: otherCrewId, last_at: new Date('2026-03-01T11:00:00Z') },
+        ]
+      );
+
+      const controllerId = await manager.updateCellControl(testData.cellH3);
+
+      expect(controllerId).toBe(otherCrewId);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('MAX(timestamp)'),
+        [testData.cellH3, expect.arrayContaining([testData.crewId, otherCrewId])]
+      );
+    });
+
+    it('should clear contested_since once a crew leads again', async () => {
+      mockCell({
+        controlling_crew_id: testData.crewId,
+        contested_since: new Date('2026-03-01T10:00:00Z'),
+        influence_scores: { [testData.crewId]: 60, [otherCrewId]: 40 },
+      });
+
+      await manager.updateCellControl(testData.cellH3);
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('SET controlling_crew_id'),
+        [testData.cellH3, testData.crewId, null]
+      );
+      expect(mockControlTracker.recordCellChange).not.toHaveBeenCalled();
+    });
+
+    it('should not write anything when control is unchanged', async () => {
+      mockCell({
+        controlling_crew_id: testData.crewId,
+        influence_scores: { [testData.crewId]: 60, [otherCrewId]: 40 },
+      });
+
+      const controllerId = await manager.updateCellControl(testData.cellH3);
+
+      expect(controllerId).toBe(testData.crewId);
+      expect(getCall('SET controlling_crew_id')).toBeUndefined();
+      expect(mockControlTracker.recordCellChange).not.toHaveBeenCalled();
+    });
   });
 
   describe('processDecay', () => {
@@ -0,0 +1,377 @@
+/**
+ * Unit tests for JobScheduler service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockQueryResult, createTestUuid } from '../setup.js';
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+}));
+
+// Mock Redis with SET NX locks, compare-and-renew and compare-and-delete release
+const locks = vi.hoisted(() => new Map<string, string>());
+vi.mock('../../db/redis.js', () => ({
+  redis: {
+    set: vi.fn(async (key: string, value: string, ..._args: unknown[]) => {
+      if (locks.has(key)) {
+        return null;
+      }
+      locks.set(key, value);
+      return 'OK';
+    }),
+    eval: vi.fn(async (script: string, _keys: number, key: string, token: string) => {
+      if (locks.get(key) !== token) {
+        return 0;
+      }
+      if (!script.includes('pexpire')) {
+        locks.delete(key);
+      }
+      return 1;
+    }),
+    mget: vi.fn(async (keys: string[]) => keys.map((key) => locks.get(key) ?? null)),
+  },
+  RedisKeys: {
+    jobLock: (jobName: string) => `job_lock:${jobName}`,
+  },
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Mock uuid
+let uuidCounter = 0;
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => createTestUuid(700 + ++uuidCounter)),
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { redis } from '../../db/redis.js';
+import { JobScheduler } from '../../services/jobs/scheduler.js';
+import type { JobDefinition } from '../../types/jobs.js';
+
+const mockQuery = vi.mocked(query);
+const mockRedis = vi.mocked(redis);
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+function createJob(overrides: Partial<JobDefinition> = {}): JobDefinition {
+  return {
+    name: 'test-job',
+    description: 'Test job',
+    intervalSeconds: 60,
+    timeoutSeconds: 30,
+    run: vi.fn().mockResolvedValue({ processed: 3 }),
+    ...overrides,
+  };
+}
+
+/**
+ * Answer the last-start lookup; everything else returns no rows.
+ */
+function mockLastStart(startedAt: Date | null): void {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('SELECT started_at FROM job_runs')) {
+      return mockQueryResult(startedAt ? [{ started_at: startedAt }] : []);
+    }
+    return mockQueryResult([], 1);
+  });
+}
+
+function findCall(fragment: string): unknown[] | undefined {
+  const call = mockQuery.mock.calls.find(([sql]) => sql.includes(fragment));
+  return call?.[1] as unknown[] | undefined;
+}
+
+describe('JobScheduler', () => {
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    locks.clear();
+    uuidCounter = 0;
+    scheduler = new JobScheduler();
+  });
+
+  describe('register', () => {
+    it('should reject duplicate job names', () => {
+      scheduler.register(createJob());
+
+      expect(() => scheduler.register(createJob())).toThrow('Job already registered');
+    });
+  });
+
+  describe('runIfDue', () => {
+    it('should run a due job and record its result', async () => {
+      const job = createJob();
+      scheduler.register(job);
+      mockLastStart(new Date(now.getTime() - 61_000));
+
+      const run = await scheduler.runIfDue('test-job', now);
+
+      expect(job.run).toHaveBeenCalledWith(now);
+      expect(run?.status).toBe('succeeded');
+      expect(run?.result).toEqual({ processed: 3 });
+      expect(run?.instanceId).toBe(scheduler.instanceId);
+      expect(findCall('INSERT INTO job_runs')).toEqual([run?.id, 'test-job', scheduler.instanceId, now]);
+
+      const update = findCall('SET status = $2');
+      expect(update?.[1]).toBe('succeeded');
+      expect(update?.[4]).toBe(JSON.stringify({ processed: 3 }));
+      expect(update?.[5]).toBeNull();
+    });
+
+    it('should run a job that has never run', async () => {
+      const job = createJob();
+      scheduler.register(job);
+      mockLastStart(null);
+
+      await scheduler.runIfDue('test-job', now);
+
+      expect(job.run).toHaveBeenCalled();
+    });
+
+    it('should take the lock with the job timeout and release it after', async () => {
+      scheduler.register(createJob());
+      mockLastStart(null);
+
+      await scheduler.runIfDue('test-job', now);
+
+      expect(mockRedis.set).toHaveBeenCalledWith('job_lock:test-job', expect.any(String), 'PX', 30_000, 'NX');
+      expect(mockRedis.eval).toHaveBeenCalled();
+      expect(locks.size).toBe(0);
+    });
+
+    it('should skip a job another instance holds the lock for', async () => {
+      const job = createJob();
+      scheduler.register(job);
+      locks.set('job_lock:test-job', 'other-instance');
+
+      const run = await scheduler.runIfDue('test-job', now);
+
+      expect(run).toBeNull();
+      expect(job.run).not.toHaveBeenCalled();
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(locks.get('job_lock:test-job')).toBe('other-instance');
+    });
+
+    it('should skip a job that ran within its interval', async () => {
+      const job = createJob();
+      scheduler.register(job);
+      mockLastStart(new Date(now.getTime() - 30_000));
+
+      const run = await scheduler.runIfDue('test-job', now);
+
+      expect(run).toBeNull();
+      expect(job.run).not.toHaveBeenCalled();
+      expect(findCall('INSERT INTO job_runs')).toBeUndefined();
+      expect(locks.size).toBe(0);
+    });
+
+    it('should record a failed run and release the lock', async () => {
+      const job = createJob({ run: vi.fn().mockRejectedValue(new Error('Database unavailable')) });
+      scheduler.register(job);
+      mockLastStart(null);
+
+      const run = await scheduler.runIfDue('test-job', now);
+
+      expect(run?.status).toBe('failed');
+      expect(run?.error).toBe('Database unavailable');
+
+      const update = findCall('SET status = $2');
+      expect(update?.[1]).toBe('failed');
+      expect(update?.[4]).toBeNull();
+      expect(update?.[5]).toBe('Database unavailable');
+      expect(locks.size).toBe(0);
+    });
+
+    it('should fail a run that outlives its timeout but hold the lock until it stops', async () => {
+      vi.useFakeTimers();
+      try {
+        let finish: (value: { processed: number }) => void = () => undefined;
+        const job = createJob({ run: vi.fn(() => new Promise((resolve) => { finish = resolve; })) });
+        scheduler.register(job);
+        mockLastStart(null);
+
+        const pending = scheduler.runIfDue('test-job', now);
+        await vi.advanceTimersByTimeAsync(30_000);
+
+        expect(findCall('SET status = $2')?.[1]).toBe('failed');
+        expect(findCall('SET status = $2')?.[5]).toBe('Timed out after 30s');
+        expect(locks.has('job_lock:test-job')).toBe(true);
+        expect(await scheduler.runIfDue('test-job', new Date(now.getTime() + 60_000))).toBeNull();
+
+        finish({ processed: 1 });
+        const run = await pending;
+
+        expect(run?.status).toBe('failed');
+        expect(job.run).toHaveBeenCalledTimes(1);
+        expect(locks.size).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should renew the lock while the job runs', async () => {
+      vi.useFakeTimers();
+      try {
+        let finish: (value: { processed: number }) => void = () => undefined;
+        const job = createJob({ run: vi.fn(() => new Promise((resolve) => { finish = resolve; })) });
+        scheduler.register(job);
+        mockLastStart(null);
+
+        const pending = scheduler.runIfDue('test-job', now);
+        await vi.advanceTimersByTimeAsync(25_000);
+
+        const renewals = mockRedis.eval.mock.calls.filter(([script]) => String(script).includes('pexpire'));
+        expect(renewals).toHaveLength(2);
+        expect(renewals[0]?.slice(2)).toEqual(['job_lock:test-job', locks.get('job_lock:test-job'), 30_000]);
+
+        finish({ processed: 1 });
+        await pending;
+        await vi.advanceTimersByTimeAsync(30_000);
+
+        expect(mockRedis.eval.mock.calls.filter(([script]) => String(script).includes('pexpire'))).toHaveLength(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should mark runs abandoned by a crashed instance as failed', async () => {
+      scheduler.register(createJob());
+      mockLastStart(new Date(now.getTime() - 120_000));
+
+      await scheduler.runIfDue('test-job', now);
+
+      expect(findCall("WHERE job_name = $1 AND status = 'running'")).toEqual(['test-job', now]);
+    });
+
+    it('should not start a job already running on this instance', async () => {
+      let finish: (value: { processed: number }) => void = () => undefined;
+      const job = createJob({ run: vi.fn(() => new Promise((resolve) => { finish = resolve; })) });
+      scheduler.register(job);
+      mockLastStart(null);
+
+      const first = scheduler.runIfDue('test-job', now);
+      const second = await scheduler.runIfDue('test-job', now);
+      await vi.waitFor(() => expect(job.run).toHaveBeenCalled());
+      finish({ processed: 1 });
+
+      expect(second).toBeNull();
+      expect((await first)?.status).toBe('succeeded');
+      expect(job.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the run when Redis is unavailable', async () => {
+      const job = createJob();
+      scheduler.register(job);
+      mockRedis.set.mockRejectedValueOnce(new Error('Connection refused'));
+
+      const run = await scheduler.runIfDue('test-job', now);
+
+      expect(run).toBeNull();
+      expect(job.run).not.toHaveBeenCalled();
+    });
+
+    it('should throw for an unknown job', async () => {
+      await expect(scheduler.runIfDue('missing', now)).rejects.toThrow('Unknown job');
+    });
+  });
+
+  describe('across instances', () => {
+    it('should run a job on only one of several instances ticking together', async () => {
+      const job = createJob();
+      const instances = [new JobScheduler(), new JobScheduler(), new JobScheduler()];
+      for (const instance of instances) {
+        instance.register(job);
+      }
+
+      // Runs become visible to the due check once recorded
+      const started: Date[] = [];
+      mockQuery.mockImplementation(async (sql: string, params?: unknown[]) => {
+        if (sql.includes('SELECT started_at FROM job_runs')) {
+          const latest = started[started.length - 1];
+          return mockQueryResult(latest ? [{ started_at: latest }] : []);
+        }
+        if (sql.includes('INSERT INTO job_runs')) {
+          started.push(params?.[3] as Date);
+        }
+        return mockQueryResult([], 1);
+      });
+
+      const first = await Promise.all(instances.map((instance) => instance.tick(now)));
+      const second = await Promise.all(instances.map((instance) => instance.tick(new Date(now.getTime() + 15_000))));
+
+      expect(first).toHaveLength(3);
+      expect(second).toHaveLength(3);
+      expect(job.run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should combine last runs, failures and lock state', async () => {
+      scheduler.register(createJob());
+      scheduler.register(createJob({ name: 'idle-job' }));
+      locks.set('job_lock:test-job', 'some-token');
+
+      const lastStart = new Date(now.getTime() - 20_000);
+      const failedAt = new Date(now.getTime() - 3_600_000);
+      const row = (status: string, startedAt: Date, error: string | null) => ({
+        id: createTestUuid(status === 'failed' ? 2 : 1),
+        job_name: 'test-job',
+        instance_id: 'host:1',
+        status,
+        started_at: startedAt,
+        finished_at: startedAt,
+        duration_ms: 12,
+        result: error ? null : { processed: 3 },
+        error,
+      });
+
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes("status = 'failed'\n")) {
+          return mockQueryResult([row('failed', failedAt, 'Boom')]);
+        }
+        if (sql.includes('DISTINCT ON')) {
+          return mockQueryResult([row('succeeded', lastStart, null)]);
+        }
+        return mockQueryResult([{ job_name: 'test-job', last_success_at: lastStart, recent_failures: '2' }]);
+      });
+
+      const [active, idle] = await scheduler.getStatus(now);
+
+      expect(active).toMatchObject({
+        name: 'test-job',
+        locked: true,
+        lastSuccessAt: lastStart,
+        recentFailures: 2,
+        nextRunAt: new Date(lastStart.getTime() + 60_000),
+      });
+      expect(active?.lastRun?.status).toBe('succeeded');
+      expect(active?.lastFailure?.error).toBe('Boom');
+
+      expect(idle).toMatchObject({ name: 'idle-job', locked: false, recentFailures: 0, nextRunAt: now });
+      expect(idle?.lastRun).toBeUndefined();
+    });
+  });
+
+  describe('pruneHistory', () => {
+    it('should delete finished runs older than the retention period', async () => {
+      mockQuery.mockResolvedValue(mockQueryResult([], 4));
+
+      const pruned = await scheduler.pruneHistory(now);
+
+      expect(pruned).toBe(4);
+      expect(findCall('DELETE FROM job_runs')).toEqual([new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000)]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for OutpostManager service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockQueryResult, testData, createTestUuid } from '../setup.js';
+
+const mockClient = vi.hoisted(() => ({ query: vi.fn() }));
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(async (fn: (client: typeof mockClient) => unknown) => fn(mockClient)),
+}));
+
+// Mock the influence manager
+vi.mock('../../services/turf/influence-manager.js', () => ({
+  influenceManager: {},
+}));
+
+// Mock the realtime bus
+vi.mock('../../services/realtime/event-bus.js', () => ({
+  realtimeBus: { publish: vi.fn() },
+  RealtimeTopics: {},
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { OutpostManager, moduleItemId } from '../../services/turf/outpost-manager.js';
+
+const mockQuery = vi.mocked(query);
+
+const outpostId = createTestUuid(20);
+const ownerId = testData.userId;
+
+describe('OutpostManager', () => {
+  let manager: OutpostManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    manager = new OutpostManager();
+
+    // Outpost row, then its (empty) module list
+    mockQuery
+      .mockResolvedValueOnce(mockQueryResult([{
+        id: outpostId,
+        cell_h3: testData.cellH3,
+        district_id: testData.districtId,
+        owner_id: ownerId,
+        crew_id: testData.crewId,
+        level: 1,
+        health: 100,
+        influence_per_hour: 5,
+        deployed_at: new Date(),
+        last_tick_at: new Date(),
+      }]))
+      .mockResolvedValueOnce(mockQueryResult([]));
+  });
+
+  describe('installModule', () => {
+    it('should spend a module item from the installer', async () => {
+      mockClient.query
+        .mockResolvedValueOnce(mockQueryResult([{ owner_id: ownerId, crew_officer: false }]))
+        .mockResolvedValueOnce(mockQueryResult([], 1))
+        .mockResolvedValueOnce(mockQueryResult([], 1));
+
+      const module = await manager.installModule(outpostId, ownerId, 'shield', 2);
+
+      expect(module.type).toBe('shield');
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE user_items SET quantity = quantity - 1'),
+        [ownerId, moduleItemId('shield', 2)]
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO outpost_modules'),
+        [outpostId, 'shield', 2]
+      );
+    });
+
+    it('should refuse to install without a module item', async () => {
+      mockClient.query
+        .mockResolvedValueOnce(mockQueryResult([{ owner_id: ownerId, crew_officer: false }]))
+        .mockResolvedValueOnce(mockQueryResult([], 0));
+
+      await expect(manager.installModule(outpostId, ownerId, 'shield', 2))
+        .rejects.toThrow(`Missing required item: ${moduleItemId('shield', 2)}`);
+      expect(mockClient.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO outpost_modules'),
+        expect.anything()
+      );
+    });
+  });
+});
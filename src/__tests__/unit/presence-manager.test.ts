@@ -0,0 +1,338 @@
+/**
+ * Unit tests for PresenceManager service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as h3 from 'h3-js';
+import { mockQueryResult, testData, createTestUuid } from '../setup.js';
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+}));
+
+// Mock Redis
+vi.mock('../../db/redis.js', () => ({
+  redis: {
+    get: vi.fn(),
+    setex: vi.fn(),
+    mget: vi.fn(),
+  },
+  RedisKeys: {
+    presence: (userId: string) => `presence:${userId}`,
+  },
+  RedisTTL: {
+    presence: 600,
+  },
+}));
+
+// Mock the outpost manager
+vi.mock('../../services/turf/outpost-manager.js', () => ({
+  outpostManager: {
+    getBeaconMultiplier: vi.fn(),
+  },
+}));
+
+// Mock the realtime bus
+vi.mock('../../services/realtime/event-bus.js', () => ({
+  realtimeBus: {
+    publish: vi.fn(),
+  },
+  RealtimeTopics: {
+    crew: (crewId: string) => `crew:${crewId}`,
+    user: (userId: string) => `user:${userId}`,
+  },
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { redis } from '../../db/redis.js';
+import { outpostManager } from '../../services/turf/outpost-manager.js';
+import { realtimeBus } from '../../services/realtime/event-bus.js';
+import { PresenceManager } from '../../services/turf/presence-manager.js';
+
+const mockQuery = vi.mocked(query);
+const mockRedis = vi.mocked(redis);
+const mockOutpostManager = vi.mocked(outpostManager);
+const mockRealtimeBus = vi.mocked(realtimeBus);
+
+const mateId = createTestUuid(20);
+const viewerCell = h3.cellToParent(testData.cellH3, 7);
+
+/**
+ * A resolution 7 cell whose centre is within the given distance band of
+ * the viewer's cell.
+ */
+function cellAt(minKm: number, maxKm: number): string {
+  const center = h3.cellToLatLng(viewerCell);
+  const cell = h3.gridDisk(viewerCell, 4).find((c) => {
+    const km = h3.greatCircleDistance(center, h3.cellToLatLng(c), h3.UNITS.km);
+    return km > minKm && km <= maxKm;
+  });
+  if (!cell) {
+    throw new Error('No cell in range');
+  }
+  return cell;
+}
+
+function cellDistanceKm(a: string, b: string): number {
+  return h3.greatCircleDistance(h3.cellToLatLng(a), h3.cellToLatLng(b), h3.UNITS.km);
+}
+
+function stored(cellH3: string, crewId: string = testData.crewId): string {
+  return JSON.stringify({ crewId, cellH3, updatedAt: '2026-03-01T12:00:00.000Z' });
+}
+
+function mockUser(crewId: string | null, hidden: boolean = false): void {
+  mockQuery.mockResolvedValueOnce(mockQueryResult([{ crew_id: crewId, presence_hidden: hidden }]));
+}
+
+describe('PresenceManager', () => {
+  let manager: PresenceManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    manager = new PresenceManager();
+    mockOutpostManager.getBeaconMultiplier.mockResolvedValue(1.0);
+  });
+
+  describe('recordPresence', () => {
+    it('should store the resolution 7 parent of the validated cell with a TTL', async () => {
+      mockUser(testData.crewId);
+      mockRedis.get.mockResolvedValueOnce(null);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+
+      await manager.recordPresence(testData.userId, testData.cellH3, new Date('2026-03-01T12:00:00Z'));
+
+      expect(mockRedis.setex).toHaveBeenCalledWith(
+        `presence:${testData.userId}`,
+        600,
+        stored(viewerCell)
+      );
+    });
+
+    it('should push the new cell only to crewmates whose radius covers it', async () => {
+      const farId = createTestUuid(21);
+      mockUser(testData.crewId);
+      mockRedis.get.mockResolvedValueOnce(null);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: mateId }, { id: farId }]));
+      mockRedis.mget.mockResolvedValueOnce([stored(cellAt(1, 3)), stored(cellAt(6, 10))]);
+
+      await manager.recordPresence(testData.userId, testData.cellH3);
+
+      expect(mockRealtimeBus.publish).toHaveBeenCalledTimes(1);
+      expect(mockRealtimeBus.publish).toHaveBeenCalledWith(
+        'presence_changed',
+        [`user:${mateId}`],
+        { userId: testData.userId, crewId: testData.crewId, cellH3: viewerCell }
+      );
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('FROM users WHERE crew_id = $1'),
+        [testData.crewId, testData.userId]
+      );
+    });
+
+    it('should not push to a crewmate outside the radius', async () => {
+      mockUser(testData.crewId);
+      mockRedis.get.mockResolvedValueOnce(null);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: mateId }]));
+      mockRedis.mget.mockResolvedValueOnce([stored(cellAt(3.5, 4.5))]);
+
+      await manager.recordPresence(testData.userId, testData.cellH3);
+
+      expect(mockRealtimeBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should use the beacon-widened radius of the crewmate\'s own cell', async () => {
+      const mateCell = cellAt(3.5, 4.5);
+      mockOutpostManager.getBeaconMultiplier.mockResolvedValueOnce(1.5);
+      mockUser(testData.crewId);
+      mockRedis.get.mockResolvedValueOnce(null);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: mateId }]));
+      mockRedis.mget.mockResolvedValueOnce([stored(mateCell)]);
+
+      await manager.recordPresence(testData.userId, testData.cellH3);
+
+      expect(mockOutpostManager.getBeaconMultiplier).toHaveBeenCalledWith(testData.crewId, mateCell, 3);
+      expect(mockRealtimeBus.publish).toHaveBeenCalledWith(
+        'presence_changed',
+        [`user:${mateId}`],
+        expect.objectContaining({ cellH3: viewerCell })
+      );
+    });
+
+    it('should drop the player from maps whose radius it left', async () => {
+      const previous = cellAt(1, 3);
+      // A crewmate near the old cell but out of range of the new one
+      const mateCell = h3.gridDisk(previous, 1).find((c) => c !== previous && cellDistanceKm(c, viewerCell) > 3);
+      if (!mateCell) {
+        throw new Error('No cell in range');
+      }
+      mockUser(testData.crewId);
+      mockRedis.get.mockResolvedValueOnce(stored(previous));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: mateId }]));
+      mockRedis.mget.mockResolvedValueOnce([stored(mateCell)]);
+
+      await manager.recordPresence(testData.userId, testData.cellH3);
+
+      expect(mockRealtimeBus.publish).toHaveBeenCalledWith(
+        'presence_changed',
+        [`user:${mateId}`],
+        { userId: testData.userId, crewId: testData.crewId, cellH3: null }
+      );
+    });
+
+    it('should only push when the player moves to another cell', async () => {
+      mockUser(testData.crewId);
+      mockRedis.get.mockResolvedValueOnce(stored(viewerCell));
+
+      await manager.recordPresence(testData.userId, testData.cellH3);
+
+      expect(mockRedis.setex).toHaveBeenCalled();
+      expect(mockRealtimeBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should not push presence for hidden players', async () => {
+      mockUser(testData.crewId, true);
+      mockRedis.get.mockResolvedValueOnce(null);
+
+      await manager.recordPresence(testData.userId, testData.cellH3);
+
+      expect(mockRedis.setex).toHaveBeenCalled();
+      expect(mockRealtimeBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should ignore players without a crew', async () => {
+      mockUser(null);
+
+      await manager.recordPresence(testData.userId, testData.cellH3);
+
+      expect(mockRedis.setex).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the caller when Redis is unavailable', async () => {
+      mockUser(testData.crewId);
+      mockRedis.get.mockRejectedValueOnce(new Error('Connection is closed'));
+
+      await expect(manager.recordPresence(testData.userId, testData.cellH3)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('setHidden', () => {
+    it('should remove the player from crewmates\' maps', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ crew_id: testData.crewId }]));
+      mockRedis.get.mockResolvedValueOnce(stored(viewerCell));
+
+      await manager.setHidden(testData.userId, true);
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('SET presence_hidden'), [testData.userId, true]);
+      expect(mockRealtimeBus.publish).toHaveBeenCalledWith(
+        'presence_changed',
+        [`crew:${testData.crewId}`],
+        { userId: testData.userId, crewId: testData.crewId, cellH3: null }
+      );
+    });
+
+    it('should show the player again only within crewmates\' radius', async () => {
+      const farId = createTestUuid(21);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ crew_id: testData.crewId }]));
+      mockRedis.get.mockResolvedValueOnce(stored(viewerCell));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: mateId }, { id: farId }]));
+      mockRedis.mget.mockResolvedValueOnce([stored(cellAt(1, 3)), stored(cellAt(6, 10))]);
+
+      await manager.setHidden(testData.userId, false);
+
+      expect(mockRealtimeBus.publish).toHaveBeenCalledTimes(1);
+      expect(mockRealtimeBus.publish).toHaveBeenCalledWith(
+        'presence_changed',
+        [`user:${mateId}`],
+        { userId: testData.userId, crewId: testData.crewId, cellH3: viewerCell }
+      );
+    });
+
+    it('should throw when the user does not exist', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+
+      await expect(manager.setHidden(testData.userId, true)).rejects.toThrow('User not found');
+    });
+  });
+
+  describe('getNearbyCrewmates', () => {
+    it('should list crewmates within the base radius', async () => {
+      const near = cellAt(1, 3);
+      const far = cellAt(6, 10);
+      const farId = createTestUuid(21);
+      mockUser(testData.crewId);
+      mockRedis.get.mockResolvedValueOnce(stored(viewerCell));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([
+        { id: mateId, username: 'mate' },
+        { id: farId, username: null },
+      ]));
+      mockRedis.mget.mockResolvedValueOnce([stored(near), stored(far)]);
+
+      const view = await manager.getNearbyCrewmates(testData.userId);
+
+      expect(view.cellH3).toBe(viewerCell);
+      expect(view.radiusKm).toBe(3);
+      expect(view.members).toEqual([
+        { userId: mateId, username: 'mate', cellH3: near, updatedAt: new Date('2026-03-01T12:00:00Z') },
+      ]);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('NOT presence_hidden'),
+        [testData.crewId, testData.userId]
+      );
+    });
+
+    it('should widen the radius near a crew beacon', async () => {
+      const edge = cellAt(3, 4.5);
+      mockOutpostManager.getBeaconMultiplier.mockResolvedValueOnce(1.5);
+      mockUser(testData.crewId);
+      mockRedis.get.mockResolvedValueOnce(stored(viewerCell));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: mateId, username: 'mate' }]));
+      mockRedis.mget.mockResolvedValueOnce([stored(edge)]);
+
+      const view = await manager.getNearbyCrewmates(testData.userId);
+
+      expect(mockOutpostManager.getBeaconMultiplier).toHaveBeenCalledWith(testData.crewId, viewerCell, 3);
+      expect(view.radiusKm).toBe(4.5);
+      expect(view.members.map((m) => m.cellH3)).toEqual([edge]);
+    });
+
+    it('should skip presence recorded for another crew', async () => {
+      mockUser(testData.crewId);
+      mockRedis.get.mockResolvedValueOnce(stored(viewerCell));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: mateId, username: 'mate' }]));
+      mockRedis.mget.mockResolvedValueOnce([stored(viewerCell, createTestUuid(5))]);
+
+      const view = await manager.getNearbyCrewmates(testData.userId);
+
+      expect(view.members).toEqual([]);
+    });
+
+    it('should return no crewmates without a recent location', async () => {
+      mockUser(testData.crewId, true);
+      mockRedis.get.mockResolvedValueOnce(null);
+
+      const view = await manager.getNearbyCrewmates(testData.userId);
+
+      expect(view).toEqual({ cellH3: null, radiusKm: 3, hidden: true, members: [] });
+      expect(mockRedis.mget).not.toHaveBeenCalled();
+    });
+
+    it('should throw when not in a crew', async () => {
+      mockUser(null);
+
+      await expect(manager.getNearbyCrewmates(testData.userId)).rejects.toThrow('Not in a crew');
+    });
+  });
+});
@@ -4,11 +4,16 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { mockQueryResult, testData, createTestUuid } from '../setup.js';
-import type { Outpost, RaidResult } from '../../types/turf.js';
+import type { Outpost, Raid, RaidResult } from '../../types/turf.js';
+import type { Synthling, SynthlingStats } from '../../types/synthling.js';
+import type { PlaceFingerprint } from '../../types/fingerprint.js';
+
+const mockClient = vi.hoisted(() => ({ query: vi.fn() }));
 
 // Mock the database module
 vi.mock('../../db/connection.js', () => ({
   query: vi.fn(),
+  transaction: vi.fn(async (fn: (client: typeof mockClient) => unknown) => fn(mockClient)),
 }));
 
 // Mock the influence manager
@@ -24,10 +29,42 @@ vi.mock('../../services/turf/influence-manager.js', () => ({
 vi.mock('../../services/turf/outpost-manager.js', () => ({
   outpostManager: {
     getOutpostAtCell: vi.fn(),
+    getNearbyOutposts: vi.fn().mockResolvedValue([]),
     damageOutpost: vi.fn(),
   },
 }));
 
+// Mock the contract manager
+vi.mock('../../services/turf/contract-manager.js', () => ({
+  contractManager: {
+    recordProgress: vi.fn(),
+  },
+}));
+
+// Mock the crew manager
+vi.mock('../../services/turf/crew-manager.js', () => ({
+  crewManager: {
+    getCooldownUntil: vi.fn().mockResolvedValue(null),
+  },
+}));
+
+// Mock the diplomacy manager
+vi.mock('../../services/turf/diplomacy-manager.js', () => ({
+  diplomacyManager: {
+    getActiveRelation: vi.fn().mockResolvedValue(null),
+    getAllies: vi.fn().mockResolvedValue([]),
+  },
+}));
+
+// Mock the synthling collection
+vi.mock('../../services/synthling/collection.js', () => ({
+  synthlingCollection: {
+    getOwnedSquad: vi.fn(),
+    getSquad: vi.fn(),
+    getCrewDefenders: vi.fn(),
+  },
+}));
+
 // Mock the logger
 vi.mock('../../utils/logger.js', () => ({
   createLogger: () => ({
@@ -43,377 +80,800 @@ vi.mock('uuid', () => ({
   v4: vi.fn(() => createTestUuid(200)),
 }));
 
+// Mock the realtime bus
+vi.mock('../../services/realtime/event-bus.js', () => ({
+  realtimeBus: {
+    publish: vi.fn(),
+  },
+  RealtimeTopics: {
+    cell: (h3Index: string) => `cell:${h3Index}`,
+    district: (districtId: string) => `district:${districtId}`,
+    crew: (crewId: string) => `crew:${crewId}`,
+  },
+}));
+
 // Import after mocks are set up
 import { query } from '../../db/connection.js';
 import { influenceManager } from '../../services/turf/influence-manager.js';
 import { outpostManager } from '../../services/turf/outpost-manager.js';
+import { synthlingCollection } from '../../services/synthling/collection.js';
+import { contractManager } from '../../services/turf/contract-manager.js';
+import { crewManager } from '../../services/turf/crew-manager.js';
+import { diplomacyManager } from '../../services/turf/diplomacy-manager.js';
 import { RaidEngine } from '../../services/turf/raid-engine.js';
 
 const mockQuery = vi.mocked(query);
 const mockInfluenceManager = vi.mocked(influenceManager);
 const mockOutpostManager = vi.mocked(outpostManager);
+const mockCollection = vi.mocked(synthlingCollection);
+const mockContractManager = vi.mocked(contractManager);
+const mockCrewManager = vi.mocked(crewManager);
+const mockDiplomacyManager = vi.mocked(diplomacyManager);
+
+const attackingCrewId = createTestUuid(4);
+const attackingUserId = createTestUuid(5);
+const defendingCrewId = testData.crewId;
+const targetCell = testData.cellH3;
+const raidId = createTestUuid(200);
+const startedAt = new Date('2026-03-01T18:00:00Z');
+const windowEndsAt = new Date('2026-03-01T22:00:00Z');
+
+function createSynthling(n: number, ownerId: string, stats: Partial<SynthlingStats> = {}): Synthling {
+  const color = { r: 100, g: 100, b: 100 };
+  const fullStats = { vitality: 60, power: 45, resilience: 40, agility: 50, focus: 50, ...stats };
+
+  return {
+    id: createTestUuid(n),
+    archetypeId: 'ARCH_003',
+    ownerId,
+    imprint: {
+      palette: { primary: color, secondary: color, accent: color },
+      pattern: { type: 'solid', intensity: 0.5 },
+      morphology: { scale: 1, proportion: 1, texture: 'smooth' },
+      voice: { pitch: 1, timbre: 'warm', rhythm: 1 },
+    },
+    stats: fullStats,
+    level: 10,
+    experience: 0,
+    moves: [],
+    condition: { currentHp: fullStats.vitality, maxHp: fullStats.vitality, statusEffects: [], fatigue: 0 },
+    capturedAt: new Date('2026-02-01T12:00:00Z'),
+    capturedAtCell: targetCell,
+    capturedFingerprint: {} as PlaceFingerprint,
+    evolutionHistory: [],
+  };
+}
+
+function withStats(synthling: Synthling, stats: SynthlingStats): Synthling {
+  return {
+    ...synthling,
+    stats,
+    condition: { ...synthling.condition, currentHp: stats.vitality, maxHp: stats.vitality },
+  };
+}
+
+const strong = { vitality: 200, power: 120, resilience: 100, agility: 90, focus: 120 };
+const weak = { vitality: 30, power: 20, resilience: 20, agility: 20, focus: 20 };
+
+const attackers = [
+  createSynthling(31, attackingUserId),
+  createSynthling(32, attackingUserId),
+  createSynthling(33, attackingUserId),
+];
+const defenders = [
+  createSynthling(41, testData.userId),
+  createSynthling(42, testData.userId),
+];
+
+function cellInfluence(controllingCrewId: string | null = defendingCrewId) {
+  return {
+    h3Index: targetCell,
+    districtId: testData.districtId,
+    controllingCrewId: controllingCrewId ?? undefined,
+    influenceScores: controllingCrewId ? { [controllingCrewId]: 100 } : {},
+    totalInfluence: controllingCrewId ? 100 : 0,
+    lastDecayAt: new Date(),
+  };
+}
+
+function raidRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: raidId,
+    attacking_crew_id: attackingCrewId,
+    attacking_user_id: attackingUserId,
+    target_cell_h3: targetCell,
+    target_outpost_id: null,
+    defending_crew_id: defendingCrewId,
+    status: 'pending',
+    attacker_squad: attackers.map((s) => s.id),
+    defender_squad: defenders.map((s) => s.id),
+    defended_by: null,
+    attack_power: 735,
+    defense_power: 588,
+    started_at: startedAt,
+    window_ends_at: windowEndsAt,
+    resolved_at: null,
+    attacker_cooldown_until: null,
+    against_rival: false,
+    result: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Mock everything resolveRaid reads, with the cell's scores before settlement.
+ */
+function mockResolve(
+  attackerSquad: Synthling[],
+  defenderSquad: Synthling[],
+  row: Record<string, unknown> = {},
+  scores: Record<string, number> = { [defendingCrewId]: 100, [attackingCrewId]: 40 },
+  players: Record<string, number> = {}
+): void {
+  mockQuery.mockResolvedValueOnce(mockQueryResult([raidRow(row)]));
+  mockCollection.getSquad
+    .mockResolvedValueOnce(attackerSquad)
+    .mockResolvedValueOnce(defenderSquad);
+  mockOutpostManager.getOutpostAtCell.mockResolvedValueOnce(null);
+  mockClient.query.mockResolvedValueOnce(mockQueryResult([{ status: 'pending' }])); // Raid lock
+  if (defenderSquad.length > 0) {
+    // Defender owners still in the defending crew
+    mockClient.query.mockResolvedValueOnce(
+      mockQueryResult([...new Set(defenderSquad.map((s) => s.ownerId))].map((id) => ({ id })))
+    );
+  }
+  mockClient.query.mockResolvedValueOnce(
+    mockQueryResult([{ controlling_crew_id: defendingCrewId, influence_scores: scores, player_influence: players }])
+  );
+}
+
+function getClientCall(fragment: string): unknown[] {
+  const call = mockClient.query.mock.calls.find(([text]) => String(text).includes(fragment));
+  return (call?.[1] ?? []) as unknown[];
+}
+
+function getStoredResult(): RaidResult {
+  return JSON.parse(String(getClientCall("SET status = 'resolved'")[0])) as RaidResult;
+}
+
+/**
+ * Influence events written during settlement as [crewId, userId, source, amount].
+ */
+function getInfluenceEvents(): unknown[][] {
+  return mockClient.query.mock.calls
+    .filter(([text]) => String(text).includes('INSERT INTO influence_events'))
+    .map(([, params]) => (params as unknown[]).slice(2, 6));
+}
+
+function getStoredScores(): Record<string, number> {
+  return JSON.parse(String(getClientCall('UPDATE turf_cells')[1])) as Record<string, number>;
+}
 
 describe('RaidEngine', () => {
   let engine: RaidEngine;
 
-  const attackingCrewId = createTestUuid(4);
-  const attackingUserId = createTestUuid(5);
-  const defendingCrewId = testData.crewId;
-  const targetCell = testData.cellH3;
-
   beforeEach(() => {
     vi.clearAllMocks();
+    mockQuery.mockResolvedValue(mockQueryResult([], 1));
+    mockClient.query.mockResolvedValue(mockQueryResult([], 1));
     engine = new RaidEngine();
   });
 
   describe('initiateRaid', () => {
-    it('should initiate a raid on controlled cell', async () => {
-      // No recent raids (cooldown check)
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+    const squadIds = attackers.map((s) => s.id);
 
-      // Cell has controlling crew
-      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce({
-        h3Index: targetCell,
-        districtId: testData.districtId,
-        controllingCrewId: defendingCrewId,
-        influenceScores: { [defendingCrewId]: 100 },
-        totalInfluence: 100,
-        lastDecayAt: new Date(),
-      });
+    function mockInitiate(outpost: Outpost | null = null): void {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No cooldown
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No failed-raid cooldown
+      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce(cellInfluence());
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No active raid
+      mockCollection.getOwnedSquad.mockResolvedValueOnce(attackers);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // Not committed elsewhere
+      mockOutpostManager.getOutpostAtCell.mockResolvedValueOnce(outpost);
+      mockCollection.getCrewDefenders.mockResolvedValueOnce(defenders);
+    }
 
-      // No outpost at cell
-      mockOutpostManager.getOutpostAtCell.mockResolvedValueOnce(null);
+    it('should open a pending raid window with the committed squad against crew defenders', async () => {
+      mockInitiate();
 
-      // Calculate defense power - return cell info again
-      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce({
-        h3Index: targetCell,
-        districtId: testData.districtId,
-        controllingCrewId: defendingCrewId,
-        influenceScores: { [defendingCrewId]: 100 },
-        totalInfluence: 100,
-        lastDecayAt: new Date(),
-      });
+      const raid = await engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds, startedAt);
 
-      // No outpost for defense calculation
-      mockOutpostManager.getOutpostAtCell.mockResolvedValueOnce(null);
+      expect(raid.attackingCrewId).toBe(attackingCrewId);
+      expect(raid.defendingCrewId).toBe(defendingCrewId);
+      expect(raid.targetCellH3).toBe(targetCell);
+      expect(raid.status).toBe('pending');
+      expect(raid.windowEndsAt).toEqual(windowEndsAt);
+      expect(raid.attackerSquad).toEqual(squadIds);
+      expect(raid.defenderSquad).toEqual(defenders.map((s) => s.id));
+      expect(raid.result).toBeUndefined();
+
+      expect(mockCollection.getOwnedSquad).toHaveBeenCalledWith(attackingUserId, squadIds);
+      expect(mockCollection.getCrewDefenders).toHaveBeenCalledWith(defendingCrewId, null, 3);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO raids'),
+        [
+          raidId, attackingCrewId, attackingUserId, targetCell, null, defendingCrewId,
+          squadIds, defenders.map((s) => s.id), 735, 588, startedAt, windowEndsAt, false,
+        ]
+      );
+      expect(mockCollection.getSquad).not.toHaveBeenCalled();
+    });
 
-      // Insert raid
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+    it('should prefer the outpost owner\'s Synthlings as defenders', async () => {
+      const outpost: Outpost = { ...testData.createOutpost(), level: 2, modules: [] };
+      mockInitiate(outpost);
 
-      // resolveRaid: fetch raid
-      mockQuery.mockResolvedValueOnce(
-        mockQueryResult([
-          {
-            id: createTestUuid(200),
-            attacking_crew_id: attackingCrewId,
-            attacking_user_id: attackingUserId,
-            target_cell_h3: targetCell,
-            target_outpost_id: null,
-            status: 'pending',
-            attack_power: 50,
-            defense_power: 120, // 100 * 1.2 defense bonus
-            started_at: new Date(),
-          },
-        ])
-      );
+      await engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds, startedAt);
 
-      // resolveRaid: getCellInfluence for defender bonus
-      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce({
-        h3Index: targetCell,
-        districtId: testData.districtId,
-        controllingCrewId: defendingCrewId,
-        influenceScores: { [defendingCrewId]: 100 },
-        totalInfluence: 100,
-        lastDecayAt: new Date(),
-      });
+      expect(mockCollection.getCrewDefenders).toHaveBeenCalledWith(defendingCrewId, outpost.ownerId, 3);
+    });
 
-      // Defender reward query
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+    it('should reject a second raid on a cell with an active raid', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No cooldown
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No failed-raid cooldown
+      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce(cellInfluence());
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: createTestUuid(201) }]));
 
-      // Update raid status
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+      await expect(
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds)
+      ).rejects.toThrow('Cell is already under raid');
+    });
 
-      const raid = await engine.initiateRaid(
-        targetCell,
-        attackingCrewId,
-        attackingUserId,
-        50
-      );
+    it('should report a lost race for the cell as an active raid', async () => {
+      mockInitiate();
+      mockQuery.mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }));
 
-      expect(raid.attackingCrewId).toBe(attackingCrewId);
-      expect(raid.targetCellH3).toBe(targetCell);
-      expect(raid.status).toBe('resolved');
+      await expect(
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds)
+      ).rejects.toThrow('Cell is already under raid');
+    });
+
+    it('should reject Synthlings committed to another raid', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No cooldown
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No failed-raid cooldown
+      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce(cellInfluence());
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No active raid
+      mockCollection.getOwnedSquad.mockResolvedValueOnce(attackers);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: createTestUuid(201) }]));
+
+      await expect(
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds)
+      ).rejects.toThrow('Synthlings are already committed to another raid');
     });
 
-    it('should reject raid with insufficient attack power', async () => {
+    it('should reject empty, oversized and duplicate squads', async () => {
+      const message = 'Raid squads must have 1-3 different Synthlings';
+
+      await expect(engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, [])).rejects.toThrow(message);
+      await expect(
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, [...squadIds, createTestUuid(34)])
+      ).rejects.toThrow(message);
+      await expect(
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, [createTestUuid(31), createTestUuid(31)])
+      ).rejects.toThrow(message);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject squads with Synthlings the attacker does not own', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No failed-raid cooldown
+      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce(cellInfluence());
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+      mockCollection.getOwnedSquad.mockResolvedValueOnce(attackers.slice(0, 2));
+
+      await expect(
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds)
+      ).rejects.toThrow('Squad contains Synthlings you do not own');
+    });
+
+    it('should reject fainted Synthlings', async () => {
+      const fainted = createSynthling(31, attackingUserId);
+      fainted.condition.currentHp = 0;
+
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No failed-raid cooldown
+      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce(cellInfluence());
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+      mockCollection.getOwnedSquad.mockResolvedValueOnce([fainted]);
+
       await expect(
-        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, 5)
-      ).rejects.toThrow('Minimum attack power is 10');
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, [fainted.id])
+      ).rejects.toThrow('Fainted Synthlings cannot raid');
     });
 
     it('should reject raid during cooldown', async () => {
+      const now = new Date('2026-03-05T12:00:00Z');
       // Recent raid exists
       mockQuery.mockResolvedValueOnce(
         mockQueryResult([{ id: createTestUuid(100) }])
       );
 
       await expect(
-        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, 50)
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds, now)
       ).rejects.toThrow('Must wait 30 minutes between raids');
+      expect(mockQuery.mock.calls[0]?.[0]).not.toContain('NOW()');
+      expect(mockQuery.mock.calls[0]?.[1]).toEqual([attackingUserId, now]);
     });
 
-    it('should reject raid on uncontrolled cell', async () => {
+    it('should reject raids during a crew-switch cooldown', async () => {
+      const cooldownUntil = new Date('2026-03-05T18:00:00Z');
+      mockCrewManager.getCooldownUntil.mockResolvedValueOnce(cooldownUntil);
+
+      await expect(
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds, startedAt)
+      ).rejects.toThrow(`Crew cooldown active until ${cooldownUntil.toISOString()}`);
+      expect(mockCrewManager.getCooldownUntil).toHaveBeenCalledWith(attackingUserId, startedAt);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject raids on a cell the attacker recently failed to take', async () => {
+      const cooldownUntil = new Date('2026-03-02T10:00:00Z');
       mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No cooldown
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ attacker_cooldown_until: cooldownUntil }]));
 
-      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce({
-        h3Index: targetCell,
-        districtId: testData.districtId,
-        controllingCrewId: undefined, // No controlling crew
-        influenceScores: {},
-        totalInfluence: 0,
-        lastDecayAt: new Date(),
-      });
+      await expect(
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds, startedAt)
+      ).rejects.toThrow(`Cannot raid this cell again until ${cooldownUntil.toISOString()}`);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('attacker_cooldown_until > $3'),
+        [attackingUserId, targetCell, startedAt]
+      );
+    });
+
+    it('should reject raid on uncontrolled cell', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No cooldown
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No failed-raid cooldown
+      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce(cellInfluence(null));
 
       await expect(
-        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, 50)
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds)
       ).rejects.toThrow('Cannot raid uncontrolled cell');
     });
 
-    it('should reject raid on own crew', async () => {
-      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No cooldown
+    it('should reject raids on allies and pact partners', async () => {
+      for (const [type, message] of [
+        ['alliance', 'Cannot raid an allied crew'],
+        ['non_aggression', 'Cannot raid a crew you have a non-aggression pact with'],
+      ] as const) {
+        mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No cooldown
+        mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No failed-raid cooldown
+        mockInfluenceManager.getCellInfluence.mockResolvedValueOnce(cellInfluence());
+        mockDiplomacyManager.getActiveRelation.mockResolvedValueOnce({
+          id: createTestUuid(90),
+          type,
+          status: 'active',
+          proposerCrewId: attackingCrewId,
+          targetCrewId: defendingCrewId,
+          proposedBy: attackingUserId,
+          proposedAt: startedAt,
+        });
+
+        await expect(
+          engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds, startedAt)
+        ).rejects.toThrow(message);
+      }
+
+      expect(mockDiplomacyManager.getActiveRelation).toHaveBeenCalledWith(attackingCrewId, defendingCrewId, startedAt);
+    });
 
-      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce({
-        h3Index: targetCell,
-        districtId: testData.districtId,
-        controllingCrewId: attackingCrewId, // Same as attacker
-        influenceScores: { [attackingCrewId]: 100 },
-        totalInfluence: 100,
-        lastDecayAt: new Date(),
+    it('should mark raids on declared rivals', async () => {
+      mockInitiate();
+      mockDiplomacyManager.getActiveRelation.mockResolvedValueOnce({
+        id: createTestUuid(90),
+        type: 'rivalry',
+        status: 'active',
+        proposerCrewId: defendingCrewId,
+        targetCrewId: attackingCrewId,
+        proposedBy: testData.userId,
+        proposedAt: startedAt,
       });
 
+      const raid = await engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds, startedAt);
+
+      expect(raid.againstRival).toBe(true);
+      expect(mockQuery.mock.calls.find(([sql]) => String(sql).includes('INSERT INTO raids'))?.[1]?.[12]).toBe(true);
+    });
+
+    it('should count allied outposts around the cell toward defense', async () => {
+      const alliedCrewId = createTestUuid(6);
+      mockInitiate();
+      mockDiplomacyManager.getAllies.mockResolvedValueOnce([alliedCrewId]);
+      mockOutpostManager.getNearbyOutposts.mockResolvedValueOnce([
+        { ...testData.createOutpost(), crewId: alliedCrewId, level: 2 },
+      ]);
+
+      const raid = await engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds, startedAt);
+
+      expect(raid.defensePower).toBe(607.6); // 490 x (1.2 + 2 x 0.02)
+      expect(mockOutpostManager.getNearbyOutposts).toHaveBeenCalledWith(targetCell, [alliedCrewId]);
+    });
+
+    it('should reject raid on own crew', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No cooldown
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // No failed-raid cooldown
+      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce(cellInfluence(attackingCrewId));
+
       await expect(
-        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, 50)
+        engine.initiateRaid(targetCell, attackingCrewId, attackingUserId, squadIds)
       ).rejects.toThrow('Cannot raid your own crew');
     });
   });
 
-  describe('calculateDefensePower', () => {
-    it('should calculate base defense from influence', async () => {
-      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce({
-        h3Index: targetCell,
-        districtId: testData.districtId,
-        controllingCrewId: defendingCrewId,
-        influenceScores: { [defendingCrewId]: 100 },
-        totalInfluence: 100,
-        lastDecayAt: new Date(),
-      });
+  describe('defendRaid', () => {
+    const defendingUserId = testData.userId;
+    const squadIds = [createTestUuid(45), createTestUuid(46)];
+    const defendedAt = new Date('2026-03-01T19:00:00Z');
 
+    it('should replace the assigned defenders with the committed squad', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([raidRow()]));
+      mockCollection.getOwnedSquad.mockResolvedValueOnce(
+        squadIds.map((_, i) => createSynthling(45 + i, defendingUserId))
+      );
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // Not committed elsewhere
       mockOutpostManager.getOutpostAtCell.mockResolvedValueOnce(null);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([], 1)); // Update
 
-      const defense = await engine.calculateDefensePower(
-        targetCell,
-        defendingCrewId
+      const raid = await engine.defendRaid(raidId, defendingCrewId, defendingUserId, squadIds, defendedAt);
+
+      expect(raid.defenderSquad).toEqual(squadIds);
+      expect(raid.defendedBy).toBe(defendingUserId);
+      expect(raid.defensePower).toBe(588); // 2 x 245 x 1.2
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('defended_by IS NULL'),
+        [raidId, squadIds, 588, defendingUserId, defendedAt]
       );
+    });
+
+    it('should reject defenders during a crew-switch cooldown', async () => {
+      mockCrewManager.getCooldownUntil.mockResolvedValueOnce(new Date('2026-03-05T18:00:00Z'));
+
+      await expect(
+        engine.defendRaid(raidId, defendingCrewId, defendingUserId, squadIds, defendedAt)
+      ).rejects.toThrow('Crew cooldown active until');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should only let the defending crew defend', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([raidRow()]));
 
-      // 100 base * 1.2 defender bonus = 120
-      expect(defense).toBe(120);
+      await expect(
+        engine.defendRaid(raidId, attackingCrewId, attackingUserId, squadIds, defendedAt)
+      ).rejects.toThrow('Only the defending crew can defend this raid');
     });
 
-    it('should add outpost bonus to defense', async () => {
-      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce({
-        h3Index: targetCell,
-        districtId: testData.districtId,
-        controllingCrewId: defendingCrewId,
-        influenceScores: { [defendingCrewId]: 100 },
-        totalInfluence: 100,
-        lastDecayAt: new Date(),
-      });
+    it('should reject defenses after the window ends', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([raidRow()]));
 
-      const outpost: Outpost = {
-        ...testData.createOutpost(),
-        level: 2, // +20 defense
-        modules: [],
-      };
-      mockOutpostManager.getOutpostAtCell.mockResolvedValueOnce(outpost);
+      await expect(
+        engine.defendRaid(raidId, defendingCrewId, defendingUserId, squadIds, windowEndsAt)
+      ).rejects.toThrow('Raid window has closed');
+    });
 
-      const defense = await engine.calculateDefensePower(
-        targetCell,
-        defendingCrewId
-      );
+    it('should accept only one defense per raid', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([raidRow({ defended_by: createTestUuid(9) })]));
 
-      // (100 + 20 outpost) * 1.2 = 144
-      expect(defense).toBe(144);
+      await expect(
+        engine.defendRaid(raidId, defendingCrewId, defendingUserId, squadIds, defendedAt)
+      ).rejects.toThrow('Raid already defended');
     });
+  });
 
-    it('should add shield module bonus to defense', async () => {
-      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce({
-        h3Index: targetCell,
-        districtId: testData.districtId,
-        controllingCrewId: defendingCrewId,
-        influenceScores: { [defendingCrewId]: 100 },
-        totalInfluence: 100,
-        lastDecayAt: new Date(),
-      });
+  describe('resolveExpiredRaids', () => {
+    it('should resolve every expired raid and keep going past failures', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: raidId }, { id: createTestUuid(201) }]));
+      mockResolve(attackers, defenders);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // Second raid vanished
+
+      const resolved = await engine.resolveExpiredRaids(windowEndsAt);
 
+      expect(resolved).toBe(1);
+      expect(mockQuery.mock.calls[0]?.[1]).toEqual([windowEndsAt, 50]);
+    });
+
+    it('should resolve raids as of the job run time', async () => {
+      const resolveRaid = vi.spyOn(engine, 'resolveRaid').mockResolvedValueOnce({} as Raid);
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ id: raidId }]));
+
+      await engine.resolveExpiredRaids(windowEndsAt);
+
+      expect(resolveRaid).toHaveBeenCalledWith(raidId, windowEndsAt);
+      resolveRaid.mockRestore();
+    });
+  });
+
+  describe('getIncomingRaids', () => {
+    it('should list pending raids against the crew', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([raidRow()]));
+
+      const raids = await engine.getIncomingRaids(defendingCrewId);
+
+      expect(raids).toHaveLength(1);
+      expect(raids[0]?.windowEndsAt).toEqual(windowEndsAt);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("status = 'pending'"), [defendingCrewId]);
+    });
+  });
+
+  describe('getDefenseBonus', () => {
+    it('should apply the base defender bonus without an outpost', () => {
+      expect(engine.getDefenseBonus(null)).toBe(1.2);
+    });
+
+    it('should add outpost level and shield bonuses', () => {
       const outpost: Outpost = {
         ...testData.createOutpost(),
-        level: 1, // +10 defense
-        modules: [{ type: 'shield', level: 2, installedAt: new Date() }], // +10 defense
+        level: 2, // +0.1
+        modules: [{ type: 'shield', level: 2, installedAt: new Date() }], // +0.1
       };
-      mockOutpostManager.getOutpostAtCell.mockResolvedValueOnce(outpost);
-
-      const defense = await engine.calculateDefensePower(
-        targetCell,
-        defendingCrewId
-      );
 
-      // (100 + 10 outpost + 10 shield) * 1.2 = 144
-      expect(defense).toBe(144);
+      expect(engine.getDefenseBonus(outpost)).toBe(1.4);
     });
 
-    it('should return 0 defense when no influence', async () => {
-      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce(null);
-      mockOutpostManager.getOutpostAtCell.mockResolvedValueOnce(null);
+    it('should add allied outpost support up to +0.1', () => {
+      const allied = (level: number): Outpost => ({ ...testData.createOutpost(), crewId: createTestUuid(6), level });
 
-      const defense = await engine.calculateDefensePower(
-        targetCell,
-        defendingCrewId
-      );
-
-      expect(defense).toBe(0);
+      expect(engine.getDefenseBonus(null, [allied(1), allied(2)])).toBe(1.26);
+      expect(engine.getDefenseBonus(null, [allied(5), allied(5)])).toBe(1.3);
     });
   });
 
-  describe('resolveRaid', () => {
-    it('should resolve successful raid', async () => {
-      // Fetch raid
-      mockQuery.mockResolvedValueOnce(
-        mockQueryResult([
-          {
-            id: createTestUuid(200),
-            attacking_crew_id: attackingCrewId,
-            attacking_user_id: attackingUserId,
-            target_cell_h3: targetCell,
-            target_outpost_id: null,
-            status: 'pending',
-            attack_power: 150,
-            defense_power: 100,
-            started_at: new Date(),
-          },
-        ])
-      );
+  describe('getSquadRating', () => {
+    it('should total stats scaled by remaining HP', () => {
+      const hurt = createSynthling(50, attackingUserId);
+      hurt.condition.currentHp = 30; // Half HP
 
-      // Award influence to attacker
-      mockInfluenceManager.awardInfluence.mockResolvedValueOnce({
-        id: createTestUuid(201),
-        cellH3: targetCell,
-        crewId: attackingCrewId,
-        userId: attackingUserId,
-        source: 'raid_success',
-        amount: 50,
-        timestamp: new Date(),
-      });
+      expect(engine.getSquadRating([createSynthling(51, attackingUserId), hurt])).toBe(245 + 122.5);
+      expect(engine.getSquadRating([])).toBe(0);
+    });
+  });
 
-      // Update raid status
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+  describe('resolveRaid', () => {
+    it('should move influence from the defending crew to the attacker on success', async () => {
+      mockResolve(attackers.map((s) => withStats(s, strong)), defenders.map((s) => withStats(s, weak)));
+      mockInfluenceManager.updateCellControl.mockResolvedValueOnce(defendingCrewId);
 
-      const raid = await engine.resolveRaid(createTestUuid(200));
+      const raid = await engine.resolveRaid(raidId);
 
       expect(raid.status).toBe('resolved');
       expect(raid.result?.success).toBe(true);
-      expect(raid.result?.influenceTransferred).toBeGreaterThan(0);
-      expect(mockInfluenceManager.awardInfluence).toHaveBeenCalledWith(
-        targetCell,
-        attackingCrewId,
-        attackingUserId,
-        'raid_success'
+      expect(raid.result?.battle?.winner).toBe('attacker');
+      expect(raid.result?.influenceTransferred).toBe(20); // 20% of 100
+      expect(raid.result?.attackerPenalty).toBeUndefined();
+      expect(raid.attackerCooldownUntil).toBeUndefined();
+
+      expect(getInfluenceEvents()).toEqual([
+        [defendingCrewId, attackingUserId, 'raid_loss', -20],
+        [attackingCrewId, attackingUserId, 'raid_success', 20],
+      ]);
+      expect(getStoredScores()).toEqual({ [defendingCrewId]: 80, [attackingCrewId]: 60 });
+      expect(getClientCall('UPDATE turf_cells')[2]).toBe(140);
+      expect(mockInfluenceManager.updateCellControl).toHaveBeenCalledWith(targetCell, mockClient);
+      expect(mockInfluenceManager.awardInfluence).not.toHaveBeenCalled();
+      expect(mockContractManager.recordProgress).toHaveBeenCalledWith(
+        attackingUserId, 'raid_success', targetCell, expect.any(Date)
       );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('battle_wins = battle_wins + 1'),
+        [attackers.map((s) => s.id)]
+      );
+
+      const stored = getStoredResult();
+      expect(stored.battle?.seed).toBe(`raid:${raidId}`);
+      expect(stored.battle?.log.length).toBe(raid.result?.battle?.log.length);
     });
 
-    it('should resolve failed raid with defender bonus', async () => {
-      // Fetch raid
-      mockQuery.mockResolvedValueOnce(
-        mockQueryResult([
-          {
-            id: createTestUuid(200),
-            attacking_crew_id: attackingCrewId,
-            attacking_user_id: attackingUserId,
-            target_cell_h3: targetCell,
-            target_outpost_id: null,
-            status: 'pending',
-            attack_power: 50,
-            defense_power: 100, // Defense > attack
-            started_at: new Date(),
-          },
-        ])
+    it('should transfer a larger share from declared rivals', async () => {
+      mockResolve(
+        attackers.map((s) => withStats(s, strong)),
+        defenders.map((s) => withStats(s, weak)),
+        { against_rival: true }
       );
 
-      // Get cell info for defender bonus
-      mockInfluenceManager.getCellInfluence.mockResolvedValueOnce({
-        h3Index: targetCell,
-        districtId: testData.districtId,
-        controllingCrewId: defendingCrewId,
-        influenceScores: { [defendingCrewId]: 100 },
-        totalInfluence: 100,
-        lastDecayAt: new Date(),
-      });
+      const raid = await engine.resolveRaid(raidId);
 
-      // Award defender bonus query
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+      expect(raid.againstRival).toBe(true);
+      expect(raid.result?.influenceTransferred).toBe(30); // 30% of 100
+      expect(getStoredScores()).toEqual({ [defendingCrewId]: 70, [attackingCrewId]: 70 });
+    });
 
-      // Update raid status
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+    it('should penalize the attacker, reward the defender and set a cooldown on failure', async () => {
+      const now = new Date('2026-03-01T22:00:00Z');
+      mockResolve(
+        attackers.map((s) => withStats(s, weak)),
+        defenders.map((s) => withStats(s, strong)),
+        { defended_by: testData.userId }
+      );
 
-      const raid = await engine.resolveRaid(createTestUuid(200));
+      const raid = await engine.resolveRaid(raidId, now);
 
-      expect(raid.status).toBe('resolved');
       expect(raid.result?.success).toBe(false);
+      expect(raid.result?.battle?.winner).toBe('defender');
+      expect(raid.result?.influenceTransferred).toBe(0);
+      expect(raid.result?.attackerPenalty).toBe(10); // 25% of 40
       expect(raid.result?.attackerRewards).toHaveLength(0);
-    });
+      expect(raid.attackerCooldownUntil).toEqual(new Date('2026-03-02T22:00:00Z'));
 
-    it('should damage outpost on successful raid', async () => {
-      const outpostId = createTestUuid(10);
+      expect(getInfluenceEvents()).toEqual([
+        [attackingCrewId, attackingUserId, 'raid_penalty', -10],
+        [defendingCrewId, testData.userId, 'raid_defense', 25],
+      ]);
+      expect(getStoredScores()).toEqual({ [defendingCrewId]: 125, [attackingCrewId]: 30 });
+      expect(getClientCall("SET status = 'resolved'")[3]).toEqual(raid.attackerCooldownUntil);
+      expect(mockContractManager.recordProgress).toHaveBeenCalledWith(
+        testData.userId, 'raid_defense', targetCell, now
+      );
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('battle_wins = battle_wins + 1'),
+        [defenders.map((s) => s.id)]
+      );
+    });
 
-      // Fetch raid with outpost
-      mockQuery.mockResolvedValueOnce(
+    it('should take a failed raid\'s penalty out of the attacking players\' influence', async () => {
+      const crewmateId = createTestUuid(7);
+      mockResolve(
+        attackers.map((s) => withStats(s, weak)),
+        defenders.map((s) => withStats(s, strong)),
+        { defended_by: testData.userId },
+        { [defendingCrewId]: 100, [attackingCrewId]: 40 },
+        { [attackingUserId]: 30, [crewmateId]: 10, [testData.userId]: 100 }
+      );
+      mockClient.query.mockResolvedValueOnce(
         mockQueryResult([
-          {
-            id: createTestUuid(200),
-            attacking_crew_id: attackingCrewId,
-            attacking_user_id: attackingUserId,
-            target_cell_h3: targetCell,
-            target_outpost_id: outpostId,
-            status: 'pending',
-            attack_power: 150,
-            defense_power: 100,
-            started_at: new Date(),
-          },
+          { id: attackingUserId, crew_id: attackingCrewId },
+          { id: crewmateId, crew_id: attackingCrewId },
         ])
       );
 
-      mockInfluenceManager.awardInfluence.mockResolvedValueOnce({
-        id: createTestUuid(201),
-        cellH3: targetCell,
-        crewId: attackingCrewId,
-        userId: attackingUserId,
-        source: 'raid_success',
-        amount: 50,
-        timestamp: new Date(),
+      await engine.resolveRaid(raidId);
+
+      expect(getClientCall('crew_id = ANY')).toEqual([
+        [attackingUserId, crewmateId, testData.userId],
+        [attackingCrewId],
+      ]);
+      expect(getStoredScores()).toEqual({ [defendingCrewId]: 125, [attackingCrewId]: 30 });
+      // The 10 penalty splits 3:1 between the attackers' shares
+      expect(JSON.parse(String(getClientCall('UPDATE turf_cells')[3]))).toEqual({
+        [attackingUserId]: 22.5,
+        [crewmateId]: 7.5,
+        [testData.userId]: 125,
       });
+    });
+
+    it('should credit the defense to the defending Synthlings\' owner when nobody responded', async () => {
+      mockResolve(
+        attackers.map((s) => withStats(s, weak)),
+        defenders.map((s) => withStats(s, strong)),
+        {},
+        { [defendingCrewId]: 100 }
+      );
+
+      await engine.resolveRaid(raidId);
+
+      // Attacker had no influence in the cell, so only the defense reward is recorded
+      expect(getInfluenceEvents()).toEqual([[defendingCrewId, testData.userId, 'raid_defense', 25]]);
+      expect(getStoredScores()).toEqual({ [defendingCrewId]: 125 });
+    });
+
+    it('should cap the defense reward at the cell influence limit', async () => {
+      mockResolve(
+        attackers.map((s) => withStats(s, weak)),
+        defenders.map((s) => withStats(s, strong)),
+        { defended_by: testData.userId },
+        { [defendingCrewId]: 9980, [attackingCrewId]: 20 }
+      );
+
+      await engine.resolveRaid(raidId);
+
+      // 25% penalty frees 5 of the 10000 cap
+      expect(getInfluenceEvents()).toEqual([
+        [attackingCrewId, attackingUserId, 'raid_penalty', -5],
+        [defendingCrewId, testData.userId, 'raid_defense', 5],
+      ]);
+      expect(getClientCall('UPDATE turf_cells')[2]).toBe(10000);
+      expect(JSON.parse(String(getClientCall('UPDATE turf_cells')[3]))).toEqual({ [testData.userId]: 5 });
+    });
+
+    it('should keep influence events reconciled with the cell scores', async () => {
+      const before = { [defendingCrewId]: 33.33, [attackingCrewId]: 12.5, [createTestUuid(6)]: 7 };
+      mockResolve(
+        attackers.map((s) => withStats(s, strong)),
+        defenders.map((s) => withStats(s, weak)),
+        {},
+        before
+      );
+
+      await engine.resolveRaid(raidId);
+
+      const after = getStoredScores();
+      const deltas: Record<string, number> = {};
+      for (const [crewId, , , amount] of getInfluenceEvents()) {
+        deltas[String(crewId)] = (deltas[String(crewId)] ?? 0) + Number(amount);
+      }
+
+      for (const crewId of Object.keys(before)) {
+        expect(after[crewId] ?? 0).toBeCloseTo((before[crewId] ?? 0) + (deltas[crewId] ?? 0), 10);
+      }
+    });
+
+    it('should replay the same battle for the same raid', async () => {
+      mockResolve(attackers, defenders);
+      const first = await engine.resolveRaid(raidId);
+
+      mockResolve(attackers, defenders);
+      const second = await engine.resolveRaid(raidId);
+
+      expect(second.result?.battle).toEqual(first.result?.battle);
+    });
+
+    it('should let an attacker take an undefended cell without a battle', async () => {
+      mockResolve(attackers, [], { defender_squad: [] });
+
+      const raid = await engine.resolveRaid(raidId);
+
+      expect(raid.result?.success).toBe(true);
+      expect(raid.result?.battle).toBeUndefined();
+      expect(raid.result?.influenceTransferred).toBe(20);
+    });
+
+    it('should damage outpost on successful raid', async () => {
+      const outpostId = createTestUuid(10);
+      mockResolve(attackers, [], { target_outpost_id: outpostId, defender_squad: [] });
 
       // Damage outpost
       mockOutpostManager.damageOutpost.mockResolvedValueOnce(80);
 
-      // Update raid status
-      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
-
-      const raid = await engine.resolveRaid(createTestUuid(200));
+      const raid = await engine.resolveRaid(raidId);
 
       expect(raid.result?.outpostDamage).toBe(20); // Base damage
       expect(mockOutpostManager.damageOutpost).toHaveBeenCalledWith(
         outpostId,
-        20
+        20,
+        mockClient
+      );
+    });
+
+    it('should lock both squads and leave out Synthlings that can no longer fight', async () => {
+      const [kept, traded, fainted] = attackers.map((s) => withStats(s, strong));
+      mockResolve(
+        [
+          kept!,
+          { ...traded!, ownerId: createTestUuid(8) },
+          { ...fainted!, condition: { ...fainted!.condition, currentHp: 0 } },
+        ],
+        [withStats(defenders[0]!, weak), { ...withStats(defenders[1]!, strong), ownerId: createTestUuid(9) }]
+      );
+      mockClient.query.mockReset();
+      mockClient.query
+        .mockResolvedValueOnce(mockQueryResult([{ status: 'pending' }]))
+        .mockResolvedValueOnce(mockQueryResult([{ id: testData.userId }])) // The other owner left the crew
+        .mockResolvedValueOnce(mockQueryResult([{ controlling_crew_id: defendingCrewId, influence_scores: {} }]))
+        .mockResolvedValue(mockQueryResult([], 1));
+
+      const raid = await engine.resolveRaid(raidId);
+
+      expect(mockCollection.getSquad).toHaveBeenCalledWith(raidRow().attacker_squad, mockClient);
+      expect(mockCollection.getSquad).toHaveBeenCalledWith(raidRow().defender_squad, mockClient);
+      expect(raid.result?.battle?.winner).toBe('attacker');
+      expect(mockClient.query).toHaveBeenCalledWith(
+        expect.stringContaining('battle_wins = battle_wins + 1'),
+        [[kept!.id]]
       );
+      const actors = raid.result?.battle?.log.map((entry) => entry.actor) ?? [];
+      expect(actors).toContain(kept!.id);
+      expect(actors).not.toContain(traded!.id);
+      expect(actors).not.toContain(fainted!.id);
+      expect(actors).not.toContain(defenders[1]!.id);
+    });
+
+    it('should not settle a raid another resolver finished first', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([raidRow()]));
+      mockOutpostManager.getOutpostAtCell.mockResolvedValueOnce(null);
+      mockClient.query.mockResolvedValueOnce(mockQueryResult([{ status: 'resolved' }]));
+
+      await expect(engine.resolveRaid(raidId)).rejects.toThrow('Raid already resolved');
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+      expect(mockCollection.getSquad).not.toHaveBeenCalled();
+      expect(mockInfluenceManager.updateCellControl).not.toHaveBeenCalled();
     });
 
     it('should throw error for non-existent raid', async () => {
@@ -425,23 +885,9 @@ describe('RaidEngine', () => {
     });
 
     it('should throw error for already resolved raid', async () => {
-      mockQuery.mockResolvedValueOnce(
-        mockQueryResult([
-          {
-            id: createTestUuid(200),
-            attacking_crew_id: attackingCrewId,
-            attacking_user_id: attackingUserId,
-            target_cell_h3: targetCell,
-            target_outpost_id: null,
-            status: 'resolved',
-            attack_power: 50,
-            defense_power: 100,
-            started_at: new Date(),
-          },
-        ])
-      );
+      mockQuery.mockResolvedValueOnce(mockQueryResult([raidRow({ status: 'resolved' })]));
 
-      await expect(engine.resolveRaid(createTestUuid(200))).rejects.toThrow(
+      await expect(engine.resolveRaid(raidId)).rejects.toThrow(
         'Raid already resolved'
       );
     });
@@ -449,7 +895,6 @@ describe('RaidEngine', () => {
 
   describe('getRaid', () => {
     it('should return raid by ID', async () => {
-      const raidId = createTestUuid(200);
       const result: RaidResult = {
         success: true,
         influenceTransferred: 10,
@@ -466,6 +911,8 @@ describe('RaidEngine', () => {
             target_cell_h3: targetCell,
             target_outpost_id: null,
             status: 'resolved',
+            attacker_squad: [],
+            defender_squad: [],
             attack_power: 50,
             defense_power: 40,
             started_at: new Date(),
@@ -506,6 +953,8 @@ describe('RaidEngine', () => {
             target_cell_h3: targetCell,
             target_outpost_id: null,
             status: 'resolved',
+            attacker_squad: [],
+            defender_squad: [],
             attack_power: 50,
             defense_power: 40,
             started_at: new Date(),
@@ -519,6 +968,8 @@ describe('RaidEngine', () => {
             target_cell_h3: targetCell,
             target_outpost_id: null,
             status: 'pending',
+            attacker_squad: [],
+            defender_squad: [],
             attack_power: 60,
             defense_power: 50,
             started_at: new Date(),
@@ -556,6 +1007,8 @@ describe('RaidEngine', () => {
             target_cell_h3: targetCell,
             target_outpost_id: null,
             status: 'resolved',
+            attacker_squad: [],
+            defender_squad: [],
             attack_power: 50,
             defense_power: 40,
             started_at: new Date(),
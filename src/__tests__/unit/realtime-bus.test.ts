@@ -0,0 +1,149 @@
+/**
+ * Unit tests for RealtimeBus service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { testData, createTestUuid } from '../setup.js';
+
+// In-memory pub/sub: publishing delivers to every subscribed duplicate connection
+const pubsub = vi.hoisted(() => ({
+  subscribers: [] as Array<{ channels: Set<string>; emit: (event: string, ...args: unknown[]) => boolean }>,
+  commitCallbacks: [] as Array<() => Promise<void>>,
+}));
+
+// Mock Redis
+vi.mock('../../db/redis.js', () => ({
+  redis: {
+    publish: vi.fn(async (channel: string, message: string) => {
+      const receivers = pubsub.subscribers.filter((s) => s.channels.has(channel));
+      receivers.forEach((s) => s.emit('message', channel, message));
+      return receivers.length;
+    }),
+    duplicate: vi.fn(() => {
+      const connection = Object.assign(new EventEmitter(), {
+        channels: new Set<string>(),
+        subscribe: vi.fn(async (channel: string) => {
+          connection.channels.add(channel);
+        }),
+        quit: vi.fn(async () => {
+          pubsub.subscribers = pubsub.subscribers.filter((s) => s !== connection);
+        }),
+      });
+      pubsub.subscribers.push(connection);
+      return connection;
+    }),
+  },
+  RedisKeys: {
+    realtimeChannel: 'realtime_events',
+  },
+}));
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  afterCommit: vi.fn((_client: unknown, callback: () => Promise<void>) => {
+    pubsub.commitCallbacks.push(callback);
+  }),
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { redis } from '../../db/redis.js';
+import { RealtimeBus, RealtimeTopics } from '../../services/realtime/event-bus.js';
+import type { RealtimeEvent } from '../../types/realtime.js';
+
+const mockRedis = vi.mocked(redis);
+
+const damage = {
+  outpostId: createTestUuid(10),
+  cellH3: testData.cellH3,
+  districtId: testData.districtId,
+  crewId: testData.crewId,
+  damage: 20,
+  health: 80,
+};
+
+const topics = [RealtimeTopics.cell(testData.cellH3), RealtimeTopics.crew(testData.crewId)];
+
+describe('RealtimeBus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    pubsub.subscribers = [];
+    pubsub.commitCallbacks = [];
+  });
+
+  it('should deliver an event published on one instance to listeners on every instance', async () => {
+    const first = new RealtimeBus();
+    const second = new RealtimeBus();
+    await first.start();
+    await second.start();
+
+    const received: RealtimeEvent[] = [];
+    first.onEvent((event) => received.push(event));
+    second.onEvent((event) => received.push(event));
+
+    await first.publish('outpost_damaged', topics, damage);
+
+    expect(received).toHaveLength(2);
+    expect(received[0]).toMatchObject({ type: 'outpost_damaged', topics, data: damage });
+    expect(received[0]?.occurredAt).toBeInstanceOf(Date);
+    expect(received[1]?.id).toBe(received[0]?.id);
+  });
+
+  it('should hold events published in a transaction until it commits', async () => {
+    const bus = new RealtimeBus();
+
+    await bus.publish('outpost_damaged', topics, damage, {} as never);
+
+    expect(mockRedis.publish).not.toHaveBeenCalled();
+
+    await pubsub.commitCallbacks[0]?.();
+
+    expect(mockRedis.publish).toHaveBeenCalledWith('realtime_events', expect.stringContaining('"outpost_damaged"'));
+  });
+
+  it('should not fail the caller when Redis is unavailable', async () => {
+    mockRedis.publish.mockRejectedValueOnce(new Error('Connection is closed'));
+
+    await expect(new RealtimeBus().publish('outpost_damaged', topics, damage)).resolves.toBeUndefined();
+  });
+
+  it('should drop malformed messages and keep delivering after a listener fails', () => {
+    const bus = new RealtimeBus();
+    const listener = vi.fn();
+    bus.onEvent(() => {
+      throw new Error('listener failed');
+    });
+    bus.onEvent(listener);
+
+    bus.receive('not json');
+    bus.receive(JSON.stringify({ id: 'e1', type: 'outpost_damaged', topics, occurredAt: new Date().toISOString(), data: damage }));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop delivering to removed listeners and after stop', async () => {
+    const bus = new RealtimeBus();
+    await bus.start();
+    const listener = vi.fn();
+    const off = bus.onEvent(listener);
+
+    off();
+    await bus.publish('outpost_damaged', topics, damage);
+    expect(listener).not.toHaveBeenCalled();
+
+    bus.onEvent(listener);
+    await bus.stop();
+    await bus.publish('outpost_damaged', topics, damage);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for RealtimeGateway service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { testData, createTestUuid } from '../setup.js';
+
+// Mock the event bus
+vi.mock('../../services/realtime/event-bus.js', () => ({
+  realtimeBus: {
+    onEvent: vi.fn(() => vi.fn()),
+    publish: vi.fn(),
+  },
+  RealtimeTopics: {
+    user: (userId: string) => `user:${userId}`,
+  },
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { realtimeBus } from '../../services/realtime/event-bus.js';
+import { RealtimeGateway } from '../../services/realtime/gateway.js';
+import type { RealtimeEvent, RealtimeTopic } from '../../types/realtime.js';
+
+const mockBus = vi.mocked(realtimeBus);
+
+function createEvent(topics: RealtimeTopic[]): RealtimeEvent<'outpost_damaged'> {
+  return {
+    id: createTestUuid(50),
+    type: 'outpost_damaged',
+    topics,
+    occurredAt: new Date(),
+    data: {
+      outpostId: createTestUuid(10),
+      cellH3: testData.cellH3,
+      districtId: testData.districtId,
+      crewId: testData.crewId,
+      damage: 20,
+      health: 80,
+    },
+  };
+}
+
+function createConnection(userId?: string, sessionId?: string) {
+  return { send: vi.fn(), close: vi.fn(), userId, sessionId };
+}
+
+function closeEvent(data: RealtimeEvent<'streams_closed'>['data']): RealtimeEvent<'streams_closed'> {
+  return { id: createTestUuid(51), type: 'streams_closed', topics: [`user:${data.userId}`], occurredAt: new Date(), data };
+}
+
+describe('RealtimeGateway', () => {
+  let gateway: RealtimeGateway;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gateway = new RealtimeGateway();
+  });
+
+  it('should send events only to clients subscribed to one of their topics', () => {
+    const cellWatcher = createConnection();
+    const crewMember = createConnection();
+    const elsewhere = createConnection();
+    gateway.connect([`cell:${testData.cellH3}`], cellWatcher);
+    gateway.connect([`crew:${testData.crewId}`, `district:${testData.districtId}`], crewMember);
+    gateway.connect([`cell:${createTestUuid(99)}`], elsewhere);
+
+    const delivered = gateway.dispatch(createEvent([`cell:${testData.cellH3}`, `crew:${testData.crewId}`]));
+
+    expect(delivered).toBe(2);
+    expect(cellWatcher.send).toHaveBeenCalledTimes(1);
+    expect(crewMember.send).toHaveBeenCalledTimes(1);
+    expect(elsewhere.send).not.toHaveBeenCalled();
+  });
+
+  it('should stop sending to a client after it disconnects', () => {
+    const connection = createConnection();
+    const disconnect = gateway.connect([`cell:${testData.cellH3}`], connection);
+
+    disconnect();
+
+    expect(gateway.dispatch(createEvent([`cell:${testData.cellH3}`]))).toBe(0);
+    expect(gateway.connectionCount).toBe(0);
+  });
+
+  it('should forward bus events once started and close every client on stop', () => {
+    const stopListening = vi.fn();
+    mockBus.onEvent.mockReturnValueOnce(stopListening);
+    const connection = createConnection();
+    gateway.connect([`crew:${testData.crewId}`], connection);
+
+    gateway.start();
+    gateway.start();
+    const listener = mockBus.onEvent.mock.calls[0]?.[0];
+    listener?.(createEvent([`crew:${testData.crewId}`]));
+
+    expect(mockBus.onEvent).toHaveBeenCalledTimes(1);
+    expect(connection.send).toHaveBeenCalledTimes(1);
+
+    gateway.stop();
+
+    expect(stopListening).toHaveBeenCalled();
+    expect(connection.close).toHaveBeenCalled();
+    expect(gateway.connectionCount).toBe(0);
+  });
+
+  describe('disconnectUser', () => {
+    it('should publish the close to every instance, after commit when given a client', async () => {
+      const client = { query: vi.fn() };
+
+      await gateway.disconnectUser(testData.userId, { reason: 'crew_changed' }, client as never);
+
+      expect(mockBus.publish).toHaveBeenCalledWith(
+        'streams_closed',
+        [`user:${testData.userId}`],
+        { userId: testData.userId, reason: 'crew_changed' },
+        client
+      );
+    });
+
+    it('should close the player\'s streams and stop sending them crew events', () => {
+      const player = createConnection(testData.userId, createTestUuid(40));
+      const crewmate = createConnection(createTestUuid(20));
+      gateway.connect([`crew:${testData.crewId}`], player);
+      gateway.connect([`crew:${testData.crewId}`], crewmate);
+
+      const closed = gateway.dispatch(closeEvent({ userId: testData.userId, reason: 'crew_changed' }));
+      gateway.dispatch(createEvent([`crew:${testData.crewId}`]));
+
+      expect(closed).toBe(1);
+      expect(player.send).toHaveBeenCalledTimes(1);
+      expect(player.send.mock.calls[0]?.[0]).toMatchObject({ type: 'streams_closed' });
+      expect(player.close).toHaveBeenCalled();
+      expect(crewmate.close).not.toHaveBeenCalled();
+      expect(crewmate.send).toHaveBeenCalledTimes(1);
+      expect(gateway.connectionCount).toBe(1);
+    });
+
+    it('should close only the ended session\'s streams', () => {
+      const phone = createConnection(testData.userId, createTestUuid(40));
+      const tablet = createConnection(testData.userId, createTestUuid(41));
+      gateway.connect([`crew:${testData.crewId}`], phone);
+      gateway.connect([`crew:${testData.crewId}`], tablet);
+
+      gateway.dispatch(closeEvent({ userId: testData.userId, sessionId: createTestUuid(40), reason: 'session_ended' }));
+
+      expect(phone.close).toHaveBeenCalled();
+      expect(tablet.close).not.toHaveBeenCalled();
+    });
+  });
+});
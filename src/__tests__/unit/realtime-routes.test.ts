@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the realtime stream route.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import Fastify from 'fastify';
+import { mockQueryResult, testData } from '../setup.js';
+
+const dbQuery = vi.hoisted(() => vi.fn());
+const redisPublish = vi.hoisted(() => vi.fn());
+
+// Mock the database module; commit callbacks run straight away
+vi.mock('../../db/connection.js', () => ({
+  query: dbQuery,
+  transaction: vi.fn(async (fn: (client: { query: typeof dbQuery }) => unknown) => fn({ query: dbQuery })),
+  afterCommit: vi.fn((_client: unknown, callback: () => Promise<void>) => void callback()),
+}));
+
+// Mock Redis; published events loop back through the realtime bus
+vi.mock('../../db/redis.js', () => ({
+  redis: { publish: redisPublish },
+  RedisKeys: { realtimeChannel: 'realtime' },
+  RedisTTL: {},
+}));
+
+// Mock the auth services; the token is the user ID
+vi.mock('../../services/auth/index.js', () => ({
+  sessionManager: {
+    authenticate: vi.fn(async (token: string, deviceId: string) => ({
+      userId: token,
+      crewId: null,
+      sessionId: 'session',
+      deviceId,
+    })),
+  },
+}));
+
+// Mock the control tracker
+vi.mock('../../services/turf/control-tracker.js', () => ({
+  controlTracker: {
+    recordCellChange: vi.fn().mockResolvedValue([]),
+  },
+}));
+
+// Mock the crew manager
+vi.mock('../../services/turf/crew-manager.js', () => ({
+  crewManager: {
+    getCooldownUntil: vi.fn().mockResolvedValue(null),
+  },
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { realtimeBus, realtimeGateway } from '../../services/realtime/index.js';
+import { h3Cache } from '../../services/geofencing/h3-cache.js';
+import { influenceManager } from '../../services/turf/influence-manager.js';
+import { realtimeRoutes } from '../../api/v1/realtime.js';
+
+describe('realtime routes', () => {
+  const app = Fastify();
+  app.register(realtimeRoutes);
+
+  const headers = { authorization: `Bearer ${testData.userId}`, 'x-device-id': 'device-0001' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dbQuery.mockImplementation(async (text: string) =>
+      text.includes('FOR UPDATE')
+        ? mockQueryResult([{ influence_scores: {}, player_influence: {}, district_id: testData.districtId }])
+        : mockQueryResult([], 1)
+    );
+    redisPublish.mockImplementation(async (_channel: string, message: string) => {
+      realtimeBus.receive(message);
+      return 1;
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should stream capture influence to a subscriber of the location validation cell', async () => {
+    // The cell location validation reports for a player in Oakland
+    const cellH3 = h3Cache.getH3Cell(37.8044, -122.2712);
+    const connect = vi.spyOn(realtimeGateway, 'connect');
+    realtimeGateway.start();
+
+    const stream = app.inject({ method: 'GET', url: `/stream?cells=${cellH3}`, headers });
+    await vi.waitFor(() => expect(connect).toHaveBeenCalled());
+
+    await influenceManager.awardInfluence(cellH3, testData.crewId, testData.userId, 'synthling_capture');
+
+    // Closing the gateway ends the stream
+    realtimeGateway.stop();
+    const response = await stream;
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toContain('event: influence_changed');
+    expect(response.body).toContain(`"cellH3":"${cellH3}"`);
+  });
+
+  it('should reject cells coarser than turf cells', async () => {
+    const response = await app.inject({ method: 'GET', url: '/stream?cells=85283083fffffff', headers });
+
+    expect(response.statusCode).toBe(400);
+  });
+});
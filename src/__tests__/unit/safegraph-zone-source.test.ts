@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the SafeGraph zone source, against a local fixture
+ * server standing in for the Places API.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer } from 'http';
+import { readFileSync } from 'fs';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { SafeGraphZoneSource } from '../../services/geofencing/safegraph-zone-source.js';
+
+interface PlacesRequest {
+  apiKey: string | undefined;
+  variables: { region: string; naics: string[]; first: number; after: string | null };
+}
+
+function loadPage(name: string): string {
+  return readFileSync(new URL(`../fixtures/safegraph/${name}.json`, import.meta.url), 'utf8');
+}
+
+describe('SafeGraphZoneSource', () => {
+  const pages: Record<string, string> = {};
+  const requests: PlacesRequest[] = [];
+  let server: Server;
+  let apiUrl: string;
+
+  beforeAll(async () => {
+    pages.first = loadPage('places-page-1');
+    pages['cursor-1'] = loadPage('places-page-2');
+
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        const { variables } = JSON.parse(body) as Pick<PlacesRequest, 'variables'>;
+        requests.push({ apiKey: req.headers.apikey as string | undefined, variables });
+
+        res.setHeader('Content-Type', 'application/json');
+        if (req.headers.apikey !== 'test-key') {
+          res.statusCode = 401;
+          res.end(JSON.stringify({ errors: [{ message: 'Invalid API key' }] }));
+        } else if (variables.region !== 'CA') {
+          res.end(JSON.stringify({ errors: [{ message: `Unknown region: ${variables.region}` }] }));
+        } else {
+          res.end(pages[variables.after ?? 'first']);
+        }
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v2/graphql`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  function source(region = 'ca', apiKey = 'test-key') {
+    return new SafeGraphZoneSource({ region, apiKey, apiUrl });
+  }
+
+  it('should page through places with the API key and mapped NAICS codes', async () => {
+    await source().fetchZones(null);
+
+    expect(requests.map((r) => r.variables.after)).toEqual([null, 'cursor-1']);
+    expect(requests[0]).toMatchObject({ apiKey: 'test-key', variables: { region: 'CA', first: 500 } });
+    expect(requests[0]?.variables.naics).toEqual(Object.keys(source().categoryMapping));
+  });
+
+  it('should map places with footprints to zones by NAICS code', async () => {
+    const { zones } = await source().fetchZones(null);
+
+    expect(zones?.map((zone) => [zone.sourceId, zone.name, zone.category])).toEqual([
+      ['CA:222-222@5vg-7gq-tvz', 'Mission High School', 'school'],
+      ['CA:223-222@5vg-7gr-6kz', 'Zuckerberg San Francisco General Hospital', 'hospital'],
+      ['CA:226-222@5vg-7gq-5zz', 'SFPD Mission Station', 'government'],
+    ]);
+    expect(zones?.[0]?.metadata).toEqual({
+      placekey: '222-222@5vg-7gq-tvz',
+      naicsCode: '611110',
+      topCategory: 'Elementary and Secondary Schools',
+    });
+    expect(zones?.[1]?.geometry.coordinates).toHaveLength(2);
+    expect(zones?.[2]?.geometry.coordinates[0]?.[0]?.[0]).toEqual([-122.4225, 37.763]);
+  });
+
+  it('should report closed places as removed and invalid footprints as unreadable', async () => {
+    const result = await source().fetchZones(null);
+
+    expect(result.removedSourceIds).toEqual(['CA:225-222@5vg-7gs-8d9']);
+    expect(result.invalidSourceIds).toEqual(['CA:228-222@5vg-7gq-9j9']);
+  });
+
+  it('should list the region completely, so places with unmapped NAICS codes are pruned', async () => {
+    const result = await source().fetchZones(null);
+
+    expect(result.complete).toBe(true);
+    expect(result.zones?.map((zone) => zone.sourceId)).not.toContain('CA:224-222@5vg-7gv-d7q');
+    expect(source().sourceIdPrefix).toBe('CA:');
+  });
+
+  it('should use the reported release as the cursor and stop after one page of a release already synced', async () => {
+    const first = await source().fetchZones('2024-06');
+    const again = await source().fetchZones('2024-07');
+
+    expect(first.cursor).toBe('2024-07');
+    expect(again).toEqual({ cursor: '2024-07', zones: null, removedSourceIds: [], invalidSourceIds: [], complete: true });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should throw when the release changes while paging', async () => {
+    const page = pages['cursor-1'];
+    pages['cursor-1'] = page?.replace('"2024-07"', '"2024-08"') ?? '';
+    try {
+      await expect(source().fetchZones(null)).rejects.toThrow(
+        'SafeGraph release changed while paging: 2024-07 to 2024-08'
+      );
+    } finally {
+      pages['cursor-1'] = page ?? '';
+    }
+  });
+
+  it('should keep a cursor per region', () => {
+    expect(source('ca').name).toBe('safegraph:CA');
+    expect(source('or').name).toBe('safegraph:OR');
+  });
+
+  it('should throw on HTTP and GraphQL errors', async () => {
+    await expect(source('ca', 'wrong-key').fetchZones(null)).rejects.toThrow('SafeGraph API error: 401');
+    await expect(source('xx').fetchZones(null)).rejects.toThrow('SafeGraph API error: Unknown region: XX');
+  });
+
+  it('should require an API key', () => {
+    expect(() => new SafeGraphZoneSource({ region: 'CA', apiKey: '' })).toThrow(
+      'SAFEGRAPH_API_KEY is not configured'
+    );
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Unit tests for SessionManager service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import { mockQueryResult, testData, createTestUuid } from '../setup.js';
+
+const mockClient = vi.hoisted(() => ({ query: vi.fn() }));
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(async (fn: (client: typeof mockClient) => unknown) => fn(mockClient)),
+}));
+
+// Mock the realtime gateway
+vi.mock('../../services/realtime/gateway.js', () => ({
+  realtimeGateway: {
+    disconnectUser: vi.fn(),
+  },
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Mock uuid
+let uuidCounter = 0;
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => createTestUuid(800 + ++uuidCounter)),
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { realtimeGateway } from '../../services/realtime/gateway.js';
+import { SessionManager } from '../../services/auth/session-manager.js';
+import { tokenSigner } from '../../services/auth/token-signer.js';
+
+const mockQuery = vi.mocked(query);
+const mockGateway = vi.mocked(realtimeGateway);
+
+const now = new Date('2026-03-01T12:00:00Z');
+const userId = testData.userId;
+const deviceId = 'device-0001';
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Params of the first client query containing the fragment.
+ */
+function findClientCall(fragment: string): unknown[] | undefined {
+  const call = mockClient.query.mock.calls.find(([sql]) => (sql as string).includes(fragment));
+  return call?.[1] as unknown[] | undefined;
+}
+
+/**
+ * Answer the refresh session lookup; everything else returns no rows.
+ */
+function mockSession(session: Partial<{
+  refresh_token_hash: string;
+  device_id: string;
+  expires_at: Date;
+  revoked_at: Date | null;
+}> = {}): void {
+  mockClient.query.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM auth_sessions')) {
+      return mockQueryResult([{
+        id: createTestUuid(40),
+        user_id: userId,
+        device_id: deviceId,
+        refresh_token_hash: sha256('refresh-token'),
+        expires_at: new Date(now.getTime() + 86_400_000),
+        revoked_at: null,
+        ...session,
+      }]);
+    }
+    return mockQueryResult([], 1);
+  });
+}
+
+describe('SessionManager', () => {
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClient.query.mockReset();
+    uuidCounter = 0;
+    manager = new SessionManager();
+  });
+
+  describe('register', () => {
+    it('should create the player, their device and a session', async () => {
+      mockClient.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO users')) {
+          return mockQueryResult([{ id: userId }]);
+        }
+        return mockQueryResult([{ id: createTestUuid(30) }]);
+      });
+
+      const registration = await manager.register({ username: 'nova', deviceId, platform: 'ios' }, now);
+
+      expect(registration.userId).toBe(userId);
+      expect(registration.deviceSecret.length).toBeGreaterThanOrEqual(32);
+
+      // Only hashes are stored
+      const device = findClientCall('INSERT INTO user_devices');
+      expect(device?.[2]).toBe(sha256(registration.deviceSecret));
+      const session = findClientCall('INSERT INTO auth_sessions');
+      expect(session?.[3]).toBe(sha256(registration.tokens.refreshToken));
+
+      const claims = tokenSigner.verify(registration.tokens.accessToken, now);
+      expect(claims).toMatchObject({ sub: userId, did: deviceId, sid: session?.[0] });
+      expect(registration.tokens.accessTokenExpiresAt).toEqual(new Date(now.getTime() + 15 * 60 * 1000));
+      expect(registration.tokens.refreshTokenExpiresAt).toEqual(new Date(now.getTime() + 30 * 86_400_000));
+    });
+
+    it('should reject a taken username', async () => {
+      mockClient.query.mockResolvedValue(mockQueryResult([]));
+
+      await expect(manager.register({ username: 'nova', deviceId }, now)).rejects.toThrow('Username already taken');
+    });
+
+    it('should reject a device that is already registered', async () => {
+      mockClient.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO users')) {
+          return mockQueryResult([{ id: userId }]);
+        }
+        return mockQueryResult([]);
+      });
+
+      await expect(manager.register({ username: 'nova', deviceId }, now)).rejects.toThrow('Device already registered');
+      expect(findClientCall('INSERT INTO auth_sessions')).toBeUndefined();
+    });
+  });
+
+  describe('login', () => {
+    beforeEach(() => {
+      mockClient.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM user_devices')) {
+          return mockQueryResult([{ user_id: userId, secret_hash: sha256('device-secret') }]);
+        }
+        return mockQueryResult([], 1);
+      });
+    });
+
+    it('should open a session for valid device credentials', async () => {
+      const tokens = await manager.login(deviceId, 'device-secret', now);
+
+      expect(tokenSigner.verify(tokens.accessToken, now)?.sub).toBe(userId);
+      expect(findClientCall('INSERT INTO auth_sessions')?.[2]).toBe(deviceId);
+      expect(findClientCall('SET last_login_at')).toEqual([deviceId, now]);
+    });
+
+    it('should reject a wrong secret', async () => {
+      await expect(manager.login(deviceId, 'wrong-secret', now)).rejects.toThrow('Invalid device credentials');
+      expect(findClientCall('INSERT INTO auth_sessions')).toBeUndefined();
+    });
+
+    it('should reject an unknown or revoked device', async () => {
+      mockClient.query.mockResolvedValue(mockQueryResult([]));
+
+      await expect(manager.login(deviceId, 'device-secret', now)).rejects.toThrow('Invalid device credentials');
+    });
+  });
+
+  describe('refresh', () => {
+    it('should rotate the refresh token', async () => {
+      mockSession();
+
+      const tokens = await manager.refresh('refresh-token', deviceId, now);
+
+      expect(tokens.refreshToken).not.toBe('refresh-token');
+      const update = findClientCall('SET refresh_token_hash');
+      expect(update).toEqual([
+        createTestUuid(40),
+        sha256(tokens.refreshToken),
+        sha256('refresh-token'),
+        now,
+        tokens.refreshTokenExpiresAt,
+      ]);
+      expect(tokenSigner.verify(tokens.accessToken, now)?.sid).toBe(createTestUuid(40));
+    });
+
+    it('should revoke the session when an old refresh token is replayed', async () => {
+      mockSession({ refresh_token_hash: sha256('newer-token') });
+
+      await expect(manager.refresh('refresh-token', deviceId, now)).rejects.toThrow('Invalid refresh token');
+      expect(findClientCall('SET revoked_at')).toEqual([createTestUuid(40), now]);
+      expect(findClientCall('SET refresh_token_hash')).toBeUndefined();
+      expect(mockGateway.disconnectUser).toHaveBeenCalledWith(
+        userId,
+        { sessionId: createTestUuid(40), reason: 'session_ended' },
+        mockClient
+      );
+    });
+
+    it('should reject a refresh from another device', async () => {
+      mockSession({ device_id: 'device-0002' });
+
+      await expect(manager.refresh('refresh-token', deviceId, now)).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('should reject a revoked session', async () => {
+      mockSession({ revoked_at: new Date(now.getTime() - 1000) });
+
+      await expect(manager.refresh('refresh-token', deviceId, now)).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('should reject an expired session', async () => {
+      mockSession({ expires_at: new Date(now.getTime() - 1000) });
+
+      await expect(manager.refresh('refresh-token', deviceId, now)).rejects.toThrow('Session expired');
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      mockClient.query.mockResolvedValue(mockQueryResult([]));
+
+      await expect(manager.refresh('refresh-token', deviceId, now)).rejects.toThrow('Invalid refresh token');
+    });
+  });
+
+  describe('authenticate', () => {
+    const sessionId = createTestUuid(40);
+    const iat = Math.floor(now.getTime() / 1000);
+    const token = tokenSigner.sign({ sub: userId, sid: sessionId, did: deviceId, iat, exp: iat + 900 });
+
+    it('should resolve the caller with their crew from the database', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ user_id: userId, crew_id: testData.crewId }]));
+
+      const user = await manager.authenticate(token, deviceId, now);
+
+      expect(user).toEqual({ userId, crewId: testData.crewId, sessionId, deviceId });
+      expect(mockQuery.mock.calls[0]?.[1]).toEqual([sessionId, userId, now]);
+    });
+
+    it('should resolve a player without a crew', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ user_id: userId, crew_id: null }]));
+
+      expect((await manager.authenticate(token, deviceId, now))?.crewId).toBeNull();
+    });
+
+    it('should reject a token presented from another device', async () => {
+      expect(await manager.authenticate(token, 'device-0002', now)).toBeNull();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token whose session has ended', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+
+      expect(await manager.authenticate(token, deviceId, now)).toBeNull();
+    });
+
+    it('should reject an invalid token', async () => {
+      expect(await manager.authenticate('forged.token', deviceId, now)).toBeNull();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the session and close its realtime streams', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ user_id: userId }]));
+
+      await manager.logout(createTestUuid(40), now);
+
+      expect(mockQuery.mock.calls[0]?.[0]).toContain('SET revoked_at');
+      expect(mockQuery.mock.calls[0]?.[1]).toEqual([createTestUuid(40), now]);
+      expect(mockGateway.disconnectUser).toHaveBeenCalledWith(userId, {
+        sessionId: createTestUuid(40),
+        reason: 'session_ended',
+      });
+    });
+
+    it('should leave streams alone when the session had already ended', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+
+      await manager.logout(createTestUuid(40), now);
+
+      expect(mockGateway.disconnectUser).not.toHaveBeenCalled();
+    });
+  });
+});
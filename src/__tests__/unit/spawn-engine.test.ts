@@ -0,0 +1,337 @@
+/**
+ * Unit tests for SpawnEngine service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockQueryResult, createMockRedis, createTestUuid } from '../setup.js';
+import type { PlaceFingerprint } from '../../types/fingerprint.js';
+import type { SpawnConfig } from '../../types/turf.js';
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+}));
+
+// Mock Redis
+vi.mock('../../db/redis.js', async () => {
+  const { createMockRedis } = await import('../setup.js');
+  return {
+    redis: createMockRedis(),
+    RedisKeys: {
+      spawns: (h3Index: string, timeWindow: string) => `spawns:${h3Index}:${timeWindow}`,
+    },
+    RedisTTL: { spawns: 3600 },
+  };
+});
+
+// Mock the outpost manager
+vi.mock('../../services/turf/outpost-manager.js', () => ({
+  outpostManager: {
+    getSpawnMultiplier: vi.fn(),
+    getOutpostAtCell: vi.fn(),
+  },
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Mock the realtime bus
+vi.mock('../../services/realtime/event-bus.js', () => ({
+  realtimeBus: {
+    publish: vi.fn(),
+  },
+  RealtimeTopics: {
+    cell: (h3Index: string) => `cell:${h3Index}`,
+    district: (districtId: string) => `district:${districtId}`,
+    crew: (crewId: string) => `crew:${crewId}`,
+  },
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { redis } from '../../db/redis.js';
+import { outpostManager } from '../../services/turf/outpost-manager.js';
+import { SpawnEngine } from '../../services/synthling/spawn-engine.js';
+import type { SpawnPlanInput } from '../../services/synthling/spawn-engine.js';
+
+const mockQuery = vi.mocked(query);
+const mockRedis = redis as unknown as ReturnType<typeof createMockRedis>;
+const mockOutpostManager = vi.mocked(outpostManager);
+
+const cellH3 = '872a1072bffffff';
+
+function createFingerprint(overrides: Partial<PlaceFingerprint> = {}): PlaceFingerprint {
+  return {
+    version: 1,
+    id: 'fp-1',
+    palette: {
+      colors: [
+        { r: 200, g: 180, b: 90, weight: 0.6 },
+        { r: 90, g: 90, b: 110, weight: 0.4 },
+      ],
+      brightness: 0.6,
+      saturation: 0.5,
+    },
+    geometry: {
+      edgeHistogram: Array.from({ length: 8 }, (_, i) => ({ angle: i * 22.5, magnitude: 0.125 })),
+      surfaceDistribution: {
+        sky: 0.2, vegetation: 0.1, building: 0.4, ground: 0.1, water: 0, road: 0.2, unknown: 0,
+      },
+      verticalBias: 0.3,
+      complexity: 0.5,
+    },
+    motion: { level: 0.4, periodicity: 0.2 },
+    audio: {
+      spectralCentroid: 1800,
+      harmonicRatio: 0.35,
+      rhythmDensity: 0.6,
+      loudness: 0.5,
+      dominantFrequencyBand: 'mid',
+    },
+    locality: { h3Cell: cellH3, timeOfDay: 'afternoon', dayType: 'weekday' },
+    capturedAt: new Date('2026-01-29T13:10:00Z'),
+    deviceId: 'device-hash',
+    hash: 'a1b2c3d4e5f60718293a4b5c6d7e8f90',
+    ...overrides,
+  };
+}
+
+function createConfig(overrides: Partial<SpawnConfig> = {}): SpawnConfig {
+  return {
+    cellH3,
+    baseSpawnRate: 4,
+    modifiedSpawnRate: 4,
+    rarityMultiplier: 1,
+    archetypeWeights: {},
+    ...overrides,
+  };
+}
+
+describe('SpawnEngine', () => {
+  let engine: SpawnEngine;
+  const now = new Date('2026-01-29T14:25:00Z');
+
+  function createInput(overrides: Partial<SpawnPlanInput> = {}): SpawnPlanInput {
+    return {
+      districtId: createTestUuid(3),
+      cellH3,
+      window: engine.getWindow(now),
+      config: createConfig(),
+      scannerMultiplier: 1,
+      territory: 'neutral',
+      fingerprint: createFingerprint(),
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    engine = new SpawnEngine();
+    mockQuery.mockReset();
+    mockRedis._clear();
+  });
+
+  describe('getWindow', () => {
+    it('should bucket into UTC hours', () => {
+      const window = engine.getWindow(now);
+
+      expect(window.key).toBe('2026-01-29T14');
+      expect(window.start.toISOString()).toBe('2026-01-29T14:00:00.000Z');
+      expect(window.end.toISOString()).toBe('2026-01-29T15:00:00.000Z');
+    });
+  });
+
+  describe('buildRarityTable', () => {
+    it('should use 70/20/8/2 on neutral ground', () => {
+      const table = engine.buildRarityTable(1, 'neutral');
+
+      expect(table.common).toBeCloseTo(0.70);
+      expect(table.uncommon).toBeCloseTo(0.20);
+      expect(table.rare).toBeCloseTo(0.08);
+      expect(table.legendary).toBeCloseTo(0.02);
+    });
+
+    it('should apply territory bonuses out of the common tier', () => {
+      expect(engine.buildRarityTable(1, 'friendly').rare).toBeCloseTo(0.13);
+      expect(engine.buildRarityTable(1, 'contested').uncommon).toBeCloseTo(0.30);
+      expect(engine.buildRarityTable(1, 'rival').legendary).toBeCloseTo(0.04);
+      expect(engine.buildRarityTable(1, 'rival').common).toBeCloseTo(0.68);
+    });
+
+    it('should scale non-common tiers by the rarity multiplier', () => {
+      const table = engine.buildRarityTable(2, 'neutral');
+
+      expect(table.uncommon).toBeCloseTo(0.40);
+      expect(table.common).toBeCloseTo(0.40);
+    });
+  });
+
+  describe('resolveTerritory', () => {
+    it('should classify cell control states', () => {
+      expect(engine.resolveTerritory(null, false, null)).toBe('neutral');
+      expect(engine.resolveTerritory('crew-a', false, null)).toBe('friendly');
+      expect(engine.resolveTerritory('crew-a', false, 'crew-a')).toBe('friendly');
+      expect(engine.resolveTerritory('crew-a', false, 'crew-b')).toBe('rival');
+      expect(engine.resolveTerritory('crew-a', true, 'crew-b')).toBe('contested');
+    });
+  });
+
+  describe('planSpawns', () => {
+    it('should produce identical spawns for identical input', () => {
+      const a = engine.planSpawns(createInput());
+      const b = new SpawnEngine().planSpawns(createInput());
+
+      expect(a.length).toBe(4);
+      expect(JSON.stringify(b)).toBe(JSON.stringify(a));
+    });
+
+    it('should vary with the time window', () => {
+      const a = engine.planSpawns(createInput());
+      const b = engine.planSpawns(createInput({ window: engine.getWindow(new Date('2026-01-29T15:05:00Z')) }));
+
+      expect(b.map((s) => s.id)).not.toEqual(a.map((s) => s.id));
+    });
+
+    it('should expire spawns at the end of the window', () => {
+      const spawns = engine.planSpawns(createInput());
+
+      for (const spawn of spawns) {
+        expect(spawn.expiresAt.toISOString()).toBe('2026-01-29T15:00:00.000Z');
+        expect(spawn.cellH3).toBe(cellH3);
+      }
+    });
+
+    it('should scale spawn count by the scanner multiplier', () => {
+      const base = engine.planSpawns(createInput({ config: createConfig({ baseSpawnRate: 2 }) }));
+      const scanned = engine.planSpawns(createInput({
+        config: createConfig({ baseSpawnRate: 2 }),
+        scannerMultiplier: 2.0,
+      }));
+
+      expect(base).toHaveLength(2);
+      expect(scanned).toHaveLength(4);
+    });
+
+    it('should exclude archetypes weighted to zero', () => {
+      const spawns = engine.planSpawns(createInput({
+        config: createConfig({ baseSpawnRate: 12, archetypeWeights: { ARCH_001: 0 } }),
+      }));
+
+      expect(spawns.some((s) => s.archetypeId === 'ARCH_001')).toBe(false);
+    });
+
+    it('should roll rarities close to 70/20/8/2', () => {
+      const counts = { common: 0, uncommon: 0, rare: 0, legendary: 0 };
+      let total = 0;
+
+      for (let hour = 0; hour < 250; hour++) {
+        const window = engine.getWindow(new Date(Date.UTC(2026, 0, 1, hour)));
+        const spawns = engine.planSpawns(createInput({
+          window,
+          config: createConfig({ baseSpawnRate: 12 }),
+        }));
+        for (const spawn of spawns) {
+          counts[spawn.rarity]++;
+          total++;
+        }
+      }
+
+      expect(counts.common / total).toBeCloseTo(0.70, 1);
+      expect(counts.uncommon / total).toBeCloseTo(0.20, 1);
+      expect(counts.rare / total).toBeGreaterThan(0.05);
+      expect(counts.rare / total).toBeLessThan(0.11);
+      expect(counts.legendary / total).toBeGreaterThan(0.005);
+      expect(counts.legendary / total).toBeLessThan(0.035);
+    });
+  });
+
+  describe('getSpawns', () => {
+    function mockCellQueries(reference: PlaceFingerprint | null = createFingerprint()) {
+      mockQuery.mockImplementation(async (text: string) => {
+        if (text.includes('FROM turf_cells')) {
+          return mockQueryResult([{
+            district_id: createTestUuid(3),
+            controlling_crew_id: null,
+            contested_since: null,
+          }]) as never;
+        }
+        if (text.includes('FROM spawn_configs')) {
+          return mockQueryResult([{
+            cell_h3: cellH3,
+            base_spawn_rate: '3.00',
+            modified_spawn_rate: '3.00',
+            rarity_multiplier: '1.00',
+            archetype_weights: {},
+          }]) as never;
+        }
+        if (text.includes('FROM fingerprints')) {
+          return mockQueryResult(reference ? [{
+            id: reference.id,
+            version: 1,
+            hash: reference.hash,
+            device_id: reference.deviceId,
+            palette: reference.palette,
+            geometry: reference.geometry,
+            motion: reference.motion,
+            audio: reference.audio,
+            locality: reference.locality,
+            captured_at: reference.capturedAt,
+          }] : []) as never;
+        }
+        return mockQueryResult([]) as never;
+      });
+      mockOutpostManager.getSpawnMultiplier.mockResolvedValue(1.0);
+      mockOutpostManager.getOutpostAtCell.mockResolvedValue(null);
+    }
+
+    it('should derive spawns from the cell reference fingerprint', async () => {
+      mockCellQueries();
+
+      const spawns = await engine.getSpawns(cellH3, now);
+      const planned = engine.planSpawns(createInput({ config: createConfig({ baseSpawnRate: 3 }) }));
+
+      expect(spawns).toHaveLength(3);
+      expect(spawns).toEqual(planned);
+    });
+
+    it('should serve the same spawns for the rest of the window', async () => {
+      mockCellQueries();
+
+      const first = await engine.getSpawns(cellH3, now);
+      mockCellQueries(createFingerprint({ hash: 'newer-capture' }));
+      const second = await engine.getSpawns(cellH3, new Date('2026-01-29T14:55:00Z'));
+
+      expect(second).toEqual(first);
+      expect(mockRedis.setex).toHaveBeenCalledWith(
+        `spawns:${cellH3}:2026-01-29T14`,
+        35 * 60,
+        expect.any(String)
+      );
+    });
+
+    it('should consult the scanner multiplier', async () => {
+      mockCellQueries();
+      mockOutpostManager.getSpawnMultiplier.mockResolvedValue(2.0);
+
+      const spawns = await engine.getSpawns(cellH3, now);
+
+      expect(mockOutpostManager.getSpawnMultiplier).toHaveBeenCalledWith(cellH3);
+      expect(spawns).toHaveLength(6);
+    });
+
+    it('should return nothing when the cell has no fingerprint', async () => {
+      mockCellQueries(null);
+
+      const spawns = await engine.getSpawns(cellH3, now);
+
+      expect(spawns).toEqual([]);
+      expect(mockRedis.setex).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for SynthlingCollection service.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mockQueryResult, testData, createTestUuid } from '../setup.js';
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { SynthlingCollection } from '../../services/synthling/collection.js';
+
+const mockQuery = vi.mocked(query);
+
+function createSynthlingRow(index: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: createTestUuid(index),
+    owner_id: testData.userId,
+    archetype_id: 'ARCH_001',
+    nickname: null,
+    imprint: {},
+    stats: { vitality: 50, power: 50, resilience: 50, agility: 50, focus: 50 },
+    level: 3,
+    experience: 0,
+    moves: [],
+    condition: { currentHp: 50, maxHp: 50, statusEffects: [], fatigue: 0 },
+    captured_at: new Date('2026-01-29T14:30:00Z'),
+    captured_at_cell: testData.cellH3,
+    captured_fingerprint: { id: 'fp-1', capturedAt: '2026-01-29T13:10:00.000Z' },
+    ...overrides,
+  };
+}
+
+describe('SynthlingCollection', () => {
+  let collection: SynthlingCollection;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    collection = new SynthlingCollection();
+  });
+
+  describe('list', () => {
+    it('should filter by archetype, rarity and capture cell', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([createSynthlingRow(10)])); // SELECT rows
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ total: '7' }])); // COUNT
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // evolutions
+
+      const page = await collection.list(testData.userId, {
+        archetypeId: 'ARCH_001',
+        rarity: 'rare',
+        cellH3: testData.cellH3,
+        limit: 5,
+        offset: 5,
+      });
+
+      const [text, params] = mockQuery.mock.calls[0] ?? [];
+      expect(text).toContain('owner_id = $1 AND archetype_id = $2 AND rarity = $3 AND captured_at_cell = $4');
+      expect(text).toContain('LIMIT $5 OFFSET $6');
+      expect(params).toEqual([testData.userId, 'ARCH_001', 'rare', testData.cellH3, 5, 5]);
+      expect(page.total).toBe(7);
+      expect(page.synthlings[0]?.capturedFingerprint.capturedAt).toBeInstanceOf(Date);
+    });
+
+    it('should clamp the page size', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ total: '0' }]));
+
+      const page = await collection.list(testData.userId, { limit: 500 });
+
+      expect(page.limit).toBe(100);
+      expect(mockQuery.mock.calls[0]?.[1]).toEqual([testData.userId, 100, 0]);
+    });
+
+    it('should attach evolution history', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([createSynthlingRow(10), createSynthlingRow(11)]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ total: '2' }]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{
+        synthling_id: createTestUuid(11),
+        from_archetype: 'ARCH_001',
+        to_archetype: 'ARCH_011',
+        evolved_at: new Date('2026-02-01T10:00:00Z'),
+        trigger_fingerprint: null,
+        location_cell: testData.cellH3,
+      }]));
+
+      const page = await collection.list(testData.userId);
+
+      expect(page.synthlings[0]?.evolutionHistory).toEqual([]);
+      expect(page.synthlings[1]?.evolutionHistory).toEqual([{
+        fromArchetype: 'ARCH_001',
+        toArchetype: 'ARCH_011',
+        evolvedAt: new Date('2026-02-01T10:00:00Z'),
+        triggerFingerprint: undefined,
+        locationCell: testData.cellH3,
+      }]);
+    });
+  });
+
+  describe('getOwnedSquad', () => {
+    it('should return owned Synthlings in the requested order', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([createSynthlingRow(10), createSynthlingRow(11)]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([])); // evolutions
+
+      const ids = [createTestUuid(11), createTestUuid(12), createTestUuid(10)];
+      const squad = await collection.getOwnedSquad(testData.userId, ids);
+
+      expect(squad.map((s) => s.id)).toEqual([createTestUuid(11), createTestUuid(10)]);
+      expect(mockQuery.mock.calls[0]?.[1]).toEqual([testData.userId, ids]);
+    });
+  });
+
+  describe('setNickname', () => {
+    it('should return null for Synthlings the user does not own', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([], 0));
+
+      const result = await collection.setNickname(testData.userId, createTestUuid(10), 'Sparky');
+
+      expect(result).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getStats', () => {
+    it('should compute collection stats', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([
+        { total: '12', unique_archetypes: '5', battles_won: '9' },
+      ]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ total: '2' }]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ archetype_id: 'ARCH_003' }]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{
+        id: createTestUuid(10),
+        rarity: 'legendary',
+        captured_at: new Date('2026-01-29T14:30:00Z'),
+      }]));
+
+      const stats = await collection.getStats(testData.userId);
+
+      expect(stats).toEqual({
+        userId: testData.userId,
+        totalCaptured: 12,
+        uniqueArchetypes: 5,
+        evolutionsCompleted: 2,
+        battlesWon: 9,
+        favoriteArchetype: 'ARCH_003',
+        rarestCapture: {
+          synthlingId: createTestUuid(10),
+          rarity: 'legendary',
+          capturedAt: new Date('2026-01-29T14:30:00Z'),
+        },
+      });
+    });
+
+    it('should handle an empty collection', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([
+        { total: '0', unique_archetypes: '0', battles_won: null },
+      ]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([{ total: '0' }]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+
+      const stats = await collection.getStats(testData.userId);
+
+      expect(stats.totalCaptured).toBe(0);
+      expect(stats.battlesWon).toBe(0);
+      expect(stats.favoriteArchetype).toBeUndefined();
+      expect(stats.rarestCapture).toBeUndefined();
+    });
+  });
+});
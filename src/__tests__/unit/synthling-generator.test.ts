@@ -0,0 +1,207 @@
+/**
+ * Unit tests for SynthlingGenerator.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PlaceFingerprint } from '../../types/fingerprint.js';
+import type { SynthlingArchetype } from '../../types/synthling.js';
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { SynthlingGenerator } from '../../services/synthling/generator.js';
+import { getWeeklySalt } from '../../services/synthling/seeded-random.js';
+
+const archetype: SynthlingArchetype = {
+  id: 'ARCH_001',
+  name: 'Luminar',
+  description: 'A spark biped drawn to bright, busy streets.',
+  baseStats: { vitality: 60, power: 45, resilience: 40, agility: 55, focus: 50 },
+  environmentAffinity: {
+    preferredPalette: { hueRange: [30, 90], saturationRange: [0.4, 1], brightnessRange: [0.5, 1] },
+    preferredGeometry: { surfaceTypes: ['building', 'road'], complexityRange: [0.4, 1] },
+    preferredAudio: { harmonicRange: [0.2, 0.7], rhythmRange: [0.4, 1] },
+  },
+  movePool: ['spark_jab', 'flare'],
+  visualTemplate: { baseModel: 'luminar_base', colorMappings: [], patternSlots: [], animationSet: 'biped' },
+  audioTemplate: { baseVoice: 'luminar_voice', pitchRange: [0.6, 1.8], timbreVariants: [], rhythmPatterns: [] },
+  rarity: 'common',
+};
+
+function createFingerprint(overrides: Partial<PlaceFingerprint> = {}): PlaceFingerprint {
+  return {
+    version: 1,
+    id: '00000000-0000-0000-0000-000000000042',
+    palette: {
+      colors: [
+        { r: 40, g: 120, b: 60, weight: 0.2 },
+        { r: 200, g: 180, b: 90, weight: 0.45 },
+        { r: 90, g: 90, b: 110, weight: 0.35 },
+      ],
+      brightness: 0.62,
+      saturation: 0.48,
+    },
+    geometry: {
+      edgeHistogram: [0.1, 0.15, 0.2, 0.1, 0.1, 0.15, 0.1, 0.1].map((magnitude, i) => ({
+        angle: i * 22.5,
+        magnitude,
+      })),
+      surfaceDistribution: {
+        sky: 0.2, vegetation: 0.1, building: 0.4, ground: 0.1, water: 0, road: 0.2, unknown: 0,
+      },
+      verticalBias: 0.3,
+      complexity: 0.55,
+    },
+    motion: { level: 0.4, periodicity: 0.2 },
+    audio: {
+      spectralCentroid: 1800,
+      harmonicRatio: 0.35,
+      rhythmDensity: 0.6,
+      loudness: 0.5,
+      dominantFrequencyBand: 'mid',
+    },
+    locality: { h3Cell: '872830828ffffff', timeOfDay: 'afternoon', dayType: 'weekday' },
+    capturedAt: new Date('2026-01-29T14:00:00Z'),
+    deviceId: 'device-hash-0001',
+    hash: 'a1b2c3d4e5f60718293a4b5c6d7e8f90',
+    ...overrides,
+  };
+}
+
+describe('SynthlingGenerator', () => {
+  let generator: SynthlingGenerator;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    generator = new SynthlingGenerator();
+  });
+
+  describe('generate', () => {
+    it('should match the golden imprint', () => {
+      const result = generator.generate(archetype, createFingerprint(), '2026-W05');
+
+      expect(result.seed).toBe('cc01baf8ecae98dca202d8d6d8265902ffba50b4b614e57b4fa60e266dad4af3');
+      expect(JSON.stringify(result.imprint)).toBe(
+        '{"palette":{"primary":{"r":200,"g":196,"b":90},"secondary":{"r":90,"g":90,"b":110},' +
+          '"accent":{"r":40,"g":120,"b":60}},"pattern":{"type":"gradient","intensity":0.386},' +
+          '"morphology":{"scale":1.0009,"proportion":1.0479,"texture":"crystalline"},' +
+          '"voice":{"pitch":1.5313,"timbre":"metallic","rhythm":1.4}}'
+      );
+      expect(result.stats).toEqual({
+        vitality: 61,
+        power: 45,
+        resilience: 40,
+        agility: 52,
+        focus: 50,
+      });
+    });
+
+    it('should produce byte-identical output for identical inputs', () => {
+      const a = generator.generate(archetype, createFingerprint(), '2026-W05');
+      const b = new SynthlingGenerator().generate(archetype, createFingerprint(), '2026-W05');
+
+      expect(JSON.stringify(a)).toBe(JSON.stringify(b));
+    });
+
+    it('should ignore fingerprint id and capture time', () => {
+      const a = generator.generate(archetype, createFingerprint(), '2026-W05');
+      const b = generator.generate(
+        archetype,
+        createFingerprint({
+          id: '00000000-0000-0000-0000-000000000099',
+          capturedAt: new Date('2026-01-30T09:00:00Z'),
+        }),
+        '2026-W05'
+      );
+
+      expect(b.imprint).toEqual(a.imprint);
+    });
+
+    it('should vary with the weekly salt', () => {
+      const a = generator.generate(archetype, createFingerprint(), '2026-W05');
+      const b = generator.generate(archetype, createFingerprint(), '2026-W06');
+
+      expect(b.seed).not.toBe(a.seed);
+      expect(b.imprint).not.toEqual(a.imprint);
+    });
+
+    it('should vary with the archetype', () => {
+      const a = generator.generate(archetype, createFingerprint(), '2026-W05');
+      const b = generator.generate({ ...archetype, id: 'ARCH_002' }, createFingerprint(), '2026-W05');
+
+      expect(b.seed).not.toBe(a.seed);
+    });
+
+    it('should keep derived values within imprint ranges', () => {
+      const extremes = createFingerprint({
+        geometry: {
+          ...createFingerprint().geometry,
+          verticalBias: 1,
+          complexity: 1,
+        },
+        audio: {
+          spectralCentroid: 20000,
+          harmonicRatio: 1,
+          rhythmDensity: 1,
+          loudness: 1,
+          dominantFrequencyBand: 'high',
+        },
+      });
+
+      const { imprint } = generator.generate(archetype, extremes, '2026-W05');
+
+      expect(imprint.morphology.scale).toBeGreaterThanOrEqual(0.8);
+      expect(imprint.morphology.scale).toBeLessThanOrEqual(1.2);
+      expect(imprint.voice.pitch).toBeLessThanOrEqual(1.8); // archetype pitchRange max
+      expect(imprint.voice.timbre).toBe('bright');
+      expect(imprint.pattern.intensity).toBeLessThanOrEqual(1);
+    });
+
+    it('should use a neutral voice for silent captures', () => {
+      const silent = createFingerprint({
+        audio: {
+          spectralCentroid: 0,
+          harmonicRatio: 0,
+          rhythmDensity: 0,
+          loudness: 0,
+          dominantFrequencyBand: 'low',
+        },
+      });
+
+      const { imprint } = generator.generate(archetype, silent, '2026-W05');
+
+      expect(imprint.voice).toEqual({ pitch: 1, timbre: 'warm', rhythm: 1 });
+    });
+
+    it('should bias agility by motion level', () => {
+      const still = generator.generate(
+        archetype,
+        createFingerprint({ motion: { level: 0, periodicity: 0 } }),
+        '2026-W05'
+      );
+      const busy = generator.generate(
+        archetype,
+        createFingerprint({ motion: { level: 1, periodicity: 0 } }),
+        '2026-W05'
+      );
+
+      expect(busy.stats.agility).toBeGreaterThan(still.stats.agility);
+    });
+  });
+
+  describe('getWeeklySalt', () => {
+    it('should return the ISO week', () => {
+      expect(getWeeklySalt(new Date('2026-01-29T14:00:00Z'))).toBe('2026-W05');
+      expect(getWeeklySalt(new Date('2026-01-01T00:00:00Z'))).toBe('2026-W01');
+      expect(getWeeklySalt(new Date('2024-12-30T00:00:00Z'))).toBe('2025-W01');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for TokenSigner service.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTestUuid } from '../setup.js';
+import { TokenSigner } from '../../services/auth/token-signer.js';
+import type { AccessTokenClaims } from '../../types/auth.js';
+
+const now = new Date('2026-03-01T12:00:00Z');
+const iat = Math.floor(now.getTime() / 1000);
+
+const claims: AccessTokenClaims = {
+  sub: createTestUuid(2),
+  sid: createTestUuid(40),
+  did: 'device-0001',
+  iat,
+  exp: iat + 900,
+};
+
+describe('TokenSigner', () => {
+  const signer = new TokenSigner('a-signing-secret-that-is-long-enough');
+
+  it('should verify a token it signed', () => {
+    expect(signer.verify(signer.sign(claims), now)).toEqual(claims);
+  });
+
+  it('should reject an expired token', () => {
+    const token = signer.sign(claims);
+
+    expect(signer.verify(token, new Date(claims.exp * 1000))).toBeNull();
+  });
+
+  it('should reject a token signed with another secret', () => {
+    const other = new TokenSigner('another-signing-secret-that-is-long');
+
+    expect(signer.verify(other.sign(claims), now)).toBeNull();
+  });
+
+  it('should reject tampered claims', () => {
+    const [, signature] = signer.sign(claims).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...claims, sub: createTestUuid(3) })).toString('base64url');
+
+    expect(signer.verify(`${forged}.${signature}`, now)).toBeNull();
+  });
+
+  it.each([
+    '',
+    'not-a-token',
+    'a.b.c',
+    `${Buffer.from('{').toString('base64url')}.sig`,
+  ])('should reject malformed token %j', (token) => {
+    expect(signer.verify(token, now)).toBeNull();
+  });
+
+  it('should reject a signed token with missing claims', () => {
+    const { did: _did, ...partial } = claims;
+    const token = signer.sign(partial as AccessTokenClaims);
+
+    expect(signer.verify(token, now)).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for turf API routes acting on outposts.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import Fastify from 'fastify';
+import { createTestUuid } from '../setup.js';
+
+// Mock the auth services; the token is the user ID
+vi.mock('../../services/auth/index.js', () => ({
+  sessionManager: {
+    authenticate: vi.fn(async (token: string, deviceId: string) => ({
+      userId: token,
+      crewId: null,
+      sessionId: 'session',
+      deviceId,
+    })),
+  },
+}));
+
+// Mock the turf services
+vi.mock('../../services/turf/index.js', () => ({
+  turfService: {},
+  influenceManager: {},
+  outpostManager: {
+    canManageOutpost: vi.fn(),
+    installModule: vi.fn(),
+  },
+  raidEngine: {},
+  contractManager: {},
+  controlTracker: {},
+  crewManager: {},
+  diplomacyManager: {},
+  presenceManager: {},
+}));
+
+// Import after mocks are set up
+import { outpostManager } from '../../services/turf/index.js';
+import { turfRoutes } from '../../api/v1/turf.js';
+
+const mockOutpostManager = vi.mocked(outpostManager);
+
+describe('turf routes', () => {
+  const app = Fastify();
+  app.register(turfRoutes);
+
+  const ownerId = createTestUuid(1);
+  const rivalId = createTestUuid(2);
+  const outpostId = createTestUuid(3);
+
+  function installModule(userId: string) {
+    return app.inject({
+      method: 'POST',
+      url: `/outpost/${outpostId}/module`,
+      headers: { authorization: `Bearer ${userId}`, 'x-device-id': 'device-0001' },
+      payload: { type: 'shield', level: 3 },
+    });
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOutpostManager.canManageOutpost.mockImplementation(async (_id, userId) => userId === ownerId);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('POST /outpost/:id/module', () => {
+    it('should reject players who neither own the outpost nor officer its crew', async () => {
+      const response = await installModule(rivalId);
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json()).toEqual({ error: 'Not allowed to modify this outpost' });
+      expect(mockOutpostManager.canManageOutpost).toHaveBeenCalledWith(outpostId, rivalId);
+      expect(mockOutpostManager.installModule).not.toHaveBeenCalled();
+    });
+
+    it('should install the module for the owner', async () => {
+      const module = { type: 'shield', level: 3, installedAt: new Date() };
+      mockOutpostManager.installModule.mockResolvedValueOnce(module);
+
+      const response = await installModule(ownerId);
+
+      expect(response.statusCode).toBe(200);
+      expect(mockOutpostManager.installModule).toHaveBeenCalledWith(outpostId, ownerId, 'shield', 3);
+    });
+
+    it('should return 400 when the install fails under the outpost lock', async () => {
+      mockOutpostManager.installModule.mockRejectedValueOnce(new Error('Not allowed to modify this outpost'));
+
+      const response = await installModule(ownerId);
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual({ error: 'Not allowed to modify this outpost' });
+    });
+  });
+});
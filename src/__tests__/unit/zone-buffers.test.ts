@@ -0,0 +1,128 @@
+/**
+ * Unit tests for zone buffer cell covers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as h3 from 'h3-js';
+import { BUFFER_COVER_SCALE, coverCells } from '../../services/geofencing/zone-buffers.js';
+
+const EARTH_RADIUS_M = 6371007.180918475;  // H3's authalic radius
+const RESOLUTION = 7;
+
+type LatLng = [number, number];
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Point `distance` meters from `from` along an initial bearing (radians).
+ */
+function destination([lat, lng]: LatLng, bearing: number, distance: number): LatLng {
+  const d = distance / EARTH_RADIUS_M;
+  const lat1 = toRad(lat);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(d) + Math.cos(lat1) * Math.sin(d) * Math.cos(bearing));
+  const lng2 = toRad(lng) + Math.atan2(
+    Math.sin(bearing) * Math.sin(d) * Math.cos(lat1),
+    Math.cos(d) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return [toDeg(lat2), toDeg(lng2)];
+}
+
+function bearingTo([lat1, lng1]: LatLng, [lat2, lng2]: LatLng): number {
+  const y = Math.sin(toRad(lng2 - lng1)) * Math.cos(toRad(lat2));
+  const x = Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) -
+    Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(toRad(lng2 - lng1));
+  return Math.atan2(y, x);
+}
+
+/**
+ * A 32-sided polygon like ST_Buffer's around a point, rotated so that the
+ * middle of one side faces `facing`.
+ */
+function bufferPolygon(center: LatLng, radius: number, facing: number): GeoJSON.MultiPolygon {
+  const ring = Array.from({ length: 32 }, (_, k) => {
+    const [lat, lng] = destination(center, facing + Math.PI / 32 + (k * Math.PI) / 16, radius);
+    return [lng, lat];
+  });
+  ring.push(ring[0] as number[]);
+  return { type: 'MultiPolygon', coordinates: [[ring]] };
+}
+
+function square([lat, lng]: LatLng, halfSizeDeg: number): GeoJSON.MultiPolygon {
+  return {
+    type: 'MultiPolygon',
+    coordinates: [[[
+      [lng - halfSizeDeg, lat - halfSizeDeg],
+      [lng + halfSizeDeg, lat - halfSizeDeg],
+      [lng + halfSizeDeg, lat + halfSizeDeg],
+      [lng - halfSizeDeg, lat + halfSizeDeg],
+      [lng - halfSizeDeg, lat - halfSizeDeg],
+    ]]],
+  };
+}
+
+// A cell, the midpoint of one of its edges, and the bearing out of it
+const cell = h3.latLngToCell(37.7749, -122.4194, RESOLUTION);
+const [v0, v1] = h3.cellToBoundary(cell) as [LatLng, LatLng];
+const edgeMidpoint: LatLng = [(v0[0] + v1[0]) / 2, (v0[1] + v1[1]) / 2];
+const alongEdge = bearingTo(edgeMidpoint, v1);
+const outward = [alongEdge + Math.PI / 2, alongEdge - Math.PI / 2].reduce((best, bearing) => {
+  const probe = h3.latLngToCell(...destination(edgeMidpoint, bearing, 5), RESOLUTION);
+  return probe !== cell ? bearing : best;
+});
+const neighbor = h3.latLngToCell(...destination(edgeMidpoint, outward, 5), RESOLUTION);
+
+describe('coverCells', () => {
+  it('should cover the cell of a zone much smaller than a cell', () => {
+    const zone = square(h3.cellToLatLng(cell), 0.0005);
+
+    expect(coverCells(zone, RESOLUTION)).toEqual([cell]);
+  });
+
+  it('should cover both cells when a zone crosses a cell edge', () => {
+    const zone = square(edgeMidpoint, 0.0005);
+
+    expect(coverCells(zone, RESOLUTION).sort()).toEqual([cell, neighbor].sort());
+  });
+
+  it('should leave out a neighbor the zone stops just short of', () => {
+    const inside = destination(edgeMidpoint, outward + Math.PI, 2);
+    const zone = square(inside, 0.00001);
+
+    expect(coverCells(zone, RESOLUTION)).toEqual([cell]);
+  });
+
+  it('should leave out cells inside a hole', () => {
+    const center: LatLng = [37.7749, -122.4194];
+    const [outer] = square(center, 0.02).coordinates[0] ?? [];
+    const [hole] = square(center, 0.01).coordinates[0] ?? [];
+    const zone: GeoJSON.MultiPolygon = {
+      type: 'MultiPolygon',
+      coordinates: [[outer ?? [], [...(hole ?? [])].reverse()]],
+    };
+
+    const cells = coverCells(zone, 9);
+
+    expect(cells).not.toContain(h3.latLngToCell(...center, 9));
+    expect(cells).toContain(h3.latLngToCell(center[0] + 0.015, center[1], 9));
+  });
+});
+
+describe('BUFFER_COVER_SCALE', () => {
+  // A zone point 498.8m from the edge, with a 500m buffer: the true
+  // buffer crosses the edge, but the polygon approximation falls short
+  const bufferMeters = 500;
+  const zonePoint = destination(edgeMidpoint, outward + Math.PI, 498.8);
+
+  it('should be needed: an unscaled buffer polygon misses the neighbor', () => {
+    const buffered = bufferPolygon(zonePoint, bufferMeters, outward);
+
+    expect(coverCells(buffered, RESOLUTION)).not.toContain(neighbor);
+  });
+
+  it('should make the buffer polygon reach every cell within the buffer distance', () => {
+    const buffered = bufferPolygon(zonePoint, bufferMeters * BUFFER_COVER_SCALE, outward);
+
+    expect(coverCells(buffered, RESOLUTION)).toContain(neighbor);
+  });
+});
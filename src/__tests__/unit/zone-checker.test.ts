@@ -34,6 +34,7 @@ vi.mock('../../utils/logger.js', () => ({
 import { query } from '../../db/connection.js';
 import { h3Cache } from '../../services/geofencing/h3-cache.js';
 import { ZoneCheckerService } from '../../services/geofencing/zone-checker.js';
+import { BUFFER_COVER_SCALE } from '../../services/geofencing/zone-buffers.js';
 
 const mockQuery = vi.mocked(query);
 const mockH3Cache = vi.mocked(h3Cache);
@@ -290,7 +291,6 @@ describe('ZoneCheckerService', () => {
       const zoneId = createTestUuid(30);
       mockQuery
         .mockResolvedValueOnce(mockQueryResult([{ id: zoneId }])) // INSERT
-        .mockResolvedValueOnce(mockQueryResult([])) // First UPDATE (h3_polygon_to_cells)
         .mockResolvedValueOnce(
           mockQueryResult([
             {
@@ -310,7 +310,7 @@ describe('ZoneCheckerService', () => {
               }),
             },
           ])
-        ) // SELECT geometry
+        ) // SELECT buffered geometry
         .mockResolvedValueOnce(mockQueryResult([])); // UPDATE h3_cells
 
       mockH3Cache.invalidateZone.mockResolvedValueOnce(undefined);
@@ -344,7 +344,6 @@ describe('ZoneCheckerService', () => {
       const zoneId = createTestUuid(30);
       mockQuery
         .mockResolvedValueOnce(mockQueryResult([{ id: zoneId }]))
-        .mockResolvedValueOnce(mockQueryResult([]))
         .mockResolvedValueOnce(
           mockQueryResult([
             {
@@ -397,7 +396,6 @@ describe('ZoneCheckerService', () => {
       const zoneId = createTestUuid(30);
       mockQuery
         .mockResolvedValueOnce(mockQueryResult([{ id: zoneId }]))
-        .mockResolvedValueOnce(mockQueryResult([]))
         .mockResolvedValueOnce(
           mockQueryResult([
             {
@@ -420,8 +418,6 @@ describe('ZoneCheckerService', () => {
         )
         .mockResolvedValueOnce(mockQueryResult([]));
 
-      mockH3Cache.invalidateZone.mockResolvedValueOnce(undefined);
-
       await checker.createZone({
         name: 'New Zone',
         category: 'school',
@@ -440,6 +436,111 @@ describe('ZoneCheckerService', () => {
         source: 'manual',
       });
 
+      // Before the new cover replaces the old one, and after
+      expect(mockH3Cache.invalidateZone).toHaveBeenCalledTimes(2);
+      expect(mockH3Cache.invalidateZone).toHaveBeenCalledWith(zoneId);
+    });
+
+    it('should cover the zone buffered by its category distance', async () => {
+      const zoneId = createTestUuid(30);
+      mockQuery
+        .mockResolvedValueOnce(mockQueryResult([{ id: zoneId }]))
+        .mockResolvedValueOnce(
+          mockQueryResult([
+            {
+              geometry: JSON.stringify({
+                type: 'MultiPolygon',
+                coordinates: [[[[-122.42, 37.77], [-122.41, 37.77], [-122.41, 37.78], [-122.42, 37.77]]]],
+              }),
+              buffer_meters: 50,
+            },
+          ])
+        )
+        .mockResolvedValueOnce(mockQueryResult([]));
+
+      await checker.createZone({
+        name: 'Tiny Zone',
+        category: 'school',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [[[-122.42, 37.77], [-122.41, 37.77], [-122.41, 37.78], [-122.42, 37.77]]],
+        },
+        source: 'manual',
+      });
+
+      const [selectSql, selectParams] = mockQuery.mock.calls[1] ?? [];
+      expect(selectSql).toContain('ST_Buffer(z.geometry::geography');
+      expect(selectSql).toContain('zone_category_buffers');
+      expect(selectParams).toEqual([zoneId, BUFFER_COVER_SCALE]);
+
+      const [updateSql, updateParams] = mockQuery.mock.calls[2] ?? [];
+      expect(updateSql).toContain('SET h3_cells');
+      expect((updateParams as unknown[])[0]).not.toHaveLength(0);
+      expect((updateParams as unknown[])[2]).toBe(50);
+    });
+  });
+
+  describe('zone buffers', () => {
+    it('should measure blocking distance against the category buffer', async () => {
+      const zoneId = createTestUuid(30);
+      mockH3Cache.getZonesForCell.mockResolvedValueOnce({
+        zoneIds: [zoneId],
+        categories: ['school'],
+        cachedAt: Date.now(),
+      });
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+
+      await checker.checkLocation(37.7749, -122.4194);
+
+      const sql = mockQuery.mock.calls[0]?.[0];
+      expect(sql).toContain('LEFT JOIN zone_category_buffers');
+      expect(sql).toContain('ST_DWithin');
+      expect(sql).toContain('COALESCE(b.buffer_meters, 0)');
+    });
+
+    it('should default categories without a row to no buffer', async () => {
+      mockQuery.mockResolvedValueOnce(
+        mockQueryResult([{ category: 'school' as ZoneCategory, buffer_meters: 100 }])
+      );
+
+      const buffers = await checker.getCategoryBuffers();
+
+      expect(buffers).toEqual({ school: 100, hospital: 0, government: 0, residential: 0, custom: 0 });
+    });
+
+    it('should store the buffer and leave the recompute to the covers job', async () => {
+      mockQuery
+        .mockResolvedValueOnce(mockQueryResult([])) // upsert
+        .mockResolvedValueOnce(mockQueryResult([{ count: '2' }]));
+
+      const count = await checker.setCategoryBuffer('school', 75);
+
+      expect(count).toBe(2);
+      expect(mockQuery).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('INSERT INTO zone_category_buffers'),
+        ['school', 75]
+      );
+      expect(mockQuery).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining('cover_buffer_meters IS DISTINCT FROM $2'),
+        ['school', 75]
+      );
+      expect(mockH3Cache.invalidateZone).not.toHaveBeenCalled();
+    });
+
+    it('should recompute zones whose cover predates their category buffer', async () => {
+      const zoneId = createTestUuid(30);
+      mockQuery
+        .mockResolvedValueOnce(mockQueryResult([{ id: zoneId }]))
+        .mockResolvedValueOnce(mockQueryResult([])); // zone's geometry
+
+      const count = await checker.recomputeStaleCovers(100);
+
+      expect(count).toBe(1);
+      const [sql, params] = mockQuery.mock.calls[0] ?? [];
+      expect(sql).toContain('z.cover_buffer_meters IS DISTINCT FROM COALESCE(b.buffer_meters, 0)');
+      expect(params).toEqual([100]);
       expect(mockH3Cache.invalidateZone).toHaveBeenCalledWith(zoneId);
     });
   });
@@ -471,6 +572,92 @@ describe('ZoneCheckerService', () => {
     });
   });
 
+  describe('getZone', () => {
+    it('should map the zone with its GeoJSON geometry', async () => {
+      const zoneId = createTestUuid(30);
+      const geometry = {
+        type: 'MultiPolygon',
+        coordinates: [[[[-122.42, 37.77], [-122.41, 37.77], [-122.41, 37.78], [-122.42, 37.77]]]],
+      };
+      const effectiveUntil = new Date('2026-03-02T00:00:00Z');
+      mockQuery.mockResolvedValueOnce(
+        mockQueryResult([{
+          id: zoneId,
+          name: 'Street Festival',
+          category: 'custom',
+          geometry: JSON.stringify(geometry),
+          h3_cells: ['872830828ffffff'],
+          source: 'manual',
+          source_id: null,
+          effective_from: new Date('2026-03-01T00:00:00Z'),
+          effective_until: effectiveUntil,
+          metadata: { reason: 'Crowd safety' },
+          created_at: new Date('2026-02-28T00:00:00Z'),
+          updated_at: new Date('2026-02-28T00:00:00Z'),
+        }])
+      );
+
+      const zone = await checker.getZone(zoneId);
+
+      expect(zone).toMatchObject({
+        id: zoneId,
+        name: 'Street Festival',
+        geometry,
+        source: 'manual',
+        sourceId: undefined,
+        effectiveUntil,
+        metadata: { reason: 'Crowd safety' },
+      });
+    });
+
+    it('should return null when zone not found', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+
+      expect(await checker.getZone(createTestUuid(30))).toBeNull();
+    });
+  });
+
+  describe('listZones', () => {
+    it('should filter by source and leave out ended zones by default', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+
+      await checker.listZones('manual');
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('effective_until > NOW()'),
+        ['manual', false]
+      );
+    });
+  });
+
+  describe('syncScheduledZones', () => {
+    it('should invalidate zones that started or ended since their last sync', async () => {
+      const now = new Date('2026-03-01T12:00:00Z');
+      const starting = createTestUuid(30);
+      const ending = createTestUuid(31);
+      mockQuery
+        .mockResolvedValueOnce(mockQueryResult([{ id: starting }, { id: ending }]))
+        .mockResolvedValueOnce(mockQueryResult([], 1))
+        .mockResolvedValueOnce(mockQueryResult([], 1));
+
+      const count = await checker.syncScheduledZones(now);
+
+      expect(count).toBe(2);
+      expect(mockQuery.mock.calls[0]?.[0]).toContain('effective_from > cache_synced_at');
+      expect(mockQuery.mock.calls[0]?.[0]).toContain('effective_until > cache_synced_at');
+      expect(mockH3Cache.invalidateZone).toHaveBeenCalledWith(starting);
+      expect(mockH3Cache.invalidateZone).toHaveBeenCalledWith(ending);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('SET cache_synced_at'), [ending, now]);
+    });
+
+    it('should do nothing when no zone changed state', async () => {
+      mockQuery.mockResolvedValueOnce(mockQueryResult([]));
+
+      expect(await checker.syncScheduledZones()).toBe(0);
+      expect(mockH3Cache.invalidateZone).not.toHaveBeenCalled();
+    });
+  });
+
   describe('zone category priority', () => {
     it('should prioritize school over hospital', async () => {
       const schoolId = createTestUuid(31);
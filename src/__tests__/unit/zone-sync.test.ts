@@ -0,0 +1,498 @@
+/**
+ * Unit tests for ZoneSyncService source adapter sync, OSM extraction,
+ * offline import and multipolygon assembly.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deflateSync } from 'zlib';
+import { mockQueryResult } from '../setup.js';
+
+// Mock the database module
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+}));
+
+// Mock the zone checker
+vi.mock('../../services/geofencing/zone-checker.js', () => ({
+  zoneChecker: {
+    createZone: vi.fn(),
+    computeAndStoreH3Cells: vi.fn(),
+    deleteZone: vi.fn(),
+  },
+}));
+
+// Mock the logger
+vi.mock('../../utils/logger.js', () => ({
+  createLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// Import after mocks are set up
+import { query } from '../../db/connection.js';
+import { zoneChecker } from '../../services/geofencing/zone-checker.js';
+import { ZoneSyncService } from '../../services/geofencing/zone-sync.js';
+import { assembleMultipolygon } from '../../services/geofencing/osm-multipolygon.js';
+import type { ZoneSourceAdapter, ZoneSourceFetch } from '../../services/geofencing/zone-source.js';
+
+const mockQuery = vi.mocked(query);
+const mockZoneChecker = vi.mocked(zoneChecker);
+
+const BOUNDS = { minLat: 37.7, maxLat: 37.8, minLng: -122.5, maxLng: -122.4 };
+
+interface FixtureElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  members?: Array<{ type: string; ref: number; role: string }>;
+  tags?: Record<string, string>;
+}
+
+function fixturePath(path: string): string {
+  return new URL(`../fixtures/${path}`, import.meta.url).pathname;
+}
+
+function loadFixture(name: string): { elements: FixtureElement[] } {
+  return JSON.parse(readFileSync(fixturePath(`overpass/${name}.json`), 'utf8'));
+}
+
+// Protobuf encoding, enough to write .osm.pbf files
+const varint = (n: number): number[] => {
+  const out: number[] = [];
+  while (n >= 0x80) {
+    out.push((n % 128) | 0x80);
+    n = Math.floor(n / 128);
+  }
+  out.push(n);
+  return out;
+};
+const zigzag = (n: number) => (n < 0 ? -2 * n - 1 : 2 * n);
+const deltas = (values: number[]) => values.map((v, i) => zigzag(v - (values[i - 1] ?? 0)));
+const varintField = (field: number, value: number) => Buffer.from([...varint(field * 8), ...varint(value)]);
+const bytesField = (field: number, bytes: Buffer | string) => {
+  const data = Buffer.from(bytes);
+  return Buffer.concat([Buffer.from([...varint(field * 8 + 2), ...varint(data.length)]), data]);
+};
+const packedField = (field: number, values: number[]) => bytesField(field, Buffer.from(values.flatMap(varint)));
+
+function fileBlock(type: string, data: Buffer, compress: boolean): Buffer {
+  const blob = compress
+    ? Buffer.concat([varintField(2, data.length), bytesField(3, deflateSync(data))])
+    : bytesField(1, data);
+  const header = Buffer.concat([bytesField(1, type), varintField(3, blob.length)]);
+  const size = Buffer.alloc(4);
+  size.writeUInt32BE(header.length);
+  return Buffer.concat([size, header, blob]);
+}
+
+/**
+ * Encode elements as an .osm.pbf file with one dense node, way and
+ * relation group each.
+ */
+function encodePbf(elements: FixtureElement[], features = ['OsmSchema-V0.6', 'DenseNodes']): Buffer {
+  const strings = [''];
+  const sid = (s: string) => {
+    const index = strings.indexOf(s);
+    return index === -1 ? strings.push(s) - 1 : index;
+  };
+  const tagFields = (tags: Record<string, string> = {}) => [
+    packedField(2, Object.keys(tags).map(sid)),
+    packedField(3, Object.values(tags).map(sid)),
+  ];
+
+  const nodes = elements.filter((el) => el.type === 'node');
+  const dense = Buffer.concat([
+    packedField(1, deltas(nodes.map((n) => n.id))),
+    packedField(8, deltas(nodes.map((n) => Math.round((n.lat ?? 0) * 1e7)))),
+    packedField(9, deltas(nodes.map((n) => Math.round((n.lon ?? 0) * 1e7)))),
+    packedField(10, nodes.flatMap((n) => [...Object.entries(n.tags ?? {}).flatMap(([k, v]) => [sid(k), sid(v)]), 0])),
+  ]);
+
+  const ways = elements.filter((el) => el.type === 'way').map((way) => bytesField(3, Buffer.concat([
+    varintField(1, way.id),
+    ...tagFields(way.tags),
+    packedField(8, deltas(way.nodes ?? [])),
+  ])));
+
+  const relations = elements.filter((el) => el.type === 'relation').map((rel) => bytesField(4, Buffer.concat([
+    varintField(1, rel.id),
+    ...tagFields(rel.tags),
+    packedField(8, (rel.members ?? []).map((m) => sid(m.role))),
+    packedField(9, deltas((rel.members ?? []).map((m) => m.ref))),
+    packedField(10, (rel.members ?? []).map((m) => ['node', 'way', 'relation'].indexOf(m.type))),
+  ])));
+
+  // The string table is built while encoding the groups, so it goes last
+  const block = Buffer.concat([
+    bytesField(2, bytesField(2, dense)),
+    bytesField(2, Buffer.concat(ways)),
+    bytesField(2, Buffer.concat(relations)),
+  ]);
+  const stringTable = bytesField(1, Buffer.concat(strings.map((s) => bytesField(1, s))));
+
+  return Buffer.concat([
+    fileBlock('OSMHeader', Buffer.concat(features.map((f) => bytesField(4, f))), false),
+    fileBlock('OSMData', Buffer.concat([stringTable, block]), true),
+  ]);
+}
+
+function respondWith(fixture: unknown): void {
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(fixture) }));
+}
+
+function createdZones() {
+  return mockZoneChecker.createZone.mock.calls.map(([zone]) => zone);
+}
+
+describe('ZoneSyncService', () => {
+  let sync: ZoneSyncService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // No zone exists yet, so every extracted zone is created
+    mockQuery.mockResolvedValue(mockQueryResult([]));
+    sync = new ZoneSyncService();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('multipolygon relations', () => {
+    it('should assemble split and reversed outer ways into one ring with its hole', async () => {
+      respondWith(loadFixture('hospital-campus'));
+
+      const results = await sync.syncArea(BOUNDS);
+
+      expect(results.find((r) => r.category === 'hospital')?.zonesCreated).toBe(2);
+      const campus = createdZones().find((zone) => zone.sourceId === 'relation/5001');
+      expect(campus).toMatchObject({ name: 'Mercy General Campus', category: 'hospital', source: 'osm' });
+      expect(campus?.geometry).toEqual({
+        type: 'MultiPolygon',
+        coordinates: [
+          [
+            // Outer ring, counterclockwise
+            [[-122.43, 37.778], [-122.43, 37.77], [-122.42, 37.77], [-122.42, 37.778], [-122.425, 37.779], [-122.43, 37.778]],
+            // Courtyard hole, clockwise
+            [[-122.427, 37.772], [-122.427, 37.776], [-122.423, 37.776], [-122.423, 37.772], [-122.427, 37.772]],
+          ],
+          // Detached parking area
+          [[[-122.418, 37.771], [-122.416, 37.771], [-122.416, 37.773], [-122.418, 37.773], [-122.418, 37.771]]],
+        ],
+      });
+    });
+
+    it('should not create zones for untagged member ways', async () => {
+      respondWith(loadFixture('hospital-campus'));
+
+      await sync.syncArea(BOUNDS);
+
+      expect(createdZones().map((zone) => zone.sourceId)).toEqual(['relation/5001', 'way/2001']);
+    });
+
+    it('should keep closed rings and drop dangling ways and stray holes', async () => {
+      respondWith(loadFixture('school-relations'));
+
+      await sync.syncArea(BOUNDS);
+
+      const zones = createdZones();
+      expect(zones).toHaveLength(1);
+      expect(zones[0]?.sourceId).toBe('relation/6003');
+      expect(zones[0]?.geometry.coordinates).toHaveLength(2);
+      for (const polygon of zones[0]?.geometry.coordinates ?? []) {
+        expect(polygon).toHaveLength(1);
+      }
+    });
+
+    it('should skip relations without a closed outer ring and non-area relations', async () => {
+      respondWith(loadFixture('school-relations'));
+
+      const results = await sync.syncArea(BOUNDS);
+
+      const sourceIds = createdZones().map((zone) => zone.sourceId);
+      expect(sourceIds).not.toContain('relation/6001');
+      expect(sourceIds).not.toContain('relation/6002');
+      expect(results.flatMap((r) => r.errors)).toEqual([]);
+    });
+  });
+
+  describe('syncSource', () => {
+    const square: GeoJSON.MultiPolygon = {
+      type: 'MultiPolygon',
+      coordinates: [[[[-122.41, 37.77], [-122.4, 37.77], [-122.4, 37.78], [-122.41, 37.78], [-122.41, 37.77]]]],
+    };
+
+    function feedAdapter(fetched: Partial<ZoneSourceFetch> = {}) {
+      const fetchZones = vi.fn<(cursor: string | null) => Promise<ZoneSourceFetch>>().mockResolvedValue({
+        cursor: 'etag:"v2"',
+        zones: [{ sourceId: 'parks:1', name: 'Dolores Playground', category: 'school', geometry: square, metadata: {} }],
+        removedSourceIds: [],
+        invalidSourceIds: [],
+        complete: true,
+        ...fetched,
+      });
+      const adapter: ZoneSourceAdapter = {
+        name: 'csv:parks',
+        source: 'open_data',
+        sourceIdPrefix: 'parks:',
+        categoryMapping: { playground: 'school', clinic: 'hospital' },
+        fetchZones,
+      };
+      return { adapter, fetchZones };
+    }
+
+    function queriesMatching(text: string) {
+      return mockQuery.mock.calls.filter(([sql]) => sql.includes(text));
+    }
+
+    it('should pass the stored cursor and store the new one', async () => {
+      mockQuery.mockImplementation(async (sql: string) =>
+        sql.includes('FROM zone_source_cursors') ? mockQueryResult([{ cursor: 'etag:"v1"' }]) : mockQueryResult([])
+      );
+      const { adapter, fetchZones } = feedAdapter();
+
+      const result = await sync.syncSource(adapter);
+
+      expect(fetchZones).toHaveBeenCalledWith('etag:"v1"');
+      expect(result.results.map((r) => [r.category, r.source, r.zonesCreated])).toEqual([
+        ['school', 'open_data', 1],
+        ['hospital', 'open_data', 0],
+      ]);
+      expect(queriesMatching('INSERT INTO zone_source_cursors')[0]?.[1]).toEqual(['csv:parks', 'etag:"v2"']);
+    });
+
+    it('should leave zones alone when the source is unchanged', async () => {
+      const { adapter } = feedAdapter({ cursor: 'etag:"v1"', zones: null });
+
+      const result = await sync.syncSource(adapter);
+
+      expect(result).toMatchObject({ unchanged: true, results: [], zonesPruned: 0 });
+      expect(mockZoneChecker.createZone).not.toHaveBeenCalled();
+      expect(queriesMatching('DELETE FROM exclusion_zones')).toHaveLength(0);
+    });
+
+    it('should prune only zones with the adapter source ID prefix', async () => {
+      const { adapter } = feedAdapter();
+
+      await sync.syncSource(adapter);
+
+      const [prune] = queriesMatching('DELETE FROM exclusion_zones');
+      expect(prune?.[0]).toContain('starts_with(source_id, $3)');
+      expect(prune?.[1]).toEqual(['open_data', ['parks:1'], 'parks:']);
+    });
+
+    it('should delete zones the source reports removed', async () => {
+      mockQuery.mockImplementation(async (sql: string) =>
+        sql.includes('SELECT id FROM exclusion_zones') ? mockQueryResult([{ id: 'zone-7' }]) : mockQueryResult([])
+      );
+      mockZoneChecker.deleteZone.mockResolvedValueOnce(true);
+      const { adapter } = feedAdapter({ removedSourceIds: ['parks:7'], complete: false });
+
+      const result = await sync.syncSource(adapter);
+
+      expect(queriesMatching('SELECT id FROM exclusion_zones')[0]?.[1]).toEqual(['open_data', ['parks:7']]);
+      expect(mockZoneChecker.deleteZone).toHaveBeenCalledWith('zone-7');
+      expect(result.zonesRemoved).toBe(1);
+      expect(queriesMatching('DELETE FROM exclusion_zones')).toHaveLength(0);
+    });
+
+    it('should keep the old cursor when a zone fails to sync', async () => {
+      mockZoneChecker.createZone.mockRejectedValueOnce(new Error('Invalid geometry'));
+      const { adapter } = feedAdapter();
+
+      const result = await sync.syncSource(adapter);
+
+      expect(result.results[0]?.errors).toEqual(['Zone parks:1: Invalid geometry']);
+      expect(queriesMatching('INSERT INTO zone_source_cursors')).toHaveLength(0);
+    });
+
+    it('should keep the zone of an unreadable row and the old cursor', async () => {
+      const { adapter } = feedAdapter({ invalidSourceIds: ['parks:2'] });
+
+      const result = await sync.syncSource(adapter);
+
+      const [prune] = queriesMatching('DELETE FROM exclusion_zones');
+      expect(prune?.[1]).toEqual(['open_data', ['parks:1', 'parks:2'], 'parks:']);
+      expect(result.zonesInvalid).toBe(1);
+      expect(queriesMatching('INSERT INTO zone_source_cursors')).toHaveLength(0);
+    });
+  });
+
+  describe('importFiles', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'zone-import-'));
+
+      // The campus fixture plus a road, which is tagged but no zone
+      const { elements } = loadFixture('hospital-campus');
+      elements.push({ type: 'way', id: 9001, nodes: [1, 2], tags: { highway: 'residential' } });
+      writeFileSync(join(dir, 'campus.osm.pbf'), encodePbf(elements));
+      writeFileSync(join(dir, 'history.osm.pbf'), encodePbf(elements, ['OsmSchema-V0.6', 'HistoricalInformation']));
+      writeFileSync(join(dir, 'empty.geojson'), JSON.stringify({ type: 'FeatureCollection', features: [] }));
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    function pruneCalls() {
+      return mockQuery.mock.calls.filter(([sql]) => sql.includes('DELETE FROM exclusion_zones'));
+    }
+
+    it('should import categorized GeoJSON polygons by their OSM tags', async () => {
+      const result = await sync.importFiles([fixturePath('geojson/zones.geojson')]);
+
+      expect(createdZones().map((zone) => [zone.sourceId, zone.category])).toEqual([
+        ['way/2101', 'school'],
+        ['relation/2201', 'hospital'],
+      ]);
+      expect(createdZones()[0]).toMatchObject({
+        name: 'Sunset Elementary',
+        source: 'osm',
+        geometry: { type: 'MultiPolygon' },
+        metadata: { amenity: 'school', name: 'Sunset Elementary' },
+      });
+      expect(createdZones()[1]?.geometry.coordinates[0]).toHaveLength(2);
+      expect(result.results.map((r) => [r.category, r.zonesCreated])).toEqual([
+        ['school', 1],
+        ['hospital', 1],
+        ['government', 0],
+      ]);
+    });
+
+    it('should prune OSM zones missing from the imported files', async () => {
+      mockQuery.mockImplementation(async (sql: string) =>
+        sql.includes('DELETE') ? mockQueryResult([{ id: 'stale' }]) : mockQueryResult([])
+      );
+
+      const result = await sync.importFiles([fixturePath('geojson/zones.geojson')]);
+
+      expect(result.zonesPruned).toBe(1);
+      expect(pruneCalls()).toHaveLength(1);
+      expect(pruneCalls()[0]?.[1]).toEqual(['osm', ['way/2101', 'relation/2201']]);
+    });
+
+    it('should keep stale zones when pruning is off', async () => {
+      await sync.importFiles([fixturePath('geojson/zones.geojson')], { prune: false });
+
+      expect(pruneCalls()).toHaveLength(0);
+    });
+
+    it('should not prune when nothing was imported', async () => {
+      const result = await sync.importFiles([join(dir, 'empty.geojson')]);
+
+      expect(result.zonesPruned).toBe(0);
+      expect(pruneCalls()).toHaveLength(0);
+    });
+
+    it('should update and skip existing zones like the live sync', async () => {
+      const unchanged = {
+        type: 'MultiPolygon',
+        coordinates: [[[[-122.49, 37.75], [-122.48, 37.75], [-122.48, 37.76], [-122.49, 37.76], [-122.49, 37.75]]]],
+      };
+      mockQuery.mockImplementation(async (sql: string, params?: unknown[]) => {
+        if (!sql.includes('SELECT id, ST_AsGeoJSON')) {
+          return mockQueryResult([]);
+        }
+        const geometry = params?.[1] === 'way/2101' ? unchanged : { type: 'MultiPolygon', coordinates: [] };
+        return mockQueryResult([{ id: `zone-${String(params?.[1])}`, geometry: JSON.stringify(geometry) }]);
+      });
+
+      const result = await sync.importFiles([fixturePath('geojson/zones.geojson')], { prune: false });
+
+      expect(result.results[0]).toMatchObject({ category: 'school', zonesSkipped: 1 });
+      expect(result.results[1]).toMatchObject({ category: 'hospital', zonesUpdated: 1 });
+      expect(mockZoneChecker.computeAndStoreH3Cells).toHaveBeenCalledWith('zone-relation/2201');
+      expect(mockZoneChecker.createZone).not.toHaveBeenCalled();
+    });
+
+    it('should import the same geometry from a PBF extract as from Overpass', async () => {
+      respondWith(loadFixture('hospital-campus'));
+      await sync.syncArea(BOUNDS);
+      const fromOverpass = createdZones();
+      mockZoneChecker.createZone.mockClear();
+
+      await sync.importFiles([join(dir, 'campus.osm.pbf')]);
+
+      expect(createdZones()).toEqual(fromOverpass);
+    });
+
+    it('should reject extracts that need unsupported PBF features', async () => {
+      await expect(sync.importFiles([join(dir, 'history.osm.pbf')])).rejects.toThrow(
+        'Unsupported PBF feature: HistoricalInformation'
+      );
+    });
+
+    it('should reject unknown file types', async () => {
+      await expect(sync.importFiles(['zones.csv'])).rejects.toThrow('Unsupported zone file');
+    });
+  });
+
+  describe('assembleMultipolygon', () => {
+    const nodes = new Map<number, { lat: number; lon: number }>([
+      [1, { lon: 0, lat: 0 }], [2, { lon: 10, lat: 0 }], [3, { lon: 10, lat: 10 }], [4, { lon: 0, lat: 10 }],
+      [5, { lon: 2, lat: 2 }], [6, { lon: 8, lat: 2 }], [7, { lon: 8, lat: 8 }], [8, { lon: 2, lat: 8 }],
+      [9, { lon: 4, lat: 4 }], [10, { lon: 6, lat: 4 }], [11, { lon: 6, lat: 6 }], [12, { lon: 4, lat: 6 }],
+    ]);
+
+    it('should give a hole to the innermost outer ring around it', () => {
+      // Island (outer 3) inside the hole (inner 2) of outer 1
+      const ways = new Map([
+        [1, [1, 2, 3, 4, 1]],
+        [2, [5, 6, 7, 8, 5]],
+        [3, [9, 10, 11, 12, 9]],
+      ]);
+
+      const { geometry, unusedWays } = assembleMultipolygon(
+        [
+          { type: 'way', ref: 3, role: 'outer' },
+          { type: 'way', ref: 2, role: 'inner' },
+          { type: 'way', ref: 1, role: 'outer' },
+        ],
+        ways,
+        nodes
+      );
+
+      expect(unusedWays).toEqual([]);
+      expect(geometry?.coordinates.map((polygon) => polygon.length)).toEqual([1, 2]);
+    });
+
+    it('should wind rings the GeoJSON way regardless of way direction', () => {
+      // Outer drawn clockwise, hole drawn counterclockwise
+      const ways = new Map([
+        [1, [1, 4, 3, 2, 1]],
+        [2, [5, 6, 7, 8, 5]],
+      ]);
+
+      const { geometry } = assembleMultipolygon(
+        [
+          { type: 'way', ref: 1, role: 'outer' },
+          { type: 'way', ref: 2, role: 'inner' },
+        ],
+        ways,
+        nodes
+      );
+
+      expect(geometry?.coordinates[0]?.[0]).toEqual([[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]);
+      expect(geometry?.coordinates[0]?.[1]).toEqual([[2, 2], [2, 8], [8, 8], [8, 2], [2, 2]]);
+    });
+
+    it('should report ways that reference missing nodes', () => {
+      const ways = new Map([[1, [1, 2, 3, 99, 1]]]);
+
+      const { geometry, unusedWays } = assembleMultipolygon([{ type: 'way', ref: 1, role: 'outer' }], ways, nodes);
+
+      expect(geometry).toBeNull();
+      expect(unusedWays).toEqual([1]);
+    });
+  });
+});
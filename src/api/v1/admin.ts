@@ -0,0 +1,195 @@
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { timingSafeEqual } from 'crypto';
+import { config } from '../../config/index.js';
+import { districtBuilder, turfService } from '../../services/turf/index.js';
+import { jobScheduler } from '../../services/jobs/index.js';
+
+/**
+ * Whether a request carries the admin key.
+ */
+function isAdmin(header: string | string[] | undefined): boolean {
+  const key = config.ADMIN_API_KEY;
+  if (!key || typeof header !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(key);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * onRequest hook rejecting requests without the admin key.
+ */
+export async function requireAdmin(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (!isAdmin(request.headers['x-admin-key'])) {
+    return reply.status(401).send({ error: 'Admin access required' });
+  }
+}
+
+/**
+ * Admin API routes. Every route requires the x-admin-key header to match
+ * ADMIN_API_KEY; all are disabled when it is unset.
+ *
+ * POST /api/v1/admin/districts/build - Tile a region into districts
+ * GET /api/v1/admin/districts - List districts
+ * GET /api/v1/admin/districts/:id - District with its cells
+ * PATCH /api/v1/admin/districts/:id - Rename a district
+ * DELETE /api/v1/admin/districts/:id - Remove a district and release its cells
+ * GET /api/v1/admin/jobs - Background job status
+ * GET /api/v1/admin/jobs/:name/runs - Recent runs of a job
+ */
+export const adminRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook('onRequest', requireAdmin);
+
+  /**
+   * POST /api/v1/admin/districts/build
+   *
+   * Tile the area around a point into 7- or 19-cell districts, skipping
+   * cells in exclusion zones and cells that already have a district.
+   */
+  fastify.post('/districts/build', async (request, reply) => {
+    const schema = z.object({
+      region: z.string().min(1).max(64),
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      radiusKm: z.number().positive().max(25),
+      clusterSize: z.union([z.literal(7), z.literal(19)]).default(7),
+    });
+
+    const parseResult = schema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const result = await districtBuilder.buildDistricts(parseResult.data);
+
+    return result;
+  });
+
+  /**
+   * GET /api/v1/admin/districts
+   *
+   * List districts, optionally filtered by region.
+   */
+  fastify.get('/districts', async (request) => {
+    const { region } = request.query as { region?: string };
+
+    const districts = await districtBuilder.listDistricts(region);
+
+    return { districts };
+  });
+
+  /**
+   * GET /api/v1/admin/districts/:id
+   *
+   * District details including its cells.
+   */
+  fastify.get('/districts/:id', async (request, reply) => {
+    const idResult = z.string().uuid().safeParse((request.params as { id: string }).id);
+    if (!idResult.success) {
+      return reply.status(404).send({ error: 'District not found' });
+    }
+    const id = idResult.data;
+
+    const district = await turfService.getDistrict(id);
+
+    if (!district) {
+      return reply.status(404).send({ error: 'District not found' });
+    }
+
+    return { district };
+  });
+
+  /**
+   * PATCH /api/v1/admin/districts/:id
+   *
+   * Rename a district.
+   */
+  fastify.patch('/districts/:id', async (request, reply) => {
+    const idResult = z.string().uuid().safeParse((request.params as { id: string }).id);
+    if (!idResult.success) {
+      return reply.status(404).send({ error: 'District not found' });
+    }
+    const id = idResult.data;
+
+    const schema = z.object({
+      name: z.string().min(1).max(128),
+    });
+
+    const parseResult = schema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    try {
+      await districtBuilder.renameDistrict(id, parseResult.data.name);
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * DELETE /api/v1/admin/districts/:id
+   *
+   * Remove a district and release its cells. Fails if it has outposts.
+   */
+  fastify.delete('/districts/:id', async (request, reply) => {
+    const idResult = z.string().uuid().safeParse((request.params as { id: string }).id);
+    if (!idResult.success) {
+      return reply.status(404).send({ error: 'District not found' });
+    }
+    const id = idResult.data;
+
+    try {
+      await districtBuilder.deleteDistrict(id);
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * GET /api/v1/admin/jobs
+   *
+   * Status of every background job: lock, last run, last success and
+   * recent failures.
+   */
+  fastify.get('/jobs', async () => {
+    const jobs = await jobScheduler.getStatus();
+
+    return { jobs };
+  });
+
+  /**
+   * GET /api/v1/admin/jobs/:name/runs
+   *
+   * Recent runs of a job, newest first.
+   */
+  fastify.get('/jobs/:name/runs', async (request, reply) => {
+    const { name } = request.params as { name: string };
+
+    const schema = z.object({
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+    });
+
+    const parseResult = schema.safeParse(request.query);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    if (!jobScheduler.getJobs().some((job) => job.name === name)) {
+      return reply.status(404).send({ error: 'Job not found' });
+    }
+
+    const runs = await jobScheduler.getRuns(name, parseResult.data.limit);
+
+    return { runs };
+  });
+};
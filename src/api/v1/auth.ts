@@ -0,0 +1,151 @@
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { sessionManager } from '../../services/auth/index.js';
+import type { AuthUser } from '../../types/auth.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Set by the authenticate preHandler */
+    user: AuthUser;
+  }
+}
+
+const deviceIdSchema = z.string().min(8).max(64);
+
+/**
+ * preHandler for routes that need a player. Requires a bearer access token
+ * and the x-device-id header of the device its session is bound to, and
+ * sets request.user.
+ */
+export async function authenticate(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  const header = request.headers.authorization;
+  const deviceId = request.headers['x-device-id'];
+
+  if (!header?.startsWith('Bearer ') || typeof deviceId !== 'string') {
+    return reply.status(401).send({ error: 'Authentication required' });
+  }
+
+  const user = await sessionManager.authenticate(header.slice('Bearer '.length), deviceId);
+  if (!user) {
+    return reply.status(401).send({ error: 'Invalid or expired token' });
+  }
+
+  request.user = user;
+}
+
+/**
+ * Auth API routes.
+ *
+ * POST /api/v1/auth/register - Create a player on this device
+ * POST /api/v1/auth/login - Log in with device credentials
+ * POST /api/v1/auth/refresh - Rotate tokens
+ * POST /api/v1/auth/logout - End the current session
+ * GET /api/v1/auth/me - The authenticated player
+ */
+export const authRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * POST /api/v1/auth/register
+   *
+   * Create a player and bind this device to them. The device secret is
+   * returned once; the client keeps it to log in again.
+   */
+  fastify.post('/register', async (request, reply) => {
+    const schema = z.object({
+      username: z.string().min(3).max(32).regex(/^[A-Za-z0-9_]+$/),
+      deviceId: deviceIdSchema,
+      platform: z.enum(['ios', 'android']).optional(),
+    });
+
+    const parseResult = schema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    try {
+      const registration = await sessionManager.register(parseResult.data);
+
+      reply.header('Cache-Control', 'no-store');
+      return registration;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/v1/auth/login
+   *
+   * Open a session with the device ID and secret from registration.
+   */
+  fastify.post('/login', async (request, reply) => {
+    const schema = z.object({
+      deviceId: deviceIdSchema,
+      deviceSecret: z.string().min(1).max(128),
+    });
+
+    const parseResult = schema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    try {
+      const tokens = await sessionManager.login(parseResult.data.deviceId, parseResult.data.deviceSecret);
+
+      reply.header('Cache-Control', 'no-store');
+      return { tokens };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(401).send({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/v1/auth/refresh
+   *
+   * Exchange a refresh token for a new access and refresh token. Each
+   * refresh token works once.
+   */
+  fastify.post('/refresh', async (request, reply) => {
+    const schema = z.object({
+      refreshToken: z.string().min(1).max(128),
+      deviceId: deviceIdSchema,
+    });
+
+    const parseResult = schema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    try {
+      const tokens = await sessionManager.refresh(parseResult.data.refreshToken, parseResult.data.deviceId);
+
+      reply.header('Cache-Control', 'no-store');
+      return { tokens };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(401).send({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/v1/auth/logout
+   *
+   * End the current session. Its tokens stop working immediately.
+   */
+  fastify.post('/logout', { preHandler: authenticate }, async (request) => {
+    await sessionManager.logout(request.user.sessionId);
+
+    return { success: true };
+  });
+
+  /**
+   * GET /api/v1/auth/me
+   *
+   * The authenticated player and their crew.
+   */
+  fastify.get('/me', { preHandler: authenticate }, async (request) => {
+    const { userId, crewId } = request.user;
+
+    return { userId, crewId };
+  });
+};
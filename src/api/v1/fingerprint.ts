@@ -1,6 +1,7 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { fingerprintService } from '../../services/fingerprint/index.js';
+import { authenticate } from './auth.js';
 // import { createLogger } from '../../utils/logger.js';
 // const logger = createLogger('api:fingerprint');
 
@@ -70,14 +71,11 @@ export const fingerprintRoutes: FastifyPluginAsync = async (fastify) => {
    *
    * Submit a fingerprint for influence.
    *
-   * Requires authentication header (X-User-ID for development).
+   * Influence goes to the player's crew in the fingerprint's cell. The
+   * fingerprint must come from the device the session is bound to.
    */
-  fastify.post('/submit', async (request, reply) => {
-    // Get user ID from auth header (simplified for development)
-    const userId = request.headers['x-user-id'] as string;
-    if (!userId) {
-      return reply.status(401).send({ error: 'Authentication required' });
-    }
+  fastify.post('/submit', { preHandler: authenticate }, async (request, reply) => {
+    const { userId, deviceId } = request.user;
 
     const parseResult = submitRequestSchema.safeParse(request.body);
 
@@ -88,6 +86,10 @@ export const fingerprintRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
+    if (parseResult.data.fingerprint.deviceId !== deviceId) {
+      return reply.status(403).send({ error: 'Fingerprint was captured on another device' });
+    }
+
     const response = await fingerprintService.submit(
       parseResult.data,
       userId
@@ -101,11 +103,8 @@ export const fingerprintRoutes: FastifyPluginAsync = async (fastify) => {
    *
    * Get authenticated user's fingerprints.
    */
-  fastify.get('/mine', async (request, reply) => {
-    const userId = request.headers['x-user-id'] as string;
-    if (!userId) {
-      return reply.status(401).send({ error: 'Authentication required' });
-    }
+  fastify.get('/mine', { preHandler: authenticate }, async (request) => {
+    const { userId } = request.user;
 
     const { limit, offset } = request.query as {
       limit?: string;
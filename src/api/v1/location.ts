@@ -1,6 +1,8 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { geofencing } from '../../services/geofencing/index.js';
+import { contractManager, presenceManager } from '../../services/turf/index.js';
+import { authenticate } from './auth.js';
 // import { createLogger } from '../../utils/logger.js';
 // const logger = createLogger('api:location');
 
@@ -8,7 +10,6 @@ import { geofencing } from '../../services/geofencing/index.js';
  * Location validation request schema.
  */
 const validateLocationSchema = z.object({
-  userId: z.string().uuid(),
   sessionId: z.string().uuid(),
   coordinates: z.object({
     latitude: z.number().min(-90).max(90),
@@ -31,7 +32,6 @@ const validateLocationSchema = z.object({
  * Batch validation request schema.
  */
 const batchValidateSchema = z.object({
-  userId: z.string().uuid(),
   sessionId: z.string().uuid(),
   coordinates: z
     .array(
@@ -57,7 +57,7 @@ export const locationRoutes: FastifyPluginAsync = async (fastify) => {
   /**
    * POST /api/v1/location/validate
    *
-   * Validate a location for gameplay.
+   * Validate a location for gameplay for the authenticated player.
    *
    * Returns:
    * - valid: boolean - Whether gameplay is allowed
@@ -65,7 +65,7 @@ export const locationRoutes: FastifyPluginAsync = async (fastify) => {
    * - h3Cell: string - H3 cell (privacy-preserving location)
    * - zoneCheck, speedCheck, spoofCheck: Detailed check results
    */
-  fastify.post('/validate', async (request, reply) => {
+  fastify.post('/validate', { preHandler: authenticate }, async (request, reply) => {
     const parseResult = validateLocationSchema.safeParse(request.body);
 
     if (!parseResult.success) {
@@ -75,8 +75,8 @@ export const locationRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    const { userId, sessionId, coordinates, timestamp, deviceInfo } =
-      parseResult.data;
+    const { userId } = request.user;
+    const { sessionId, coordinates, timestamp, deviceInfo } = parseResult.data;
 
     const response = await geofencing.validateLocation({
       userId,
@@ -86,6 +86,13 @@ export const locationRoutes: FastifyPluginAsync = async (fastify) => {
       deviceInfo,
     });
 
+    // A validated location counts as a cell visit for patrol contracts
+    // and updates the player's presence for crewmates
+    if (response.valid) {
+      await contractManager.recordProgress(userId, 'cell_visit', response.h3Cell);
+      await presenceManager.recordPresence(userId, response.h3Cell);
+    }
+
     // Set appropriate cache headers
     reply.header('Cache-Control', 'no-store');
 
@@ -98,7 +105,7 @@ export const locationRoutes: FastifyPluginAsync = async (fastify) => {
    * Validate multiple locations at once.
    * Useful for path validation or preloading nearby cells.
    */
-  fastify.post('/validate/batch', async (request, reply) => {
+  fastify.post('/validate/batch', { preHandler: authenticate }, async (request, reply) => {
     const parseResult = batchValidateSchema.safeParse(request.body);
 
     if (!parseResult.success) {
@@ -108,7 +115,8 @@ export const locationRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    const { userId, sessionId, coordinates, timestamp } = parseResult.data;
+    const { userId } = request.user;
+    const { sessionId, coordinates, timestamp } = parseResult.data;
 
     const responses = await geofencing.validateLocations(
       userId,
@@ -0,0 +1,103 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { realtimeGateway, RealtimeTopics } from '../../services/realtime/index.js';
+import { hasTerritoryCell, toTerritoryCell, TERRITORY_RESOLUTION } from '../../services/turf/territory.js';
+import { authenticate } from './auth.js';
+import type { RealtimeEvent, RealtimeTopic } from '../../types/realtime.js';
+
+const MAX_CELLS = 50;
+const MAX_DISTRICTS = 10;
+const HEARTBEAT_SECONDS = 25;
+
+const listSchema = z
+  .string()
+  .optional()
+  .transform((value) => (value ? [...new Set(value.split(',').filter(Boolean))] : []));
+
+/**
+ * Realtime API routes.
+ *
+ * GET /api/v1/realtime/stream - Server-sent event stream
+ */
+export const realtimeRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * GET /api/v1/realtime/stream?cells=...&districts=...
+   *
+   * Stream influence changes, control changes, outpost damage, raid starts
+   * and resolutions, and spawn appearances for the listed cells and
+   * districts, plus everything about the player's crew, and the presence
+   * of crewmates within the player's radius. Reconnect to change
+   * subscriptions, or after switching crews. The server closes the
+   * stream, after a `streams_closed` event, when the player leaves or is
+   * removed from their crew or the session ends.
+   */
+  fastify.get('/stream', { preHandler: authenticate }, async (request, reply) => {
+    const schema = z.object({
+      cells: listSchema.refine(
+        (cells) => cells.every(hasTerritoryCell),
+        { message: `Cells must be H3 indexes at resolution ${TERRITORY_RESOLUTION} or finer` }
+      )
+        // Events are published on territory cells; finer cells watch the one they fall in
+        .transform((cells) => [...new Set(cells.map(toTerritoryCell))])
+        .refine((cells) => cells.length <= MAX_CELLS, { message: `At most ${MAX_CELLS} cells` }),
+      districts: listSchema.refine(
+        (districts) => districts.every((d) => z.string().uuid().safeParse(d).success),
+        { message: 'Districts must be UUIDs' }
+      ).refine((districts) => districts.length <= MAX_DISTRICTS, { message: `At most ${MAX_DISTRICTS} districts` }),
+    });
+
+    const parseResult = schema.safeParse(request.query);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const { userId, crewId, sessionId } = request.user;
+    const topics: RealtimeTopic[] = [
+      ...parseResult.data.cells.map(RealtimeTopics.cell),
+      ...parseResult.data.districts.map(RealtimeTopics.district),
+      ...(crewId ? [RealtimeTopics.crew(crewId), RealtimeTopics.user(userId)] : []),
+    ];
+
+    if (topics.length === 0) {
+      return reply.status(400).send({ error: 'Subscribe to at least one cell, district or crew' });
+    }
+
+    // Take over the socket; headers set by plugins (CORS) are carried over
+    reply.hijack();
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) {
+        reply.raw.setHeader(name, value);
+      }
+    }
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const write = (chunk: string): void => {
+      reply.raw.write(chunk);
+    };
+
+    write(`event: ready\ndata: ${JSON.stringify({ topics })}\n\n`);
+
+    const heartbeat = setInterval(() => write(': keepalive\n\n'), HEARTBEAT_SECONDS * 1000);
+    heartbeat.unref();
+
+    const disconnect = realtimeGateway.connect(topics, {
+      send: (event: RealtimeEvent) => {
+        const payload = { topics: event.topics, occurredAt: event.occurredAt, data: event.data };
+        write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`);
+      },
+      close: () => reply.raw.end(),
+      userId,
+      sessionId,
+    });
+
+    request.raw.on('close', () => {
+      clearInterval(heartbeat);
+      disconnect();
+    });
+  });
+};
@@ -0,0 +1,452 @@
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { geofencing } from '../../services/geofencing/index.js';
+import {
+  spawnEngine,
+  encounterManager,
+  synthlingCollection,
+  evolutionEngine,
+  archetypeRegistry,
+} from '../../services/synthling/index.js';
+import { presenceManager } from '../../services/turf/index.js';
+import { authenticate } from './auth.js';
+import type { LocationValidationResponse } from '../../types/geofencing.js';
+import type { Synthling, SynthlingEncounter, SynthlingSpawn } from '../../types/synthling.js';
+// import { createLogger } from '../../utils/logger.js';
+// const logger = createLogger('api:synthling');
+
+/**
+ * Player location schema. Sent with every spawn, encounter and evolve call.
+ * Numbers are coerced so the same schema parses query strings.
+ */
+const locationSchema = z.object({
+  sessionId: z.string().uuid(),
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  accuracy: z.coerce.number().positive().optional(),
+  timestamp: z.string().datetime().transform((s) => new Date(s)),
+});
+
+const startEncounterSchema = z.object({
+  spawnId: z.string().uuid(),
+  location: locationSchema,
+});
+
+const encounterActionSchema = z.object({
+  location: locationSchema,
+});
+
+const collectionQuerySchema = z.object({
+  archetypeId: z.string().regex(/^ARCH_\d{3}$/).optional(),
+  rarity: z.enum(['common', 'uncommon', 'rare', 'legendary']).optional(),
+  cellH3: z.string().regex(/^[0-9a-f]{15}$/i).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const evolutionQuerySchema = z.object({
+  fingerprintId: z.string().uuid(),
+});
+
+const evolveSchema = z.object({
+  fingerprintId: z.string().uuid(),
+  location: locationSchema,
+});
+
+const nicknameSchema = z.object({
+  // null clears the nickname
+  nickname: z.string().trim().min(1).max(32).nullable(),
+});
+
+/**
+ * Validate the player's location through geofencing.
+ *
+ * Sends the 403 response itself when gameplay is not allowed, in which
+ * case the caller must return without doing anything else.
+ */
+async function validatePlayerLocation(
+  userId: string,
+  location: z.infer<typeof locationSchema>,
+  reply: FastifyReply
+): Promise<LocationValidationResponse | null> {
+  const validation = await geofencing.validateLocation({
+    userId,
+    sessionId: location.sessionId,
+    coordinates: {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      accuracy: location.accuracy,
+    },
+    timestamp: location.timestamp,
+  });
+
+  if (!validation.valid) {
+    reply.status(403).send({
+      error: 'Location not valid for gameplay',
+      resultCode: validation.resultCode,
+    });
+    return null;
+  }
+
+  await presenceManager.recordPresence(userId, validation.h3Cell);
+
+  return validation;
+}
+
+/**
+ * Public view of a spawn (the reference fingerprint stays server-side).
+ */
+function toSpawnResponse(spawn: SynthlingSpawn) {
+  return {
+    id: spawn.id,
+    archetypeId: spawn.archetypeId,
+    cellH3: spawn.cellH3,
+    imprint: spawn.imprint,
+    level: spawn.level,
+    rarity: spawn.rarity,
+    spawnedAt: spawn.spawnedAt,
+    expiresAt: spawn.expiresAt,
+  };
+}
+
+/**
+ * Public view of a Synthling (capture fingerprint omitted).
+ */
+function toSynthlingResponse(synthling: Synthling) {
+  return {
+    id: synthling.id,
+    archetypeId: synthling.archetypeId,
+    nickname: synthling.nickname,
+    rarity: archetypeRegistry.get(synthling.archetypeId)?.rarity,
+    imprint: synthling.imprint,
+    stats: synthling.stats,
+    level: synthling.level,
+    experience: synthling.experience,
+    capturedAt: synthling.capturedAt,
+    capturedAtCell: synthling.capturedAtCell,
+    evolutionHistory: synthling.evolutionHistory.map((record) => ({
+      fromArchetype: record.fromArchetype,
+      toArchetype: record.toArchetype,
+      evolvedAt: record.evolvedAt,
+      locationCell: record.locationCell,
+    })),
+  };
+}
+
+/**
+ * Public view of an encounter.
+ */
+function toEncounterResponse(encounter: SynthlingEncounter) {
+  return {
+    id: encounter.id,
+    spawnId: encounter.spawnId,
+    status: encounter.status,
+    synthling: toSynthlingResponse(encounter.synthling),
+    captureAttempts: encounter.captureAttempts,
+    weakenProgress: encounter.weakenProgress,
+    startedAt: encounter.startedAt,
+    endedAt: encounter.endedAt,
+  };
+}
+
+/**
+ * Synthling API routes. Every route requires an authenticated player.
+ *
+ * Spawn, encounter and evolve routes validate the player's location
+ * with geofencing first.
+ *
+ * GET /api/v1/synthling/spawns - List spawns in the player's cell
+ * POST /api/v1/synthling/encounter - Start an encounter with a spawn
+ * POST /api/v1/synthling/encounter/:id/capture - Attempt a capture
+ * POST /api/v1/synthling/encounter/:id/abandon - Abandon an encounter
+ * GET /api/v1/synthling/collection - List the player's Synthlings
+ * GET /api/v1/synthling/collection/stats - Collection stats
+ * GET /api/v1/synthling/collection/:id - Get one of the player's Synthlings
+ * PATCH /api/v1/synthling/collection/:id/nickname - Set or clear a nickname
+ * GET /api/v1/synthling/collection/:id/evolution - Check evolution requirements
+ * POST /api/v1/synthling/collection/:id/evolve - Evolve a Synthling
+ */
+export const synthlingRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook('preHandler', authenticate);
+
+  /**
+   * GET /api/v1/synthling/spawns
+   *
+   * List spawns in the player's current cell.
+   */
+  fastify.get('/spawns', async (request, reply) => {
+    const { userId } = request.user;
+
+    const parseResult = locationSchema.safeParse(request.query);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const validation = await validatePlayerLocation(userId, parseResult.data, reply);
+    if (!validation) {
+      return reply;
+    }
+
+    const spawns = await spawnEngine.getSpawns(validation.h3Cell);
+
+    reply.header('Cache-Control', 'no-store');
+
+    return {
+      cellH3: validation.h3Cell,
+      spawns: spawns.map(toSpawnResponse),
+    };
+  });
+
+  /**
+   * POST /api/v1/synthling/encounter
+   *
+   * Start an encounter with a spawn in the player's cell.
+   */
+  fastify.post('/encounter', async (request, reply) => {
+    const { userId } = request.user;
+
+    const parseResult = startEncounterSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const validation = await validatePlayerLocation(userId, parseResult.data.location, reply);
+    if (!validation) {
+      return reply;
+    }
+
+    try {
+      const encounter = await encounterManager.startEncounter(
+        userId,
+        parseResult.data.spawnId,
+        validation.h3Cell
+      );
+
+      return { encounter: toEncounterResponse(encounter) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/v1/synthling/encounter/:id/capture
+   *
+   * Attempt to capture the encountered Synthling.
+   */
+  fastify.post('/encounter/:id/capture', async (request, reply) => {
+    const { userId } = request.user;
+
+    const { id } = request.params as { id: string };
+
+    const parseResult = encounterActionSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const validation = await validatePlayerLocation(userId, parseResult.data.location, reply);
+    if (!validation) {
+      return reply;
+    }
+
+    try {
+      const result = await encounterManager.attemptCapture(userId, id, validation.h3Cell);
+
+      return {
+        outcome: result.outcome,
+        encounter: toEncounterResponse(result.encounter),
+        synthling: result.synthling ? toSynthlingResponse(result.synthling) : undefined,
+        influenceAwarded: result.influenceAwarded,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/v1/synthling/encounter/:id/abandon
+   *
+   * Abandon an active encounter.
+   */
+  fastify.post('/encounter/:id/abandon', async (request, reply) => {
+    const { userId } = request.user;
+
+    const { id } = request.params as { id: string };
+
+    const parseResult = encounterActionSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const validation = await validatePlayerLocation(userId, parseResult.data.location, reply);
+    if (!validation) {
+      return reply;
+    }
+
+    try {
+      const encounter = await encounterManager.abandonEncounter(userId, id, validation.h3Cell);
+
+      return { encounter: toEncounterResponse(encounter) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * GET /api/v1/synthling/collection
+   *
+   * List the player's Synthlings, filterable by archetype, rarity and
+   * capture cell.
+   */
+  fastify.get('/collection', async (request, reply) => {
+    const { userId } = request.user;
+
+    const parseResult = collectionQuerySchema.safeParse(request.query);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const page = await synthlingCollection.list(userId, parseResult.data);
+
+    return {
+      synthlings: page.synthlings.map(toSynthlingResponse),
+      total: page.total,
+      limit: page.limit,
+      offset: page.offset,
+    };
+  });
+
+  /**
+   * GET /api/v1/synthling/collection/stats
+   *
+   * Get the player's collection stats.
+   */
+  fastify.get('/collection/stats', async (request) => {
+    const { userId } = request.user;
+
+    const stats = await synthlingCollection.getStats(userId);
+
+    return { stats };
+  });
+
+  /**
+   * GET /api/v1/synthling/collection/:id
+   *
+   * Get one of the player's Synthlings.
+   */
+  fastify.get('/collection/:id', async (request, reply) => {
+    const { userId } = request.user;
+
+    const { id } = request.params as { id: string };
+
+    const synthling = await synthlingCollection.getOwnedSynthling(userId, id);
+
+    if (!synthling) {
+      return reply.status(404).send({ error: 'Synthling not found' });
+    }
+
+    return { synthling: toSynthlingResponse(synthling) };
+  });
+
+  /**
+   * PATCH /api/v1/synthling/collection/:id/nickname
+   *
+   * Set or clear (null) a Synthling's nickname.
+   */
+  fastify.patch('/collection/:id/nickname', async (request, reply) => {
+    const { userId } = request.user;
+
+    const { id } = request.params as { id: string };
+
+    const parseResult = nicknameSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const synthling = await synthlingCollection.setNickname(userId, id, parseResult.data.nickname);
+
+    if (!synthling) {
+      return reply.status(404).send({ error: 'Synthling not found' });
+    }
+
+    return { synthling: toSynthlingResponse(synthling) };
+  });
+
+  /**
+   * GET /api/v1/synthling/collection/:id/evolution
+   *
+   * Check evolution requirements at the place a fingerprint was captured.
+   * Lists a reason for each unmet requirement.
+   */
+  fastify.get('/collection/:id/evolution', async (request, reply) => {
+    const { userId } = request.user;
+
+    const { id } = request.params as { id: string };
+
+    const parseResult = evolutionQuerySchema.safeParse(request.query);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    try {
+      const evolution = await evolutionEngine.getEvolutionStatus(
+        userId,
+        id,
+        parseResult.data.fingerprintId
+      );
+
+      return { evolution };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/v1/synthling/collection/:id/evolve
+   *
+   * Evolve a Synthling using a fingerprint captured in the player's
+   * current cell.
+   */
+  fastify.post('/collection/:id/evolve', async (request, reply) => {
+    const { userId } = request.user;
+
+    const { id } = request.params as { id: string };
+
+    const parseResult = evolveSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const validation = await validatePlayerLocation(userId, parseResult.data.location, reply);
+    if (!validation) {
+      return reply;
+    }
+
+    try {
+      const result = await evolutionEngine.evolve(
+        userId,
+        id,
+        parseResult.data.fingerprintId,
+        validation.h3Cell
+      );
+
+      if (!result.evolved) {
+        return reply.status(400).send({
+          error: 'Evolution requirements not met',
+          evolution: result.check,
+        });
+      }
+
+      return {
+        synthling: toSynthlingResponse(result.synthling),
+        evolution: result.check,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+};
@@ -1,9 +1,28 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
-import { turfService, influenceManager, outpostManager, raidEngine } from '../../services/turf/index.js';
+import {
+  turfService,
+  influenceManager,
+  outpostManager,
+  raidEngine,
+  contractManager,
+  controlTracker,
+  crewManager,
+  diplomacyManager,
+  presenceManager,
+} from '../../services/turf/index.js';
+import { hasTerritoryCell, toTerritoryCell, TERRITORY_RESOLUTION } from '../../services/turf/territory.js';
+import { authenticate } from './auth.js';
 // import { createLogger } from '../../utils/logger.js';
 // const logger = createLogger('api:turf');
 
+/**
+ * A cell at the territory resolution or finer, mapped to its territory cell.
+ */
+const territoryCellSchema = z.string()
+  .refine(hasTerritoryCell, { message: `Must be an H3 index at resolution ${TERRITORY_RESOLUTION} or finer` })
+  .transform(toTerritoryCell);
+
 /**
  * Turf API routes.
  *
@@ -11,8 +30,30 @@ import { turfService, influenceManager, outpostManager, raidEngine } from '../..
  * GET /api/v1/turf/cell/:h3Index - Get cell info
  * GET /api/v1/turf/district/:id - Get district info
  * POST /api/v1/turf/outpost - Deploy outpost
+ * POST /api/v1/turf/outpost/:id/module - Install an outpost module
  * POST /api/v1/turf/raid - Initiate raid
+ * POST /api/v1/turf/raid/:id/defend - Commit a defender squad
+ * GET /api/v1/turf/raids/incoming - Pending raids against the user's crew
+ * GET /api/v1/turf/contracts - Contracts in a district
+ * GET /api/v1/turf/contracts/mine - Contracts the user has claimed
+ * POST /api/v1/turf/contracts/:id/claim - Claim a contract
+ * GET /api/v1/turf/events - Control change history
  * GET /api/v1/turf/leaderboard - Get global crew rankings
+ * GET /api/v1/turf/crew/:id/members - Crew roster
+ * POST /api/v1/turf/crew/join - Join a crew with an invite code
+ * POST /api/v1/turf/crew/leave - Leave the user's crew
+ * POST /api/v1/turf/crew/invites - Create an invite code
+ * GET /api/v1/turf/crew/invites - Usable invite codes
+ * DELETE /api/v1/turf/crew/invites/:id - Revoke an invite code
+ * PATCH /api/v1/turf/crew/members/:userId - Change a member's role
+ * DELETE /api/v1/turf/crew/members/:userId - Remove a member
+ * GET /api/v1/turf/crew/:id/relations - Open proposals and agreements
+ * POST /api/v1/turf/crew/relations - Propose a pact or declare a rivalry
+ * POST /api/v1/turf/crew/relations/:id/accept - Accept a proposal
+ * POST /api/v1/turf/crew/relations/:id/decline - Decline a proposal
+ * DELETE /api/v1/turf/crew/relations/:id - Withdraw a proposal or end an agreement
+ * GET /api/v1/turf/crew/presence - Nearby crewmates
+ * PATCH /api/v1/turf/crew/presence - Hide from or show to crewmates
  */
 export const turfRoutes: FastifyPluginAsync = async (fastify) => {
   /**
@@ -20,13 +61,8 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
    *
    * Get territory snapshot for user's current location.
    */
-  fastify.get('/snapshot', async (request, reply) => {
-    const userId = request.headers['x-user-id'] as string;
-    const crewId = request.headers['x-crew-id'] as string;
-
-    if (!userId) {
-      return reply.status(401).send({ error: 'Authentication required' });
-    }
+  fastify.get('/snapshot', { preHandler: authenticate }, async (request, reply) => {
+    const { userId, crewId } = request.user;
 
     const { lat, lng } = request.query as { lat?: string; lng?: string };
 
@@ -43,7 +79,7 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
 
     const snapshot = await turfService.getTerritorySnapshot(
       userId,
-      crewId || '',
+      crewId ?? '',
       latitude,
       longitude
     );
@@ -57,11 +93,11 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
    * Get detailed info for a specific cell.
    */
   fastify.get('/cell/:h3Index', async (request, reply) => {
-    const { h3Index } = request.params as { h3Index: string };
-
-    if (!/^[0-9a-f]{15}$/i.test(h3Index)) {
+    const parseResult = territoryCellSchema.safeParse((request.params as { h3Index: string }).h3Index);
+    if (!parseResult.success) {
       return reply.status(400).send({ error: 'Invalid H3 index' });
     }
+    const h3Index = parseResult.data;
 
     const cell = await influenceManager.getCellInfluence(h3Index);
     const leaderboard = await influenceManager.getCellLeaderboard(h3Index);
@@ -101,16 +137,15 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
    *
    * Deploy an outpost at a cell.
    */
-  fastify.post('/outpost', async (request, reply) => {
-    const userId = request.headers['x-user-id'] as string;
-    const crewId = request.headers['x-crew-id'] as string;
+  fastify.post('/outpost', { preHandler: authenticate }, async (request, reply) => {
+    const { userId, crewId } = request.user;
 
-    if (!userId || !crewId) {
-      return reply.status(401).send({ error: 'Authentication and crew membership required' });
+    if (!crewId) {
+      return reply.status(403).send({ error: 'Crew membership required' });
     }
 
     const schema = z.object({
-      cellH3: z.string().regex(/^[0-9a-f]{15}$/i),
+      cellH3: territoryCellSchema,
     });
 
     const parseResult = schema.safeParse(request.body);
@@ -135,15 +170,11 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
   /**
    * POST /api/v1/turf/outpost/:id/module
    *
-   * Install a module on an outpost.
+   * Install a module on an outpost. Only its owner and the leaders and
+   * officers of its crew can.
    */
-  fastify.post('/outpost/:id/module', async (request, reply) => {
-    const userId = request.headers['x-user-id'] as string;
-
-    if (!userId) {
-      return reply.status(401).send({ error: 'Authentication required' });
-    }
-
+  fastify.post('/outpost/:id/module', { preHandler: authenticate }, async (request, reply) => {
+    const { userId } = request.user;
     const { id } = request.params as { id: string };
 
     const schema = z.object({
@@ -156,9 +187,14 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
     }
 
+    if (!(await outpostManager.canManageOutpost(id, userId))) {
+      return reply.status(403).send({ error: 'Not allowed to modify this outpost' });
+    }
+
     try {
       const module = await outpostManager.installModule(
         id,
+        userId,
         parseResult.data.type,
         parseResult.data.level
       );
@@ -173,19 +209,19 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
   /**
    * POST /api/v1/turf/raid
    *
-   * Initiate a raid on a cell.
+   * Initiate a raid on a cell with a squad of 1-3 of the user's Synthlings.
+   * The raid stays pending for the defender window, then resolves.
    */
-  fastify.post('/raid', async (request, reply) => {
-    const userId = request.headers['x-user-id'] as string;
-    const crewId = request.headers['x-crew-id'] as string;
+  fastify.post('/raid', { preHandler: authenticate }, async (request, reply) => {
+    const { userId, crewId } = request.user;
 
-    if (!userId || !crewId) {
-      return reply.status(401).send({ error: 'Authentication and crew membership required' });
+    if (!crewId) {
+      return reply.status(403).send({ error: 'Crew membership required' });
     }
 
     const schema = z.object({
-      targetCellH3: z.string().regex(/^[0-9a-f]{15}$/i),
-      attackPower: z.number().positive(),
+      targetCellH3: territoryCellSchema,
+      squad: z.array(z.string().uuid()).min(1).max(3),
     });
 
     const parseResult = schema.safeParse(request.body);
@@ -198,7 +234,7 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
         parseResult.data.targetCellH3,
         crewId,
         userId,
-        parseResult.data.attackPower
+        parseResult.data.squad
       );
 
       return { raid };
@@ -208,6 +244,57 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  /**
+   * POST /api/v1/turf/raid/:id/defend
+   *
+   * Commit a squad of 1-3 of the user's Synthlings to defend a pending raid
+   * on one of their crew's cells.
+   */
+  fastify.post('/raid/:id/defend', { preHandler: authenticate }, async (request, reply) => {
+    const { userId, crewId } = request.user;
+
+    if (!crewId) {
+      return reply.status(403).send({ error: 'Crew membership required' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    const schema = z.object({
+      squad: z.array(z.string().uuid()).min(1).max(3),
+    });
+
+    const parseResult = schema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    try {
+      const raid = await raidEngine.defendRaid(id, crewId, userId, parseResult.data.squad);
+
+      return { raid };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * GET /api/v1/turf/raids/incoming
+   *
+   * Pending raids against the user's crew, soonest window end first.
+   */
+  fastify.get('/raids/incoming', { preHandler: authenticate }, async (request, reply) => {
+    const { crewId } = request.user;
+
+    if (!crewId) {
+      return reply.status(403).send({ error: 'Crew membership required' });
+    }
+
+    const raids = await raidEngine.getIncomingRaids(crewId);
+
+    return { raids };
+  });
+
   /**
    * GET /api/v1/turf/raid/:id
    *
@@ -225,6 +312,108 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
     return { raid };
   });
 
+  /**
+   * GET /api/v1/turf/contracts
+   *
+   * Open contracts in a district plus the user's active claims there.
+   * The district is given directly or by one of its cells.
+   */
+  fastify.get('/contracts', { preHandler: authenticate }, async (request, reply) => {
+    const { userId } = request.user;
+
+    const schema = z.union([
+      z.object({ districtId: z.string().uuid() }),
+      z.object({ cellH3: territoryCellSchema }),
+    ]);
+
+    const parseResult = schema.safeParse(request.query);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    let districtId: string | undefined;
+    if ('districtId' in parseResult.data) {
+      districtId = parseResult.data.districtId;
+    } else {
+      const cell = await influenceManager.getCellInfluence(parseResult.data.cellH3);
+      districtId = cell?.districtId || undefined;
+    }
+
+    const contracts = districtId
+      ? await contractManager.getDistrictContracts(districtId, userId)
+      : [];
+
+    return { contracts };
+  });
+
+  /**
+   * GET /api/v1/turf/contracts/mine
+   *
+   * Contracts the user has claimed, most recent first.
+   */
+  fastify.get('/contracts/mine', { preHandler: authenticate }, async (request) => {
+    const { userId } = request.user;
+
+    const contracts = await contractManager.getUserContracts(userId);
+
+    return { contracts };
+  });
+
+  /**
+   * POST /api/v1/turf/contracts/:id/claim
+   *
+   * Claim an open contract. Progress is tracked from the user's actions.
+   */
+  fastify.post('/contracts/:id/claim', { preHandler: authenticate }, async (request, reply) => {
+    const { userId } = request.user;
+
+    const { id } = request.params as { id: string };
+
+    try {
+      const contract = await contractManager.claimContract(id, userId);
+
+      return { contract };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * GET /api/v1/turf/events
+   *
+   * Control change history (captures, contested cells, district gains
+   * and losses), newest first. Filter by district, crew or cell; page
+   * back with `before`.
+   */
+  fastify.get('/events', async (request, reply) => {
+    const schema = z.object({
+      districtId: z.string().uuid().optional(),
+      crewId: z.string().uuid().optional(),
+      cellH3: territoryCellSchema.optional(),
+      types: z.string().optional()
+        .transform((v) => (v ? v.split(',') : undefined))
+        .pipe(z.array(z.enum([
+          'cell_captured',
+          'cell_lost',
+          'contested_started',
+          'district_gained',
+          'district_lost',
+        ])).optional()),
+      before: z.string().datetime().transform((s) => new Date(s)).optional(),
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+    });
+
+    const parseResult = schema.safeParse(request.query);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const events = await controlTracker.getEvents(parseResult.data);
+
+    return { events };
+  });
+
   /**
    * GET /api/v1/turf/leaderboard
    *
@@ -269,12 +458,8 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
    *
    * Create a new crew.
    */
-  fastify.post('/crew', async (request, reply) => {
-    const userId = request.headers['x-user-id'] as string;
-
-    if (!userId) {
-      return reply.status(401).send({ error: 'Authentication required' });
-    }
+  fastify.post('/crew', { preHandler: authenticate }, async (request, reply) => {
+    const { userId } = request.user;
 
     const schema = z.object({
       name: z.string().min(3).max(64),
@@ -301,4 +486,325 @@ export const turfRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.status(400).send({ error: message });
     }
   });
+
+  /**
+   * GET /api/v1/turf/crew/:id/members
+   *
+   * Crew roster: leader, officers, then members by join date.
+   */
+  fastify.get('/crew/:id/members', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    const crew = await turfService.getCrew(id);
+
+    if (!crew) {
+      return reply.status(404).send({ error: 'Crew not found' });
+    }
+
+    const members = await crewManager.getMembers(id);
+
+    return { members };
+  });
+
+  /**
+   * POST /api/v1/turf/crew/join
+   *
+   * Join a crew with an invite code.
+   */
+  fastify.post('/crew/join', { preHandler: authenticate }, async (request, reply) => {
+    const { userId } = request.user;
+
+    const schema = z.object({
+      code: z.string().min(4).max(16),
+    });
+
+    const parseResult = schema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    try {
+      const crewId = await crewManager.joinCrew(userId, parseResult.data.code);
+      const crew = await turfService.getCrew(crewId);
+
+      return { crew };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/v1/turf/crew/leave
+   *
+   * Leave the user's crew. Their outposts pass to a crewmate or are
+   * forfeited, and they cannot earn influence or raid for 7 days.
+   */
+  fastify.post('/crew/leave', { preHandler: authenticate }, async (request, reply) => {
+    try {
+      const departure = await crewManager.leaveCrew(request.user.userId);
+
+      return { departure };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/v1/turf/crew/invites
+   *
+   * Create an invite code for the user's crew. Leaders and officers only.
+   */
+  fastify.post('/crew/invites', { preHandler: authenticate }, async (request, reply) => {
+    const schema = z.object({
+      maxUses: z.number().int().min(1).max(100).default(10),
+      expiresInHours: z.number().int().min(1).max(168).default(48),
+    });
+
+    const parseResult = schema.safeParse(request.body ?? {});
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    try {
+      const invite = await crewManager.createInvite(request.user.userId, parseResult.data);
+
+      return { invite };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * GET /api/v1/turf/crew/invites
+   *
+   * Usable invite codes of the user's crew. Leaders and officers only.
+   */
+  fastify.get('/crew/invites', { preHandler: authenticate }, async (request, reply) => {
+    try {
+      const invites = await crewManager.listInvites(request.user.userId);
+
+      return { invites };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * DELETE /api/v1/turf/crew/invites/:id
+   *
+   * Revoke an invite code. Leaders and officers only.
+   */
+  fastify.delete('/crew/invites/:id', { preHandler: authenticate }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      await crewManager.revokeInvite(request.user.userId, id);
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * PATCH /api/v1/turf/crew/members/:userId
+   *
+   * Change a member's role. Leader only; making someone leader hands
+   * over leadership.
+   */
+  fastify.patch('/crew/members/:userId', { preHandler: authenticate }, async (request, reply) => {
+    const { userId: targetId } = request.params as { userId: string };
+
+    const schema = z.object({
+      role: z.enum(['leader', 'officer', 'member']),
+    });
+
+    const parseResult = schema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    try {
+      await crewManager.setMemberRole(request.user.userId, targetId, parseResult.data.role);
+
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * DELETE /api/v1/turf/crew/members/:userId
+   *
+   * Remove a member from the crew. Leaders can remove anyone, officers
+   * only members. The removed player gets the same cooldown as leaving.
+   */
+  fastify.delete('/crew/members/:userId', { preHandler: authenticate }, async (request, reply) => {
+    const { userId: targetId } = request.params as { userId: string };
+
+    try {
+      const departure = await crewManager.kickMember(request.user.userId, targetId);
+
+      return { departure };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * GET /api/v1/turf/crew/:id/relations
+   *
+   * A crew's open proposals, alliances, pacts and rivalries.
+   */
+  fastify.get('/crew/:id/relations', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    const crew = await turfService.getCrew(id);
+
+    if (!crew) {
+      return reply.status(404).send({ error: 'Crew not found' });
+    }
+
+    const relations = await diplomacyManager.getRelations(id);
+
+    return { relations };
+  });
+
+  /**
+   * POST /api/v1/turf/crew/relations
+   *
+   * Propose an alliance or non-aggression pact to another crew, or declare
+   * a rivalry. Leaders and officers only.
+   */
+  fastify.post('/crew/relations', { preHandler: authenticate }, async (request, reply) => {
+    const schema = z.object({
+      crewId: z.string().uuid(),
+      type: z.enum(['alliance', 'non_aggression', 'rivalry']),
+      durationDays: z.number().int().min(1).max(30).optional(),
+    });
+
+    const parseResult = schema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    try {
+      const relation = await diplomacyManager.propose(
+        request.user.userId,
+        parseResult.data.crewId,
+        parseResult.data.type,
+        parseResult.data.durationDays
+      );
+
+      return { relation };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/v1/turf/crew/relations/:id/accept
+   *
+   * Accept a proposal made to the user's crew.
+   */
+  fastify.post('/crew/relations/:id/accept', { preHandler: authenticate }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const relation = await diplomacyManager.respond(request.user.userId, id, true);
+
+      return { relation };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/v1/turf/crew/relations/:id/decline
+   *
+   * Decline a proposal made to the user's crew.
+   */
+  fastify.post('/crew/relations/:id/decline', { preHandler: authenticate }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const relation = await diplomacyManager.respond(request.user.userId, id, false);
+
+      return { relation };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * DELETE /api/v1/turf/crew/relations/:id
+   *
+   * Withdraw the user's crew's proposal, or end an agreement. Only the
+   * declaring crew can end a rivalry.
+   */
+  fastify.delete('/crew/relations/:id', { preHandler: authenticate }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const relation = await diplomacyManager.end(request.user.userId, id);
+
+      return { relation };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * GET /api/v1/turf/crew/presence
+   *
+   * Crewmates near the user's last validated location, as resolution 7
+   * cells. Beacon outposts nearby widen the radius.
+   */
+  fastify.get('/crew/presence', { preHandler: authenticate }, async (request, reply) => {
+    try {
+      const presence = await presenceManager.getNearbyCrewmates(request.user.userId);
+
+      reply.header('Cache-Control', 'no-store');
+      return presence;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * PATCH /api/v1/turf/crew/presence
+   *
+   * Hide the user from crewmates' presence maps, or show them again.
+   */
+  fastify.patch('/crew/presence', { preHandler: authenticate }, async (request, reply) => {
+    const schema = z.object({
+      hidden: z.boolean(),
+    });
+
+    const parseResult = schema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    try {
+      await presenceManager.setHidden(request.user.userId, parseResult.data.hidden);
+
+      return { hidden: parseResult.data.hidden };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
 };
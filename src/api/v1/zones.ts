@@ -0,0 +1,169 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { zoneChecker } from '../../services/geofencing/index.js';
+import { requireAdmin } from './admin.js';
+
+const MAX_RING_POINTS = 1000;
+const MAX_BUFFER_METERS = 500;
+
+const categorySchema = z.enum(['school', 'hospital', 'government', 'residential', 'custom']);
+
+/**
+ * [longitude, latitude] pairs forming a closed ring.
+ */
+const ringSchema = z
+  .array(z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]))
+  .min(4)
+  .max(MAX_RING_POINTS)
+  .refine(
+    (ring) => ring[0]?.[0] === ring[ring.length - 1]?.[0] && ring[0]?.[1] === ring[ring.length - 1]?.[1],
+    { message: 'Rings must be closed' }
+  );
+
+const polygonSchema = z.array(ringSchema).min(1);
+
+const geometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: polygonSchema }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(polygonSchema).min(1) }),
+]);
+
+const createZoneSchema = z
+  .object({
+    name: z.string().trim().min(1).max(255),
+    category: categorySchema.default('custom'),
+    geometry: geometrySchema,
+    effectiveFrom: z.string().datetime().transform((s) => new Date(s)).optional(),
+    effectiveUntil: z.string().datetime().transform((s) => new Date(s)).optional(),
+    reason: z.string().max(500).optional(),
+  })
+  .refine((zone) => !zone.effectiveUntil || zone.effectiveUntil > (zone.effectiveFrom ?? new Date()), {
+    message: 'effectiveUntil must be after effectiveFrom and in the future',
+    path: ['effectiveUntil'],
+  });
+
+/**
+ * Operator zone API routes. Every route requires the x-admin-key header to
+ * match ADMIN_API_KEY; all are disabled when it is unset.
+ *
+ * GET /api/v1/zones/custom - List operator-defined zones
+ * POST /api/v1/zones/custom - Create a temporary or permanent zone
+ * DELETE /api/v1/zones/custom/:id - Remove an operator-defined zone
+ * GET /api/v1/zones/buffers - Buffer distance per zone category
+ * PUT /api/v1/zones/buffers/:category - Change a category's buffer distance
+ */
+export const zoneRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook('onRequest', requireAdmin);
+
+  /**
+   * GET /api/v1/zones/custom?includeEnded=true
+   *
+   * List operator-defined zones, newest first. Zones whose window has
+   * ended are left out unless includeEnded is set.
+   */
+  fastify.get('/custom', async (request) => {
+    const { includeEnded } = request.query as { includeEnded?: string };
+
+    const zones = await zoneChecker.listZones('manual', includeEnded === 'true');
+
+    return { zones };
+  });
+
+  /**
+   * POST /api/v1/zones/custom
+   *
+   * Create an exclusion zone from a GeoJSON Polygon or MultiPolygon.
+   * Without effectiveFrom it applies immediately; without effectiveUntil
+   * it is permanent. Cached cells are invalidated on creation, and again
+   * when a scheduled zone starts or ends.
+   */
+  fastify.post('/custom', async (request, reply) => {
+    const parseResult = createZoneSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const { name, category, geometry, effectiveFrom, effectiveUntil, reason } = parseResult.data;
+
+    try {
+      const zoneId = await zoneChecker.createZone({
+        name,
+        category,
+        geometry,
+        source: 'manual',
+        effectiveFrom,
+        effectiveUntil,
+        metadata: reason ? { reason } : undefined,
+      });
+
+      const zone = await zoneChecker.getZone(zoneId);
+
+      return { zone };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return reply.status(400).send({ error: message });
+    }
+  });
+
+  /**
+   * DELETE /api/v1/zones/custom/:id
+   *
+   * Remove an operator-defined zone. Zones imported from data sources are
+   * managed by zone sync and cannot be removed here.
+   */
+  fastify.delete('/custom/:id', async (request, reply) => {
+    const idResult = z.string().uuid().safeParse((request.params as { id: string }).id);
+    if (!idResult.success) {
+      return reply.status(404).send({ error: 'Zone not found' });
+    }
+    const id = idResult.data;
+
+    const zone = await zoneChecker.getZone(id);
+    if (!zone || zone.source !== 'manual') {
+      return reply.status(404).send({ error: 'Zone not found' });
+    }
+
+    await zoneChecker.deleteZone(id);
+
+    return { success: true };
+  });
+
+  /**
+   * GET /api/v1/zones/buffers
+   *
+   * Buffer distance in meters around zones of each category.
+   */
+  fastify.get('/buffers', async () => {
+    const buffers = await zoneChecker.getCategoryBuffers();
+
+    return { buffers };
+  });
+
+  /**
+   * PUT /api/v1/zones/buffers/:category
+   *
+   * Change a category's buffer distance. Every zone in the category gets
+   * its cells recomputed and their caches invalidated by the
+   * zone-buffer-covers job, so this answers 202.
+   */
+  fastify.put('/buffers/:category', async (request, reply) => {
+    const categoryResult = categorySchema.safeParse((request.params as { category: string }).category);
+    if (!categoryResult.success) {
+      return reply.status(404).send({ error: 'Zone category not found' });
+    }
+
+    const schema = z.object({
+      bufferMeters: z.number().int().min(0).max(MAX_BUFFER_METERS),
+    });
+
+    const parseResult = schema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request', details: parseResult.error.format() });
+    }
+
+    const category = categoryResult.data;
+    const { bufferMeters } = parseResult.data;
+    const pendingZones = await zoneChecker.setCategoryBuffer(category, bufferMeters);
+
+    return reply.status(202).send({ category, bufferMeters, pendingZones });
+  });
+};
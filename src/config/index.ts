@@ -33,6 +33,13 @@ const envSchema = z.object({
   // Zone Data Sources
   OSM_API_URL: z.string().url().optional(),
   SAFEGRAPH_API_KEY: z.string().optional(),
+  SAFEGRAPH_API_URL: z.string().url().optional(),
+
+  // Authentication (signs access tokens)
+  AUTH_TOKEN_SECRET: z.string().min(32),
+
+  // Admin API (disabled when unset)
+  ADMIN_API_KEY: z.string().optional(),
 
   // Logging
   LOG_LEVEL: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
@@ -70,6 +77,21 @@ export const derivedConfig = {
   influenceDecayHalfLifeHours: 48,
   influenceDecayIntervalMinutes: 15,
 
+  // Authentication
+  accessTokenTtlSeconds: 15 * 60,
+  refreshTokenTtlDays: 30,
+
+  // Crews
+  crewMaxMembers: 50,
+  crewCooldownDays: 7,  // After leaving: no influence or raids
+
+  // Background jobs
+  jobSchedulerTickSeconds: 15,
+  jobHistoryRetentionDays: 14,
+
+  // Raid windows
+  raidResolutionIntervalSeconds: 60,
+
   // Speed calculations
   speedLockoutDurationSeconds: 60,
   speedHistoryRetentionSeconds: 300,
@@ -49,6 +49,21 @@ export async function getClient(): Promise<pg.PoolClient> {
   return pool.connect();
 }
 
+/**
+ * Callbacks waiting for a client's transaction to commit.
+ */
+const commitCallbacks = new WeakMap<pg.PoolClient, Array<() => Promise<void>>>();
+
+/**
+ * Run a callback once the transaction on this client commits. Dropped if
+ * it rolls back. Callback errors are logged, never thrown.
+ */
+export function afterCommit(client: pg.PoolClient, callback: () => Promise<void>): void {
+  const callbacks = commitCallbacks.get(client) ?? [];
+  callbacks.push(callback);
+  commitCallbacks.set(client, callbacks);
+}
+
 /**
  * Execute multiple queries in a transaction.
  */
@@ -56,16 +71,30 @@ export async function transaction<T>(
   fn: (client: pg.PoolClient) => Promise<T>
 ): Promise<T> {
   const client = await pool.connect();
+  let committed = false;
   try {
     await client.query('BEGIN');
     const result = await fn(client);
     await client.query('COMMIT');
+    committed = true;
     return result;
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
   } finally {
+    const callbacks = commitCallbacks.get(client) ?? [];
+    commitCallbacks.delete(client);
     client.release();
+
+    if (committed) {
+      for (const callback of callbacks) {
+        try {
+          await callback();
+        } catch (error) {
+          logger.error({ error }, 'After-commit callback failed');
+        }
+      }
+    }
   }
 }
 
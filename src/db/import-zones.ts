@@ -0,0 +1,62 @@
+/**
+ * Import exclusion zones from local files.
+ *
+ * Usage:
+ *   npm run db:import-zones -- extracts/california.osm.pbf
+ *   npm run db:import-zones -- schools.geojson hospitals.geojson --keep-stale
+ *
+ * Reads GeoJSON FeatureCollections of OSM-tagged features and .osm.pbf
+ * extracts, without the Overpass API. Afterwards, OSM zones found in none
+ * of the files are removed; pass --keep-stale when the files cover only
+ * part of the synced area.
+ */
+
+import { parseArgs } from 'util';
+import { zoneSync } from '../services/geofencing/zone-sync.js';
+import { shutdown } from './connection.js';
+import { redisShutdown } from './redis.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('import-zones');
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      'keep-stale': { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+  });
+
+  if (positionals.length === 0) {
+    throw new Error('Pass one or more .geojson, .json or .osm.pbf files');
+  }
+
+  const result = await zoneSync.importFiles(positionals, { prune: !values['keep-stale'] });
+
+  for (const category of result.results) {
+    logger.info(
+      {
+        category: category.category,
+        processed: category.zonesProcessed,
+        created: category.zonesCreated,
+        updated: category.zonesUpdated,
+        skipped: category.zonesSkipped,
+        errors: category.errors,
+      },
+      'Category imported'
+    );
+  }
+
+  logger.info({ zonesPruned: result.zonesPruned, durationMs: result.durationMs }, 'Zones imported');
+
+  if (result.results.some((category) => category.errors.length > 0)) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => Promise.all([shutdown(), redisShutdown()]));
@@ -0,0 +1,92 @@
+-- TurfSynth AR - Synthling Schema
+-- Migration 004: Captured Synthlings, encounters and evolution records
+--
+-- See specs/synthling-generation/spec.md for full specification.
+
+-- =============================================================================
+-- SYNTHLINGS
+-- =============================================================================
+
+CREATE TYPE synthling_rarity AS ENUM ('common', 'uncommon', 'rare', 'legendary');
+
+CREATE TABLE synthlings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES users(id),
+  archetype_id VARCHAR(16) NOT NULL,  -- ARCH_001 etc. (archetype data file)
+  nickname VARCHAR(32),
+  rarity synthling_rarity NOT NULL,
+
+  -- Derived from capture fingerprint
+  imprint JSONB NOT NULL,                -- SynthlingImprint
+
+  -- Current state
+  stats JSONB NOT NULL,                  -- SynthlingStats
+  level SMALLINT NOT NULL DEFAULT 1 CHECK (level >= 1 AND level <= 100),
+  experience INTEGER NOT NULL DEFAULT 0,
+  moves JSONB NOT NULL DEFAULT '[]',     -- SynthlingMove[]
+  condition JSONB NOT NULL,              -- SynthlingCondition
+  battle_wins INTEGER NOT NULL DEFAULT 0,
+
+  -- Origin
+  spawn_id UUID,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  captured_at_cell VARCHAR(20) NOT NULL,
+  captured_fingerprint JSONB NOT NULL,   -- PlaceFingerprint
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX synthlings_owner_idx ON synthlings (owner_id, captured_at DESC);
+CREATE INDEX synthlings_owner_archetype_idx ON synthlings (owner_id, archetype_id);
+CREATE INDEX synthlings_owner_rarity_idx ON synthlings (owner_id, rarity);
+CREATE INDEX synthlings_owner_cell_idx ON synthlings (owner_id, captured_at_cell);
+
+CREATE TRIGGER synthlings_updated_at
+  BEFORE UPDATE ON synthlings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- ENCOUNTERS
+-- =============================================================================
+
+CREATE TYPE encounter_status AS ENUM ('active', 'captured', 'fled', 'abandoned');
+
+CREATE TABLE synthling_encounters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  spawn_id UUID NOT NULL,               -- Deterministic spawn ID (not persisted)
+  user_id UUID NOT NULL REFERENCES users(id),
+  cell_h3 VARCHAR(20) NOT NULL,
+  status encounter_status NOT NULL DEFAULT 'active',
+  synthling JSONB NOT NULL,             -- Wild Synthling being encountered
+  spawn_expires_at TIMESTAMPTZ NOT NULL,
+  capture_attempts SMALLINT NOT NULL DEFAULT 0,
+  weaken_progress SMALLINT NOT NULL DEFAULT 0 CHECK (weaken_progress >= 0 AND weaken_progress <= 100),
+  captured_synthling_id UUID REFERENCES synthlings(id),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at TIMESTAMPTZ,
+
+  -- Each player gets one encounter per spawn
+  CONSTRAINT synthling_encounters_spawn_user_unique UNIQUE (spawn_id, user_id)
+);
+
+CREATE INDEX synthling_encounters_user_idx ON synthling_encounters (user_id, started_at DESC);
+CREATE INDEX synthling_encounters_active_idx ON synthling_encounters (user_id)
+  WHERE status = 'active';
+
+-- =============================================================================
+-- EVOLUTION RECORDS
+-- =============================================================================
+
+CREATE TABLE synthling_evolutions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  synthling_id UUID NOT NULL REFERENCES synthlings(id) ON DELETE CASCADE,
+  from_archetype VARCHAR(16) NOT NULL,
+  to_archetype VARCHAR(16) NOT NULL,
+  evolved_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  trigger_fingerprint JSONB,             -- PlaceFingerprint
+  location_cell VARCHAR(20) NOT NULL
+);
+
+CREATE INDEX synthling_evolutions_synthling_idx ON synthling_evolutions (synthling_id, evolved_at);
@@ -0,0 +1,23 @@
+-- TurfSynth AR - Synthling Items
+-- Migration 005: Player item inventory (evolution items)
+--
+-- See specs/synthling-generation/spec.md for full specification.
+
+-- =============================================================================
+-- USER ITEMS
+-- =============================================================================
+
+CREATE TABLE user_items (
+  user_id UUID NOT NULL REFERENCES users(id),
+  item_id VARCHAR(32) NOT NULL,  -- e.g. storm_core (archetype evolution requirements)
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (user_id, item_id)
+);
+
+CREATE TRIGGER user_items_updated_at
+  BEFORE UPDATE ON user_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
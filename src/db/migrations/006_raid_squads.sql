@@ -0,0 +1,13 @@
+-- TurfSynth AR - Raid Squads
+-- Migration 006: Raids resolve by auto-battle between Synthling squads
+--
+-- See specs/turf-mechanics/spec.md (FR-5) for full specification.
+
+-- =============================================================================
+-- RAID SQUADS
+-- =============================================================================
+
+-- attack_power / defense_power now hold squad ratings, for display only
+ALTER TABLE raids
+  ADD COLUMN attacker_squad UUID[] NOT NULL DEFAULT '{}',  -- Synthling IDs committed by the attacker
+  ADD COLUMN defender_squad UUID[] NOT NULL DEFAULT '{}';  -- Synthling IDs assigned from the outpost/crew
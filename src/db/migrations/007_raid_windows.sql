@@ -0,0 +1,29 @@
+-- TurfSynth AR - Raid Windows
+-- Migration 007: Raids stay pending for a defender response window
+--
+-- See specs/turf-mechanics/spec.md (FR-5) for full specification.
+
+-- =============================================================================
+-- RAID WINDOWS
+-- =============================================================================
+
+ALTER TABLE raids
+  ADD COLUMN defending_crew_id UUID REFERENCES crews(id),
+  ADD COLUMN window_ends_at TIMESTAMPTZ,
+  ADD COLUMN defended_by UUID REFERENCES users(id),  -- Crew member who committed the defender squad
+  ADD COLUMN defended_at TIMESTAMPTZ;
+
+UPDATE raids SET window_ends_at = started_at + INTERVAL '4 hours' WHERE window_ends_at IS NULL;
+
+ALTER TABLE raids ALTER COLUMN window_ends_at SET NOT NULL;
+
+-- One active raid per cell
+CREATE UNIQUE INDEX raids_active_cell_idx ON raids (target_cell_h3)
+  WHERE status IN ('pending', 'in_progress');
+
+-- Scheduler: pending raids by window expiry
+CREATE INDEX raids_window_idx ON raids (window_ends_at) WHERE status = 'pending';
+
+-- Incoming raids for a crew
+CREATE INDEX raids_defending_crew_idx ON raids (defending_crew_id, started_at DESC)
+  WHERE status = 'pending';
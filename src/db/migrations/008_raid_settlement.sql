@@ -0,0 +1,15 @@
+-- TurfSynth AR - Raid Settlement
+-- Migration 008: Failed raids lock the attacker out of the target cell
+--
+-- See specs/turf-mechanics/spec.md (FR-5) for full specification.
+
+-- =============================================================================
+-- FAILURE COOLDOWN
+-- =============================================================================
+
+ALTER TABLE raids
+  ADD COLUMN attacker_cooldown_until TIMESTAMPTZ;  -- Set when the raid fails
+
+-- Active failure cooldowns per attacker and cell
+CREATE INDEX raids_attacker_cooldown_idx ON raids (attacking_user_id, target_cell_h3, attacker_cooldown_until)
+  WHERE attacker_cooldown_until IS NOT NULL;
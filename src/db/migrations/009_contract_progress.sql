@@ -0,0 +1,18 @@
+-- TurfSynth AR - Contract Progress
+-- Migration 009: Contracts are generated and tracked by the contract manager
+--
+-- See specs/turf-mechanics/spec.md for full specification.
+
+-- =============================================================================
+-- CONTRACT PROGRESS
+-- =============================================================================
+
+ALTER TABLE contracts
+  ADD COLUMN visited_cells TEXT[] NOT NULL DEFAULT '{}';  -- Patrol progress, distinct cells
+
+-- Active contracts held by a player
+CREATE INDEX contracts_claimant_active_idx ON contracts (claimed_by, expires_at)
+  WHERE claimed_by IS NOT NULL AND completed_at IS NULL;
+
+-- Generation moved to the contract manager; the SQL version left requirements empty
+DROP FUNCTION IF EXISTS generate_district_contracts(UUID, INTEGER);
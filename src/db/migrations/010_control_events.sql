@@ -0,0 +1,28 @@
+-- TurfSynth AR - Control Events
+-- Migration 010: History of cell and district control changes
+--
+-- See specs/turf-mechanics/spec.md (FR-3) for full specification.
+
+-- =============================================================================
+-- CONTROL EVENTS
+-- =============================================================================
+
+CREATE TABLE control_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type VARCHAR(32) NOT NULL CHECK (event_type IN (
+    'cell_captured', 'cell_lost', 'contested_started', 'district_gained', 'district_lost'
+  )),
+  cell_h3 VARCHAR(20),                          -- Cell that changed hands
+  district_id UUID REFERENCES districts(id) ON DELETE SET NULL,
+  crew_id UUID REFERENCES crews(id) ON DELETE SET NULL,        -- Crew the event is about
+  other_crew_id UUID REFERENCES crews(id) ON DELETE SET NULL,  -- Previous or new controller
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  metadata JSONB NOT NULL DEFAULT '{}'
+);
+
+-- Feeds by district, crew and cell, newest first
+CREATE INDEX control_events_district_idx ON control_events (district_id, occurred_at DESC);
+CREATE INDEX control_events_crew_idx ON control_events (crew_id, occurred_at DESC);
+CREATE INDEX control_events_other_crew_idx ON control_events (other_crew_id, occurred_at DESC);
+CREATE INDEX control_events_cell_idx ON control_events (cell_h3, occurred_at DESC);
+CREATE INDEX control_events_occurred_idx ON control_events (occurred_at DESC);
@@ -0,0 +1,54 @@
+-- TurfSynth AR - Influence Caps
+-- Migration 011: Per-player influence per cell, decayed with the crew scores
+--
+-- See specs/turf-mechanics/spec.md (FR-2) for full specification.
+
+-- =============================================================================
+-- PLAYER INFLUENCE
+-- =============================================================================
+
+-- user_id -> influence the player has added to the cell (capped at 1000).
+-- Starts empty for existing cells; caps apply from the next award.
+ALTER TABLE turf_cells
+  ADD COLUMN player_influence JSONB NOT NULL DEFAULT '{}';
+
+-- =============================================================================
+-- DECAY
+-- =============================================================================
+
+-- Decay player shares with the crew scores, and keep both maps non-null
+-- once every entry has decayed away
+CREATE OR REPLACE FUNCTION process_influence_decay(
+  decay_factor NUMERIC DEFAULT 0.995  -- ~48 hour half-life at 15-min intervals
+) RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  WITH decayed AS (
+    UPDATE turf_cells
+    SET
+      influence_scores = COALESCE((
+        SELECT jsonb_object_agg(key, (value::numeric * decay_factor)::numeric)
+        FROM jsonb_each_text(influence_scores)
+        WHERE (value::numeric * decay_factor) >= 1  -- Remove negligible influence
+      ), '{}'),
+      player_influence = COALESCE((
+        SELECT jsonb_object_agg(key, (value::numeric * decay_factor)::numeric)
+        FROM jsonb_each_text(player_influence)
+        WHERE (value::numeric * decay_factor) >= 1
+      ), '{}'),
+      total_influence = (
+        SELECT COALESCE(SUM((value::numeric * decay_factor)::numeric), 0)
+        FROM jsonb_each_text(influence_scores)
+        WHERE (value::numeric * decay_factor) >= 1
+      ),
+      last_decay_at = NOW(),
+      updated_at = NOW()
+    WHERE last_decay_at < NOW() - INTERVAL '14 minutes'
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO updated_count FROM decayed;
+
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,30 @@
+-- TurfSynth AR - Background Jobs
+-- Migration 012: Run history for scheduled background jobs
+--
+-- The scheduler takes a Redis lock per job, so each run is recorded by
+-- exactly one instance.
+
+-- =============================================================================
+-- JOB RUNS
+-- =============================================================================
+
+CREATE TYPE job_run_status AS ENUM ('running', 'succeeded', 'failed');
+
+CREATE TABLE job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name VARCHAR(64) NOT NULL,
+  instance_id VARCHAR(128) NOT NULL,   -- host:pid that ran the job
+  status job_run_status NOT NULL DEFAULT 'running',
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ,
+  duration_ms INTEGER,
+  result JSONB,                        -- Job-specific counts
+  error TEXT
+);
+
+-- Latest runs per job (due checks and the admin status endpoint)
+CREATE INDEX job_runs_job_idx ON job_runs (job_name, started_at DESC);
+
+-- Recent failures per job
+CREATE INDEX job_runs_failed_idx ON job_runs (job_name, started_at DESC)
+  WHERE status = 'failed';
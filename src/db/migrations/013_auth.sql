@@ -0,0 +1,43 @@
+-- TurfSynth AR - Authentication
+-- Migration 013: Device credentials and refreshable sessions
+--
+-- A player registers from a device and gets a device secret. Logging in
+-- with it opens a session bound to that device. Access tokens are signed
+-- and short-lived; refresh tokens are stored hashed and rotate on use.
+
+-- =============================================================================
+-- USER DEVICES
+-- =============================================================================
+
+CREATE TABLE user_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device_id VARCHAR(64) NOT NULL UNIQUE,   -- Client-generated install ID
+  secret_hash CHAR(64) NOT NULL,           -- SHA-256 of the device secret
+  platform VARCHAR(20),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_login_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX user_devices_user_idx ON user_devices (user_id);
+
+-- =============================================================================
+-- AUTH SESSIONS
+-- =============================================================================
+
+CREATE TABLE auth_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device_id VARCHAR(64) NOT NULL,
+  refresh_token_hash CHAR(64) NOT NULL UNIQUE,
+  previous_refresh_token_hash CHAR(64),    -- Replay of this revokes the session
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  refreshed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX auth_sessions_user_idx ON auth_sessions (user_id);
+CREATE INDEX auth_sessions_previous_idx ON auth_sessions (previous_refresh_token_hash)
+  WHERE previous_refresh_token_hash IS NOT NULL;
@@ -0,0 +1,60 @@
+-- TurfSynth AR - Crew Membership
+-- Migration 014: Crew roles, invite codes and the crew-switch cooldown
+--
+-- See specs/turf-mechanics/spec.md (Edge Cases: player leaves faction).
+
+-- =============================================================================
+-- MEMBER ROLES
+-- =============================================================================
+
+ALTER TABLE users
+  ADD COLUMN crew_role VARCHAR(16) CHECK (crew_role IN ('leader', 'officer', 'member')),
+  ADD COLUMN crew_joined_at TIMESTAMPTZ,
+  ADD COLUMN crew_cooldown_until TIMESTAMPTZ;  -- Set on leaving; no influence or raids until then
+
+-- Existing members; the longest-standing member of each crew leads it
+UPDATE users SET crew_role = 'member', crew_joined_at = created_at WHERE crew_id IS NOT NULL;
+
+UPDATE users u
+SET crew_role = 'leader'
+FROM (
+  SELECT DISTINCT ON (crew_id) id
+  FROM users
+  WHERE crew_id IS NOT NULL
+  ORDER BY crew_id, created_at
+) first_members
+WHERE u.id = first_members.id;
+
+ALTER TABLE users
+  ADD CONSTRAINT users_crew_role_present CHECK ((crew_id IS NULL) = (crew_role IS NULL));
+
+-- One leader per crew
+CREATE UNIQUE INDEX users_crew_leader_idx ON users (crew_id) WHERE crew_role = 'leader';
+
+-- =============================================================================
+-- CREW INVITES
+-- =============================================================================
+
+CREATE TABLE crew_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  crew_id UUID NOT NULL REFERENCES crews(id) ON DELETE CASCADE,
+  code VARCHAR(16) NOT NULL UNIQUE,
+  created_by UUID NOT NULL REFERENCES users(id),
+  max_uses INTEGER NOT NULL CHECK (max_uses > 0),
+  uses INTEGER NOT NULL DEFAULT 0 CHECK (uses >= 0),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX crew_invites_crew_idx ON crew_invites (crew_id, created_at DESC);
+
+-- =============================================================================
+-- OUTPOST FORFEIT
+-- =============================================================================
+
+-- Forfeited outposts are deleted; raid history keeps the raid without it
+ALTER TABLE raids DROP CONSTRAINT raids_target_outpost_id_fkey;
+ALTER TABLE raids
+  ADD CONSTRAINT raids_target_outpost_id_fkey
+  FOREIGN KEY (target_outpost_id) REFERENCES outposts(id) ON DELETE SET NULL;
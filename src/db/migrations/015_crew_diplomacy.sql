@@ -0,0 +1,39 @@
+-- TurfSynth AR - Crew Diplomacy
+-- Migration 015: Alliances, non-aggression pacts and rivalries between crews
+
+-- =============================================================================
+-- CREW RELATIONS
+-- =============================================================================
+
+CREATE TABLE crew_relations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type VARCHAR(16) NOT NULL CHECK (type IN ('alliance', 'non_aggression', 'rivalry')),
+  status VARCHAR(16) NOT NULL CHECK (status IN ('proposed', 'active', 'declined', 'cancelled', 'ended', 'expired')),
+  proposer_crew_id UUID NOT NULL REFERENCES crews(id) ON DELETE CASCADE,
+  target_crew_id UUID NOT NULL REFERENCES crews(id) ON DELETE CASCADE,
+  proposed_by UUID NOT NULL REFERENCES users(id),
+  responded_by UUID REFERENCES users(id),
+  duration_days INTEGER CHECK (duration_days > 0),  -- NULL: until ended
+  proposed_at TIMESTAMPTZ NOT NULL,
+  proposal_expires_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  ended_by UUID REFERENCES users(id),
+  CHECK (proposer_crew_id <> target_crew_id)
+);
+
+-- One open proposal or agreement per pair of crews, in either direction
+CREATE UNIQUE INDEX crew_relations_open_pair_idx
+  ON crew_relations (LEAST(proposer_crew_id, target_crew_id), GREATEST(proposer_crew_id, target_crew_id))
+  WHERE status IN ('proposed', 'active');
+
+CREATE INDEX crew_relations_proposer_idx ON crew_relations (proposer_crew_id, status);
+CREATE INDEX crew_relations_target_idx ON crew_relations (target_crew_id, status);
+
+-- =============================================================================
+-- RAIDS
+-- =============================================================================
+
+-- Raids between rivals transfer more influence on success
+ALTER TABLE raids ADD COLUMN against_rival BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,8 @@
+-- TurfSynth AR - Crew Presence
+-- Migration 016: Per-player setting to hide from crewmates' presence map
+--
+-- Presence itself is kept in Redis at resolution 7 with a short TTL; see
+-- specs/safety-geofencing/spec.md (FR-5).
+
+ALTER TABLE users
+  ADD COLUMN presence_hidden BOOLEAN NOT NULL DEFAULT FALSE;
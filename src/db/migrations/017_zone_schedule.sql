@@ -0,0 +1,12 @@
+-- TurfSynth AR - Scheduled Exclusion Zones
+-- Migration 017: Invalidate zone caches when temporary zones start or end
+--
+-- Cell caches are computed from the zones in effect at the time and kept
+-- for 24 hours. The zone-schedule job invalidates a zone's cells once its
+-- effective_from or effective_until passes cache_synced_at.
+
+ALTER TABLE exclusion_zones
+  ADD COLUMN cache_synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX exclusion_zones_scheduled_idx ON exclusion_zones (effective_until)
+  WHERE effective_until IS NOT NULL;
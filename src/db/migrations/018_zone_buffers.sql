@@ -0,0 +1,20 @@
+-- TurfSynth AR - Zone Buffers
+-- Migration 018: Buffer distances around exclusion zones, per category
+--
+-- A location within a zone's buffer is blocked as if it were inside the
+-- zone. See specs/safety-geofencing/spec.md (Edge Cases: GPS drift near
+-- zone boundaries). Zone cell covers include the buffer; see migration
+-- 020 for how existing covers are recomputed.
+
+CREATE TABLE zone_category_buffers (
+  category zone_category PRIMARY KEY,
+  buffer_meters INTEGER NOT NULL CHECK (buffer_meters BETWEEN 0 AND 500),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO zone_category_buffers (category, buffer_meters) VALUES
+  ('school', 50),
+  ('hospital', 50),
+  ('government', 50),
+  ('residential', 50),
+  ('custom', 50);
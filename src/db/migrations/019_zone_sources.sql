@@ -0,0 +1,14 @@
+-- TurfSynth AR - Zone Sources
+-- Migration 019: Open-data zone source and incremental-sync cursors
+--
+-- Zones are synced through source adapters (OSM, SafeGraph, CSV/WKT
+-- open-data feeds). Each adapter stores a cursor after a successful sync
+-- so the next one can skip unchanged data.
+
+ALTER TYPE zone_source ADD VALUE IF NOT EXISTS 'open_data';
+
+CREATE TABLE zone_source_cursors (
+  adapter VARCHAR(100) PRIMARY KEY,
+  cursor TEXT NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
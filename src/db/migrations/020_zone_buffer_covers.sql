@@ -0,0 +1,11 @@
+-- TurfSynth AR - Zone Buffer Covers
+-- Migration 020: Track the buffer each zone's cell cover was computed with
+--
+-- Zones whose cover_buffer_meters differs from their category's buffer
+-- have stale cells. The zone-buffer-covers job recomputes them; until
+-- then, cell lookups check them by distance. Zones created before
+-- migration 018 start out NULL, so their covers pick up the seeded
+-- buffers on rollout.
+
+ALTER TABLE exclusion_zones
+  ADD COLUMN cover_buffer_meters INTEGER;
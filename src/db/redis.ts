@@ -56,6 +56,18 @@ export const RedisKeys = {
 
   // Session state: session:{sessionId}
   session: (sessionId: string) => `session:${sessionId}`,
+
+  // Synthling spawns: spawns:{h3Index}:{timeWindow}
+  spawns: (h3Index: string, timeWindow: string) => `spawns:${h3Index}:${timeWindow}`,
+
+  // Background job lock: job_lock:{jobName}
+  jobLock: (jobName: string) => `job_lock:${jobName}`,
+
+  // Crew presence: presence:{userId}
+  presence: (userId: string) => `presence:${userId}`,
+
+  // Pub/sub channel carrying realtime events to every instance
+  realtimeChannel: 'realtime_events',
 } as const;
 
 /**
@@ -68,6 +80,8 @@ export const RedisTTL = {
   spoofScore: 7 * 24 * 60 * 60,   // 7 days
   fingerprintRateLimit: 60,       // 1 minute
   session: 30 * 60,               // 30 minutes
+  spawns: 60 * 60,                // 1 hour (one spawn window)
+  presence: 10 * 60,              // 10 minutes
 } as const;
 
 /**
@@ -0,0 +1,90 @@
+/**
+ * Seed a city's districts.
+ *
+ * Usage:
+ *   npm run db:seed -- --city san-francisco
+ *   npm run db:seed -- --region "Oakland" --lat 37.8044 --lng -122.2712 --radius-km 4 --size 19
+ *
+ * Presets set the region, center and radius; explicit flags override them.
+ * Safe to re-run: cells that already have a district are left alone.
+ */
+
+import { parseArgs } from 'util';
+import { districtBuilder } from '../services/turf/district-builder.js';
+import type { DistrictClusterSize } from '../services/turf/district-builder.js';
+import { shutdown } from './connection.js';
+import { redisShutdown } from './redis.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('seed');
+
+/**
+ * City presets.
+ */
+const CITIES: Record<string, { region: string; latitude: number; longitude: number; radiusKm: number }> = {
+  'san-francisco': { region: 'San Francisco', latitude: 37.7749, longitude: -122.4194, radiusKm: 10 },
+  'oakland': { region: 'Oakland', latitude: 37.8044, longitude: -122.2712, radiusKm: 10 },
+  'new-york': { region: 'New York', latitude: 40.7580, longitude: -73.9855, radiusKm: 15 },
+  'london': { region: 'London', latitude: 51.5074, longitude: -0.1278, radiusKm: 15 },
+  'tokyo': { region: 'Tokyo', latitude: 35.6812, longitude: 139.7671, radiusKm: 15 },
+};
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      city: { type: 'string' },
+      region: { type: 'string' },
+      lat: { type: 'string' },
+      lng: { type: 'string' },
+      'radius-km': { type: 'string' },
+      size: { type: 'string', default: '7' },
+    },
+  });
+
+  const preset = values.city ? CITIES[values.city] : undefined;
+  if (values.city && !preset) {
+    throw new Error(`Unknown city "${values.city}". Presets: ${Object.keys(CITIES).join(', ')}`);
+  }
+
+  const region = values.region ?? preset?.region;
+  const latitude = values.lat !== undefined ? Number(values.lat) : preset?.latitude;
+  const longitude = values.lng !== undefined ? Number(values.lng) : preset?.longitude;
+  const radiusKm = values['radius-km'] !== undefined ? Number(values['radius-km']) : preset?.radiusKm;
+  const clusterSize = Number(values.size);
+
+  if (!region || latitude === undefined || longitude === undefined || radiusKm === undefined) {
+    throw new Error('Pass --city <preset>, or --region, --lat, --lng and --radius-km');
+  }
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || !(radiusKm > 0 && radiusKm <= 25)) {
+    throw new Error('Invalid coordinates or radius (0-25 km)');
+  }
+  if (clusterSize !== 7 && clusterSize !== 19) {
+    throw new Error('--size must be 7 or 19');
+  }
+
+  const result = await districtBuilder.buildDistricts({
+    region,
+    latitude,
+    longitude,
+    radiusKm,
+    clusterSize: clusterSize as DistrictClusterSize,
+  });
+
+  logger.info(
+    {
+      region: result.region,
+      districts: result.districts.length,
+      cells: result.districts.reduce((sum, d) => sum + d.cellCount, 0),
+      excludedCells: result.excludedCells,
+      skippedDistricts: result.skippedDistricts,
+    },
+    'City seeded'
+  );
+}
+
+main()
+  .catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => Promise.all([shutdown(), redisShutdown()]));
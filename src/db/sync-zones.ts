@@ -0,0 +1,137 @@
+/**
+ * Sync exclusion zones from a SafeGraph region or a CSV/WKT open-data feed.
+ *
+ * Usage:
+ *   npm run db:sync-zones -- safegraph --region CA
+ *   npm run db:sync-zones -- csv --name sf-schools --from https://data.example.org/schools.csv \
+ *     --map "Public School=school" --map "Charter School=school"
+ *   npm run db:sync-zones -- csv --name sf-courts --from courts.csv --map "*=government" --wkt-column the_geom
+ *
+ * Each source keeps a cursor, so a re-run skips data unchanged since the
+ * last successful sync. After a sync, the region's or feed's zones
+ * missing from it are removed; pass --keep-stale to keep them.
+ */
+
+import { parseArgs } from 'util';
+import { zoneSync } from '../services/geofencing/zone-sync.js';
+import { SafeGraphZoneSource } from '../services/geofencing/safegraph-zone-source.js';
+import { CsvZoneSource } from '../services/geofencing/csv-zone-source.js';
+import { shutdown } from './connection.js';
+import { redisShutdown } from './redis.js';
+import { createLogger } from '../utils/logger.js';
+import type { ZoneSourceAdapter } from '../services/geofencing/zone-source.js';
+import type { ZoneCategory } from '../types/geofencing.js';
+
+const logger = createLogger('sync-zones');
+
+const ZONE_CATEGORIES = new Set<string>(['school', 'hospital', 'government', 'residential', 'custom']);
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      region: { type: 'string' },
+      name: { type: 'string' },
+      from: { type: 'string' },
+      map: { type: 'string', multiple: true, default: [] },
+      'id-column': { type: 'string' },
+      'name-column': { type: 'string' },
+      'wkt-column': { type: 'string' },
+      'category-column': { type: 'string' },
+      'keep-stale': { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+  });
+
+  let adapter: ZoneSourceAdapter;
+
+  switch (positionals[0]) {
+    case 'safegraph':
+      if (!values.region) {
+        throw new Error('Pass --region, e.g. --region CA');
+      }
+      adapter = new SafeGraphZoneSource({ region: values.region });
+      break;
+
+    case 'csv':
+      if (!values.name || !values.from) {
+        throw new Error('Pass --name and --from (a URL or file path)');
+      }
+      adapter = new CsvZoneSource({
+        name: values.name,
+        location: values.from,
+        categoryMapping: parseMappings(values.map),
+        columns: {
+          id: values['id-column'],
+          name: values['name-column'],
+          wkt: values['wkt-column'],
+          category: values['category-column'],
+        },
+      });
+      break;
+
+    default:
+      throw new Error('Pass a source: safegraph or csv');
+  }
+
+  const result = await zoneSync.syncSource(adapter, { prune: !values['keep-stale'] });
+
+  for (const category of result.results) {
+    logger.info(
+      {
+        category: category.category,
+        processed: category.zonesProcessed,
+        created: category.zonesCreated,
+        updated: category.zonesUpdated,
+        skipped: category.zonesSkipped,
+        errors: category.errors,
+      },
+      'Category synced'
+    );
+  }
+
+  logger.info(
+    {
+      adapter: result.adapter,
+      unchanged: result.unchanged,
+      zonesRemoved: result.zonesRemoved,
+      zonesPruned: result.zonesPruned,
+      zonesInvalid: result.zonesInvalid,
+      durationMs: result.durationMs,
+    },
+    'Zones synced'
+  );
+
+  if (result.zonesInvalid > 0 || result.results.some((category) => category.errors.length > 0)) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Parse --map "Label=category" options into a category mapping.
+ */
+function parseMappings(mappings: string[]): Record<string, ZoneCategory> {
+  if (mappings.length === 0) {
+    throw new Error('Pass one or more --map "Label=category" options');
+  }
+
+  const mapping: Record<string, ZoneCategory> = {};
+  for (const entry of mappings) {
+    const separator = entry.lastIndexOf('=');
+    const label = entry.slice(0, separator).trim();
+    const category = entry.slice(separator + 1).trim();
+
+    if (separator === -1 || !label || !ZONE_CATEGORIES.has(category)) {
+      throw new Error(`Invalid --map "${entry}": expected "Label=category"`);
+    }
+    mapping[label] = category as ZoneCategory;
+  }
+
+  return mapping;
+}
+
+main()
+  .catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => Promise.all([shutdown(), redisShutdown()]));
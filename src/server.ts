@@ -6,8 +6,17 @@ import { logger } from './utils/logger.js';
 import { locationRoutes } from './api/v1/location.js';
 import { fingerprintRoutes } from './api/v1/fingerprint.js';
 import { turfRoutes } from './api/v1/turf.js';
+import { synthlingRoutes } from './api/v1/synthling.js';
+import { adminRoutes } from './api/v1/admin.js';
+import { authRoutes } from './api/v1/auth.js';
+import { realtimeRoutes } from './api/v1/realtime.js';
+import { zoneRoutes } from './api/v1/zones.js';
+import { jobScheduler, JOBS } from './services/jobs/index.js';
+import { realtimeBus, realtimeGateway } from './services/realtime/index.js';
 import { shutdown as dbShutdown, healthCheck as dbHealthCheck } from './db/connection.js';
 import { redisShutdown, redisHealthCheck } from './db/redis.js';
+// Validates bundled archetype data on import so bad data fails startup
+import './services/synthling/archetype-registry.js';
 
 const fastify = Fastify({
   logger: {
@@ -29,7 +38,7 @@ async function start() {
     // Register plugins
     await fastify.register(cors, {
       origin: config.NODE_ENV === 'development' ? true : false,
-      methods: ['GET', 'POST', 'PUT', 'DELETE'],
+      methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
     });
 
     await fastify.register(rateLimit, {
@@ -37,10 +46,18 @@ async function start() {
       timeWindow: config.RATE_LIMIT_WINDOW_MS,
     });
 
+    // Set per request by the authenticate preHandler
+    fastify.decorateRequest('user');
+
     // Register routes
+    await fastify.register(authRoutes, { prefix: '/api/v1/auth' });
     await fastify.register(locationRoutes, { prefix: '/api/v1/location' });
     await fastify.register(fingerprintRoutes, { prefix: '/api/v1/fingerprint' });
     await fastify.register(turfRoutes, { prefix: '/api/v1/turf' });
+    await fastify.register(synthlingRoutes, { prefix: '/api/v1/synthling' });
+    await fastify.register(adminRoutes, { prefix: '/api/v1/admin' });
+    await fastify.register(realtimeRoutes, { prefix: '/api/v1/realtime' });
+    await fastify.register(zoneRoutes, { prefix: '/api/v1/zones' });
 
     // Root health check
     fastify.get('/health', async () => {
@@ -71,6 +88,13 @@ async function start() {
     });
 
     logger.info({ address, env: config.NODE_ENV }, 'TurfSynth AR server started');
+
+    // Maintenance, expiries and raid resolution; one instance runs each job
+    jobScheduler.start(JOBS);
+
+    // Push events from every instance to this instance's streams
+    await realtimeBus.start();
+    realtimeGateway.start();
   } catch (error) {
     logger.error({ error }, 'Server startup failed');
     process.exit(1);
@@ -82,6 +106,10 @@ async function shutdown(signal: string) {
   logger.info({ signal }, 'Shutdown signal received');
 
   try {
+    await jobScheduler.stop();
+    // Open event streams would hold the server open
+    realtimeGateway.stop();
+    await realtimeBus.stop();
     await fastify.close();
     await dbShutdown();
     await redisShutdown();
@@ -0,0 +1,9 @@
+/**
+ * Authentication
+ *
+ * Device-bound sessions with signed access tokens.
+ */
+
+export { sessionManager, SessionManager } from './session-manager.js';
+export type { RegisterInput } from './session-manager.js';
+export { tokenSigner, TokenSigner } from './token-signer.js';
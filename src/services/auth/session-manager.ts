@@ -0,0 +1,311 @@
+/**
+ * Session Manager - Device-bound player sessions.
+ *
+ * Handles:
+ * - Registering a player on a device and issuing its device secret
+ * - Login with device credentials
+ * - Refresh token rotation, with replay detection
+ * - Logout
+ * - Resolving an access token to the caller, crew included
+ *
+ * Access tokens are short-lived and signed; every request still checks the
+ * session row, so logout and revocation take effect immediately, and they
+ * close the session's realtime streams. Crew
+ * membership is always read from users.crew_id.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type pg from 'pg';
+import { v4 as uuid } from 'uuid';
+import { query, transaction } from '../../db/connection.js';
+import { derivedConfig } from '../../config/index.js';
+import { tokenSigner } from './token-signer.js';
+import { realtimeGateway } from '../realtime/gateway.js';
+import { createLogger } from '../../utils/logger.js';
+import type { AuthTokens, AuthUser, Registration } from '../../types/auth.js';
+
+const logger = createLogger('session-manager');
+
+/**
+ * Revoked and expired sessions are kept this long before pruning.
+ */
+const SESSION_RETENTION_DAYS = 7;
+
+export interface RegisterInput {
+  username: string;
+  deviceId: string;
+  platform?: 'ios' | 'android';
+}
+
+/**
+ * Session Manager Service
+ */
+export class SessionManager {
+  /**
+   * Create a player and their first device, and log them in.
+   */
+  async register(input: RegisterInput, now: Date = new Date()): Promise<Registration> {
+    const deviceSecret = randomToken();
+
+    return transaction(async (client) => {
+      const userResult = await client.query<{ id: string }>(
+        `INSERT INTO users (username) VALUES ($1)
+         ON CONFLICT (username) DO NOTHING
+         RETURNING id`,
+        [input.username]
+      );
+
+      const userId = userResult.rows[0]?.id;
+      if (!userId) {
+        throw new Error('Username already taken');
+      }
+
+      const deviceResult = await client.query(
+        `INSERT INTO user_devices (user_id, device_id, secret_hash, platform, last_login_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (device_id) DO NOTHING
+         RETURNING id`,
+        [userId, input.deviceId, hashToken(deviceSecret), input.platform ?? null, now]
+      );
+
+      if (deviceResult.rowCount === 0) {
+        throw new Error('Device already registered');
+      }
+
+      const tokens = await this.createSession(userId, input.deviceId, client, now);
+
+      logger.info({ userId, platform: input.platform }, 'Player registered');
+
+      return { userId, deviceSecret, tokens };
+    });
+  }
+
+  /**
+   * Open a session with a device's credentials.
+   */
+  async login(deviceId: string, deviceSecret: string, now: Date = new Date()): Promise<AuthTokens> {
+    return transaction(async (client) => {
+      const result = await client.query<{ user_id: string; secret_hash: string }>(
+        `SELECT user_id, secret_hash FROM user_devices
+         WHERE device_id = $1 AND revoked_at IS NULL`,
+        [deviceId]
+      );
+
+      const device = result.rows[0];
+      if (!device || !hashesMatch(device.secret_hash, hashToken(deviceSecret))) {
+        throw new Error('Invalid device credentials');
+      }
+
+      await client.query(
+        `UPDATE user_devices SET last_login_at = $2 WHERE device_id = $1`,
+        [deviceId, now]
+      );
+
+      return this.createSession(device.user_id, deviceId, client, now);
+    });
+  }
+
+  /**
+   * Exchange a refresh token for new tokens. The old refresh token stops
+   * working; presenting it again revokes the session, since only a stolen
+   * copy would be replayed.
+   */
+  async refresh(refreshToken: string, deviceId: string, now: Date = new Date()): Promise<AuthTokens> {
+    const tokenHash = hashToken(refreshToken);
+
+    // Null when a replay revoked the session; thrown after commit so the
+    // revocation sticks
+    const tokens = await transaction(async (client): Promise<AuthTokens | null> => {
+      const result = await client.query<{
+        id: string;
+        user_id: string;
+        device_id: string;
+        refresh_token_hash: string;
+        expires_at: Date;
+        revoked_at: Date | null;
+      }>(
+        `SELECT id, user_id, device_id, refresh_token_hash, expires_at, revoked_at
+         FROM auth_sessions
+         WHERE refresh_token_hash = $1 OR previous_refresh_token_hash = $1
+         FOR UPDATE`,
+        [tokenHash]
+      );
+
+      const session = result.rows[0];
+      if (!session || session.revoked_at || session.device_id !== deviceId) {
+        throw new Error('Invalid refresh token');
+      }
+
+      if (session.refresh_token_hash !== tokenHash) {
+        await client.query(
+          `UPDATE auth_sessions SET revoked_at = $2 WHERE id = $1`,
+          [session.id, now]
+        );
+        await realtimeGateway.disconnectUser(
+          session.user_id,
+          { sessionId: session.id, reason: 'session_ended' },
+          client
+        );
+        logger.warn({ sessionId: session.id, userId: session.user_id }, 'Refresh token replayed; session revoked');
+        return null;
+      }
+
+      if (session.expires_at.getTime() <= now.getTime()) {
+        throw new Error('Session expired');
+      }
+
+      const next = randomToken();
+      const refreshTokenExpiresAt = this.refreshExpiry(now);
+
+      await client.query(
+        `UPDATE auth_sessions
+         SET refresh_token_hash = $2, previous_refresh_token_hash = $3,
+             refreshed_at = $4, expires_at = $5
+         WHERE id = $1`,
+        [session.id, hashToken(next), tokenHash, now, refreshTokenExpiresAt]
+      );
+
+      return {
+        ...this.issueAccessToken(session.user_id, session.id, deviceId, now),
+        refreshToken: next,
+        refreshTokenExpiresAt,
+      };
+    });
+
+    if (!tokens) {
+      throw new Error('Invalid refresh token');
+    }
+
+    return tokens;
+  }
+
+  /**
+   * End a session and close its realtime streams.
+   */
+  async logout(sessionId: string, now: Date = new Date()): Promise<void> {
+    const result = await query<{ user_id: string }>(
+      `UPDATE auth_sessions SET revoked_at = $2 WHERE id = $1 AND revoked_at IS NULL RETURNING user_id`,
+      [sessionId, now]
+    );
+
+    const userId = result.rows[0]?.user_id;
+    if (userId) {
+      await realtimeGateway.disconnectUser(userId, { sessionId, reason: 'session_ended' });
+    }
+  }
+
+  /**
+   * Resolve an access token presented from a device to the caller.
+   * Returns null if the token is invalid, expired, from another device, or
+   * its session has ended.
+   */
+  async authenticate(accessToken: string, deviceId: string, now: Date = new Date()): Promise<AuthUser | null> {
+    const claims = tokenSigner.verify(accessToken, now);
+    if (!claims || claims.did !== deviceId) {
+      return null;
+    }
+
+    const result = await query<{ user_id: string; crew_id: string | null }>(
+      `SELECT u.id as user_id, u.crew_id
+       FROM auth_sessions s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.id = $1 AND s.user_id = $2 AND s.revoked_at IS NULL AND s.expires_at > $3`,
+      [claims.sid, claims.sub, now]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      userId: row.user_id,
+      crewId: row.crew_id,
+      sessionId: claims.sid,
+      deviceId: claims.did,
+    };
+  }
+
+  /**
+   * Delete sessions that ended more than the retention period ago.
+   * Returns the number deleted.
+   */
+  async pruneSessions(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - SESSION_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const result = await query(
+      `DELETE FROM auth_sessions WHERE expires_at < $1 OR revoked_at < $1`,
+      [cutoff]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Open a session and issue its tokens.
+   */
+  private async createSession(
+    userId: string,
+    deviceId: string,
+    client: pg.PoolClient,
+    now: Date
+  ): Promise<AuthTokens> {
+    const sessionId = uuid();
+    const refreshToken = randomToken();
+    const refreshTokenExpiresAt = this.refreshExpiry(now);
+
+    await client.query(
+      `INSERT INTO auth_sessions (id, user_id, device_id, refresh_token_hash, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [sessionId, userId, deviceId, hashToken(refreshToken), now, refreshTokenExpiresAt]
+    );
+
+    return {
+      ...this.issueAccessToken(userId, sessionId, deviceId, now),
+      refreshToken,
+      refreshTokenExpiresAt,
+    };
+  }
+
+  private issueAccessToken(
+    userId: string,
+    sessionId: string,
+    deviceId: string,
+    now: Date
+  ): Pick<AuthTokens, 'accessToken' | 'accessTokenExpiresAt'> {
+    const iat = Math.floor(now.getTime() / 1000);
+    const exp = iat + derivedConfig.accessTokenTtlSeconds;
+
+    return {
+      accessToken: tokenSigner.sign({ sub: userId, sid: sessionId, did: deviceId, iat, exp }),
+      accessTokenExpiresAt: new Date(exp * 1000),
+    };
+  }
+
+  private refreshExpiry(now: Date): Date {
+    return new Date(now.getTime() + derivedConfig.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  }
+}
+
+/**
+ * Random secret for device secrets and refresh tokens.
+ */
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Stored form of a secret. Secrets are random 256-bit values, so a plain
+ * SHA-256 is enough.
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function hashesMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Singleton instance
+export const sessionManager = new SessionManager();
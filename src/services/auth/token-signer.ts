@@ -0,0 +1,75 @@
+/**
+ * Token Signer - Signs and verifies access tokens.
+ *
+ * Handles:
+ * - HMAC-SHA256 signing of access token claims
+ * - Signature and expiry checks
+ *
+ * Tokens are `base64url(claims).base64url(signature)`. They carry no
+ * secrets; the signature only proves this server issued them.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../../config/index.js';
+import type { AccessTokenClaims } from '../../types/auth.js';
+
+/**
+ * Token Signer Service
+ */
+export class TokenSigner {
+  constructor(private readonly secret: string) {}
+
+  /**
+   * Sign claims into a token.
+   */
+  sign(claims: AccessTokenClaims): string {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${payload}.${this.signature(payload)}`;
+  }
+
+  /**
+   * Claims of a validly signed, unexpired token, or null.
+   */
+  verify(token: string, now: Date = new Date()): AccessTokenClaims | null {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signature(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    let claims: Partial<AccessTokenClaims>;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Partial<AccessTokenClaims>;
+    } catch {
+      return null;
+    }
+
+    if (
+      typeof claims.sub !== 'string' ||
+      typeof claims.sid !== 'string' ||
+      typeof claims.did !== 'string' ||
+      typeof claims.iat !== 'number' ||
+      typeof claims.exp !== 'number'
+    ) {
+      return null;
+    }
+
+    if (claims.exp * 1000 <= now.getTime()) {
+      return null;
+    }
+
+    return claims as AccessTokenClaims;
+  }
+
+  private signature(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+// Singleton instance
+export const tokenSigner = new TokenSigner(config.AUTH_TOKEN_SECRET);
@@ -9,10 +9,11 @@
  * See specs/place-fingerprint/spec.md for full specification.
  */
 
-import { v4 as uuid } from 'uuid';
 import { query } from '../../db/connection.js';
 import { validationGate } from './validation-gate.js';
 import { fingerprintAssembler } from './assembler.js';
+import { contractManager } from '../turf/contract-manager.js';
+import { influenceManager } from '../turf/influence-manager.js';
 import { createLogger } from '../../utils/logger.js';
 import type {
   PlaceFingerprint,
@@ -83,6 +84,8 @@ export class FingerprintService {
       FINGERPRINT_INFLUENCE_AMOUNT
     );
 
+    await contractManager.recordProgress(userId, 'fingerprint_submission', fingerprint.locality.h3Cell);
+
     logger.info(
       { userId, fingerprintId: fingerprint.id, influence: influenceAwarded },
       'Fingerprint submitted successfully'
@@ -145,36 +148,16 @@ export class FingerprintService {
       return baseAmount;
     }
 
-    // Award influence to cell for crew
-    await query(
-      `INSERT INTO influence_events (
-        id, cell_h3, crew_id, user_id, source, amount, timestamp
-      ) VALUES ($1, $2, $3, $4, 'fingerprint_submission', $5, NOW())`,
-      [uuid(), h3Cell, crewId, userId, baseAmount]
-    );
-
-    // Update cell influence (upsert)
-    await query(
-      `INSERT INTO turf_cells (h3_index, influence_scores, total_influence, last_decay_at)
-       VALUES ($1, jsonb_build_object($2::text, $3::numeric), $3, NOW())
-       ON CONFLICT (h3_index) DO UPDATE SET
-         influence_scores = turf_cells.influence_scores ||
-           jsonb_build_object($2::text,
-             COALESCE((turf_cells.influence_scores->>$2)::numeric, 0) + $3
-           ),
-         total_influence = (
-           SELECT SUM(value::numeric)
-           FROM jsonb_each_text(
-             turf_cells.influence_scores ||
-             jsonb_build_object($2::text,
-               COALESCE((turf_cells.influence_scores->>$2)::numeric, 0) + $3
-             )
-           )
-         )`,
-      [h3Cell, crewId, baseAmount]
+    // Award influence to cell for crew, within the per-player and per-cell caps
+    const event = await influenceManager.awardInfluence(
+      h3Cell,
+      crewId,
+      userId,
+      'fingerprint_submission',
+      baseAmount / influenceManager.getBaseAmount('fingerprint_submission')
     );
 
-    return baseAmount;
+    return event.amount;
   }
 
   /**
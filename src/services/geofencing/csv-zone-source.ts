@@ -0,0 +1,264 @@
+/**
+ * CSV zone source - Zones from CSV/WKT open-data feeds.
+ *
+ * Handles:
+ * - Feeds by URL or local path, one zone per row with a WKT geometry
+ * - Category labels to zone category mapping, per feed
+ * - RFC 4180 quoting, as WKT columns contain commas
+ *
+ * Most open-data portals serve ETag or Last-Modified headers, which make
+ * the cursor: an unchanged feed answers 304 and is not re-read. Local
+ * files use their modification time.
+ */
+
+import { readFile, stat } from 'fs/promises';
+import { parseWktPolygon } from './wkt.js';
+import { createLogger } from '../../utils/logger.js';
+import type { ZoneRecord, ZoneSourceAdapter, ZoneSourceFetch } from './zone-source.js';
+import type { ZoneCategory } from '../../types/geofencing.js';
+
+const logger = createLogger('csv-zone-source');
+
+// Category mapping key matching any label
+const ANY_LABEL = '*';
+
+/**
+ * Feed definition.
+ */
+export interface CsvZoneSourceOptions {
+  /**
+   * Feed name, e.g. 'sf-schools'; prefixes the source ID of its zones.
+   */
+  name: string;
+  /**
+   * HTTP(S) URL or local file path.
+   */
+  location: string;
+  /**
+   * Category label to zone category, matched case-insensitively; '*'
+   * matches any label, e.g. for a feed of one kind of site.
+   */
+  categoryMapping: Record<string, ZoneCategory>;
+  columns?: {
+    id?: string;        // Default 'id'
+    name?: string;      // Default 'name'
+    wkt?: string;       // Default 'wkt'
+    category?: string;  // Default 'category'; optional with a '*' mapping
+  };
+}
+
+/**
+ * Zones from a municipal open-data feed. Complete: the feed lists all of
+ * its sites, so zones with its source ID prefix missing from it are
+ * pruned.
+ */
+export class CsvZoneSource implements ZoneSourceAdapter {
+  readonly name: string;
+  readonly source = 'open_data';
+  readonly sourceIdPrefix: string;
+  readonly categoryMapping: Readonly<Record<string, ZoneCategory>>;
+
+  private readonly location: string;
+  private readonly columns: { id: string; name: string; wkt: string; category: string };
+
+  constructor(options: CsvZoneSourceOptions) {
+    if (!/^[a-z0-9][a-z0-9_-]*$/i.test(options.name)) {
+      throw new Error(`Invalid feed name: ${options.name}`);
+    }
+    if (Object.keys(options.categoryMapping).length === 0) {
+      throw new Error('Category mapping is empty');
+    }
+
+    this.name = `csv:${options.name}`;
+    this.sourceIdPrefix = `${options.name}:`;
+    this.location = options.location;
+    this.categoryMapping = Object.fromEntries(
+      Object.entries(options.categoryMapping).map(([label, category]) => [
+        label.trim().toLowerCase(),
+        category,
+      ])
+    );
+    this.columns = {
+      id: options.columns?.id ?? 'id',
+      name: options.columns?.name ?? 'name',
+      wkt: options.columns?.wkt ?? 'wkt',
+      category: options.columns?.category ?? 'category',
+    };
+  }
+
+  async fetchZones(cursor: string | null): Promise<ZoneSourceFetch> {
+    const feed = /^https?:\/\//i.test(this.location)
+      ? await this.fetchFeed(cursor)
+      : await this.readFeed(cursor);
+
+    if (feed.text === null) {
+      return { cursor: feed.cursor, zones: null, removedSourceIds: [], invalidSourceIds: [], complete: true };
+    }
+
+    const { zones, invalidSourceIds } = this.parseZones(feed.text);
+    logger.info({ feed: this.name, zones: zones.length, invalid: invalidSourceIds.length }, 'Read open-data feed');
+
+    return { cursor: feed.cursor, zones, removedSourceIds: [], invalidSourceIds, complete: true };
+  }
+
+  /**
+   * Download the feed unless its ETag or Last-Modified still matches.
+   */
+  private async fetchFeed(cursor: string | null): Promise<{ cursor: string | null; text: string | null }> {
+    const headers: Record<string, string> = {};
+    if (cursor?.startsWith('etag:')) {
+      headers['If-None-Match'] = cursor.slice('etag:'.length);
+    } else if (cursor?.startsWith('last-modified:')) {
+      headers['If-Modified-Since'] = cursor.slice('last-modified:'.length);
+    }
+
+    const response = await fetch(this.location, { headers });
+    if (response.status === 304) {
+      return { cursor, text: null };
+    }
+    if (!response.ok) {
+      throw new Error(`Open-data feed error: ${response.status} ${response.statusText}`);
+    }
+
+    const etag = response.headers.get('etag');
+    const lastModified = response.headers.get('last-modified');
+
+    return {
+      cursor: etag ? `etag:${etag}` : lastModified ? `last-modified:${lastModified}` : null,
+      text: await response.text(),
+    };
+  }
+
+  /**
+   * Read a local feed unless its modification time still matches.
+   */
+  private async readFeed(cursor: string | null): Promise<{ cursor: string | null; text: string | null }> {
+    const modified = `mtime:${(await stat(this.location)).mtime.toISOString()}`;
+    if (cursor === modified) {
+      return { cursor, text: null };
+    }
+
+    return { cursor: modified, text: await readFile(this.location, 'utf8') };
+  }
+
+  /**
+   * Map feed rows to zone records. Rows without a mapped category are
+   * skipped; rows with a missing or invalid geometry are reported by
+   * source ID, so their existing zones are kept.
+   */
+  private parseZones(text: string): { zones: ZoneRecord[]; invalidSourceIds: string[] } {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) {
+      throw new Error(`Feed ${this.name} is empty`);
+    }
+
+    const columnIndex = (column: string, required: boolean) => {
+      const index = header.findIndex((name) => name.trim().toLowerCase() === column.toLowerCase());
+      if (index === -1 && required) {
+        throw new Error(`Feed ${this.name} has no "${column}" column`);
+      }
+      return index;
+    };
+
+    const idIndex = columnIndex(this.columns.id, true);
+    const nameIndex = columnIndex(this.columns.name, true);
+    const wktIndex = columnIndex(this.columns.wkt, true);
+    const categoryIndex = columnIndex(this.columns.category, !(ANY_LABEL in this.categoryMapping));
+
+    const zones = new Map<string, ZoneRecord>();
+    const invalidSourceIds = new Set<string>();
+    let skipped = 0;
+
+    rows.forEach((row, i) => {
+      const id = row[idIndex]?.trim();
+      const sourceId = `${this.sourceIdPrefix}${id}`;
+      const label = categoryIndex === -1 ? '' : (row[categoryIndex] ?? '').trim();
+      const category = this.categoryMapping[label.toLowerCase()] ?? this.categoryMapping[ANY_LABEL];
+
+      if (!id || !category || zones.has(id) || invalidSourceIds.has(sourceId)) {
+        skipped++;
+        return;
+      }
+
+      let geometry: GeoJSON.MultiPolygon | null;
+      try {
+        geometry = parseWktPolygon(row[wktIndex] ?? '');
+      } catch (error) {
+        // Row numbers count the header as line 1
+        logger.warn({ feed: this.name, row: i + 2, error }, 'Skipping row with invalid geometry');
+        geometry = null;
+      }
+
+      if (!geometry) {
+        invalidSourceIds.add(sourceId);
+        return;
+      }
+
+      zones.set(id, {
+        sourceId,
+        name: row[nameIndex]?.trim() || id,
+        category,
+        geometry,
+        metadata: { feed: this.name.slice('csv:'.length), ...(label ? { label } : {}) },
+      });
+    });
+
+    if (skipped > 0) {
+      logger.info({ feed: this.name, skipped }, 'Skipped unmapped or duplicate feed rows');
+    }
+
+    return { zones: [...zones.values()], invalidSourceIds: [...invalidSourceIds] };
+  }
+}
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain commas, line breaks and
+ * doubled quotes. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -2,6 +2,7 @@ import * as h3 from 'h3-js';
 import { redis, RedisKeys, RedisTTL } from '../../db/redis.js';
 import { query } from '../../db/connection.js';
 import { config } from '../../config/index.js';
+import { ZONE_BUFFER_JOIN, ZONE_BUFFER_METERS } from './zone-buffers.js';
 import { createLogger } from '../../utils/logger.js';
 import type { ZoneCategory } from '../../types/geofencing.js';
 
@@ -118,6 +119,10 @@ export class H3CacheService {
 
   /**
    * Compute zone membership for an H3 cell from exclusion_zones table.
+   * A zone belongs to the cell when the cell is within its category's
+   * buffer distance, matching the precise check in zoneChecker. Zones
+   * whose stored cover predates their category's buffer are checked by
+   * distance alone until the cover is recomputed.
    */
   private async computeZonesForCell(h3Index: string): Promise<H3CellZoneData> {
     // Get cell boundary as WKT polygon
@@ -129,11 +134,15 @@ export class H3CacheService {
       id: string;
       category: ZoneCategory;
     }>(
-      `SELECT id, category FROM exclusion_zones
-       WHERE ST_Intersects(geometry, ST_GeomFromText($1, 4326))
-         AND effective_from <= NOW()
-         AND (effective_until IS NULL OR effective_until > NOW())`,
-      [wktPolygon]
+      `SELECT z.id, z.category FROM exclusion_zones z
+       ${ZONE_BUFFER_JOIN}
+       WHERE (z.h3_cells @> ARRAY[$2::text]
+              OR ST_Intersects(z.geometry, ST_GeomFromText($1, 4326))
+              OR z.cover_buffer_meters IS DISTINCT FROM ${ZONE_BUFFER_METERS})
+         AND ST_DWithin(z.geometry::geography, ST_GeomFromText($1, 4326)::geography, ${ZONE_BUFFER_METERS})
+         AND z.effective_from <= NOW()
+         AND (z.effective_until IS NULL OR z.effective_until > NOW())`,
+      [wktPolygon, h3Index]
     );
 
     return {
@@ -197,7 +206,11 @@ export class H3CacheService {
 
   /**
    * Invalidate all caches for cells overlapping a zone.
-   * Called when a zone is created/updated/deleted.
+   * Called when a zone is created/updated/deleted, or starts or ends.
+   *
+   * Other instances' local caches are not reached directly; their entries
+   * expire within a minute, well inside the 15-minute freshness target
+   * for emergency zones.
    */
   async invalidateZone(zoneId: string): Promise<void> {
     // Get all H3 cells for this zone
@@ -208,6 +221,15 @@ export class H3CacheService {
 
     const cells = result.rows[0]?.h3_cells ?? [];
 
+    // PostgreSQL first: a Redis miss in between would otherwise copy the
+    // stale row back into Redis for another 24 hours
+    if (cells.length > 0) {
+      await query(
+        `DELETE FROM h3_cell_zone_cache WHERE h3_index = ANY($1)`,
+        [cells]
+      );
+    }
+
     // Batch invalidation
     const pipeline = redis.pipeline();
     for (const cell of cells) {
@@ -216,16 +238,21 @@ export class H3CacheService {
     }
     await pipeline.exec();
 
-    if (cells.length > 0) {
-      await query(
-        `DELETE FROM h3_cell_zone_cache WHERE h3_index = ANY($1)`,
-        [cells]
-      );
-    }
-
     logger.info({ zoneId, cellCount: cells.length }, 'Zone caches invalidated');
   }
 
+  /**
+   * Delete expired rows from the PostgreSQL cell cache.
+   * Returns the number deleted.
+   */
+  async purgeExpired(): Promise<number> {
+    const result = await query(
+      `DELETE FROM h3_cell_zone_cache WHERE expires_at <= NOW()`
+    );
+
+    return result.rowCount ?? 0;
+  }
+
   /**
    * Warm cache for cells in a geographic area.
    * Useful for pre-populating cache for new cities/regions.
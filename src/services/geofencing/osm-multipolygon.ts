@@ -0,0 +1,232 @@
+/**
+ * OSM multipolygons - Geometry assembly for OSM multipolygon relations.
+ *
+ * Handles:
+ * - Joining unordered, possibly reversed member ways into closed rings
+ * - Matching inner rings (holes) to the outer ring around them
+ * - GeoJSON winding: outer rings counterclockwise, holes clockwise
+ *
+ * Members with an empty role count as outer, as OSM editors do. Ways
+ * that cannot be joined into a closed ring are left out and reported, so
+ * a relation with one broken ring still protects the rest of its area.
+ *
+ * See https://wiki.openstreetmap.org/wiki/Relation:multipolygon for the
+ * tagging model.
+ */
+
+/**
+ * Member of an OSM relation.
+ */
+export interface OSMRelationMember {
+  type: string;
+  ref: number;
+  role: string;
+}
+
+/**
+ * Assembled relation geometry. `geometry` is null when no outer ring
+ * could be closed.
+ */
+export interface AssembledMultipolygon {
+  geometry: GeoJSON.MultiPolygon | null;
+  unusedWays: number[];
+}
+
+/**
+ * Chain of member ways, as node IDs.
+ */
+interface Segment {
+  wayIds: number[];
+  nodeIds: number[];
+}
+
+/**
+ * Closed ring as [lng, lat] positions, with the ways it was built from.
+ */
+interface Ring {
+  wayIds: number[];
+  coordinates: Array<[number, number]>;
+  area: number;
+}
+
+/**
+ * Relation types whose members use outer/inner roles.
+ */
+export const MULTIPOLYGON_RELATION_TYPES = new Set(['multipolygon', 'boundary']);
+
+/**
+ * Assemble a relation's way members into a MultiPolygon.
+ */
+export function assembleMultipolygon(
+  members: OSMRelationMember[],
+  ways: Map<number, number[]>,
+  nodes: Map<number, { lat: number; lon: number }>
+): AssembledMultipolygon {
+  const unusedWays: number[] = [];
+  const outerSegments: Segment[] = [];
+  const innerSegments: Segment[] = [];
+
+  for (const member of members) {
+    if (member.type !== 'way') {
+      continue;
+    }
+
+    const wayNodes = ways.get(member.ref);
+    if (!wayNodes || wayNodes.length < 2) {
+      unusedWays.push(member.ref);
+      continue;
+    }
+
+    const segment = { wayIds: [member.ref], nodeIds: wayNodes };
+    if (member.role === 'inner') {
+      innerSegments.push(segment);
+    } else if (member.role === 'outer' || member.role === '') {
+      outerSegments.push(segment);
+    }
+  }
+
+  const outers = buildRings(outerSegments, nodes, unusedWays);
+  const inners = buildRings(innerSegments, nodes, unusedWays);
+
+  if (outers.length === 0) {
+    unusedWays.push(...inners.flatMap((ring) => ring.wayIds));
+    return { geometry: null, unusedWays };
+  }
+
+  // Smallest outer first, so a hole goes to the innermost ring around it
+  const bySize = [...outers].sort((a, b) => Math.abs(a.area) - Math.abs(b.area));
+  const holes = new Map<Ring, Ring[]>(outers.map((outer) => [outer, []]));
+
+  for (const inner of inners) {
+    const outer = bySize.find((candidate) =>
+      inner.coordinates.some((point) => pointInRing(point, candidate.coordinates))
+    );
+
+    if (outer) {
+      holes.get(outer)?.push(inner);
+    } else {
+      unusedWays.push(...inner.wayIds);
+    }
+  }
+
+  return {
+    geometry: {
+      type: 'MultiPolygon',
+      coordinates: outers.map((outer) => [
+        wind(outer, true),
+        ...(holes.get(outer) ?? []).map((hole) => wind(hole, false)),
+      ]),
+    },
+    unusedWays,
+  };
+}
+
+/**
+ * Join segments end to end into closed rings. Segments that never close
+ * have their ways added to `unusedWays`.
+ */
+function buildRings(
+  segments: Segment[],
+  nodes: Map<number, { lat: number; lon: number }>,
+  unusedWays: number[]
+): Ring[] {
+  const rings: Ring[] = [];
+  const open = [...segments];
+
+  while (open.length > 0) {
+    const current = open.shift() as Segment;
+    let nodeIds = [...current.nodeIds];
+    const wayIds = [...current.wayIds];
+
+    // Extend from the tail until the chain returns to its first node
+    while (nodeIds[0] !== nodeIds[nodeIds.length - 1]) {
+      const tail = nodeIds[nodeIds.length - 1];
+      const next = open.findIndex(
+        (s) => s.nodeIds[0] === tail || s.nodeIds[s.nodeIds.length - 1] === tail
+      );
+      if (next === -1) {
+        break;
+      }
+
+      const [segment] = open.splice(next, 1) as [Segment];
+      const oriented = segment.nodeIds[0] === tail ? segment.nodeIds : [...segment.nodeIds].reverse();
+      nodeIds = nodeIds.concat(oriented.slice(1));
+      wayIds.push(...segment.wayIds);
+    }
+
+    const coordinates = resolveRing(nodeIds, nodes);
+    if (!coordinates) {
+      unusedWays.push(...wayIds);
+      continue;
+    }
+
+    const area = signedArea(coordinates);
+    if (area === 0) {
+      unusedWays.push(...wayIds);
+      continue;
+    }
+
+    rings.push({ wayIds, coordinates, area });
+  }
+
+  return rings;
+}
+
+/**
+ * Resolve a closed chain of node IDs to [lng, lat] positions. Returns null
+ * when the chain is open, too short, or references a missing node.
+ */
+function resolveRing(
+  nodeIds: number[],
+  nodes: Map<number, { lat: number; lon: number }>
+): Array<[number, number]> | null {
+  if (nodeIds.length < 4 || nodeIds[0] !== nodeIds[nodeIds.length - 1]) {
+    return null;
+  }
+
+  const coordinates: Array<[number, number]> = [];
+  for (const nodeId of nodeIds) {
+    const node = nodes.get(nodeId);
+    if (!node) {
+      return null;
+    }
+    coordinates.push([node.lon, node.lat]);
+  }
+
+  return coordinates;
+}
+
+/**
+ * Shoelace area in square degrees; positive when counterclockwise.
+ */
+function signedArea(ring: Array<[number, number]>): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x1, y1] = ring[i] as [number, number];
+    const [x2, y2] = ring[i + 1] as [number, number];
+    sum += x1 * y2 - x2 * y1;
+  }
+  return sum / 2;
+}
+
+/**
+ * Ring positions wound counterclockwise or clockwise.
+ */
+function wind(ring: Ring, counterclockwise: boolean): Array<[number, number]> {
+  return ring.area > 0 === counterclockwise ? ring.coordinates : [...ring.coordinates].reverse();
+}
+
+/**
+ * Ray casting test for a point strictly inside a ring.
+ */
+function pointInRing([x, y]: [number, number], ring: Array<[number, number]>): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i] as [number, number];
+    const [xj, yj] = ring[j] as [number, number];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,490 @@
+/**
+ * OSM PBF - Reader for .osm.pbf extracts.
+ *
+ * Handles:
+ * - Reading file blocks without loading the whole file
+ * - Decoding nodes, dense nodes, ways and relations
+ * - Returning elements in the Overpass JSON shape
+ *
+ * Only the protobuf fields zone import needs are decoded; metadata such
+ * as versions and changesets is skipped. Blobs must be raw or zlib
+ * compressed, as written by osmium, osmosis and the Geofabrik extracts.
+ *
+ * See https://wiki.openstreetmap.org/wiki/PBF_Format for the format.
+ */
+
+import { open } from 'fs/promises';
+import { inflateSync } from 'zlib';
+import type { OSMRelationMember } from './osm-multipolygon.js';
+
+/**
+ * OSM element, shaped like an Overpass API JSON element.
+ */
+export interface OSMElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  members?: OSMRelationMember[];
+  tags?: Record<string, string>;
+}
+
+export type OSMElementType = OSMElement['type'];
+
+/**
+ * Features a reader needs to support; extracts requiring others are
+ * rejected rather than misread.
+ */
+const SUPPORTED_FEATURES = new Set(['OsmSchema-V0.6', 'DenseNodes']);
+
+const MAX_HEADER_SIZE = 64 * 1024;
+const MAX_BLOB_SIZE = 32 * 1024 * 1024;
+
+const MEMBER_TYPES: OSMElementType[] = ['node', 'way', 'relation'];
+
+/**
+ * Minimal protobuf wire format reader.
+ */
+class ProtoReader {
+  pos: number;
+
+  constructor(private readonly buf: Buffer, start = 0, private readonly end = buf.length) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  /**
+   * Varint as a number; OSM IDs and coordinates fit in 53 bits.
+   */
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (this.pos >= this.end) {
+        throw new Error('Truncated varint in PBF data');
+      }
+      const byte = this.buf[this.pos++] as number;
+      result += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) {
+        return result;
+      }
+      multiplier *= 128;
+    }
+  }
+
+  /**
+   * Two's complement int64, for the rare negative offsets.
+   */
+  int64(): number {
+    const n = this.varint();
+    return n >= 2 ** 63 ? n - 2 ** 64 : n;
+  }
+
+  svarint(): number {
+    const n = this.varint();
+    return n % 2 === 1 ? -(n + 1) / 2 : n / 2;
+  }
+
+  /**
+   * Field number and wire type of the next field.
+   */
+  tag(): { field: number; wireType: number } {
+    const key = this.varint();
+    return { field: Math.floor(key / 8), wireType: key % 8 };
+  }
+
+  bytes(): ProtoReader {
+    const length = this.varint();
+    const start = this.pos;
+    this.pos += length;
+    if (this.pos > this.end) {
+      throw new Error('Truncated field in PBF data');
+    }
+    return new ProtoReader(this.buf, start, this.pos);
+  }
+
+  buffer(): Buffer {
+    const field = this.bytes();
+    return this.buf.subarray(field.pos, field.end);
+  }
+
+  string(): string {
+    return this.buffer().toString('utf8');
+  }
+
+  /**
+   * Packed (or single unpacked) repeated varints.
+   */
+  packed(wireType: number, signed: boolean): number[] {
+    const read = (reader: ProtoReader) => (signed ? reader.svarint() : reader.varint());
+    if (wireType !== 2) {
+      return [read(this)];
+    }
+    const field = this.bytes();
+    const values: number[] = [];
+    while (!field.done) {
+      values.push(read(field));
+    }
+    return values;
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case 0:
+        this.varint();
+        break;
+      case 1:
+        this.pos += 8;
+        break;
+      case 2:
+        this.bytes();
+        break;
+      case 5:
+        this.pos += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+}
+
+/**
+ * Coordinate and string context of a PrimitiveBlock.
+ */
+interface BlockContext {
+  strings: string[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+}
+
+/**
+ * Read every element of the requested types, one PrimitiveBlock at a time.
+ */
+export async function* readOsmPbf(
+  path: string,
+  types: ReadonlySet<OSMElementType> = new Set(MEMBER_TYPES)
+): AsyncGenerator<OSMElement[]> {
+  const file = await open(path, 'r');
+
+  try {
+    let offset = 0;
+    const sizeBuf = Buffer.alloc(4);
+
+    for (;;) {
+      const { bytesRead } = await file.read(sizeBuf, 0, 4, offset);
+      if (bytesRead === 0) {
+        return;
+      }
+      if (bytesRead < 4) {
+        throw new Error('Truncated PBF block header');
+      }
+
+      const headerSize = sizeBuf.readUInt32BE(0);
+      if (headerSize > MAX_HEADER_SIZE) {
+        throw new Error(`PBF block header too large (${headerSize} bytes)`);
+      }
+      const header = await readExactly(file, headerSize, offset + 4);
+      const { type, dataSize } = decodeBlobHeader(header);
+      if (dataSize > MAX_BLOB_SIZE) {
+        throw new Error(`PBF block too large (${dataSize} bytes)`);
+      }
+      const blob = decodeBlob(await readExactly(file, dataSize, offset + 4 + headerSize));
+      offset += 4 + headerSize + dataSize;
+
+      if (type === 'OSMHeader') {
+        checkHeaderBlock(blob);
+      } else if (type === 'OSMData') {
+        yield decodePrimitiveBlock(blob, types);
+      }
+    }
+  } finally {
+    await file.close();
+  }
+}
+
+async function readExactly(
+  file: Awaited<ReturnType<typeof open>>,
+  length: number,
+  position: number
+): Promise<Buffer> {
+  const buf = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buf, 0, length, position);
+  if (bytesRead < length) {
+    throw new Error('Truncated PBF block');
+  }
+  return buf;
+}
+
+function decodeBlobHeader(buf: Buffer): { type: string; dataSize: number } {
+  const reader = new ProtoReader(buf);
+  let type = '';
+  let dataSize = 0;
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1) {
+      type = reader.string();
+    } else if (field === 3) {
+      dataSize = reader.varint();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return { type, dataSize };
+}
+
+function decodeBlob(buf: Buffer): Buffer {
+  const reader = new ProtoReader(buf);
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1) {
+      return reader.buffer();
+    }
+    if (field === 3) {
+      return inflateSync(reader.buffer());
+    }
+    if (field >= 4) {
+      throw new Error('Unsupported PBF compression; only raw and zlib blobs are supported');
+    }
+    reader.skip(wireType);
+  }
+
+  throw new Error('PBF blob has no data');
+}
+
+function checkHeaderBlock(buf: Buffer): void {
+  const reader = new ProtoReader(buf);
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 4) {
+      const feature = reader.string();
+      if (!SUPPORTED_FEATURES.has(feature)) {
+        throw new Error(`Unsupported PBF feature: ${feature}`);
+      }
+    } else {
+      reader.skip(wireType);
+    }
+  }
+}
+
+function decodePrimitiveBlock(buf: Buffer, types: ReadonlySet<OSMElementType>): OSMElement[] {
+  const context: BlockContext = { strings: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  const groups: ProtoReader[] = [];
+
+  // Groups can come before the fields they depend on
+  const reader = new ProtoReader(buf);
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1) {
+      const table = reader.bytes();
+      while (!table.done) {
+        const entry = table.tag();
+        if (entry.field === 1) {
+          context.strings.push(table.string());
+        } else {
+          table.skip(entry.wireType);
+        }
+      }
+    } else if (field === 2) {
+      groups.push(reader.bytes());
+    } else if (field === 17) {
+      context.granularity = reader.varint();
+    } else if (field === 19) {
+      context.latOffset = reader.int64();
+    } else if (field === 20) {
+      context.lonOffset = reader.int64();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  const elements: OSMElement[] = [];
+  for (const group of groups) {
+    while (!group.done) {
+      const { field, wireType } = group.tag();
+      if (field === 1 && types.has('node')) {
+        elements.push(decodeNode(group.bytes(), context));
+      } else if (field === 2 && types.has('node')) {
+        elements.push(...decodeDenseNodes(group.bytes(), context));
+      } else if (field === 3 && types.has('way')) {
+        elements.push(decodeWay(group.bytes(), context));
+      } else if (field === 4 && types.has('relation')) {
+        elements.push(decodeRelation(group.bytes(), context));
+      } else {
+        group.skip(wireType);
+      }
+    }
+  }
+
+  return elements;
+}
+
+function toDegrees(value: number, offset: number, granularity: number): number {
+  return Math.round(offset + granularity * value) / 1e9;
+}
+
+function buildTags(keys: number[], vals: number[], strings: string[]): Record<string, string> | undefined {
+  if (keys.length === 0) {
+    return undefined;
+  }
+  const tags: Record<string, string> = {};
+  keys.forEach((key, i) => {
+    tags[strings[key] ?? ''] = strings[vals[i] ?? 0] ?? '';
+  });
+  return tags;
+}
+
+/**
+ * Running sum of delta-encoded values.
+ */
+function undelta(values: number[]): number[] {
+  let sum = 0;
+  return values.map((value) => (sum += value));
+}
+
+function decodeNode(reader: ProtoReader, context: BlockContext): OSMElement {
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  const keys: number[] = [];
+  const vals: number[] = [];
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1) {
+      id = reader.svarint();
+    } else if (field === 2) {
+      keys.push(...reader.packed(wireType, false));
+    } else if (field === 3) {
+      vals.push(...reader.packed(wireType, false));
+    } else if (field === 8) {
+      lat = reader.svarint();
+    } else if (field === 9) {
+      lon = reader.svarint();
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return {
+    type: 'node',
+    id,
+    lat: toDegrees(lat, context.latOffset, context.granularity),
+    lon: toDegrees(lon, context.lonOffset, context.granularity),
+    tags: buildTags(keys, vals, context.strings),
+  };
+}
+
+function decodeDenseNodes(reader: ProtoReader, context: BlockContext): OSMElement[] {
+  let ids: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+  const keysVals: number[] = [];
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1) {
+      ids = undelta(reader.packed(wireType, true));
+    } else if (field === 8) {
+      lats = undelta(reader.packed(wireType, true));
+    } else if (field === 9) {
+      lons = undelta(reader.packed(wireType, true));
+    } else if (field === 10) {
+      keysVals.push(...reader.packed(wireType, false));
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  // keys_vals holds key/value pairs per node, each node ending with 0
+  let kv = 0;
+  return ids.map((id, i) => {
+    const keys: number[] = [];
+    const vals: number[] = [];
+    while (kv < keysVals.length && keysVals[kv] !== 0) {
+      keys.push(keysVals[kv] as number);
+      vals.push(keysVals[kv + 1] ?? 0);
+      kv += 2;
+    }
+    kv++;
+
+    return {
+      type: 'node',
+      id,
+      lat: toDegrees(lats[i] ?? 0, context.latOffset, context.granularity),
+      lon: toDegrees(lons[i] ?? 0, context.lonOffset, context.granularity),
+      tags: buildTags(keys, vals, context.strings),
+    };
+  });
+}
+
+function decodeWay(reader: ProtoReader, context: BlockContext): OSMElement {
+  let id = 0;
+  let nodes: number[] = [];
+  const keys: number[] = [];
+  const vals: number[] = [];
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1) {
+      id = reader.varint();
+    } else if (field === 2) {
+      keys.push(...reader.packed(wireType, false));
+    } else if (field === 3) {
+      vals.push(...reader.packed(wireType, false));
+    } else if (field === 8) {
+      nodes = undelta(reader.packed(wireType, true));
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return { type: 'way', id, nodes, tags: buildTags(keys, vals, context.strings) };
+}
+
+function decodeRelation(reader: ProtoReader, context: BlockContext): OSMElement {
+  let id = 0;
+  let roles: number[] = [];
+  let refs: number[] = [];
+  let memberTypes: number[] = [];
+  const keys: number[] = [];
+  const vals: number[] = [];
+
+  while (!reader.done) {
+    const { field, wireType } = reader.tag();
+    if (field === 1) {
+      id = reader.varint();
+    } else if (field === 2) {
+      keys.push(...reader.packed(wireType, false));
+    } else if (field === 3) {
+      vals.push(...reader.packed(wireType, false));
+    } else if (field === 8) {
+      roles = reader.packed(wireType, false);
+    } else if (field === 9) {
+      refs = undelta(reader.packed(wireType, true));
+    } else if (field === 10) {
+      memberTypes = reader.packed(wireType, false);
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  return {
+    type: 'relation',
+    id,
+    members: refs.map((ref, i) => ({
+      type: MEMBER_TYPES[memberTypes[i] ?? 0] ?? 'node',
+      ref,
+      role: context.strings[roles[i] ?? 0] ?? '',
+    })),
+    tags: buildTags(keys, vals, context.strings),
+  };
+}
@@ -0,0 +1,398 @@
+/**
+ * OSM zone sources - OpenStreetMap adapters for zone sync.
+ *
+ * Handles:
+ * - OSM tag to zone category mapping
+ * - Live areas from the Overpass API
+ * - Local GeoJSON files and .osm.pbf extracts, for offline environments
+ * - Polygons from ways and multipolygon relations, including holes
+ *
+ * OSM has no change feed here, so neither adapter keeps a cursor: every
+ * sync lists the whole area or file set.
+ */
+
+import { readFile } from 'fs/promises';
+import { config } from '../../config/index.js';
+import { assembleMultipolygon, MULTIPOLYGON_RELATION_TYPES } from './osm-multipolygon.js';
+import { readOsmPbf } from './osm-pbf.js';
+import { createLogger } from '../../utils/logger.js';
+import type { OSMElement } from './osm-pbf.js';
+import type { ZoneRecord, ZoneSourceAdapter, ZoneSourceFetch } from './zone-source.js';
+import type { ZoneCategory } from '../../types/geofencing.js';
+
+const logger = createLogger('osm-zone-source');
+
+/**
+ * OSM `key=value` tags that place an area in a category. Shared by the
+ * Overpass queries and by file imports, which categorize by tags; the
+ * first matching tag wins.
+ */
+const OSM_CATEGORY_MAPPING: Record<string, ZoneCategory> = {
+  'amenity=school': 'school',
+  'amenity=kindergarten': 'school',
+  'amenity=college': 'school',
+  'amenity=university': 'school',
+  'amenity=hospital': 'hospital',
+  'amenity=clinic': 'hospital',
+  'building=government': 'government',
+  'amenity=courthouse': 'government',
+  'amenity=police': 'government',
+  'landuse=military': 'government',
+};
+
+const DEFAULT_OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+
+/**
+ * Bounds for geographic queries.
+ */
+export interface GeoBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+/**
+ * OSM Overpass API response.
+ */
+interface OverpassResponse {
+  version: number;
+  elements: OSMElement[];
+}
+
+/**
+ * Polygon extracted from OSM data, keyed by its OSM element.
+ */
+interface ExtractedPolygon {
+  osmId: string;
+  name: string;
+  geometry: GeoJSON.MultiPolygon;
+  tags: Record<string, string>;
+}
+
+/**
+ * OSM zones in an area, live from the Overpass API.
+ */
+export class OverpassZoneSource implements ZoneSourceAdapter {
+  readonly name = 'overpass';
+  readonly source = 'osm';
+  readonly categoryMapping = OSM_CATEGORY_MAPPING;
+
+  constructor(
+    private readonly bounds: GeoBounds,
+    private readonly apiUrl: string = config.OSM_API_URL ?? DEFAULT_OVERPASS_URL
+  ) {}
+
+  /**
+   * Zones in the bounds. Never complete: zones outside the bounds are
+   * left alone.
+   */
+  async fetchZones(): Promise<ZoneSourceFetch> {
+    const zones = new Map<string, ZoneRecord>();
+
+    // Query each category sequentially to avoid overwhelming the OSM API
+    for (const category of new Set(Object.values(OSM_CATEGORY_MAPPING))) {
+      const response = await this.fetchOverpass(buildOverpassQuery(category));
+      const polygons = extractPolygons(response);
+
+      logger.info({ category, polygonCount: polygons.length }, 'Fetched OSM data');
+
+      for (const polygon of polygons) {
+        if (!zones.has(polygon.osmId)) {
+          zones.set(polygon.osmId, toRecord(polygon, categorizeOSMTags(polygon.tags) ?? category));
+        }
+      }
+    }
+
+    return { cursor: null, zones: [...zones.values()], removedSourceIds: [], invalidSourceIds: [], complete: false };
+  }
+
+  private async fetchOverpass(queryTemplate: string): Promise<OverpassResponse> {
+    const { minLat, minLng, maxLat, maxLng } = this.bounds;
+    const query = queryTemplate.replace(/\{\{bbox\}\}/g, `${minLat},${minLng},${maxLat},${maxLng}`);
+
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: `data=${encodeURIComponent(query)}`,
+    });
+
+    if (!response.ok) {
+      throw new Error(`OSM API error: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json() as Promise<OverpassResponse>;
+  }
+}
+
+/**
+ * OSM zones from local files: GeoJSON FeatureCollections (.geojson,
+ * .json) whose feature properties are OSM tags, as exported by
+ * osmtogeojson, and .osm.pbf extracts. Complete: the files stand for
+ * every OSM zone, so the ones missing from them can be pruned.
+ */
+export class OSMFileZoneSource implements ZoneSourceAdapter {
+  readonly name = 'osm-files';
+  readonly source = 'osm';
+  readonly categoryMapping = OSM_CATEGORY_MAPPING;
+
+  constructor(private readonly paths: string[]) {}
+
+  async fetchZones(): Promise<ZoneSourceFetch> {
+    // Keyed by OSM ID so overlapping extracts import each zone once
+    const zones = new Map<string, ZoneRecord>();
+
+    for (const path of this.paths) {
+      let categorized = 0;
+
+      for (const polygon of await readZoneFile(path)) {
+        const category = categorizeOSMTags(polygon.tags);
+        if (category) {
+          zones.set(polygon.osmId, toRecord(polygon, category));
+          categorized++;
+        }
+      }
+
+      logger.info({ path, polygonCount: categorized }, 'Read zone file');
+    }
+
+    return { cursor: null, zones: [...zones.values()], removedSourceIds: [], invalidSourceIds: [], complete: true };
+  }
+}
+
+/**
+ * Overpass API query for the ways and relations of a category.
+ */
+function buildOverpassQuery(category: ZoneCategory): string {
+  const filters = Object.entries(OSM_CATEGORY_MAPPING)
+    .filter(([, mapped]) => mapped === category)
+    .flatMap(([tag]) => {
+      const [key, value] = tag.split('=');
+      return [
+        `  way["${key}"="${value}"]({{bbox}});`,
+        `  relation["${key}"="${value}"]({{bbox}});`,
+      ];
+    });
+
+  return `
+[out:json][timeout:300];
+(
+${filters.join('\n')}
+);
+out body;
+>;
+out skel qt;
+`;
+}
+
+/**
+ * Category of an OSM element by its tags, or null when none applies.
+ */
+function categorizeOSMTags(tags: Record<string, string>): ZoneCategory | null {
+  for (const [tag, category] of Object.entries(OSM_CATEGORY_MAPPING)) {
+    const [key = '', value] = tag.split('=');
+    if (tags[key] === value) {
+      return category;
+    }
+  }
+  return null;
+}
+
+function toRecord(polygon: ExtractedPolygon, category: ZoneCategory): ZoneRecord {
+  return {
+    sourceId: polygon.osmId,
+    name: polygon.name,
+    category,
+    geometry: polygon.geometry,
+    metadata: polygon.tags,
+  };
+}
+
+/**
+ * Extract polygon geometries from OSM response.
+ */
+function extractPolygons(response: OverpassResponse): ExtractedPolygon[] {
+  const results: ExtractedPolygon[] = [];
+
+  // Build node and way lookups for coordinate resolution
+  const nodes = new Map<number, { lat: number; lon: number }>();
+  const ways = new Map<number, number[]>();
+  for (const el of response.elements) {
+    if (el.type === 'node' && el.lat !== undefined && el.lon !== undefined) {
+      nodes.set(el.id, { lat: el.lat, lon: el.lon });
+    }
+    if (el.type === 'way' && el.nodes) {
+      ways.set(el.id, el.nodes);
+    }
+  }
+
+  // Process tagged ways and relations. Untagged ways are relation
+  // members from the recurse step and only count as part of a relation.
+  for (const el of response.elements) {
+    if (el.type === 'way' && el.tags && el.nodes && el.nodes.length >= 4) {
+      const coords = resolveWayCoordinates(el.nodes, nodes);
+      if (coords.length >= 4) {
+        // Close the ring if not already closed
+        if (
+          coords[0]![0] !== coords[coords.length - 1]![0] ||
+          coords[0]![1] !== coords[coords.length - 1]![1]
+        ) {
+          coords.push(coords[0]!);
+        }
+
+        results.push({
+          osmId: `way/${el.id}`,
+          name: el.tags.name ?? `OSM Way ${el.id}`,
+          geometry: {
+            type: 'MultiPolygon',
+            coordinates: [[coords]],
+          },
+          tags: el.tags,
+        });
+      }
+    }
+
+    if (el.type === 'relation' && el.tags && el.members) {
+      if (!MULTIPOLYGON_RELATION_TYPES.has(el.tags.type ?? '')) {
+        logger.debug({ relationId: el.id, type: el.tags.type }, 'Skipping non-area relation');
+        continue;
+      }
+
+      const { geometry, unusedWays } = assembleMultipolygon(el.members, ways, nodes);
+
+      if (unusedWays.length > 0) {
+        logger.warn({ relationId: el.id, unusedWays }, 'Relation has ways outside closed rings');
+      }
+
+      if (!geometry) {
+        logger.warn({ relationId: el.id }, 'Skipping relation without a closed outer ring');
+        continue;
+      }
+
+      results.push({
+        osmId: `relation/${el.id}`,
+        name: el.tags.name ?? `OSM Relation ${el.id}`,
+        geometry,
+        tags: el.tags,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Resolve way node IDs to coordinates.
+ */
+function resolveWayCoordinates(
+  nodeIds: number[],
+  nodes: Map<number, { lat: number; lon: number }>
+): Array<[number, number]> {
+  const coords: Array<[number, number]> = [];
+
+  for (const nodeId of nodeIds) {
+    const node = nodes.get(nodeId);
+    if (node) {
+      coords.push([node.lon, node.lat]); // GeoJSON uses [lng, lat]
+    }
+  }
+
+  return coords;
+}
+
+/**
+ * Extract polygons from a GeoJSON or .osm.pbf file.
+ */
+async function readZoneFile(path: string): Promise<ExtractedPolygon[]> {
+  if (path.endsWith('.osm.pbf')) {
+    return extractPolygons(await readPbfElements(path));
+  }
+  if (path.endsWith('.geojson') || path.endsWith('.json')) {
+    return readGeoJSONPolygons(path);
+  }
+  throw new Error(`Unsupported zone file ${path}; expected .geojson, .json or .osm.pbf`);
+}
+
+/**
+ * Read the categorized areas of an OSM extract with just the ways and
+ * nodes they need. Takes one pass per element type, since relations
+ * come after the ways and nodes they reference.
+ */
+async function readPbfElements(path: string): Promise<OverpassResponse> {
+  const relations: OSMElement[] = [];
+  const memberWays = new Set<number>();
+  for await (const block of readOsmPbf(path, new Set(['relation']))) {
+    for (const el of block) {
+      if (el.tags && categorizeOSMTags(el.tags) && MULTIPOLYGON_RELATION_TYPES.has(el.tags.type ?? '')) {
+        relations.push(el);
+        el.members?.filter((m) => m.type === 'way').forEach((m) => memberWays.add(m.ref));
+      }
+    }
+  }
+
+  // Member ways keep their tags only when they are zones themselves
+  const ways: OSMElement[] = [];
+  const wayNodes = new Set<number>();
+  for await (const block of readOsmPbf(path, new Set(['way']))) {
+    for (const el of block) {
+      const isZone = el.tags !== undefined && categorizeOSMTags(el.tags) !== null;
+      if (isZone || memberWays.has(el.id)) {
+        ways.push(isZone ? el : { type: 'way', id: el.id, nodes: el.nodes });
+        el.nodes?.forEach((id) => wayNodes.add(id));
+      }
+    }
+  }
+
+  const nodes: OSMElement[] = [];
+  for await (const block of readOsmPbf(path, new Set(['node']))) {
+    for (const el of block) {
+      if (wayNodes.has(el.id)) {
+        nodes.push({ type: 'node', id: el.id, lat: el.lat, lon: el.lon });
+      }
+    }
+  }
+
+  return { version: 0.6, elements: [...relations, ...ways, ...nodes] };
+}
+
+/**
+ * Read Polygon and MultiPolygon features whose properties are OSM tags.
+ * The feature ID, or its `@id` or `id` property, becomes the zone's
+ * source ID; features without one are skipped since they could not be
+ * updated or pruned later.
+ */
+async function readGeoJSONPolygons(path: string): Promise<ExtractedPolygon[]> {
+  const data = JSON.parse(await readFile(path, 'utf8')) as GeoJSON.GeoJSON;
+  if (data.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+    throw new Error(`${path} is not a GeoJSON FeatureCollection`);
+  }
+
+  const results: ExtractedPolygon[] = [];
+  for (const feature of data.features) {
+    const tags: Record<string, string> = {};
+    for (const [key, value] of Object.entries(feature.properties ?? {})) {
+      if (typeof value === 'string') {
+        tags[key] = value;
+      }
+    }
+
+    const osmId = feature.id ?? tags['@id'] ?? tags.id;
+    const geometry = feature.geometry;
+    if (osmId === undefined || !geometry || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon')) {
+      continue;
+    }
+
+    results.push({
+      osmId: String(osmId),
+      name: tags.name ?? `OSM ${osmId}`,
+      geometry: geometry.type === 'Polygon'
+        ? { type: 'MultiPolygon', coordinates: [geometry.coordinates] }
+        : geometry,
+      tags,
+    });
+  }
+
+  return results;
+}
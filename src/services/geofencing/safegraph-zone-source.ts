@@ -0,0 +1,245 @@
+/**
+ * SafeGraph zone source - Places with building footprints from SafeGraph.
+ *
+ * Handles:
+ * - NAICS code to zone category mapping
+ * - Paging through the Places GraphQL API for a region
+ * - Closed places, which are removed
+ *
+ * Places data is released monthly. The cursor is the release the API
+ * reports, so a sync stops after the first page until a new release is
+ * published.
+ */
+
+import { config } from '../../config/index.js';
+import { parseWktPolygon } from './wkt.js';
+import { createLogger } from '../../utils/logger.js';
+import type { ZoneRecord, ZoneSourceAdapter, ZoneSourceFetch } from './zone-source.js';
+import type { ZoneCategory } from '../../types/geofencing.js';
+
+const logger = createLogger('safegraph-zone-source');
+
+/**
+ * NAICS codes of the places that become zones.
+ */
+const SAFEGRAPH_CATEGORY_MAPPING: Record<string, ZoneCategory> = {
+  '611110': 'school',      // Elementary and secondary schools
+  '611310': 'school',      // Colleges and universities
+  '624410': 'school',      // Child day care services
+  '622110': 'hospital',    // General medical and surgical hospitals
+  '622210': 'hospital',    // Psychiatric hospitals
+  '622310': 'hospital',    // Specialty hospitals
+  '621493': 'hospital',    // Freestanding emergency centers
+  '921110': 'government',  // Executive offices
+  '922110': 'government',  // Courts
+  '922120': 'government',  // Police protection
+};
+
+const DEFAULT_SAFEGRAPH_URL = 'https://api.safegraph.com/v2/graphql';
+
+// Places per request; the API maximum
+const PAGE_SIZE = 500;
+
+const PLACES_QUERY = `
+  query Places($region: String!, $naics: [String!], $first: Int!, $after: String) {
+    search(filter: { address: { region: $region }, naics_code: $naics }) {
+      places {
+        release
+        results(first: $first, after: $after) {
+          pageInfo { hasNextPage endCursor }
+          edges {
+            node {
+              placekey
+              safegraph_core { location_name naics_code top_category closed_on }
+              safegraph_geometry { polygon_wkt }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Place as returned by the Places API.
+ */
+interface SafeGraphPlace {
+  placekey: string;
+  safegraph_core: {
+    location_name: string;
+    naics_code: string | null;
+    top_category: string | null;
+    closed_on: string | null;
+  };
+  safegraph_geometry: {
+    polygon_wkt: string | null;
+  } | null;
+}
+
+/**
+ * Places API response page.
+ */
+interface SafeGraphResponse {
+  data?: {
+    search: {
+      places: {
+        release: string;
+        results: {
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+          edges: Array<{ node: SafeGraphPlace }>;
+        };
+      };
+    };
+  };
+  errors?: Array<{ message: string }>;
+}
+
+/**
+ * SafeGraph places in a region (a US state or Canadian province code).
+ * Complete for the region: source IDs are prefixed with it, so places
+ * that close, lose their footprint or move to an unmapped NAICS code are
+ * pruned.
+ */
+export class SafeGraphZoneSource implements ZoneSourceAdapter {
+  readonly name: string;
+  readonly source = 'safegraph';
+  readonly sourceIdPrefix: string;
+  readonly categoryMapping = SAFEGRAPH_CATEGORY_MAPPING;
+
+  private readonly apiKey: string;
+  private readonly apiUrl: string;
+  private readonly region: string;
+
+  constructor(options: { region: string; apiKey?: string; apiUrl?: string }) {
+    const apiKey = options.apiKey ?? config.SAFEGRAPH_API_KEY;
+    if (!apiKey) {
+      throw new Error('SAFEGRAPH_API_KEY is not configured');
+    }
+
+    this.apiKey = apiKey;
+    this.apiUrl = options.apiUrl ?? config.SAFEGRAPH_API_URL ?? DEFAULT_SAFEGRAPH_URL;
+    this.region = options.region.toUpperCase();
+    this.name = `safegraph:${this.region}`;
+    this.sourceIdPrefix = `${this.region}:`;
+  }
+
+  async fetchZones(cursor: string | null): Promise<ZoneSourceFetch> {
+    const zones: ZoneRecord[] = [];
+    const removedSourceIds: string[] = [];
+    const invalidSourceIds: string[] = [];
+    let release: string | null = null;
+    let after: string | null = null;
+
+    for (;;) {
+      const page = await this.fetchPage(after);
+
+      if (release === null) {
+        release = page.release;
+        if (release === cursor) {
+          return { cursor, zones: null, removedSourceIds: [], invalidSourceIds: [], complete: true };
+        }
+      } else if (page.release !== release) {
+        // Pages from two releases would not make a complete listing
+        throw new Error(`SafeGraph release changed while paging: ${release} to ${page.release}`);
+      }
+
+      for (const { node: place } of page.results.edges) {
+        const sourceId = `${this.sourceIdPrefix}${place.placekey}`;
+
+        if (place.safegraph_core.closed_on) {
+          removedSourceIds.push(sourceId);
+          continue;
+        }
+
+        try {
+          const zone = toRecord(place, sourceId);
+          if (zone) {
+            zones.push(zone);
+          }
+        } catch (error) {
+          logger.warn({ placekey: place.placekey, error }, 'Skipping place with invalid footprint');
+          invalidSourceIds.push(sourceId);
+        }
+      }
+
+      const { pageInfo } = page.results;
+      if (!pageInfo.hasNextPage || !pageInfo.endCursor) {
+        break;
+      }
+      after = pageInfo.endCursor;
+    }
+
+    logger.info(
+      {
+        region: this.region,
+        release,
+        zones: zones.length,
+        closed: removedSourceIds.length,
+        invalid: invalidSourceIds.length,
+      },
+      'Fetched SafeGraph places'
+    );
+
+    return { cursor: release, zones, removedSourceIds, invalidSourceIds, complete: true };
+  }
+
+  private async fetchPage(after: string | null) {
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: this.apiKey,
+      },
+      body: JSON.stringify({
+        query: PLACES_QUERY,
+        variables: {
+          region: this.region,
+          naics: Object.keys(SAFEGRAPH_CATEGORY_MAPPING),
+          first: PAGE_SIZE,
+          after,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SafeGraph API error: ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as SafeGraphResponse;
+    if (body.errors?.length || !body.data) {
+      throw new Error(`SafeGraph API error: ${body.errors?.[0]?.message ?? 'empty response'}`);
+    }
+
+    return body.data.search.places;
+  }
+}
+
+/**
+ * Map a place to a zone record; null for places without a mapped NAICS
+ * code or a footprint. Throws if the footprint is invalid.
+ */
+function toRecord(place: SafeGraphPlace, sourceId: string): ZoneRecord | null {
+  const core = place.safegraph_core;
+  const category = core.naics_code ? SAFEGRAPH_CATEGORY_MAPPING[core.naics_code] : undefined;
+  const wkt = place.safegraph_geometry?.polygon_wkt;
+  if (!category || !wkt) {
+    return null;
+  }
+
+  const geometry = parseWktPolygon(wkt);
+  if (!geometry) {
+    return null;
+  }
+
+  return {
+    sourceId,
+    name: core.location_name,
+    category,
+    geometry,
+    metadata: {
+      placekey: place.placekey,
+      naicsCode: core.naics_code,
+      topCategory: core.top_category,
+    },
+  };
+}
@@ -534,6 +534,23 @@ export class SpoofDetectorService {
     };
   }
 
+  /**
+   * Apply time-based decay to persisted scores. Redis scores decay when
+   * they are next updated. Returns the number of scores decayed.
+   */
+  async decayStoredScores(now: Date = new Date()): Promise<number> {
+    const result = await query(
+      `UPDATE spoof_scores
+       SET current_score = GREATEST(0,
+             current_score - EXTRACT(EPOCH FROM ($1::timestamptz - last_decay_at)) / 3600 * $2),
+           last_decay_at = $1
+       WHERE current_score > 0 AND last_decay_at < $1`,
+      [now, this.decayPerHour]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
   /**
    * Reset spoof score for a user.
    * For admin/support use only.
@@ -0,0 +1,123 @@
+/**
+ * WKT - Parsing of Well-Known Text polygon geometries.
+ *
+ * Handles:
+ * - POLYGON and MULTIPOLYGON, with or without an EWKT SRID prefix
+ * - Z and M ordinates, which are dropped
+ *
+ * Coordinates are read as longitude then latitude (EPSG:4326 axis order
+ * as used by PostGIS and most open-data portals).
+ */
+
+/**
+ * Parse a WKT polygon or multipolygon into a GeoJSON MultiPolygon.
+ * Returns null for EMPTY geometries; throws for anything else invalid.
+ */
+export function parseWktPolygon(wkt: string): GeoJSON.MultiPolygon | null {
+  const text = wkt.trim().replace(/^SRID=\d+;/i, '');
+  const match = /^(MULTIPOLYGON|POLYGON)\s*(?:ZM|Z|M)?\s*(.*)$/is.exec(text);
+  if (!match) {
+    throw new Error(`Unsupported WKT geometry: ${text.slice(0, 40)}`);
+  }
+
+  const [, type, body = ''] = match;
+  if (/^EMPTY$/i.test(body.trim())) {
+    return null;
+  }
+
+  const parsed = parseNested(body);
+  const polygons = type?.toUpperCase() === 'POLYGON' ? [parsed] : parsed;
+
+  return {
+    type: 'MultiPolygon',
+    coordinates: polygons.map((polygon) => asRings(polygon)),
+  };
+}
+
+type Nested = Nested[] | number[];
+
+/**
+ * Parse parenthesized coordinate lists into nested arrays; each innermost
+ * list becomes an array of positions.
+ */
+function parseNested(body: string): Nested[] {
+  let pos = 0;
+
+  const parseList = (): Nested[] => {
+    if (body[pos] !== '(') {
+      throw new Error('Invalid WKT: expected "("');
+    }
+    pos++;
+
+    const items: Nested[] = [];
+    skipSpace();
+    if (body[pos] === '(') {
+      for (;;) {
+        items.push(parseList());
+        skipSpace();
+        if (body[pos] === ',') {
+          pos++;
+          skipSpace();
+          continue;
+        }
+        break;
+      }
+    } else {
+      const end = body.indexOf(')', pos);
+      if (end === -1) {
+        throw new Error('Invalid WKT: unclosed "("');
+      }
+      for (const position of body.slice(pos, end).split(',')) {
+        const [x, y] = position.trim().split(/\s+/).map(Number);
+        if (x === undefined || y === undefined || !Number.isFinite(x) || !Number.isFinite(y)) {
+          throw new Error(`Invalid WKT position: ${position.trim()}`);
+        }
+        items.push([x, y]);
+      }
+      pos = end;
+    }
+
+    if (body[pos] !== ')') {
+      throw new Error('Invalid WKT: expected ")"');
+    }
+    pos++;
+    return items;
+  };
+
+  const skipSpace = () => {
+    while (pos < body.length && /\s/.test(body[pos] as string)) {
+      pos++;
+    }
+  };
+
+  skipSpace();
+  const result = parseList();
+  skipSpace();
+  if (pos !== body.length) {
+    throw new Error('Invalid WKT: trailing characters');
+  }
+  return result;
+}
+
+/**
+ * Check a parsed polygon is a list of closed rings of positions.
+ */
+function asRings(polygon: Nested): number[][][] {
+  const rings = polygon as number[][][];
+  if (!Array.isArray(rings) || rings.length === 0) {
+    throw new Error('Invalid WKT: polygon has no rings');
+  }
+
+  for (const ring of rings) {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (!Array.isArray(first) || typeof first[0] !== 'number' || ring.length < 4) {
+      throw new Error('Invalid WKT: rings need at least 4 positions');
+    }
+    if (first[0] !== last?.[0] || first[1] !== last?.[1]) {
+      throw new Error('Invalid WKT: rings must be closed');
+    }
+  }
+
+  return rings;
+}
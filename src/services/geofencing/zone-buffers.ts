@@ -0,0 +1,70 @@
+/**
+ * Zone buffers - Per-category buffer distances around exclusion zones.
+ *
+ * Handles:
+ * - SQL for the buffer distance of a zone row
+ * - SQL for a zone's buffered geometry
+ * - H3 cells covering a buffered zone
+ *
+ * Precise checks measure geography distance to the raw zone geometry.
+ * Cell covers are computed from a polygon buffer, which PostGIS builds
+ * from chords that fall slightly short of the true distance, so covers
+ * use a slightly larger buffer and always include every cell a precise
+ * check can block.
+ *
+ * See specs/safety-geofencing/spec.md (Edge Cases: GPS drift near zone
+ * boundaries) for full specification.
+ */
+
+import * as h3 from 'h3-js';
+
+/**
+ * Joins a zone row aliased `z` to its category's buffer, aliased `b`.
+ */
+export const ZONE_BUFFER_JOIN = `LEFT JOIN zone_category_buffers b ON b.category = z.category`;
+
+/**
+ * Buffer distance in meters of the joined zone row.
+ */
+export const ZONE_BUFFER_METERS = `COALESCE(b.buffer_meters, 0)`;
+
+/**
+ * ST_Buffer uses 8 segments per quarter circle; each chord falls short of
+ * the arc by at most 1 - cos(pi/32) of the radius. Scaling the radius by
+ * this factor makes the polygon contain the true buffer.
+ */
+export const BUFFER_COVER_SCALE = 1 / Math.cos(Math.PI / 32);
+
+/**
+ * SQL for the joined zone's buffered geometry as a MultiPolygon. The
+ * parameter holds the radius scale (BUFFER_COVER_SCALE for cell covers).
+ */
+export function bufferedGeometry(scaleParam: string): string {
+  return `ST_Multi(CASE WHEN ${ZONE_BUFFER_METERS} > 0
+    THEN ST_Buffer(z.geometry::geography, ${ZONE_BUFFER_METERS} * ${scaleParam})::geometry
+    ELSE z.geometry END)`;
+}
+
+/**
+ * H3 cells overlapping a MultiPolygon, including cells it only partly
+ * covers. Zones smaller than a cell still cover the cells they touch.
+ */
+export function coverCells(geometry: GeoJSON.MultiPolygon, resolution: number): string[] {
+  const cells = new Set<string>();
+
+  for (const polygon of geometry.coordinates) {
+    try {
+      const covered = h3.polygonToCellsExperimental(
+        polygon,
+        resolution,
+        h3.POLYGON_TO_CELLS_FLAGS.containmentOverlapping,
+        true
+      );
+      covered.forEach((cell) => cells.add(cell));
+    } catch {
+      // Invalid polygon, skip
+    }
+  }
+
+  return [...cells];
+}
@@ -1,10 +1,36 @@
 import { query } from '../../db/connection.js';
 import { h3Cache } from './h3-cache.js';
+import {
+  BUFFER_COVER_SCALE,
+  ZONE_BUFFER_JOIN,
+  ZONE_BUFFER_METERS,
+  bufferedGeometry,
+  coverCells,
+} from './zone-buffers.js';
+import { config } from '../../config/index.js';
 import { createLogger } from '../../utils/logger.js';
-import type { ZoneCategory, ZoneCheckResult } from '../../types/geofencing.js';
+import type { ExclusionZone, ZoneCategory, ZoneCheckResult, ZoneSource } from '../../types/geofencing.js';
 
 const logger = createLogger('zone-checker');
 
+interface ExclusionZoneRow {
+  id: string;
+  name: string;
+  category: ZoneCategory;
+  geometry: string;
+  h3_cells: string[];
+  source: ZoneSource;
+  source_id: string | null;
+  effective_from: Date;
+  effective_until: Date | null;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const ZONE_COLUMNS = `id, name, category, ST_AsGeoJSON(geometry) AS geometry, h3_cells, source,
+  source_id, effective_from, effective_until, metadata, created_at, updated_at`;
+
 /**
  * Zone Checker Service
  *
@@ -87,8 +113,9 @@ export class ZoneCheckerService {
   }
 
   /**
-   * Find if the point is actually within any of the candidate zones.
-   * Uses PostGIS ST_Contains for precise geometry check.
+   * Find if the point is actually within any of the candidate zones or
+   * their category's buffer distance.
+   * Uses PostGIS geography distance for the precise check.
    */
   private async findBlockingZone(
     latitude: number,
@@ -104,14 +131,19 @@ export class ZoneCheckerService {
       name: string;
       category: ZoneCategory;
     }>(
-      `SELECT id, name, category
-       FROM exclusion_zones
-       WHERE id = ANY($1)
-         AND ST_Contains(geometry, ST_SetSRID(ST_MakePoint($2, $3), 4326))
-         AND effective_from <= NOW()
-         AND (effective_until IS NULL OR effective_until > NOW())
+      `SELECT z.id, z.name, z.category
+       FROM exclusion_zones z
+       ${ZONE_BUFFER_JOIN}
+       WHERE z.id = ANY($1)
+         AND ST_DWithin(
+           z.geometry::geography,
+           ST_SetSRID(ST_MakePoint($2, $3), 4326)::geography,
+           ${ZONE_BUFFER_METERS}
+         )
+         AND z.effective_from <= NOW()
+         AND (z.effective_until IS NULL OR z.effective_until > NOW())
        ORDER BY
-         CASE category
+         CASE z.category
            WHEN 'school' THEN 1
            WHEN 'hospital' THEN 2
            WHEN 'government' THEN 3
@@ -174,6 +206,47 @@ export class ZoneCheckerService {
     return result.rows;
   }
 
+  /**
+   * Find which H3 cells intersect an active exclusion zone or its buffer.
+   * Uses PostGIS geography distance to each cell's boundary polygon.
+   */
+  async findExcludedCells(h3Indices: string[]): Promise<Set<string>> {
+    const excluded = new Set<string>();
+    const h3 = await import('h3-js');
+    const batchSize = 500;
+
+    for (let i = 0; i < h3Indices.length; i += batchSize) {
+      const batch = h3Indices.slice(i, i + batchSize);
+      const boundaries = batch.map((cell) => {
+        const ring = h3.cellToBoundary(cell, true);  // [lng, lat], closed
+        return JSON.stringify({ type: 'Polygon', coordinates: [ring] });
+      });
+
+      const result = await query<{ h3_index: string }>(
+        `SELECT c.h3_index
+         FROM unnest($1::text[], $2::text[]) AS c(h3_index, boundary)
+         WHERE EXISTS (
+           SELECT 1 FROM exclusion_zones z
+           ${ZONE_BUFFER_JOIN}
+           WHERE ST_DWithin(
+               z.geometry::geography,
+               ST_SetSRID(ST_GeomFromGeoJSON(c.boundary), 4326)::geography,
+               ${ZONE_BUFFER_METERS}
+             )
+             AND z.effective_from <= NOW()
+             AND (z.effective_until IS NULL OR z.effective_until > NOW())
+         )`,
+        [batch, boundaries]
+      );
+
+      for (const row of result.rows) {
+        excluded.add(row.h3_index);
+      }
+    }
+
+    return excluded;
+  }
+
   /**
    * Check if a location is near (but not in) an exclusion zone.
    * Returns the nearest zone within a distance threshold.
@@ -241,7 +314,7 @@ export class ZoneCheckerService {
     name: string;
     category: ZoneCategory;
     geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon;
-    source: 'osm' | 'safegraph' | 'manual' | 'user_report';
+    source: ZoneSource;
     sourceId?: string;
     effectiveFrom?: Date;
     effectiveUntil?: Date;
@@ -280,65 +353,164 @@ export class ZoneCheckerService {
   }
 
   /**
-   * Compute H3 cells that intersect with a zone and store them.
+   * Compute the H3 cells covering a zone and its buffer, store them with
+   * the buffer they include, and invalidate cached cells under both the
+   * old and the new cover.
    */
-  private async computeAndStoreH3Cells(zoneId: string): Promise<void> {
-    // Get zone geometry and compute intersecting H3 cells
-    // This is done in the database using PostGIS for efficiency
+  async computeAndStoreH3Cells(zoneId: string): Promise<void> {
+    // Cells cached under the old cover may still list the zone
+    await h3Cache.invalidateZone(zoneId);
+
+    const geoResult = await query<{ geometry: string; buffer_meters: number }>(
+      `SELECT ST_AsGeoJSON(${bufferedGeometry('$2')}) as geometry, ${ZONE_BUFFER_METERS} as buffer_meters
+       FROM exclusion_zones z
+       ${ZONE_BUFFER_JOIN}
+       WHERE z.id = $1`,
+      [zoneId, BUFFER_COVER_SCALE]
+    );
+
+    if (!geoResult.rows[0]) {
+      return;
+    }
+
+    const geoJson = JSON.parse(geoResult.rows[0].geometry) as GeoJSON.MultiPolygon;
+    const cells = coverCells(geoJson, config.H3_RESOLUTION_STORAGE);
+
     await query(
-      `UPDATE exclusion_zones
-       SET h3_cells = (
-         SELECT array_agg(DISTINCT cell)
-         FROM (
-           SELECT h3_polygon_to_cells(
-             ST_Transform(geometry, 4326),
-             7  -- Resolution 7
-           ) as cell
-           FROM exclusion_zones
-           WHERE id = $1
-         ) cells
-       )
-       WHERE id = $1`,
-      [zoneId]
+      `UPDATE exclusion_zones SET h3_cells = $1, cover_buffer_meters = $3 WHERE id = $2`,
+      [cells, zoneId, geoResult.rows[0].buffer_meters]
     );
 
-    // Note: h3_polygon_to_cells is a custom function that would need to be
-    // implemented or use pg_h3 extension. For now, we'll compute in application.
-    // In production, use pg_h3: https://github.com/zachasme/h3-pg
+    await h3Cache.invalidateZone(zoneId);
+  }
+
+  /**
+   * Recompute the cells of zones whose cover was computed with a buffer
+   * other than their category's current one, up to a batch. Returns the
+   * number of zones recomputed.
+   */
+  async recomputeStaleCovers(batchSize: number = 500): Promise<number> {
+    const result = await query<{ id: string }>(
+      `SELECT z.id
+       FROM exclusion_zones z
+       ${ZONE_BUFFER_JOIN}
+       WHERE z.cover_buffer_meters IS DISTINCT FROM ${ZONE_BUFFER_METERS}
+       LIMIT $1`,
+      [batchSize]
+    );
+
+    for (const { id } of result.rows) {
+      await this.computeAndStoreH3Cells(id);
+    }
+
+    if (result.rows.length > 0) {
+      logger.info({ zoneCount: result.rows.length }, 'Stale zone covers recomputed');
+    }
+
+    return result.rows.length;
+  }
 
-    // Fallback: compute in application
-    const geoResult = await query<{ geometry: string }>(
-      `SELECT ST_AsGeoJSON(geometry) as geometry FROM exclusion_zones WHERE id = $1`,
+  /**
+   * Buffer distance in meters for each zone category.
+   */
+  async getCategoryBuffers(): Promise<Record<ZoneCategory, number>> {
+    const result = await query<{ category: ZoneCategory; buffer_meters: number }>(
+      `SELECT category, buffer_meters FROM zone_category_buffers`
+    );
+
+    const buffers: Record<ZoneCategory, number> = {
+      school: 0,
+      hospital: 0,
+      government: 0,
+      residential: 0,
+      custom: 0,
+    };
+    for (const row of result.rows) {
+      buffers[row.category] = row.buffer_meters;
+    }
+
+    return buffers;
+  }
+
+  /**
+   * Change a category's buffer distance. The zone-buffer-covers job
+   * recomputes the cells of its zones. Returns the number of zones whose
+   * cover is now stale.
+   */
+  async setCategoryBuffer(category: ZoneCategory, bufferMeters: number): Promise<number> {
+    await query(
+      `INSERT INTO zone_category_buffers (category, buffer_meters)
+       VALUES ($1, $2)
+       ON CONFLICT (category) DO UPDATE SET buffer_meters = EXCLUDED.buffer_meters, updated_at = NOW()`,
+      [category, bufferMeters]
+    );
+
+    const stale = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM exclusion_zones
+       WHERE category = $1 AND cover_buffer_meters IS DISTINCT FROM $2`,
+      [category, bufferMeters]
+    );
+    const zoneCount = parseInt(stale.rows[0]?.count ?? '0', 10);
+
+    logger.info({ category, bufferMeters, zoneCount }, 'Zone buffer changed');
+    return zoneCount;
+  }
+
+  /**
+   * Get a zone by ID.
+   */
+  async getZone(zoneId: string): Promise<ExclusionZone | null> {
+    const result = await query<ExclusionZoneRow>(
+      `SELECT ${ZONE_COLUMNS} FROM exclusion_zones WHERE id = $1`,
       [zoneId]
     );
 
-    if (geoResult.rows[0]) {
-      const geoJson = JSON.parse(geoResult.rows[0].geometry) as GeoJSON.MultiPolygon;
-      const h3 = await import('h3-js');
-
-      // Flatten multipolygon coordinates and compute cells
-      const allCells: string[] = [];
-      for (const polygon of geoJson.coordinates) {
-        const ring = polygon[0]!;
-        const coords = ring.map(([lng, lat]) => [lat!, lng!] as [number, number]);
-        try {
-          const cells = h3.polygonToCells(coords, 7);
-          allCells.push(...cells);
-        } catch {
-          // Invalid polygon, skip
-        }
-      }
+    return result.rows[0] ? this.mapZone(result.rows[0]) : null;
+  }
+
+  /**
+   * List zones from one source, newest first. Zones that have ended are
+   * left out unless requested.
+   */
+  async listZones(source: ZoneSource, includeEnded: boolean = false): Promise<ExclusionZone[]> {
+    const result = await query<ExclusionZoneRow>(
+      `SELECT ${ZONE_COLUMNS}
+       FROM exclusion_zones
+       WHERE source = $1
+         AND ($2 OR effective_until IS NULL OR effective_until > NOW())
+       ORDER BY created_at DESC`,
+      [source, includeEnded]
+    );
 
-      const uniqueCells = [...new Set(allCells)];
+    return result.rows.map((row) => this.mapZone(row));
+  }
 
+  /**
+   * Invalidate cached cells of zones that started or ended since their
+   * caches were last invalidated, so scheduled and temporary zones take
+   * effect without waiting for cache expiry. Returns the number of zones.
+   */
+  async syncScheduledZones(now: Date = new Date()): Promise<number> {
+    const result = await query<{ id: string }>(
+      `SELECT id FROM exclusion_zones
+       WHERE (effective_from <= $1 AND effective_from > cache_synced_at)
+          OR (effective_until <= $1 AND effective_until > cache_synced_at)`,
+      [now]
+    );
+
+    for (const { id } of result.rows) {
+      await h3Cache.invalidateZone(id);
       await query(
-        `UPDATE exclusion_zones SET h3_cells = $1 WHERE id = $2`,
-        [uniqueCells, zoneId]
+        `UPDATE exclusion_zones SET cache_synced_at = $2 WHERE id = $1`,
+        [id, now]
       );
+    }
 
-      // Invalidate cache for these cells
-      await h3Cache.invalidateZone(zoneId);
+    if (result.rows.length > 0) {
+      logger.info({ zoneCount: result.rows.length }, 'Scheduled zone caches invalidated');
     }
+
+    return result.rows.length;
   }
 
   /**
@@ -359,6 +531,23 @@ export class ZoneCheckerService {
     }
     return deleted;
   }
+
+  private mapZone(row: ExclusionZoneRow): ExclusionZone {
+    return {
+      id: row.id,
+      name: row.name,
+      category: row.category,
+      geometry: JSON.parse(row.geometry) as GeoJSON.MultiPolygon,
+      h3Cells: row.h3_cells,
+      source: row.source,
+      sourceId: row.source_id ?? undefined,
+      effectiveFrom: row.effective_from,
+      effectiveUntil: row.effective_until ?? undefined,
+      metadata: row.metadata,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,80 @@
+/**
+ * Zone sources - Adapter interface for external exclusion zone data.
+ *
+ * Handles:
+ * - The zone records an adapter produces
+ * - How an adapter reports changes since its last sync
+ *
+ * Adapters only fetch and map data; zoneSync creates, updates and prunes
+ * the zones and stores each adapter's cursor between syncs.
+ */
+
+import type { ZoneCategory, ZoneSource } from '../../types/geofencing.js';
+
+/**
+ * A zone as read from a source, mapped to a category.
+ */
+export interface ZoneRecord {
+  sourceId: string;
+  name: string;
+  category: ZoneCategory;
+  geometry: GeoJSON.MultiPolygon;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Result of fetching an adapter's zones.
+ */
+export interface ZoneSourceFetch {
+  /**
+   * Cursor to store and pass to the next fetch; null stores nothing.
+   */
+  cursor: string | null;
+  /**
+   * Every zone in the adapter's scope, or null when nothing changed since
+   * the cursor passed in.
+   */
+  zones: ZoneRecord[] | null;
+  /**
+   * Source IDs the source reports as removed, e.g. closed places.
+   */
+  removedSourceIds: string[];
+  /**
+   * Source IDs of zones the source lists but that could not be read, e.g.
+   * rows with invalid geometry. Their existing zones are kept, not pruned,
+   * and the cursor is not stored, so they are read again next sync.
+   */
+  invalidSourceIds: string[];
+  /**
+   * Whether `zones` covers everything the adapter owns, so zones with its
+   * source and ID prefix that are missing from it can be pruned.
+   */
+  complete: boolean;
+}
+
+/**
+ * A pluggable source of exclusion zones.
+ */
+export interface ZoneSourceAdapter {
+  /**
+   * Unique adapter name; keys the stored cursor.
+   */
+  readonly name: string;
+  readonly source: ZoneSource;
+  /**
+   * Prefix of every source ID the adapter produces, when several adapters
+   * share a source.
+   */
+  readonly sourceIdPrefix?: string;
+  /**
+   * Source classification (tag, code or label) to zone category.
+   * Records that match none of it are skipped.
+   */
+  readonly categoryMapping: Readonly<Record<string, ZoneCategory>>;
+
+  /**
+   * Fetch zones, given the cursor stored after the last successful sync
+   * (null on the first).
+   */
+  fetchZones(cursor: string | null): Promise<ZoneSourceFetch>;
+}
@@ -1,103 +1,13 @@
 import { query } from '../../db/connection.js';
-import { h3Cache } from './h3-cache.js';
 import { zoneChecker } from './zone-checker.js';
-import { config } from '../../config/index.js';
+import { OSMFileZoneSource, OverpassZoneSource } from './osm-zone-source.js';
 import { createLogger } from '../../utils/logger.js';
+import type { GeoBounds } from './osm-zone-source.js';
+import type { ZoneRecord, ZoneSourceAdapter } from './zone-source.js';
 import type { ZoneCategory, ZoneSource } from '../../types/geofencing.js';
 
 const logger = createLogger('zone-sync');
 
-/**
- * OSM Overpass API query for schools.
- */
-const OSM_SCHOOL_QUERY = `
-[out:json][timeout:300];
-(
-  way["amenity"="school"]({{bbox}});
-  relation["amenity"="school"]({{bbox}});
-  way["amenity"="kindergarten"]({{bbox}});
-  relation["amenity"="kindergarten"]({{bbox}});
-  way["amenity"="college"]({{bbox}});
-  relation["amenity"="college"]({{bbox}});
-  way["amenity"="university"]({{bbox}});
-  relation["amenity"="university"]({{bbox}});
-);
-out body;
->;
-out skel qt;
-`;
-
-/**
- * OSM Overpass API query for hospitals.
- */
-const OSM_HOSPITAL_QUERY = `
-[out:json][timeout:300];
-(
-  way["amenity"="hospital"]({{bbox}});
-  relation["amenity"="hospital"]({{bbox}});
-  way["amenity"="clinic"]({{bbox}});
-  relation["amenity"="clinic"]({{bbox}});
-);
-out body;
->;
-out skel qt;
-`;
-
-/**
- * OSM Overpass API query for government buildings.
- */
-const OSM_GOVERNMENT_QUERY = `
-[out:json][timeout:300];
-(
-  way["building"="government"]({{bbox}});
-  relation["building"="government"]({{bbox}});
-  way["amenity"="courthouse"]({{bbox}});
-  relation["amenity"="courthouse"]({{bbox}});
-  way["amenity"="police"]({{bbox}});
-  relation["amenity"="police"]({{bbox}});
-  way["landuse"="military"]({{bbox}});
-  relation["landuse"="military"]({{bbox}});
-);
-out body;
->;
-out skel qt;
-`;
-
-/**
- * Bounds for geographic queries.
- */
-interface GeoBounds {
-  minLat: number;
-  maxLat: number;
-  minLng: number;
-  maxLng: number;
-}
-
-/**
- * OSM element from Overpass API response.
- */
-interface OSMElement {
-  type: 'node' | 'way' | 'relation';
-  id: number;
-  lat?: number;
-  lon?: number;
-  nodes?: number[];
-  members?: Array<{
-    type: string;
-    ref: number;
-    role: string;
-  }>;
-  tags?: Record<string, string>;
-}
-
-/**
- * OSM Overpass API response.
- */
-interface OverpassResponse {
-  version: number;
-  elements: OSMElement[];
-}
-
 /**
  * Sync result statistics.
  */
@@ -112,36 +22,41 @@ interface SyncResult {
   durationMs: number;
 }
 
+/**
+ * Result of syncing one zone source adapter.
+ */
+export interface SourceSyncResult {
+  adapter: string;
+  unchanged: boolean;       // Nothing changed since the stored cursor
+  results: SyncResult[];    // One per category the adapter maps to
+  zonesRemoved: number;     // Reported removed by the source
+  zonesPruned: number;      // Missing from a complete listing
+  zonesInvalid: number;     // Listed but unreadable; existing zones kept
+  durationMs: number;
+}
+
 /**
  * Zone Data Sync Service
  *
- * Imports exclusion zone data from external sources:
+ * Imports exclusion zone data from pluggable source adapters:
  * - OSM (OpenStreetMap) via Overpass API
- * - SafeGraph (commercial data) - interface ready
+ * - Local GeoJSON files and .osm.pbf extracts, for offline environments
+ * - SafeGraph places
+ * - CSV/WKT open-data feeds
  *
  * Features:
- * - Incremental sync support
+ * - Incremental sync from each adapter's stored cursor
  * - H3 cell pre-computation on import
  * - Data validation and deduplication
  */
 export class ZoneSyncService {
-  private readonly osmApiUrl: string;
-
-  constructor() {
-    this.osmApiUrl = config.OSM_API_URL ?? 'https://overpass-api.de/api/interpreter';
-  }
-
   /**
-   * Sync all zone categories for a geographic area.
+   * Sync all OSM zone categories for a geographic area.
    */
   async syncArea(bounds: GeoBounds): Promise<SyncResult[]> {
     logger.info({ bounds }, 'Starting zone sync for area');
-    const results: SyncResult[] = [];
 
-    // Sync each category sequentially to avoid overwhelming OSM API
-    results.push(await this.syncOSMCategory('school', OSM_SCHOOL_QUERY, bounds));
-    results.push(await this.syncOSMCategory('hospital', OSM_HOSPITAL_QUERY, bounds));
-    results.push(await this.syncOSMCategory('government', OSM_GOVERNMENT_QUERY, bounds));
+    const { results } = await this.syncSource(new OverpassZoneSource(bounds));
 
     logger.info(
       {
@@ -155,173 +70,182 @@ export class ZoneSyncService {
   }
 
   /**
-   * Sync a specific OSM category.
+   * Import OSM zones from local files instead of the Overpass API.
+   *
+   * Reads GeoJSON FeatureCollections (.geojson, .json) of OSM-tagged
+   * features and OSM extracts (.osm.pbf). Unless `prune` is false, OSM
+   * zones missing from every file are then removed, so the files must
+   * cover every synced area.
+   */
+  async importFiles(paths: string[], options: { prune?: boolean } = {}): Promise<SourceSyncResult> {
+    return this.syncSource(new OSMFileZoneSource(paths), options);
+  }
+
+  /**
+   * Sync zones from a source adapter.
+   *
+   * Passes the adapter its stored cursor, then creates, updates or skips
+   * each zone, deletes zones the source reports removed, and - for a
+   * complete listing, unless `prune` is false - prunes the adapter's
+   * zones missing from it. Zones the source could not read are kept as
+   * they are. The new cursor is stored only when every zone was read and
+   * synced, so failed and unreadable zones are retried next time.
    */
-  async syncOSMCategory(
-    category: ZoneCategory,
-    queryTemplate: string,
-    bounds: GeoBounds
-  ): Promise<SyncResult> {
+  async syncSource(adapter: ZoneSourceAdapter, options: { prune?: boolean } = {}): Promise<SourceSyncResult> {
     const start = Date.now();
-    const result: SyncResult = {
-      category,
-      source: 'osm',
-      zonesProcessed: 0,
-      zonesCreated: 0,
-      zonesUpdated: 0,
-      zonesSkipped: 0,
-      errors: [],
+    const fetched = await adapter.fetchZones(await this.getCursor(adapter.name));
+
+    const outcome: SourceSyncResult = {
+      adapter: adapter.name,
+      unchanged: fetched.zones === null,
+      results: [],
+      zonesRemoved: 0,
+      zonesPruned: 0,
+      zonesInvalid: fetched.invalidSourceIds.length,
       durationMs: 0,
     };
 
-    try {
-      // Fetch from OSM
-      const osmData = await this.fetchOSMData(queryTemplate, bounds);
-      const polygons = this.extractPolygons(osmData);
-
-      logger.info({ category, polygonCount: polygons.length }, 'Fetched OSM data');
-
-      // Process each polygon
-      for (const polygon of polygons) {
-        result.zonesProcessed++;
-
-        try {
-          const syncResult = await this.syncZone({
-            name: polygon.name,
-            category,
-            geometry: polygon.geometry,
-            source: 'osm',
-            sourceId: polygon.osmId,
-            metadata: polygon.tags,
-          });
-
-          if (syncResult === 'created') {
-            result.zonesCreated++;
-          } else if (syncResult === 'updated') {
-            result.zonesUpdated++;
-          } else {
-            result.zonesSkipped++;
-          }
-        } catch (error) {
-          const message = error instanceof Error ? error.message : String(error);
-          result.errors.push(`Zone ${polygon.osmId}: ${message}`);
-        }
+    if (fetched.zones) {
+      for (const category of new Set(Object.values(adapter.categoryMapping))) {
+        const categoryStart = Date.now();
+        const result = this.emptyResult(category, adapter.source);
+
+        await this.syncRecords(
+          adapter.source,
+          fetched.zones.filter((zone) => zone.category === category),
+          result
+        );
+
+        result.durationMs = Date.now() - categoryStart;
+        outcome.results.push(result);
       }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      result.errors.push(`Category sync failed: ${message}`);
-      logger.error({ error, category }, 'OSM sync failed');
     }
 
-    result.durationMs = Date.now() - start;
-    logger.info({ category, result }, 'OSM category sync complete');
-    return result;
-  }
+    if (fetched.removedSourceIds.length > 0) {
+      outcome.zonesRemoved = await this.removeZones(adapter.source, fetched.removedSourceIds);
+    }
 
-  /**
-   * Fetch data from OSM Overpass API.
-   */
-  private async fetchOSMData(
-    queryTemplate: string,
-    bounds: GeoBounds
-  ): Promise<OverpassResponse> {
-    const bbox = `${bounds.minLat},${bounds.minLng},${bounds.maxLat},${bounds.maxLng}`;
-    const query = queryTemplate.replace(/\{\{bbox\}\}/g, bbox);
-
-    const response = await fetch(this.osmApiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: `data=${encodeURIComponent(query)}`,
-    });
+    if (fetched.zones && fetched.complete && options.prune !== false) {
+      if (fetched.zones.length === 0) {
+        // An empty or wrong listing would otherwise remove every zone
+        logger.warn({ adapter: adapter.name }, 'No zones listed, skipping prune');
+      } else {
+        // A row that fails to parse must not delete the zone it stands for
+        outcome.zonesPruned = await this.pruneStaleZones(
+          adapter.source,
+          [...fetched.zones.map((zone) => zone.sourceId), ...fetched.invalidSourceIds],
+          adapter.sourceIdPrefix
+        );
+      }
+    }
+
+    if (outcome.zonesInvalid > 0) {
+      logger.warn(
+        { adapter: adapter.name, invalidSourceIds: fetched.invalidSourceIds },
+        'Kept zones the source could not read'
+      );
+    }
 
-    if (!response.ok) {
-      throw new Error(`OSM API error: ${response.status} ${response.statusText}`);
+    const failed = outcome.zonesInvalid > 0 || outcome.results.some((result) => result.errors.length > 0);
+    if (fetched.cursor !== null && !failed) {
+      await this.saveCursor(adapter.name, fetched.cursor);
     }
 
-    return response.json() as Promise<OverpassResponse>;
+    outcome.durationMs = Date.now() - start;
+    logger.info({ ...outcome, results: undefined, failed }, 'Zone source sync complete');
+    return outcome;
   }
 
   /**
-   * Extract polygon geometries from OSM response.
+   * Sync zone records, counting into `result`.
    */
-  private extractPolygons(
-    response: OverpassResponse
-  ): Array<{
-    osmId: string;
-    name: string;
-    geometry: GeoJSON.MultiPolygon;
-    tags: Record<string, string>;
-  }> {
-    const results: Array<{
-      osmId: string;
-      name: string;
-      geometry: GeoJSON.MultiPolygon;
-      tags: Record<string, string>;
-    }> = [];
-
-    // Build node lookup for coordinate resolution
-    const nodes = new Map<number, { lat: number; lon: number }>();
-    for (const el of response.elements) {
-      if (el.type === 'node' && el.lat !== undefined && el.lon !== undefined) {
-        nodes.set(el.id, { lat: el.lat, lon: el.lon });
-      }
-    }
+  private async syncRecords(
+    source: ZoneSource,
+    zones: ZoneRecord[],
+    result: SyncResult
+  ): Promise<void> {
+    for (const zone of zones) {
+      result.zonesProcessed++;
 
-    // Process ways and relations
-    for (const el of response.elements) {
-      if (el.type === 'way' && el.nodes && el.nodes.length >= 4) {
-        const coords = this.resolveWayCoordinates(el.nodes, nodes);
-        if (coords.length >= 4) {
-          // Close the ring if not already closed
-          if (
-            coords[0]![0] !== coords[coords.length - 1]![0] ||
-            coords[0]![1] !== coords[coords.length - 1]![1]
-          ) {
-            coords.push(coords[0]!);
-          }
-
-          results.push({
-            osmId: `way/${el.id}`,
-            name: el.tags?.name ?? `OSM Way ${el.id}`,
-            geometry: {
-              type: 'MultiPolygon',
-              coordinates: [[coords]],
-            },
-            tags: el.tags ?? {},
-          });
+      try {
+        const syncResult = await this.syncZone({
+          name: zone.name,
+          category: zone.category,
+          geometry: zone.geometry,
+          source,
+          sourceId: zone.sourceId,
+          metadata: zone.metadata,
+        });
+
+        if (syncResult === 'created') {
+          result.zonesCreated++;
+        } else if (syncResult === 'updated') {
+          result.zonesUpdated++;
+        } else {
+          result.zonesSkipped++;
         }
-      }
-
-      // Relations are more complex - simplified handling
-      if (el.type === 'relation' && el.tags) {
-        // For relations, we'd need to resolve outer/inner members
-        // This is a simplified version that skips complex relations
-        logger.debug({ relationId: el.id }, 'Skipping relation (complex geometry)');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.errors.push(`Zone ${zone.sourceId}: ${message}`);
       }
     }
+  }
 
-    return results;
+  /**
+   * Sync result with nothing counted yet.
+   */
+  private emptyResult(category: ZoneCategory, source: ZoneSource): SyncResult {
+    return {
+      category,
+      source,
+      zonesProcessed: 0,
+      zonesCreated: 0,
+      zonesUpdated: 0,
+      zonesSkipped: 0,
+      errors: [],
+      durationMs: 0,
+    };
   }
 
   /**
-   * Resolve way node IDs to coordinates.
+   * Delete zones by source ID, invalidating their cached cells.
    */
-  private resolveWayCoordinates(
-    nodeIds: number[],
-    nodes: Map<number, { lat: number; lon: number }>
-  ): Array<[number, number]> {
-    const coords: Array<[number, number]> = [];
-
-    for (const nodeId of nodeIds) {
-      const node = nodes.get(nodeId);
-      if (node) {
-        coords.push([node.lon, node.lat]); // GeoJSON uses [lng, lat]
+  private async removeZones(source: ZoneSource, sourceIds: string[]): Promise<number> {
+    const result = await query<{ id: string }>(
+      `SELECT id FROM exclusion_zones WHERE source = $1 AND source_id = ANY($2)`,
+      [source, sourceIds]
+    );
+
+    let removed = 0;
+    for (const { id } of result.rows) {
+      if (await zoneChecker.deleteZone(id)) {
+        removed++;
       }
     }
 
-    return coords;
+    if (removed > 0) {
+      logger.info({ source, removed }, 'Removed zones deleted at source');
+    }
+
+    return removed;
+  }
+
+  private async getCursor(adapter: string): Promise<string | null> {
+    const result = await query<{ cursor: string }>(
+      `SELECT cursor FROM zone_source_cursors WHERE adapter = $1`,
+      [adapter]
+    );
+
+    return result.rows[0]?.cursor ?? null;
+  }
+
+  private async saveCursor(adapter: string, cursor: string): Promise<void> {
+    await query(
+      `INSERT INTO zone_source_cursors (adapter, cursor, synced_at)
+       VALUES ($1, $2, NOW())
+       ON CONFLICT (adapter) DO UPDATE SET cursor = EXCLUDED.cursor, synced_at = NOW()`,
+      [adapter, cursor]
+    );
   }
 
   /**
@@ -369,9 +293,8 @@ export class ZoneSyncService {
         ]
       );
 
-      // Recompute H3 cells
-      await this.computeH3Cells(existing.rows[0].id);
-      await h3Cache.invalidateZone(existing.rows[0].id);
+      // Recompute H3 cells; invalidates both the old and new cells
+      await zoneChecker.computeAndStoreH3Cells(existing.rows[0].id);
 
       return 'updated';
     }
@@ -389,64 +312,30 @@ export class ZoneSyncService {
     return 'created';
   }
 
-  /**
-   * Compute H3 cells for a zone.
-   */
-  private async computeH3Cells(zoneId: string): Promise<void> {
-    // Get zone geometry
-    const geoResult = await query<{ geometry: string }>(
-      `SELECT ST_AsGeoJSON(geometry) as geometry FROM exclusion_zones WHERE id = $1`,
-      [zoneId]
-    );
-
-    if (!geoResult.rows[0]) {
-      return;
-    }
-
-    const geoJson = JSON.parse(geoResult.rows[0].geometry) as GeoJSON.MultiPolygon;
-    const h3 = await import('h3-js');
-
-    const allCells: string[] = [];
-    for (const polygon of geoJson.coordinates) {
-      const ring = polygon[0]!;
-      const coords = ring.map(([lng, lat]) => [lat!, lng!] as [number, number]);
-      try {
-        const cells = h3.polygonToCells(coords, 7);
-        allCells.push(...cells);
-      } catch {
-        // Invalid polygon, skip
-      }
-    }
-
-    const uniqueCells = [...new Set(allCells)];
-
-    await query(
-      `UPDATE exclusion_zones SET h3_cells = $1 WHERE id = $2`,
-      [uniqueCells, zoneId]
-    );
-  }
-
   /**
    * Delete zones that no longer exist in source.
-   * Useful for cleanup after re-sync.
+   * Useful for cleanup after re-sync. With a prefix, only zones whose
+   * source ID starts with it are considered.
    */
   async pruneStaleZones(
     source: ZoneSource,
-    validSourceIds: string[]
+    validSourceIds: string[],
+    sourceIdPrefix?: string
   ): Promise<number> {
     const result = await query(
       `DELETE FROM exclusion_zones
        WHERE source = $1
          AND source_id IS NOT NULL
          AND source_id != ALL($2)
+         ${sourceIdPrefix ? 'AND starts_with(source_id, $3)' : ''}
        RETURNING id`,
-      [source, validSourceIds]
+      sourceIdPrefix ? [source, validSourceIds, sourceIdPrefix] : [source, validSourceIds]
     );
 
     const deletedCount = result.rowCount ?? 0;
 
     if (deletedCount > 0) {
-      logger.info({ source, deletedCount }, 'Pruned stale zones');
+      logger.info({ source, sourceIdPrefix, deletedCount }, 'Pruned stale zones');
     }
 
     return deletedCount;
@@ -0,0 +1,109 @@
+/**
+ * Background job definitions.
+ *
+ * Handles:
+ * - Turf maintenance (influence decay, outpost ticks, contract generation)
+ * - Raid resolution when defender windows end
+ * - Spawn, contract, diplomacy and zone cache expiry
+ * - Zone cache invalidation when scheduled zones start or end
+ * - Zone cell covers recomputed after buffer changes
+ * - Spoof score decay
+ * - Pruning ended auth sessions
+ * - Pruning old job run history
+ */
+
+import { turfService } from '../turf/index.js';
+import { raidEngine } from '../turf/raid-engine.js';
+import { contractManager } from '../turf/contract-manager.js';
+import { diplomacyManager } from '../turf/diplomacy-manager.js';
+import { encounterManager } from '../synthling/encounter-manager.js';
+import { h3Cache } from '../geofencing/h3-cache.js';
+import { zoneChecker } from '../geofencing/zone-checker.js';
+import { spoofDetector } from '../geofencing/spoof-detector.js';
+import { sessionManager } from '../auth/session-manager.js';
+import { jobScheduler } from './scheduler.js';
+import { derivedConfig } from '../../config/index.js';
+import type { JobDefinition } from '../../types/jobs.js';
+
+/**
+ * Jobs started with the server.
+ */
+export const JOBS: JobDefinition[] = [
+  {
+    name: 'turf-maintenance',
+    description: 'Decay influence, tick outposts and generate district contracts',
+    intervalSeconds: derivedConfig.influenceDecayIntervalMinutes * 60,
+    timeoutSeconds: 600,
+    run: () => turfService.runMaintenance(),
+  },
+  {
+    name: 'raid-resolution',
+    description: 'Resolve raids whose defender window has ended',
+    intervalSeconds: derivedConfig.raidResolutionIntervalSeconds,
+    timeoutSeconds: 120,
+    run: async (now) => ({ resolvedRaids: await raidEngine.resolveExpiredRaids(now) }),
+  },
+  {
+    name: 'encounter-expiry',
+    description: 'Close encounters whose spawn has expired',
+    intervalSeconds: 60,
+    timeoutSeconds: 60,
+    run: async (now) => ({ expiredEncounters: await encounterManager.expireEncounters(now) }),
+  },
+  {
+    name: 'contract-expiry',
+    description: 'Delete expired unclaimed contracts',
+    intervalSeconds: 15 * 60,
+    timeoutSeconds: 120,
+    run: async (now) => ({ expiredContracts: await contractManager.expireContracts(now) }),
+  },
+  {
+    name: 'diplomacy-expiry',
+    description: 'Expire lapsed crew proposals, pacts and rivalries',
+    intervalSeconds: 15 * 60,
+    timeoutSeconds: 120,
+    run: async (now) => ({ expiredRelations: await diplomacyManager.expireRelations(now) }),
+  },
+  {
+    name: 'zone-schedule',
+    description: 'Invalidate zone caches when scheduled zones start or end',
+    intervalSeconds: 60,
+    timeoutSeconds: 120,
+    run: async (now) => ({ refreshedZones: await zoneChecker.syncScheduledZones(now) }),
+  },
+  {
+    name: 'zone-buffer-covers',
+    description: 'Recompute zone cells whose cover predates their category buffer',
+    intervalSeconds: 60,
+    timeoutSeconds: 300,
+    run: async () => ({ recomputedZones: await zoneChecker.recomputeStaleCovers() }),
+  },
+  {
+    name: 'zone-cache-expiry',
+    description: 'Purge expired rows from the H3 zone cache',
+    intervalSeconds: 60 * 60,
+    timeoutSeconds: 300,
+    run: async () => ({ purgedCells: await h3Cache.purgeExpired() }),
+  },
+  {
+    name: 'spoof-score-decay',
+    description: 'Decay stored spoof scores',
+    intervalSeconds: 60 * 60,
+    timeoutSeconds: 300,
+    run: async (now) => ({ decayedScores: await spoofDetector.decayStoredScores(now) }),
+  },
+  {
+    name: 'auth-session-prune',
+    description: 'Delete sessions that expired or were revoked over a week ago',
+    intervalSeconds: 24 * 60 * 60,
+    timeoutSeconds: 300,
+    run: async (now) => ({ prunedSessions: await sessionManager.pruneSessions(now) }),
+  },
+  {
+    name: 'job-history-prune',
+    description: 'Delete job run history past the retention period',
+    intervalSeconds: 24 * 60 * 60,
+    timeoutSeconds: 300,
+    run: async (now) => ({ prunedRuns: await jobScheduler.pruneHistory(now) }),
+  },
+];
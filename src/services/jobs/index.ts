@@ -0,0 +1,8 @@
+/**
+ * Background Jobs
+ *
+ * Periodic maintenance run once per interval across all replicas.
+ */
+
+export { jobScheduler, JobScheduler } from './scheduler.js';
+export { JOBS } from './definitions.js';
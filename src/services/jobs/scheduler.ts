@@ -0,0 +1,380 @@
+/**
+ * Job Scheduler - Periodic background jobs across replicas.
+ *
+ * Handles:
+ * - Ticking registered jobs on every instance
+ * - A Redis lock per job, so only one instance runs it at a time
+ * - Running each job at most once per interval across all instances
+ * - Run history, failures and timeouts in job_runs
+ * - Job status for the admin API
+ *
+ * A job runs on whichever instance takes its lock once the interval since
+ * the last recorded start has passed. The holder renews the lock until the
+ * job has actually stopped, even past its timeout, so runs never overlap.
+ * A crashed instance stops renewing and its lock expires after the job's
+ * timeout; the next holder marks the crashed run as failed.
+ */
+
+import { hostname } from 'os';
+import { v4 as uuid } from 'uuid';
+import { query } from '../../db/connection.js';
+import { redis, RedisKeys } from '../../db/redis.js';
+import { derivedConfig } from '../../config/index.js';
+import { createLogger } from '../../utils/logger.js';
+import type { JobDefinition, JobResult, JobRun, JobRunStatus, JobStatus } from '../../types/jobs.js';
+
+const logger = createLogger('job-scheduler');
+
+/**
+ * Delete the lock only if this instance still holds it.
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+/**
+ * Extend the lock's expiry only if this instance still holds it.
+ */
+const RENEW_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+/**
+ * Job run row as stored in the job_runs table.
+ */
+interface JobRunRow {
+  id: string;
+  job_name: string;
+  instance_id: string;
+  status: JobRunStatus;
+  started_at: Date;
+  finished_at: Date | null;
+  duration_ms: number | null;
+  result: JobResult | null;
+  error: string | null;
+}
+
+/**
+ * Job Scheduler Service
+ */
+export class JobScheduler {
+  readonly instanceId = `${hostname()}:${process.pid}`;
+  private readonly jobs = new Map<string, JobDefinition>();
+  private readonly inFlight = new Map<string, Promise<JobRun | null>>();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Add a job. Names must be unique.
+   */
+  register(job: JobDefinition): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job already registered: ${job.name}`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  /**
+   * Registered jobs.
+   */
+  getJobs(): JobDefinition[] {
+    return [...this.jobs.values()];
+  }
+
+  /**
+   * Register jobs and start ticking.
+   */
+  start(jobs: JobDefinition[] = [], tickSeconds: number = derivedConfig.jobSchedulerTickSeconds): void {
+    if (this.timer) {
+      return;
+    }
+
+    for (const job of jobs) {
+      this.register(job);
+    }
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, tickSeconds * 1000);
+    this.timer.unref();
+    void this.tick();
+
+    logger.info({ jobs: [...this.jobs.keys()], tickSeconds, instanceId: this.instanceId }, 'Job scheduler started');
+  }
+
+  /**
+   * Stop ticking and wait for runs in progress on this instance.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await Promise.allSettled(this.inFlight.values());
+    logger.info('Job scheduler stopped');
+  }
+
+  /**
+   * Run every job that is due and not already running here.
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    await Promise.all([...this.jobs.keys()].map((name) => this.runIfDue(name, now)));
+  }
+
+  /**
+   * Run a job if this instance gets its lock and its interval has passed.
+   * Returns the run, or null if it was skipped.
+   */
+  async runIfDue(name: string, now: Date = new Date()): Promise<JobRun | null> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+
+    const existing = this.inFlight.get(name);
+    if (existing) {
+      return null;
+    }
+
+    const run = this.lockAndRun(job, now)
+      .catch((error: unknown) => {
+        // Lock or history errors; the job itself never got to run
+        logger.error({ error, job: name }, 'Job scheduling failed');
+        return null;
+      })
+      .finally(() => this.inFlight.delete(name));
+
+    this.inFlight.set(name, run);
+    return run;
+  }
+
+  /**
+   * Status of every registered job.
+   */
+  async getStatus(now: Date = new Date()): Promise<JobStatus[]> {
+    const names = [...this.jobs.keys()];
+    if (names.length === 0) {
+      return [];
+    }
+
+    const [lastRuns, lastFailures, summary, locks] = await Promise.all([
+      query<JobRunRow>(
+        `SELECT DISTINCT ON (job_name) *
+         FROM job_runs
+         WHERE job_name = ANY($1)
+         ORDER BY job_name, started_at DESC`,
+        [names]
+      ),
+      query<JobRunRow>(
+        `SELECT DISTINCT ON (job_name) *
+         FROM job_runs
+         WHERE job_name = ANY($1) AND status = 'failed'
+         ORDER BY job_name, started_at DESC`,
+        [names]
+      ),
+      query<{ job_name: string; last_success_at: Date | null; recent_failures: string }>(
+        `SELECT job_name,
+                MAX(started_at) FILTER (WHERE status = 'succeeded') as last_success_at,
+                COUNT(*) FILTER (WHERE status = 'failed' AND started_at > $2) as recent_failures
+         FROM job_runs
+         WHERE job_name = ANY($1)
+         GROUP BY job_name`,
+        [names, new Date(now.getTime() - 24 * 60 * 60 * 1000)]
+      ),
+      redis.mget(names.map((name) => RedisKeys.jobLock(name))),
+    ]);
+
+    const lastRunByJob = new Map(lastRuns.rows.map((row) => [row.job_name, this.mapRow(row)]));
+    const lastFailureByJob = new Map(lastFailures.rows.map((row) => [row.job_name, this.mapRow(row)]));
+    const summaryByJob = new Map(summary.rows.map((row) => [row.job_name, row]));
+
+    return names.map((name, i) => {
+      const job = this.jobs.get(name) as JobDefinition;
+      const lastRun = lastRunByJob.get(name);
+      const stats = summaryByJob.get(name);
+
+      return {
+        name,
+        description: job.description,
+        intervalSeconds: job.intervalSeconds,
+        locked: locks[i] != null,
+        lastRun,
+        lastSuccessAt: stats?.last_success_at ?? undefined,
+        lastFailure: lastFailureByJob.get(name),
+        recentFailures: stats ? parseInt(stats.recent_failures, 10) : 0,
+        nextRunAt: lastRun
+          ? new Date(Math.max(now.getTime(), lastRun.startedAt.getTime() + job.intervalSeconds * 1000))
+          : now,
+      };
+    });
+  }
+
+  /**
+   * Recent runs of one job, newest first.
+   */
+  async getRuns(name: string, limit: number = 50): Promise<JobRun[]> {
+    const result = await query<JobRunRow>(
+      `SELECT * FROM job_runs WHERE job_name = $1 ORDER BY started_at DESC LIMIT $2`,
+      [name, limit]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * Delete run history older than the retention period.
+   */
+  async pruneHistory(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - derivedConfig.jobHistoryRetentionDays * 24 * 60 * 60 * 1000);
+    const result = await query(
+      `DELETE FROM job_runs WHERE started_at < $1 AND status != 'running'`,
+      [cutoff]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Take the job's lock, check it is due, run it and record the outcome.
+   */
+  private async lockAndRun(job: JobDefinition, now: Date): Promise<JobRun | null> {
+    const lockKey = RedisKeys.jobLock(job.name);
+    const token = uuid();
+    const lockMs = job.timeoutSeconds * 1000;
+
+    const acquired = await redis.set(lockKey, token, 'PX', lockMs, 'NX');
+    if (acquired !== 'OK') {
+      return null;
+    }
+
+    // Renew well before expiry, so a slow Redis round trip cannot lose it
+    const renewal = setInterval(() => {
+      redis.eval(RENEW_LOCK_SCRIPT, 1, lockKey, token, lockMs).catch((error: unknown) => {
+        logger.warn({ error, job: job.name }, 'Job lock renewal failed');
+      });
+    }, lockMs / 3);
+    renewal.unref();
+
+    try {
+      const last = await query<{ started_at: Date }>(
+        `SELECT started_at FROM job_runs WHERE job_name = $1 ORDER BY started_at DESC LIMIT 1`,
+        [job.name]
+      );
+
+      const lastStart = last.rows[0]?.started_at;
+      if (lastStart && now.getTime() - lastStart.getTime() < job.intervalSeconds * 1000) {
+        return null;
+      }
+
+      // We hold the lock, so any run still marked running was abandoned
+      await query(
+        `UPDATE job_runs
+         SET status = 'failed', finished_at = $2, error = 'Abandoned: lock expired before the run finished'
+         WHERE job_name = $1 AND status = 'running'`,
+        [job.name, now]
+      );
+
+      return await this.execute(job, now);
+    } finally {
+      clearInterval(renewal);
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token);
+    }
+  }
+
+  /**
+   * Run the job with its timeout and record the run. A run that times out
+   * is recorded as failed at once, but this only returns once the job has
+   * stopped, so its lock is held until then.
+   */
+  private async execute(job: JobDefinition, now: Date): Promise<JobRun> {
+    const run: JobRun = {
+      id: uuid(),
+      jobName: job.name,
+      instanceId: this.instanceId,
+      status: 'running',
+      startedAt: now,
+    };
+
+    await query(
+      `INSERT INTO job_runs (id, job_name, instance_id, status, started_at)
+       VALUES ($1, $2, $3, 'running', $4)`,
+      [run.id, run.jobName, run.instanceId, run.startedAt]
+    );
+
+    const start = Date.now();
+    const pending = (async () => job.run(now))();
+    try {
+      run.result = await this.withTimeout(pending, job.timeoutSeconds);
+      run.status = 'succeeded';
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      logger.error({ error, job: job.name }, 'Job failed');
+    }
+
+    run.durationMs = Date.now() - start;
+    run.finishedAt = new Date(now.getTime() + run.durationMs);
+
+    await query(
+      `UPDATE job_runs
+       SET status = $2, finished_at = $3, duration_ms = $4, result = $5, error = $6
+       WHERE id = $1`,
+      [
+        run.id,
+        run.status,
+        run.finishedAt,
+        run.durationMs,
+        run.result ? JSON.stringify(run.result) : null,
+        run.error ?? null,
+      ]
+    );
+
+    if (run.status === 'succeeded') {
+      logger.info({ job: job.name, ms: run.durationMs, ...run.result }, 'Job completed');
+    } else {
+      await pending.catch(() => undefined);
+    }
+
+    return run;
+  }
+
+  /**
+   * Reject if the job outlives its timeout. The job itself keeps running.
+   */
+  private async withTimeout<T>(promise: Promise<T>, timeoutSeconds: number): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutSeconds}s`)), timeoutSeconds * 1000);
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Map a database row to a run.
+   */
+  private mapRow(row: JobRunRow): JobRun {
+    return {
+      id: row.id,
+      jobName: row.job_name,
+      instanceId: row.instance_id,
+      status: row.status,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at ?? undefined,
+      durationMs: row.duration_ms ?? undefined,
+      result: row.result ?? undefined,
+      error: row.error ?? undefined,
+    };
+  }
+}
+
+// Singleton instance
+export const jobScheduler = new JobScheduler();
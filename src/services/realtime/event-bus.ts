@@ -0,0 +1,132 @@
+/**
+ * Realtime Event Bus - Cross-instance event fan-out over Redis pub/sub.
+ *
+ * Handles:
+ * - Publishing turf, raid and spawn events, after commit when inside a
+ *   transaction
+ * - Receiving every instance's events on one Redis channel
+ * - Handing received events to local listeners (the gateway)
+ *
+ * Publishing is best effort: a Redis failure is logged and never fails
+ * the game action that produced the event. Clients that miss events
+ * resync from the turf snapshot.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type pg from 'pg';
+import type Redis from 'ioredis';
+import { afterCommit } from '../../db/connection.js';
+import { redis, RedisKeys } from '../../db/redis.js';
+import { createLogger } from '../../utils/logger.js';
+import type { RealtimeEvent, RealtimeEventData, RealtimeEventType, RealtimeTopic } from '../../types/realtime.js';
+
+const logger = createLogger('realtime-bus');
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+/**
+ * Topic names.
+ */
+export const RealtimeTopics = {
+  cell: (h3Index: string): RealtimeTopic => `cell:${h3Index}`,
+  district: (districtId: string): RealtimeTopic => `district:${districtId}`,
+  crew: (crewId: string): RealtimeTopic => `crew:${crewId}`,
+  user: (userId: string): RealtimeTopic => `user:${userId}`,
+} as const;
+
+/**
+ * Realtime Event Bus
+ */
+export class RealtimeBus {
+  private subscriber: Redis | null = null;
+  private listeners = new Set<RealtimeListener>();
+
+  /**
+   * Publish an event to every instance. Pass a client to publish only
+   * once the caller's transaction commits.
+   */
+  async publish<K extends RealtimeEventType>(
+    type: K,
+    topics: RealtimeTopic[],
+    data: RealtimeEventData[K],
+    client?: pg.PoolClient
+  ): Promise<void> {
+    const event: RealtimeEvent<K> = { id: uuid(), type, topics, occurredAt: new Date(), data };
+
+    if (client) {
+      afterCommit(client, () => this.send(event));
+      return;
+    }
+
+    await this.send(event);
+  }
+
+  /**
+   * Listen for events from all instances. Returns a function that stops
+   * listening.
+   */
+  onEvent(listener: RealtimeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to the Redis channel. Pub/sub needs its own connection.
+   */
+  async start(): Promise<void> {
+    if (this.subscriber) {
+      return;
+    }
+
+    this.subscriber = redis.duplicate();
+    this.subscriber.on('message', (_channel: string, message: string) => this.receive(message));
+    await this.subscriber.subscribe(RedisKeys.realtimeChannel);
+
+    logger.info('Realtime bus started');
+  }
+
+  async stop(): Promise<void> {
+    if (!this.subscriber) {
+      return;
+    }
+
+    const subscriber = this.subscriber;
+    this.subscriber = null;
+    await subscriber.quit();
+  }
+
+  /**
+   * Deliver a raw channel message to local listeners.
+   */
+  receive(message: string): void {
+    let event: RealtimeEvent;
+    try {
+      const parsed = JSON.parse(message) as RealtimeEvent & { occurredAt: string };
+      event = { ...parsed, occurredAt: new Date(parsed.occurredAt) };
+    } catch (error) {
+      logger.warn({ error }, 'Dropping malformed realtime message');
+      return;
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error({ error, eventType: event.type }, 'Realtime listener failed');
+      }
+    }
+  }
+
+  private async send(event: RealtimeEvent): Promise<void> {
+    try {
+      await redis.publish(RedisKeys.realtimeChannel, JSON.stringify(event));
+    } catch (error) {
+      logger.warn({ error, eventType: event.type }, 'Failed to publish realtime event');
+    }
+  }
+}
+
+// Singleton instance
+export const realtimeBus = new RealtimeBus();
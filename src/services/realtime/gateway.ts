@@ -0,0 +1,152 @@
+/**
+ * Realtime Gateway - Delivers events to this instance's connected clients.
+ *
+ * Handles:
+ * - Tracking open client streams and their topics
+ * - Matching events from the bus to subscribed clients
+ * - Closing a player's streams when their crew or session changes
+ * - Closing every stream on shutdown
+ *
+ * Every instance receives every event from the bus and forwards only the
+ * ones its own clients subscribed to. Streams are closed the same way, so
+ * a player's streams on every instance end.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type pg from 'pg';
+import { realtimeBus, RealtimeTopics } from './event-bus.js';
+import { createLogger } from '../../utils/logger.js';
+import type { RealtimeEvent, RealtimeEventData, RealtimeTopic } from '../../types/realtime.js';
+
+const logger = createLogger('realtime-gateway');
+
+/**
+ * A connected client stream.
+ */
+export interface RealtimeConnection {
+  send: (event: RealtimeEvent) => void;
+  close: () => void;
+  userId?: string;     // The player the stream was opened for
+  sessionId?: string;
+}
+
+interface Subscriber {
+  topics: Set<RealtimeTopic>;
+  connection: RealtimeConnection;
+}
+
+/**
+ * Realtime Gateway
+ */
+export class RealtimeGateway {
+  private subscribers = new Map<string, Subscriber>();
+  private stopListening: (() => void) | null = null;
+
+  /**
+   * Start forwarding bus events to connected clients.
+   */
+  start(): void {
+    if (!this.stopListening) {
+      this.stopListening = realtimeBus.onEvent((event) => this.dispatch(event));
+    }
+  }
+
+  /**
+   * Stop forwarding and close every client stream.
+   */
+  stop(): void {
+    this.stopListening?.();
+    this.stopListening = null;
+
+    for (const { connection } of this.subscribers.values()) {
+      connection.close();
+    }
+    this.subscribers.clear();
+  }
+
+  /**
+   * Register a client stream for a set of topics. Returns a function that
+   * removes it.
+   */
+  connect(topics: RealtimeTopic[], connection: RealtimeConnection): () => void {
+    const id = uuid();
+    this.subscribers.set(id, { topics: new Set(topics), connection });
+
+    logger.debug({ connectionId: id, topics: topics.length }, 'Realtime client connected');
+
+    return () => {
+      this.subscribers.delete(id);
+    };
+  }
+
+  /**
+   * Close a player's streams on every instance, e.g. once they leave
+   * their crew or their session ends, so they stop receiving events they
+   * no longer may see. Pass a sessionId to close only that session's
+   * streams, and a client to close them once the caller's transaction
+   * commits.
+   */
+  async disconnectUser(
+    userId: string,
+    options: { sessionId?: string; reason: RealtimeEventData['streams_closed']['reason'] },
+    client?: pg.PoolClient
+  ): Promise<void> {
+    await realtimeBus.publish(
+      'streams_closed',
+      [RealtimeTopics.user(userId)],
+      { userId, ...options },
+      client
+    );
+  }
+
+  /**
+   * Send an event to every client subscribed to one of its topics.
+   */
+  dispatch(event: RealtimeEvent): number {
+    if (event.type === 'streams_closed') {
+      return this.closeStreams(event as RealtimeEvent<'streams_closed'>);
+    }
+
+    let delivered = 0;
+
+    for (const { topics, connection } of this.subscribers.values()) {
+      if (event.topics.some((topic) => topics.has(topic))) {
+        connection.send(event);
+        delivered++;
+      }
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Tell the player's streams why they end, then close them. Clients
+   * reconnect to subscribe again with their current crew.
+   */
+  private closeStreams(event: RealtimeEvent<'streams_closed'>): number {
+    const { userId, sessionId } = event.data;
+    let closed = 0;
+
+    for (const [id, { connection }] of this.subscribers) {
+      if (connection.userId === userId && (!sessionId || connection.sessionId === sessionId)) {
+        this.subscribers.delete(id);
+        connection.send(event);
+        connection.close();
+        closed++;
+      }
+    }
+
+    if (closed > 0) {
+      logger.debug({ userId, reason: event.data.reason, closed }, 'Realtime streams closed');
+    }
+
+    return closed;
+  }
+
+  get connectionCount(): number {
+    return this.subscribers.size;
+  }
+}
+
+// Singleton instance
+export const realtimeGateway = new RealtimeGateway();
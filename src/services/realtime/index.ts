@@ -0,0 +1,10 @@
+/**
+ * Realtime
+ *
+ * Server-sent turf, raid and spawn events, fanned out across instances
+ * through Redis pub/sub.
+ */
+
+export { realtimeBus, RealtimeBus, RealtimeTopics } from './event-bus.js';
+export { realtimeGateway, RealtimeGateway } from './gateway.js';
+export type { RealtimeConnection } from './gateway.js';
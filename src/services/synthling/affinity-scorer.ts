@@ -0,0 +1,255 @@
+/**
+ * Affinity Scorer - Ranks archetypes by how well a place suits them.
+ *
+ * Handles:
+ * - Palette fit (hue, saturation, brightness ranges)
+ * - Geometry fit (preferred surface types, complexity range)
+ * - Audio fit (harmonic and rhythm ranges)
+ * - Time-of-day preference
+ *
+ * Scores are 0-1 per component and combined with fixed weights, so the
+ * ranking for a given fingerprint is stable and easy to reason about in
+ * design tools.
+ *
+ * See specs/synthling-generation/spec.md for full specification.
+ */
+
+import { archetypeRegistry } from './archetype-registry.js';
+import type { SynthlingArchetype, EnvironmentAffinity } from '../../types/synthling.js';
+import type {
+  PlaceFingerprint,
+  PaletteColor,
+  SurfaceType,
+} from '../../types/fingerprint.js';
+
+/**
+ * Scoring configuration.
+ */
+const AFFINITY_CONFIG = {
+  weights: {
+    palette: 0.35,
+    geometry: 0.3,
+    audio: 0.2,
+    time: 0.15,
+  },
+  // Distance outside a 0-1 range at which the fit drops to zero
+  rangeFalloff: 0.25,
+  // Hue distance (degrees) outside the range at which the fit drops to zero
+  hueFalloffDegrees: 30,
+  // Colors below this HSL saturation have no meaningful hue
+  achromaticThreshold: 0.08,
+  // Share of preferred surfaces that counts as a full geometry match
+  fullSurfaceShare: 0.5,
+  // Score for archetypes with no time preference
+  neutralTimeScore: 0.5,
+  precision: 4,
+};
+
+/**
+ * Per-component affinity breakdown.
+ */
+export interface AffinityBreakdown {
+  palette: number;
+  geometry: number;
+  audio: number;
+  time: number;
+}
+
+/**
+ * Affinity of one archetype for a fingerprint.
+ */
+export interface AffinityScore {
+  archetypeId: string;
+  score: number;  // 0-1
+  breakdown: AffinityBreakdown;
+}
+
+/**
+ * Ranking options.
+ */
+export interface AffinityRankOptions {
+  limit?: number;
+  rarity?: SynthlingArchetype['rarity'];
+  archetypes?: SynthlingArchetype[];  // Defaults to the full registry
+}
+
+/**
+ * Affinity Scorer Service
+ *
+ * Answers "which creatures belong at this place?".
+ */
+export class AffinityScorer {
+  /**
+   * Score one archetype against a fingerprint.
+   */
+  score(archetype: SynthlingArchetype, fingerprint: PlaceFingerprint): AffinityScore {
+    const affinity = archetype.environmentAffinity;
+    const breakdown: AffinityBreakdown = {
+      palette: round(this.scorePalette(affinity, fingerprint)),
+      geometry: round(this.scoreGeometry(affinity, fingerprint)),
+      audio: round(this.scoreAudio(affinity, fingerprint)),
+      time: round(this.scoreTime(affinity, fingerprint)),
+    };
+
+    const { weights } = AFFINITY_CONFIG;
+    const score =
+      breakdown.palette * weights.palette +
+      breakdown.geometry * weights.geometry +
+      breakdown.audio * weights.audio +
+      breakdown.time * weights.time;
+
+    return {
+      archetypeId: archetype.id,
+      score: round(score),
+      breakdown,
+    };
+  }
+
+  /**
+   * Rank archetypes by affinity, best first. Ties are broken by ID so the
+   * order never depends on registry iteration order.
+   */
+  rank(fingerprint: PlaceFingerprint, options: AffinityRankOptions = {}): AffinityScore[] {
+    const candidates = (options.archetypes ?? archetypeRegistry.getAll())
+      .filter((a) => !options.rarity || a.rarity === options.rarity);
+
+    const ranked = candidates
+      .map((a) => this.score(a, fingerprint))
+      .sort((a, b) =>
+        b.score - a.score || (a.archetypeId < b.archetypeId ? -1 : a.archetypeId > b.archetypeId ? 1 : 0)
+      );
+
+    return options.limit !== undefined ? ranked.slice(0, options.limit) : ranked;
+  }
+
+  /**
+   * Palette fit: weighted hue match across palette colors, plus overall
+   * saturation and brightness.
+   */
+  private scorePalette(affinity: EnvironmentAffinity, fingerprint: PlaceFingerprint): number {
+    const { hueRange, saturationRange, brightnessRange } = affinity.preferredPalette;
+    const { colors, saturation, brightness } = fingerprint.palette;
+
+    const totalWeight = colors.reduce((sum, c) => sum + c.weight, 0);
+    let hueFit = 0;
+
+    if (totalWeight > 0) {
+      for (const color of colors) {
+        const hue = hueOf(color);
+        if (hue !== null) {
+          hueFit += (color.weight / totalWeight) * hueRangeFit(hue, hueRange);
+        }
+      }
+    }
+
+    return hueFit * 0.5 + rangeFit(saturation, saturationRange) * 0.25 + rangeFit(brightness, brightnessRange) * 0.25;
+  }
+
+  /**
+   * Geometry fit: share of preferred surfaces and complexity range.
+   */
+  private scoreGeometry(affinity: EnvironmentAffinity, fingerprint: PlaceFingerprint): number {
+    const { surfaceTypes, complexityRange } = affinity.preferredGeometry;
+    const distribution = fingerprint.geometry.surfaceDistribution;
+
+    const share = surfaceTypes.reduce(
+      (sum, type) => sum + (distribution[type as SurfaceType] ?? 0),
+      0
+    );
+    const surfaceFit = Math.min(1, share / AFFINITY_CONFIG.fullSurfaceShare);
+
+    return surfaceFit * 0.6 + rangeFit(fingerprint.geometry.complexity, complexityRange) * 0.4;
+  }
+
+  /**
+   * Audio fit: harmonic and rhythm ranges, equally weighted.
+   */
+  private scoreAudio(affinity: EnvironmentAffinity, fingerprint: PlaceFingerprint): number {
+    const { harmonicRange, rhythmRange } = affinity.preferredAudio;
+
+    return (
+      rangeFit(fingerprint.audio.harmonicRatio, harmonicRange) * 0.5 +
+      rangeFit(fingerprint.audio.rhythmDensity, rhythmRange) * 0.5
+    );
+  }
+
+  /**
+   * Time fit: full match inside the preferred buckets, neutral when the
+   * archetype has no preference.
+   */
+  private scoreTime(affinity: EnvironmentAffinity, fingerprint: PlaceFingerprint): number {
+    if (!affinity.timePreference || affinity.timePreference.length === 0) {
+      return AFFINITY_CONFIG.neutralTimeScore;
+    }
+
+    return affinity.timePreference.includes(fingerprint.locality.timeOfDay) ? 1 : 0;
+  }
+}
+
+/**
+ * Fit of a value to [min, max]: 1 inside, falling linearly to 0 at
+ * rangeFalloff outside.
+ */
+function rangeFit(value: number, [min, max]: [number, number]): number {
+  if (value >= min && value <= max) {
+    return 1;
+  }
+
+  const distance = value < min ? min - value : value - max;
+  return Math.max(0, 1 - distance / AFFINITY_CONFIG.rangeFalloff);
+}
+
+/**
+ * Fit of a hue to a (possibly wrapping) hue range.
+ */
+function hueRangeFit(hue: number, [min, max]: [number, number]): number {
+  const inside = min <= max ? hue >= min && hue <= max : hue >= min || hue <= max;
+  if (inside) {
+    return 1;
+  }
+
+  const distance = Math.min(circularDistance(hue, min), circularDistance(hue, max));
+  return Math.max(0, 1 - distance / AFFINITY_CONFIG.hueFalloffDegrees);
+}
+
+function circularDistance(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+/**
+ * HSL hue of a color in degrees, or null for near-greys.
+ */
+function hueOf(color: PaletteColor): number | null {
+  const r = color.r / 255;
+  const g = color.g / 255;
+  const b = color.b / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  const l = (max + min) / 2;
+  const s = delta === 0 ? 0 : delta / (1 - Math.abs(2 * l - 1));
+
+  if (s < AFFINITY_CONFIG.achromaticThreshold) {
+    return null;
+  }
+
+  let h: number;
+  if (max === r) {
+    h = ((g - b) / delta + (g < b ? 6 : 0)) * 60;
+  } else if (max === g) {
+    h = ((b - r) / delta + 2) * 60;
+  } else {
+    h = ((r - g) / delta + 4) * 60;
+  }
+
+  return h;
+}
+
+function round(value: number): number {
+  const factor = Math.pow(10, AFFINITY_CONFIG.precision);
+  return Math.round(value * factor) / factor;
+}
+
+// Singleton instance
+export const affinityScorer = new AffinityScorer();
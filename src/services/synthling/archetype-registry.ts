@@ -0,0 +1,229 @@
+/**
+ * Archetype Registry - Versioned base archetype definitions.
+ *
+ * Handles:
+ * - Loading archetypes from the bundled data file (data/archetypes.v1.json)
+ * - Schema validation at startup (ranges, enums, evolution links)
+ * - Lookup by ID and rarity
+ *
+ * The bundled data is validated when this module is first imported, so a
+ * malformed data file stops the server before it accepts traffic.
+ *
+ * See specs/synthling-generation/spec.md (FR-1) for full specification.
+ */
+
+import { z } from 'zod';
+import archetypeData from './data/archetypes.v1.json' with { type: 'json' };
+import { createLogger } from '../../utils/logger.js';
+import type { SynthlingArchetype } from '../../types/synthling.js';
+
+const logger = createLogger('archetype-registry');
+
+/**
+ * Data file versions this build understands.
+ */
+const SUPPORTED_DATA_VERSIONS = [1] as const;
+
+type ArchetypeRarity = SynthlingArchetype['rarity'];
+
+const unitRange = z
+  .tuple([z.number().min(0).max(1), z.number().min(0).max(1)])
+  .refine(([min, max]) => min <= max, { message: 'Range min must not exceed max' });
+
+const statValue = z.number().int().min(1).max(255);
+
+const colorSource = z.enum(['primary', 'secondary', 'accent']);
+
+const archetypeSchema = z.object({
+  id: z.string().regex(/^ARCH_\d{3}$/),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  baseStats: z.object({
+    vitality: statValue,
+    power: statValue,
+    resilience: statValue,
+    agility: statValue,
+    focus: statValue,
+  }),
+  environmentAffinity: z.object({
+    preferredPalette: z.object({
+      // Hue ranges may wrap around 0 (e.g. [330, 20] for reds)
+      hueRange: z.tuple([z.number().min(0).max(360), z.number().min(0).max(360)]),
+      saturationRange: unitRange,
+      brightnessRange: unitRange,
+    }),
+    preferredGeometry: z.object({
+      surfaceTypes: z
+        .array(z.enum(['sky', 'vegetation', 'building', 'ground', 'water', 'road', 'unknown']))
+        .min(1),
+      complexityRange: unitRange,
+    }),
+    preferredAudio: z.object({
+      harmonicRange: unitRange,
+      rhythmRange: unitRange,
+    }),
+    timePreference: z
+      .array(z.enum(['dawn', 'morning', 'afternoon', 'evening', 'night']))
+      .min(1)
+      .optional(),
+  }),
+  evolutionChain: z
+    .object({
+      stage: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+      evolvesFrom: z.string().optional(),
+      evolvesTo: z.string().optional(),
+      evolutionRequirements: z
+        .array(
+          z.object({
+            type: z.enum(['level', 'location', 'fingerprint_diversity', 'battle_wins', 'item']),
+            value: z.union([z.number(), z.string()]),
+            description: z.string().min(1),
+          })
+        )
+        .optional(),
+    })
+    .optional(),
+  movePool: z.array(z.string().min(1)).min(1),
+  visualTemplate: z.object({
+    baseModel: z.string().min(1),
+    colorMappings: z.array(z.object({ region: z.string().min(1), source: colorSource })),
+    patternSlots: z.array(z.string()),
+    animationSet: z.string().min(1),
+  }),
+  audioTemplate: z.object({
+    baseVoice: z.string().min(1),
+    pitchRange: z
+      .tuple([z.number().min(0.5).max(2), z.number().min(0.5).max(2)])
+      .refine(([min, max]) => min <= max, { message: 'Range min must not exceed max' }),
+    timbreVariants: z.array(z.string()),
+    rhythmPatterns: z.array(z.string()),
+  }),
+  rarity: z.enum(['common', 'uncommon', 'rare', 'legendary']),
+});
+
+const archetypeFileSchema = z.object({
+  version: z.number().int(),
+  archetypes: z.array(archetypeSchema).min(1),
+});
+
+/**
+ * Archetype Registry
+ *
+ * Immutable, validated view over an archetype data file.
+ */
+export class ArchetypeRegistry {
+  readonly version: number;
+  private archetypes: Map<string, SynthlingArchetype>;
+
+  /**
+   * @param data Parsed contents of an archetype data file
+   * @throws Error if the data fails schema or cross-reference validation
+   */
+  constructor(data: unknown) {
+    const parseResult = archetypeFileSchema.safeParse(data);
+
+    if (!parseResult.success) {
+      logger.error({ issues: parseResult.error.format() }, 'Archetype data failed schema validation');
+      throw new Error('Archetype data validation failed');
+    }
+
+    const { version, archetypes } = parseResult.data;
+
+    if (!(SUPPORTED_DATA_VERSIONS as readonly number[]).includes(version)) {
+      throw new Error(`Unsupported archetype data version: ${version}`);
+    }
+
+    this.version = version;
+    this.archetypes = new Map();
+
+    for (const archetype of archetypes) {
+      if (this.archetypes.has(archetype.id)) {
+        throw new Error(`Duplicate archetype ID: ${archetype.id}`);
+      }
+      this.archetypes.set(archetype.id, archetype);
+    }
+
+    this.validateEvolutionLinks();
+
+    logger.info({ version, count: this.archetypes.size }, 'Archetype registry loaded');
+  }
+
+  /**
+   * Number of archetypes loaded.
+   */
+  get size(): number {
+    return this.archetypes.size;
+  }
+
+  /**
+   * Get archetype by ID.
+   */
+  get(id: string): SynthlingArchetype | undefined {
+    return this.archetypes.get(id);
+  }
+
+  /**
+   * Check whether an archetype exists.
+   */
+  has(id: string): boolean {
+    return this.archetypes.has(id);
+  }
+
+  /**
+   * All archetypes, ordered by ID.
+   */
+  getAll(): SynthlingArchetype[] {
+    return Array.from(this.archetypes.values()).sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+
+  /**
+   * Archetypes of a rarity tier, ordered by ID.
+   */
+  getByRarity(rarity: ArchetypeRarity): SynthlingArchetype[] {
+    return this.getAll().filter((a) => a.rarity === rarity);
+  }
+
+  /**
+   * Ensure evolution chains reference existing archetypes and agree in
+   * both directions (A.evolvesTo = B implies B.evolvesFrom = A, one stage up).
+   */
+  private validateEvolutionLinks(): void {
+    for (const archetype of this.archetypes.values()) {
+      const chain = archetype.evolutionChain;
+      if (!chain) {
+        continue;
+      }
+
+      if (chain.evolvesTo) {
+        const next = this.archetypes.get(chain.evolvesTo);
+        if (!next) {
+          throw new Error(`${archetype.id} evolves to unknown archetype ${chain.evolvesTo}`);
+        }
+        if (next.evolutionChain?.evolvesFrom !== archetype.id) {
+          throw new Error(`${chain.evolvesTo} does not list ${archetype.id} as evolvesFrom`);
+        }
+        if (next.evolutionChain.stage !== chain.stage + 1) {
+          throw new Error(`${chain.evolvesTo} must be stage ${chain.stage + 1}`);
+        }
+        if (!chain.evolutionRequirements || chain.evolutionRequirements.length === 0) {
+          throw new Error(`${archetype.id} evolves but has no evolution requirements`);
+        }
+      }
+
+      if (chain.evolvesFrom) {
+        const previous = this.archetypes.get(chain.evolvesFrom);
+        if (!previous) {
+          throw new Error(`${archetype.id} evolves from unknown archetype ${chain.evolvesFrom}`);
+        }
+        if (previous.evolutionChain?.evolvesTo !== archetype.id) {
+          throw new Error(`${chain.evolvesFrom} does not list ${archetype.id} as evolvesTo`);
+        }
+      } else if (chain.stage !== 1) {
+        throw new Error(`${archetype.id} is stage ${chain.stage} but has no evolvesFrom`);
+      }
+    }
+  }
+}
+
+// Singleton instance (validated on import)
+export const archetypeRegistry = new ArchetypeRegistry(archetypeData);
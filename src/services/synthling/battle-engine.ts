@@ -0,0 +1,641 @@
+/**
+ * Battle Engine - Seedable 3v3 turn-based battle simulation.
+ *
+ * Handles:
+ * - Turn order from effective agility
+ * - Move selection, focus costs and cooldowns
+ * - Accuracy rolls and damage/heal/buff/debuff/status/terrain effects
+ * - Fatigue, fainting and switching in the next squad member
+ * - A complete battle log
+ *
+ * The simulation is pure: every random draw comes from a single
+ * SeededRandom stream, and log timestamps are derived from the start time,
+ * so the same setup (seed and squads) always replays identically.
+ */
+
+import { moveCatalog } from './move-catalog.js';
+import { archetypeRegistry } from './archetype-registry.js';
+import { hashSeed, SeededRandom } from './seeded-random.js';
+import type {
+  Battle,
+  BattleLogEntry,
+  BattleParticipant,
+  BattleTerrain,
+  MoveEffect,
+  StatusEffect,
+  Synthling,
+  SynthlingMove,
+  SynthlingStats,
+} from '../../types/synthling.js';
+
+/**
+ * Battle tuning.
+ */
+const BATTLE_CONFIG = {
+  maxSquadSize: 3,
+  maxTurns: 100,
+  turnDurationMs: 3000,
+  startingFocus: 30,
+  focusPerAction: 15,
+  maxFocus: 100,
+  damageScale: 0.4,
+  damageVariance: 0.15,
+  buffDuration: 3,
+  statusDuration: 3,
+  fatiguePerAction: 3,
+  // Stats lose fatigue / fatiguePenaltyDivisor (50% at 100 fatigue)
+  fatiguePenaltyDivisor: 200,
+  modifierRange: [0.25, 3] as [number, number],
+};
+
+/**
+ * One side of a battle.
+ */
+export interface BattleSide {
+  id: string;
+  userId?: string;
+  squad: Synthling[];
+}
+
+/**
+ * Everything that determines a battle's outcome.
+ */
+export interface BattleSetup {
+  id: string;
+  type: Battle['type'];
+  seed: string;
+  sides: [BattleSide, BattleSide];
+  startedAt: Date;
+  maxTurns?: number;
+}
+
+/**
+ * Mutable state for one simulation run.
+ */
+interface BattleState {
+  rng: SeededRandom;
+  participants: [BattleParticipant, BattleParticipant];
+  // Synthling ID -> move ID -> first turn the move is usable again
+  cooldowns: Map<string, Map<string, number>>;
+  terrain?: BattleTerrain;
+  log: BattleLogEntry[];
+  turn: number;
+  startedAt: Date;
+}
+
+type SideIndex = 0 | 1;
+
+/**
+ * Battle Engine Service
+ */
+export class BattleEngine {
+  /**
+   * Simulate a battle to completion.
+   *
+   * @throws Error if a squad is empty, too large or shares Synthlings
+   */
+  simulate(setup: BattleSetup): Battle {
+    this.validateSetup(setup);
+
+    const state: BattleState = {
+      rng: new SeededRandom(hashSeed(setup.seed, 'battle')),
+      participants: [this.createParticipant(setup.sides[0]), this.createParticipant(setup.sides[1])],
+      cooldowns: new Map(),
+      log: [],
+      turn: 0,
+      startedAt: setup.startedAt,
+    };
+
+    const turnOrder = this.computeTurnOrder(state);
+    const maxTurns = setup.maxTurns ?? BATTLE_CONFIG.maxTurns;
+    let winner = this.getWinner(state);
+
+    while (winner === null && state.turn < maxTurns) {
+      state.turn++;
+      this.runTurn(state);
+      winner = this.getWinner(state);
+    }
+
+    if (winner === null) {
+      winner = this.judgeTimeout(state);
+    }
+
+    for (const participant of state.participants) {
+      for (const synthling of participant.squad) {
+        synthling.condition.statusEffects = [];
+      }
+    }
+
+    return {
+      id: setup.id,
+      type: setup.type,
+      seed: setup.seed,
+      participants: state.participants,
+      currentTurn: state.turn,
+      turnOrder,
+      terrain: state.terrain,
+      status: 'resolved',
+      log: state.log,
+      startedAt: setup.startedAt,
+      resolvedAt: this.timestamp(state),
+      winner: winner === 'draw' ? undefined : state.participants[winner].id,
+    };
+  }
+
+  /**
+   * Effective stat after buffs, debuffs and fatigue.
+   */
+  getEffectiveStat(synthling: Synthling, stat: keyof SynthlingStats): number {
+    let modifier = 1;
+
+    for (const effect of synthling.condition.statusEffects) {
+      if (effect.type === `buff:${stat}`) {
+        modifier += effect.intensity / 100;
+      } else if (effect.type === `debuff:${stat}`) {
+        modifier -= effect.intensity / 100;
+      }
+    }
+
+    const [min, max] = BATTLE_CONFIG.modifierRange;
+    const fatiguePenalty = 1 - synthling.condition.fatigue / BATTLE_CONFIG.fatiguePenaltyDivisor;
+
+    return synthling.stats[stat] * Math.max(min, Math.min(max, modifier)) * fatiguePenalty;
+  }
+
+  /**
+   * Moves a Synthling can use: its known moves, or its archetype's learned
+   * moves if it has none recorded.
+   */
+  getMoves(synthling: Synthling): SynthlingMove[] {
+    if (synthling.moves.length > 0) {
+      return synthling.moves;
+    }
+
+    const archetype = archetypeRegistry.get(synthling.archetypeId);
+    return archetype ? moveCatalog.getLearnedMoves(archetype, synthling.level) : [];
+  }
+
+  private validateSetup(setup: BattleSetup): void {
+    const seen = new Set<string>();
+
+    for (const side of setup.sides) {
+      if (side.squad.length === 0 || side.squad.length > BATTLE_CONFIG.maxSquadSize) {
+        throw new Error(`Squads must have 1-${BATTLE_CONFIG.maxSquadSize} Synthlings`);
+      }
+      for (const synthling of side.squad) {
+        if (seen.has(synthling.id)) {
+          throw new Error(`Synthling ${synthling.id} appears more than once`);
+        }
+        seen.add(synthling.id);
+      }
+    }
+  }
+
+  private createParticipant(side: BattleSide): BattleParticipant {
+    const squad = side.squad.map((synthling) => {
+      const copy = structuredClone(synthling);
+      copy.condition.statusEffects = [];
+      return copy;
+    });
+    const activeIndex = squad.findIndex((s) => s.condition.currentHp > 0);
+
+    return {
+      id: side.id,
+      userId: side.userId,
+      squad,
+      activeIndex: activeIndex === -1 ? squad.length : activeIndex,
+      focusMeter: BATTLE_CONFIG.startingFocus,
+    };
+  }
+
+  /**
+   * All Synthlings by agility, fastest first. Ties are broken by the seed.
+   */
+  private computeTurnOrder(state: BattleState): string[] {
+    const entries = state.participants.flatMap((p) =>
+      p.squad.map((s) => ({ id: s.id, agility: s.stats.agility, tiebreak: state.rng.next() }))
+    );
+
+    return entries
+      .sort((a, b) => b.agility - a.agility || a.tiebreak - b.tiebreak)
+      .map((e) => e.id);
+  }
+
+  private runTurn(state: BattleState): void {
+    const actors = ([0, 1] as SideIndex[]).map((side) => ({
+      side,
+      synthling: this.getActive(state, side),
+      agility: 0,
+      tiebreak: state.rng.next(),
+    }));
+
+    for (const actor of actors) {
+      actor.agility = actor.synthling ? this.getEffectiveStat(actor.synthling, 'agility') : 0;
+    }
+
+    actors.sort((a, b) => b.agility - a.agility || a.tiebreak - b.tiebreak);
+
+    for (const actor of actors) {
+      // Fainted (or replaced) earlier this turn
+      if (!actor.synthling || this.getActive(state, actor.side) !== actor.synthling) {
+        continue;
+      }
+
+      this.takeAction(state, actor.side, actor.synthling);
+
+      if (this.getWinner(state) !== null) {
+        return;
+      }
+    }
+
+    this.endTurn(state);
+  }
+
+  private takeAction(state: BattleState, side: SideIndex, actor: Synthling): void {
+    const participant = state.participants[side];
+    const foeSide: SideIndex = side === 0 ? 1 : 0;
+    const foe = this.getActive(state, foeSide);
+
+    const stun = actor.condition.statusEffects.find((e) => e.type === 'stun');
+    if (stun) {
+      actor.condition.statusEffects = actor.condition.statusEffects.filter((e) => e !== stun);
+      this.addLog(state, { action: 'stunned', actor: actor.id, result: 'Stunned and cannot act' });
+      return;
+    }
+
+    participant.focusMeter = Math.min(BATTLE_CONFIG.maxFocus, participant.focusMeter + BATTLE_CONFIG.focusPerAction);
+
+    const move = this.chooseMove(state, actor, foe, participant.focusMeter);
+    participant.focusMeter -= move.focusCost;
+
+    if (move.cooldown > 0) {
+      // Unusable for the next `cooldown` turns
+      this.getCooldowns(state, actor.id).set(move.id, state.turn + move.cooldown + 1);
+    }
+
+    actor.condition.fatigue = Math.min(
+      100,
+      actor.condition.fatigue + BATTLE_CONFIG.fatiguePerAction + Math.floor(move.focusCost / 10)
+    );
+
+    const targetsFoe = move.effects.some((e) => e.target === 'enemy' || e.target === 'all_enemies');
+
+    if (targetsFoe && foe && state.rng.next() * 100 >= move.accuracy) {
+      this.addLog(state, {
+        action: move.id,
+        actor: actor.id,
+        target: foe.id,
+        result: 'miss',
+      });
+      return;
+    }
+
+    for (const effect of move.effects) {
+      if (effect.chance !== undefined && state.rng.next() * 100 >= effect.chance) {
+        continue;
+      }
+
+      const target = effect.target === 'self' || effect.target === 'all_allies' ? actor : foe;
+      this.applyEffect(state, move, effect, actor, target);
+    }
+
+    this.resolveFaints(state);
+  }
+
+  private applyEffect(
+    state: BattleState,
+    move: SynthlingMove,
+    effect: MoveEffect,
+    actor: Synthling,
+    target: Synthling | null
+  ): void {
+    switch (effect.type) {
+      case 'damage': {
+        if (!target) {
+          return;
+        }
+        const damage = this.computeDamage(state, move, effect.value, actor, target);
+        target.condition.currentHp = Math.max(0, target.condition.currentHp - damage);
+        this.addLog(state, { action: move.id, actor: actor.id, target: target.id, result: 'hit', damage });
+        return;
+      }
+
+      case 'heal': {
+        if (!target) {
+          return;
+        }
+        const healed = this.heal(target, effect.value);
+        this.addLog(state, { action: move.id, actor: actor.id, target: target.id, result: `healed ${healed}` });
+        return;
+      }
+
+      case 'buff':
+      case 'debuff': {
+        if (!target || !effect.stat) {
+          return;
+        }
+        this.addModifier(target, `${effect.type}:${effect.stat}`, effect.value, BATTLE_CONFIG.buffDuration);
+        this.addLog(state, {
+          action: move.id,
+          actor: actor.id,
+          target: target.id,
+          result: `${effect.stat} ${effect.type === 'buff' ? '+' : '-'}${effect.value}%`,
+        });
+        return;
+      }
+
+      case 'status': {
+        if (!target || !effect.status) {
+          return;
+        }
+        if (target.condition.statusEffects.some((e) => e.type === effect.status)) {
+          return;
+        }
+        const duration = effect.status === 'stun' ? effect.value : BATTLE_CONFIG.statusDuration;
+        target.condition.statusEffects.push({ type: effect.status, duration, intensity: effect.value });
+        this.addLog(state, { action: move.id, actor: actor.id, target: target.id, result: effect.status });
+        return;
+      }
+
+      case 'terrain': {
+        if (!effect.terrain) {
+          return;
+        }
+        const terrain = moveCatalog.createTerrain(effect.terrain, effect.value);
+        if (terrain) {
+          state.terrain = terrain;
+          this.addLog(state, { action: move.id, actor: actor.id, result: `terrain ${terrain.type}` });
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * End of turn: status ticks and terrain.
+   */
+  private endTurn(state: BattleState): void {
+    const actives = ([0, 1] as SideIndex[])
+      .map((side) => this.getActive(state, side))
+      .filter((s): s is Synthling => s !== null);
+
+    for (const synthling of actives) {
+      const burn = synthling.condition.statusEffects.find((e) => e.type === 'burn');
+      if (burn) {
+        const damage = Math.max(1, Math.round(synthling.condition.maxHp * burn.intensity / 100));
+        synthling.condition.currentHp = Math.max(0, synthling.condition.currentHp - damage);
+        this.addLog(state, { action: 'burn', actor: synthling.id, result: 'burned', damage });
+      }
+
+      synthling.condition.statusEffects = synthling.condition.statusEffects
+        .map((e) => ({ ...e, duration: e.duration - 1 }))
+        .filter((e) => e.duration > 0);
+    }
+
+    if (state.terrain) {
+      for (const synthling of actives) {
+        for (const effect of state.terrain.effects) {
+          this.applyTerrainEffect(state, effect, synthling);
+        }
+      }
+
+      state.terrain.duration--;
+      if (state.terrain.duration <= 0) {
+        this.addLog(state, { action: 'terrain_end', actor: 'field', result: `${state.terrain.type} faded` });
+        state.terrain = undefined;
+      }
+    }
+
+    this.resolveFaints(state);
+  }
+
+  private applyTerrainEffect(state: BattleState, effect: MoveEffect, synthling: Synthling): void {
+    const terrain = state.terrain?.type ?? 'field';
+
+    switch (effect.type) {
+      case 'damage': {
+        const damage = Math.max(1, Math.round(synthling.condition.maxHp * effect.value / 100));
+        synthling.condition.currentHp = Math.max(0, synthling.condition.currentHp - damage);
+        this.addLog(state, { action: `terrain:${terrain}`, actor: synthling.id, result: 'hurt', damage });
+        return;
+      }
+      case 'heal': {
+        const healed = this.heal(synthling, effect.value);
+        this.addLog(state, { action: `terrain:${terrain}`, actor: synthling.id, result: `healed ${healed}` });
+        return;
+      }
+      case 'buff':
+      case 'debuff':
+        // Lasts until the next end of turn, so it lapses with the terrain
+        if (effect.stat) {
+          this.addModifier(synthling, `${effect.type}:${effect.stat}`, effect.value, 1);
+        }
+        return;
+      default:
+        return;
+    }
+  }
+
+  /**
+   * Pick the usable move with the best expected value. Deterministic;
+   * ties go to the earlier move.
+   */
+  private chooseMove(
+    state: BattleState,
+    actor: Synthling,
+    foe: Synthling | null,
+    focus: number
+  ): SynthlingMove {
+    const cooldowns = this.getCooldowns(state, actor.id);
+    const usable = this.getMoves(actor).filter(
+      (move) => move.focusCost <= focus && (cooldowns.get(move.id) ?? 0) <= state.turn
+    );
+
+    let best: SynthlingMove | null = null;
+    let bestScore = 0;
+
+    for (const move of usable) {
+      const score = this.scoreMove(state, move, actor, foe);
+      if (score > bestScore) {
+        best = move;
+        bestScore = score;
+      }
+    }
+
+    return best ?? this.fallbackMove();
+  }
+
+  private scoreMove(
+    state: BattleState,
+    move: SynthlingMove,
+    actor: Synthling,
+    foe: Synthling | null
+  ): number {
+    const hpFraction = actor.condition.currentHp / Math.max(1, actor.condition.maxHp);
+    let score = 0;
+
+    for (const effect of move.effects) {
+      const chance = (effect.chance ?? 100) / 100;
+      const target = effect.target === 'self' || effect.target === 'all_allies' ? actor : foe;
+
+      switch (effect.type) {
+        case 'damage':
+          score += foe ? effect.value * (move.accuracy / 100) : 0;
+          break;
+        case 'heal':
+          score += hpFraction < 0.5 ? effect.value * 3 : 0;
+          break;
+        case 'buff':
+        case 'debuff':
+          if (target && !target.condition.statusEffects.some((e) => e.type === `${effect.type}:${effect.stat}`)) {
+            score += effect.value * chance * (effect.type === 'debuff' && target === actor ? -1 : 1);
+          }
+          break;
+        case 'status':
+          if (target && !target.condition.statusEffects.some((e) => e.type === effect.status)) {
+            score += 20 * chance;
+          }
+          break;
+        case 'terrain':
+          score += state.terrain ? 0 : 25;
+          break;
+      }
+    }
+
+    return score;
+  }
+
+  private fallbackMove(): SynthlingMove {
+    const tackle = moveCatalog.get('tackle');
+    if (!tackle) {
+      throw new Error('Move catalog is missing tackle');
+    }
+    return tackle;
+  }
+
+  private computeDamage(
+    state: BattleState,
+    move: SynthlingMove,
+    power: number,
+    attacker: Synthling,
+    defender: Synthling
+  ): number {
+    const attack = this.getEffectiveStat(attacker, move.type === 'special' ? 'focus' : 'power');
+    const defense = Math.max(1, this.getEffectiveStat(defender, 'resilience'));
+    const variance = 1 - BATTLE_CONFIG.damageVariance + state.rng.next() * BATTLE_CONFIG.damageVariance;
+
+    return Math.max(1, Math.round(power * (attack / defense) * BATTLE_CONFIG.damageScale * variance));
+  }
+
+  private heal(synthling: Synthling, percent: number): number {
+    const before = synthling.condition.currentHp;
+    synthling.condition.currentHp = Math.min(
+      synthling.condition.maxHp,
+      before + Math.round(synthling.condition.maxHp * percent / 100)
+    );
+    return synthling.condition.currentHp - before;
+  }
+
+  /**
+   * Add a buff/debuff, refreshing an existing one of the same kind.
+   */
+  private addModifier(synthling: Synthling, type: string, intensity: number, duration: number): void {
+    const existing = synthling.condition.statusEffects.find((e: StatusEffect) => e.type === type);
+
+    if (existing) {
+      existing.intensity = Math.max(existing.intensity, intensity);
+      existing.duration = Math.max(existing.duration, duration);
+    } else {
+      synthling.condition.statusEffects.push({ type, duration, intensity });
+    }
+  }
+
+  /**
+   * Replace fainted active Synthlings with the next healthy squad member.
+   */
+  private resolveFaints(state: BattleState): void {
+    for (const participant of state.participants) {
+      const active = participant.squad[participant.activeIndex];
+
+      if (!active || active.condition.currentHp > 0) {
+        continue;
+      }
+
+      active.condition.statusEffects = [];
+      this.addLog(state, { action: 'faint', actor: active.id, result: 'fainted' });
+
+      const next = participant.squad.findIndex(
+        (s, i) => i > participant.activeIndex && s.condition.currentHp > 0
+      );
+      participant.activeIndex = next === -1 ? participant.squad.length : next;
+
+      const replacement = participant.squad[participant.activeIndex];
+      if (replacement) {
+        this.addLog(state, { action: 'switch', actor: replacement.id, result: 'entered battle' });
+      }
+    }
+  }
+
+  private getActive(state: BattleState, side: SideIndex): Synthling | null {
+    const participant = state.participants[side];
+    return participant.squad[participant.activeIndex] ?? null;
+  }
+
+  private getCooldowns(state: BattleState, synthlingId: string): Map<string, number> {
+    let cooldowns = state.cooldowns.get(synthlingId);
+    if (!cooldowns) {
+      cooldowns = new Map();
+      state.cooldowns.set(synthlingId, cooldowns);
+    }
+    return cooldowns;
+  }
+
+  /**
+   * Winning side once the other has no Synthlings left, 'draw' if
+   * neither has, null while the battle continues.
+   */
+  private getWinner(state: BattleState): SideIndex | 'draw' | null {
+    const alive = [this.getActive(state, 0) !== null, this.getActive(state, 1) !== null];
+
+    if (alive[0] && alive[1]) {
+      return null;
+    }
+    if (alive[0]) {
+      return 0;
+    }
+    if (alive[1]) {
+      return 1;
+    }
+    return 'draw';
+  }
+
+  /**
+   * Turn limit reached: the side with more remaining HP (as a share of
+   * squad max HP) wins.
+   */
+  private judgeTimeout(state: BattleState): SideIndex | 'draw' {
+    const [a, b] = state.participants.map((p) => {
+      const current = p.squad.reduce((sum, s) => sum + s.condition.currentHp, 0);
+      const max = p.squad.reduce((sum, s) => sum + s.condition.maxHp, 0);
+      return max > 0 ? current / max : 0;
+    }) as [number, number];
+
+    this.addLog(state, { action: 'timeout', actor: 'field', result: 'turn limit reached' });
+
+    if (a === b) {
+      return 'draw';
+    }
+    return a > b ? 0 : 1;
+  }
+
+  private addLog(state: BattleState, entry: Omit<BattleLogEntry, 'turn' | 'timestamp'>): void {
+    state.log.push({ turn: state.turn, ...entry, timestamp: this.timestamp(state) });
+  }
+
+  private timestamp(state: BattleState): Date {
+    return new Date(state.startedAt.getTime() + state.turn * BATTLE_CONFIG.turnDurationMs);
+  }
+}
+
+// Singleton instance
+export const battleEngine = new BattleEngine();
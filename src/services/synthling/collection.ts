@@ -0,0 +1,415 @@
+/**
+ * Synthling Collection - Persistence for captured Synthlings.
+ *
+ * Handles:
+ * - Storing newly captured Synthlings
+ * - Paginated listing filtered by archetype, rarity and capture cell
+ * - Nicknames
+ * - Loading raid squads and crew defenders
+ * - Collection stats
+ *
+ * See specs/synthling-generation/spec.md for full specification.
+ */
+
+import type pg from 'pg';
+import { query } from '../../db/connection.js';
+import { createLogger } from '../../utils/logger.js';
+import type {
+  Synthling,
+  SynthlingArchetype,
+  SynthlingImprint,
+  SynthlingStats,
+  SynthlingMove,
+  SynthlingCondition,
+  EvolutionRecord,
+  CollectionStats,
+} from '../../types/synthling.js';
+import type { PlaceFingerprint } from '../../types/fingerprint.js';
+
+const logger = createLogger('synthling-collection');
+
+/**
+ * Listing limits.
+ */
+const COLLECTION_CONFIG = {
+  defaultLimit: 50,
+  maxLimit: 100,
+};
+
+/**
+ * Filters and pagination for collection listing.
+ */
+export interface CollectionFilter {
+  archetypeId?: string;
+  rarity?: SynthlingArchetype['rarity'];
+  cellH3?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface CollectionPage {
+  synthlings: Synthling[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Synthling row as stored in the synthlings table.
+ */
+interface SynthlingRow {
+  id: string;
+  owner_id: string;
+  archetype_id: string;
+  nickname: string | null;
+  imprint: SynthlingImprint;
+  stats: SynthlingStats;
+  level: number;
+  experience: number;
+  moves: SynthlingMove[];
+  condition: SynthlingCondition;
+  captured_at: Date;
+  captured_at_cell: string;
+  captured_fingerprint: PlaceFingerprint;
+}
+
+/**
+ * Evolution row as stored in the synthling_evolutions table.
+ */
+interface EvolutionRow {
+  synthling_id: string;
+  from_archetype: string;
+  to_archetype: string;
+  evolved_at: Date;
+  trigger_fingerprint: PlaceFingerprint | null;
+  location_cell: string;
+}
+
+const SYNTHLING_COLUMNS = `id, owner_id, archetype_id, nickname, imprint, stats, level, experience,
+  moves, condition, captured_at, captured_at_cell, captured_fingerprint`;
+
+/**
+ * Synthling Collection Service
+ */
+export class SynthlingCollection {
+  /**
+   * Store a newly captured Synthling.
+   *
+   * @param client Optional transaction client
+   */
+  async create(
+    synthling: Synthling,
+    rarity: SynthlingArchetype['rarity'],
+    spawnId: string | null,
+    client?: pg.PoolClient
+  ): Promise<void> {
+    const text = `INSERT INTO synthlings (
+        id, owner_id, archetype_id, nickname, rarity,
+        imprint, stats, level, experience, moves, condition,
+        spawn_id, captured_at, captured_at_cell, captured_fingerprint
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`;
+    const params = [
+      synthling.id,
+      synthling.ownerId,
+      synthling.archetypeId,
+      synthling.nickname ?? null,
+      rarity,
+      JSON.stringify(synthling.imprint),
+      JSON.stringify(synthling.stats),
+      synthling.level,
+      synthling.experience,
+      JSON.stringify(synthling.moves),
+      JSON.stringify(synthling.condition),
+      spawnId,
+      synthling.capturedAt,
+      synthling.capturedAtCell,
+      JSON.stringify(synthling.capturedFingerprint),
+    ];
+
+    if (client) {
+      await client.query(text, params);
+    } else {
+      await query(text, params);
+    }
+
+    logger.debug({ synthlingId: synthling.id, ownerId: synthling.ownerId }, 'Synthling stored');
+  }
+
+  /**
+   * Get a Synthling by ID, with its evolution history.
+   */
+  async getSynthling(id: string): Promise<Synthling | null> {
+    const result = await query<SynthlingRow>(
+      `SELECT ${SYNTHLING_COLUMNS} FROM synthlings WHERE id = $1`,
+      [id]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const history = await this.getEvolutionHistory([row.id]);
+    return this.mapRow(row, history.get(row.id) ?? []);
+  }
+
+  /**
+   * Get a Synthling owned by a user.
+   */
+  async getOwnedSynthling(ownerId: string, id: string): Promise<Synthling | null> {
+    const synthling = await this.getSynthling(id);
+    return synthling && synthling.ownerId === ownerId ? synthling : null;
+  }
+
+  /**
+   * Get a user's Synthlings by ID, in the order given. IDs the user does
+   * not own are left out.
+   */
+  async getOwnedSquad(ownerId: string, ids: string[]): Promise<Synthling[]> {
+    const result = await query<SynthlingRow>(
+      `SELECT ${SYNTHLING_COLUMNS} FROM synthlings WHERE owner_id = $1 AND id = ANY($2)`,
+      [ownerId, ids]
+    );
+
+    return this.mapSquad(result.rows, ids);
+  }
+
+  /**
+   * Get Synthlings by ID, in the order given. Missing IDs are left out.
+   * With a client, locks them for the caller's transaction.
+   */
+  async getSquad(ids: string[], client?: pg.PoolClient): Promise<Synthling[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const run = client ? client.query.bind(client) : query;
+    const result = await run<SynthlingRow>(
+      `SELECT ${SYNTHLING_COLUMNS} FROM synthlings WHERE id = ANY($1)
+       ${client ? 'FOR UPDATE' : ''}`,
+      [ids]
+    );
+
+    return this.mapSquad(result.rows, ids);
+  }
+
+  /**
+   * A crew's strongest healthy Synthlings, highest level first.
+   * Synthlings owned by `preferredOwnerId` (e.g. an outpost's owner) come
+   * before the rest of the crew's.
+   */
+  async getCrewDefenders(crewId: string, preferredOwnerId: string | null, limit: number): Promise<Synthling[]> {
+    const result = await query<SynthlingRow>(
+      `SELECT ${SYNTHLING_COLUMNS} FROM synthlings
+       WHERE owner_id IN (SELECT id FROM users WHERE crew_id = $1)
+         AND (condition->>'currentHp')::int > 0
+       ORDER BY (owner_id = $2) DESC, level DESC, captured_at ASC, id
+       LIMIT $3`,
+      [crewId, preferredOwnerId, limit]
+    );
+
+    const history = await this.getEvolutionHistory(result.rows.map((r) => r.id));
+    return result.rows.map((row) => this.mapRow(row, history.get(row.id) ?? []));
+  }
+
+  /**
+   * List a user's Synthlings, newest capture first.
+   */
+  async list(ownerId: string, filter: CollectionFilter = {}): Promise<CollectionPage> {
+    const limit = Math.min(
+      Math.max(1, filter.limit ?? COLLECTION_CONFIG.defaultLimit),
+      COLLECTION_CONFIG.maxLimit
+    );
+    const offset = Math.max(0, filter.offset ?? 0);
+
+    const conditions = ['owner_id = $1'];
+    const params: unknown[] = [ownerId];
+
+    if (filter.archetypeId) {
+      params.push(filter.archetypeId);
+      conditions.push(`archetype_id = $${params.length}`);
+    }
+    if (filter.rarity) {
+      params.push(filter.rarity);
+      conditions.push(`rarity = $${params.length}`);
+    }
+    if (filter.cellH3) {
+      params.push(filter.cellH3);
+      conditions.push(`captured_at_cell = $${params.length}`);
+    }
+
+    const where = conditions.join(' AND ');
+
+    const [rowsResult, countResult] = await Promise.all([
+      query<SynthlingRow>(
+        `SELECT ${SYNTHLING_COLUMNS} FROM synthlings
+         WHERE ${where}
+         ORDER BY captured_at DESC, id
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      query<{ total: string }>(
+        `SELECT COUNT(*) AS total FROM synthlings WHERE ${where}`,
+        params
+      ),
+    ]);
+
+    const history = await this.getEvolutionHistory(rowsResult.rows.map((r) => r.id));
+
+    return {
+      synthlings: rowsResult.rows.map((row) => this.mapRow(row, history.get(row.id) ?? [])),
+      total: parseInt(countResult.rows[0]?.total ?? '0', 10),
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Set or clear (null) a Synthling's nickname.
+   *
+   * @returns Updated Synthling, or null if the user does not own it
+   */
+  async setNickname(ownerId: string, id: string, nickname: string | null): Promise<Synthling | null> {
+    const result = await query(
+      `UPDATE synthlings SET nickname = $3 WHERE id = $1 AND owner_id = $2`,
+      [id, ownerId, nickname]
+    );
+
+    if (result.rowCount === 0) {
+      return null;
+    }
+
+    logger.debug({ synthlingId: id, ownerId }, 'Nickname updated');
+
+    return this.getSynthling(id);
+  }
+
+  /**
+   * Compute collection stats for a user.
+   */
+  async getStats(userId: string): Promise<CollectionStats> {
+    const [totalsResult, evolutionsResult, favoriteResult, rarestResult] = await Promise.all([
+      query<{ total: string; unique_archetypes: string; battles_won: string | null }>(
+        `SELECT COUNT(*) AS total,
+                COUNT(DISTINCT archetype_id) AS unique_archetypes,
+                SUM(battle_wins) AS battles_won
+         FROM synthlings WHERE owner_id = $1`,
+        [userId]
+      ),
+      query<{ total: string }>(
+        `SELECT COUNT(*) AS total
+         FROM synthling_evolutions e
+         JOIN synthlings s ON s.id = e.synthling_id
+         WHERE s.owner_id = $1`,
+        [userId]
+      ),
+      query<{ archetype_id: string }>(
+        `SELECT archetype_id FROM synthlings
+         WHERE owner_id = $1
+         GROUP BY archetype_id
+         ORDER BY COUNT(*) DESC, archetype_id
+         LIMIT 1`,
+        [userId]
+      ),
+      // synthling_rarity enum sorts common < uncommon < rare < legendary
+      query<{ id: string; rarity: string; captured_at: Date }>(
+        `SELECT id, rarity, captured_at FROM synthlings
+         WHERE owner_id = $1
+         ORDER BY rarity DESC, captured_at ASC, id
+         LIMIT 1`,
+        [userId]
+      ),
+    ]);
+
+    const totals = totalsResult.rows[0];
+    const favorite = favoriteResult.rows[0];
+    const rarest = rarestResult.rows[0];
+
+    return {
+      userId,
+      totalCaptured: parseInt(totals?.total ?? '0', 10),
+      uniqueArchetypes: parseInt(totals?.unique_archetypes ?? '0', 10),
+      evolutionsCompleted: parseInt(evolutionsResult.rows[0]?.total ?? '0', 10),
+      battlesWon: parseInt(totals?.battles_won ?? '0', 10),
+      favoriteArchetype: favorite?.archetype_id,
+      rarestCapture: rarest
+        ? { synthlingId: rarest.id, rarity: rarest.rarity, capturedAt: rarest.captured_at }
+        : undefined,
+    };
+  }
+
+  /**
+   * Evolution history for a set of Synthlings, oldest first.
+   */
+  private async getEvolutionHistory(synthlingIds: string[]): Promise<Map<string, EvolutionRecord[]>> {
+    const history = new Map<string, EvolutionRecord[]>();
+
+    if (synthlingIds.length === 0) {
+      return history;
+    }
+
+    const result = await query<EvolutionRow>(
+      `SELECT synthling_id, from_archetype, to_archetype, evolved_at, trigger_fingerprint, location_cell
+       FROM synthling_evolutions
+       WHERE synthling_id = ANY($1)
+       ORDER BY evolved_at ASC`,
+      [synthlingIds]
+    );
+
+    for (const row of result.rows) {
+      const records = history.get(row.synthling_id) ?? [];
+      records.push({
+        fromArchetype: row.from_archetype,
+        toArchetype: row.to_archetype,
+        evolvedAt: row.evolved_at,
+        triggerFingerprint: row.trigger_fingerprint
+          ? { ...row.trigger_fingerprint, capturedAt: new Date(row.trigger_fingerprint.capturedAt) }
+          : undefined,
+        locationCell: row.location_cell,
+      });
+      history.set(row.synthling_id, records);
+    }
+
+    return history;
+  }
+
+  /**
+   * Map rows to Synthlings in the order of `ids`.
+   */
+  private async mapSquad(rows: SynthlingRow[], ids: string[]): Promise<Synthling[]> {
+    const history = await this.getEvolutionHistory(rows.map((r) => r.id));
+    const byId = new Map(rows.map((row) => [row.id, this.mapRow(row, history.get(row.id) ?? [])]));
+
+    return ids
+      .map((id) => byId.get(id))
+      .filter((synthling): synthling is Synthling => synthling !== undefined);
+  }
+
+  /**
+   * Map a database row to a Synthling.
+   */
+  private mapRow(row: SynthlingRow, evolutionHistory: EvolutionRecord[]): Synthling {
+    return {
+      id: row.id,
+      archetypeId: row.archetype_id,
+      ownerId: row.owner_id,
+      nickname: row.nickname ?? undefined,
+      imprint: row.imprint,
+      stats: row.stats,
+      level: row.level,
+      experience: row.experience,
+      moves: row.moves,
+      condition: row.condition,
+      capturedAt: row.captured_at,
+      capturedAtCell: row.captured_at_cell,
+      capturedFingerprint: {
+        ...row.captured_fingerprint,
+        capturedAt: new Date(row.captured_fingerprint.capturedAt),
+      },
+      evolutionHistory,
+    };
+  }
+}
+
+// Singleton instance
+export const synthlingCollection = new SynthlingCollection();
@@ -0,0 +1,450 @@
+/**
+ * Encounter Manager - Wild Synthling encounters and capture.
+ *
+ * Handles:
+ * - Starting an encounter with a spawn in the player's cell
+ * - Capture attempts (rarity-based chance, improved by weakening)
+ * - Abandoning encounters
+ * - Persisting captured Synthlings, awarding capture influence and
+ *   advancing capture contracts
+ *
+ * Capture rolls are seeded from the encounter ID and attempt number, so a
+ * retried request cannot re-roll a failed attempt.
+ *
+ * See specs/synthling-generation/spec.md for full specification.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type pg from 'pg';
+import { query, transaction } from '../../db/connection.js';
+import { influenceManager } from '../turf/influence-manager.js';
+import { contractManager } from '../turf/contract-manager.js';
+import { archetypeRegistry } from './archetype-registry.js';
+import { synthlingGenerator } from './generator.js';
+import { spawnEngine } from './spawn-engine.js';
+import { moveCatalog } from './move-catalog.js';
+import { synthlingCollection } from './collection.js';
+import { hashSeed, getWeeklySalt, SeededRandom } from './seeded-random.js';
+import { createLogger } from '../../utils/logger.js';
+import type {
+  Synthling,
+  SynthlingEncounter,
+  SynthlingSpawn,
+  SynthlingStats,
+} from '../../types/synthling.js';
+
+const logger = createLogger('encounter-manager');
+
+type Rarity = SynthlingSpawn['rarity'];
+
+/**
+ * Capture tuning.
+ */
+const CAPTURE_CONFIG = {
+  baseChance: {
+    common: 0.60,
+    uncommon: 0.40,
+    rare: 0.25,
+    legendary: 0.10,
+  } as Record<Rarity, number>,
+  maxAttempts: 3,
+  // Each failed attempt weakens the Synthling (0-100)
+  weakenPerAttempt: 20,
+  // Capture chance added at full weakenProgress
+  maxWeakenBonus: 0.35,
+  // Stat growth per level above 1
+  statGrowthPerLevel: 0.05,
+};
+
+/**
+ * Outcome of a capture attempt.
+ * - captured: Synthling added to the player's collection
+ * - escaped:  attempt failed, encounter still active
+ * - fled:     out of attempts or the spawn expired
+ */
+export type CaptureOutcome = 'captured' | 'escaped' | 'fled';
+
+export interface CaptureResult {
+  outcome: CaptureOutcome;
+  encounter: SynthlingEncounter;
+  synthling?: Synthling;
+  influenceAwarded: number;
+}
+
+/**
+ * Encounter row as stored in the synthling_encounters table.
+ */
+interface EncounterRow {
+  id: string;
+  spawn_id: string;
+  user_id: string;
+  cell_h3: string;
+  status: SynthlingEncounter['status'];
+  synthling: Synthling;
+  spawn_expires_at: Date;
+  capture_attempts: number;
+  weaken_progress: number;
+  started_at: Date;
+  ended_at: Date | null;
+}
+
+/**
+ * Encounter Manager Service
+ */
+export class EncounterManager {
+  /**
+   * Start an encounter with a spawn in the player's current cell.
+   *
+   * Starting again on the same spawn returns the active encounter.
+   */
+  async startEncounter(
+    userId: string,
+    spawnId: string,
+    cellH3: string,
+    now: Date = new Date()
+  ): Promise<SynthlingEncounter> {
+    const spawn = await spawnEngine.getSpawn(spawnId, cellH3, now);
+    if (!spawn) {
+      throw new Error('Spawn not found in current cell');
+    }
+
+    const existing = await query<EncounterRow>(
+      `SELECT * FROM synthling_encounters WHERE spawn_id = $1 AND user_id = $2`,
+      [spawnId, userId]
+    );
+
+    const existingRow = existing.rows[0];
+    if (existingRow) {
+      if (existingRow.status !== 'active') {
+        throw new Error('Spawn already encountered');
+      }
+      return this.mapRow(existingRow);
+    }
+
+    const synthling = this.buildWildSynthling(spawn, userId);
+    const id = uuid();
+
+    await query(
+      `INSERT INTO synthling_encounters (
+        id, spawn_id, user_id, cell_h3, status, synthling, spawn_expires_at, started_at
+      ) VALUES ($1, $2, $3, $4, 'active', $5, $6, $7)`,
+      [id, spawnId, userId, cellH3, JSON.stringify(synthling), spawn.expiresAt, now]
+    );
+
+    logger.info({ encounterId: id, userId, spawnId, archetypeId: spawn.archetypeId }, 'Encounter started');
+
+    return {
+      id,
+      spawnId,
+      userId,
+      synthling,
+      status: 'active',
+      startedAt: now,
+      captureAttempts: 0,
+      weakenProgress: 0,
+    };
+  }
+
+  /**
+   * Attempt to capture the Synthling in an active encounter.
+   */
+  async attemptCapture(
+    userId: string,
+    encounterId: string,
+    cellH3: string,
+    now: Date = new Date()
+  ): Promise<CaptureResult> {
+    const result = await transaction(async (client) => {
+      const row = await this.lockEncounter(client, encounterId, userId, cellH3);
+
+      if (now >= row.spawn_expires_at) {
+        const encounter = await this.endEncounter(client, row, 'fled', now);
+        return { outcome: 'fled' as const, encounter, rarity: null };
+      }
+
+      const wild = row.synthling;
+      const archetype = archetypeRegistry.get(wild.archetypeId);
+      if (!archetype) {
+        throw new Error(`Unknown archetype: ${wild.archetypeId}`);
+      }
+
+      const attempt = row.capture_attempts + 1;
+      const chance = this.getCaptureChance(archetype.rarity, row.weaken_progress);
+      const roll = new SeededRandom(hashSeed(encounterId, 'capture', attempt)).next();
+
+      if (roll < chance) {
+        const synthling: Synthling = {
+          ...wild,
+          ownerId: userId,
+          capturedAt: now,
+          capturedAtCell: row.cell_h3,
+        };
+
+        await synthlingCollection.create(synthling, archetype.rarity, row.spawn_id, client);
+
+        await client.query(
+          `UPDATE synthling_encounters
+           SET status = 'captured', capture_attempts = $2, captured_synthling_id = $3, ended_at = $4
+           WHERE id = $1`,
+          [encounterId, attempt, synthling.id, now]
+        );
+
+        const encounter = {
+          ...this.mapRow(row),
+          synthling,
+          status: 'captured' as const,
+          captureAttempts: attempt,
+          endedAt: now,
+        };
+        return { outcome: 'captured' as const, encounter, rarity: archetype.rarity };
+      }
+
+      const weakenProgress = Math.min(100, row.weaken_progress + CAPTURE_CONFIG.weakenPerAttempt);
+
+      if (attempt >= CAPTURE_CONFIG.maxAttempts) {
+        const encounter = await this.endEncounter(
+          client,
+          { ...row, capture_attempts: attempt, weaken_progress: weakenProgress },
+          'fled',
+          now
+        );
+        return { outcome: 'fled' as const, encounter, rarity: null };
+      }
+
+      await client.query(
+        `UPDATE synthling_encounters
+         SET capture_attempts = $2, weaken_progress = $3
+         WHERE id = $1`,
+        [encounterId, attempt, weakenProgress]
+      );
+
+      const encounter = {
+        ...this.mapRow(row),
+        captureAttempts: attempt,
+        weakenProgress,
+      };
+      return { outcome: 'escaped' as const, encounter, rarity: null };
+    });
+
+    let influenceAwarded = 0;
+
+    if (result.outcome === 'captured') {
+      influenceAwarded = await this.awardCaptureInfluence(userId, cellH3);
+      await contractManager.recordProgress(userId, 'synthling_capture', cellH3);
+
+      logger.info(
+        { encounterId, userId, synthlingId: result.encounter.synthling.id, rarity: result.rarity },
+        'Synthling captured'
+      );
+    }
+
+    return {
+      outcome: result.outcome,
+      encounter: result.encounter,
+      synthling: result.outcome === 'captured' ? result.encounter.synthling : undefined,
+      influenceAwarded,
+    };
+  }
+
+  /**
+   * Abandon an active encounter.
+   */
+  async abandonEncounter(
+    userId: string,
+    encounterId: string,
+    cellH3: string,
+    now: Date = new Date()
+  ): Promise<SynthlingEncounter> {
+    return transaction(async (client) => {
+      const row = await this.lockEncounter(client, encounterId, userId, cellH3);
+      return this.endEncounter(client, row, 'abandoned', now);
+    });
+  }
+
+  /**
+   * Close active encounters whose spawn has expired, as if the Synthling
+   * fled. Returns the number closed.
+   */
+  async expireEncounters(now: Date = new Date()): Promise<number> {
+    const result = await query(
+      `UPDATE synthling_encounters
+       SET status = 'fled', ended_at = $1
+       WHERE status = 'active' AND spawn_expires_at <= $1`,
+      [now]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Get an encounter owned by a user.
+   */
+  async getEncounter(userId: string, encounterId: string): Promise<SynthlingEncounter | null> {
+    const result = await query<EncounterRow>(
+      `SELECT * FROM synthling_encounters WHERE id = $1 AND user_id = $2`,
+      [encounterId, userId]
+    );
+
+    const row = result.rows[0];
+    return row ? this.mapRow(row) : null;
+  }
+
+  /**
+   * Capture chance for a rarity at a given weaken progress.
+   */
+  getCaptureChance(rarity: Rarity, weakenProgress: number): number {
+    const bonus = (Math.min(100, Math.max(0, weakenProgress)) / 100) * CAPTURE_CONFIG.maxWeakenBonus;
+    return Math.min(1, CAPTURE_CONFIG.baseChance[rarity] + bonus);
+  }
+
+  /**
+   * Build the wild Synthling for a spawn. Uses the same weekly salt as the
+   * spawn so the imprint matches what the player saw.
+   */
+  buildWildSynthling(spawn: SynthlingSpawn, userId: string): Synthling {
+    const archetype = archetypeRegistry.get(spawn.archetypeId);
+    if (!archetype) {
+      throw new Error(`Unknown archetype: ${spawn.archetypeId}`);
+    }
+
+    const generated = synthlingGenerator.generate(
+      archetype,
+      spawn.fingerprint,
+      getWeeklySalt(spawn.spawnedAt)
+    );
+    const stats = this.scaleStats(generated.stats, spawn.level);
+
+    return {
+      id: uuid(),
+      archetypeId: archetype.id,
+      ownerId: userId,
+      imprint: generated.imprint,
+      stats,
+      level: spawn.level,
+      experience: 0,
+      moves: moveCatalog.getLearnedMoves(archetype, spawn.level),
+      condition: {
+        currentHp: stats.vitality,
+        maxHp: stats.vitality,
+        statusEffects: [],
+        fatigue: 0,
+      },
+      capturedAt: spawn.spawnedAt,
+      capturedAtCell: spawn.cellH3,
+      // The reference fingerprint may belong to another player
+      capturedFingerprint: { ...spawn.fingerprint, deviceId: '' },
+      evolutionHistory: [],
+    };
+  }
+
+  /**
+   * Scale level-1 stats to a level.
+   */
+  private scaleStats(stats: SynthlingStats, level: number): SynthlingStats {
+    const factor = 1 + CAPTURE_CONFIG.statGrowthPerLevel * (level - 1);
+
+    return {
+      vitality: Math.round(stats.vitality * factor),
+      power: Math.round(stats.power * factor),
+      resilience: Math.round(stats.resilience * factor),
+      agility: Math.round(stats.agility * factor),
+      focus: Math.round(stats.focus * factor),
+    };
+  }
+
+  /**
+   * Lock an active encounter for update, checking ownership and location.
+   */
+  private async lockEncounter(
+    client: pg.PoolClient,
+    encounterId: string,
+    userId: string,
+    cellH3: string
+  ): Promise<EncounterRow> {
+    const result = await client.query<EncounterRow>(
+      `SELECT * FROM synthling_encounters WHERE id = $1 AND user_id = $2 FOR UPDATE`,
+      [encounterId, userId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      throw new Error('Encounter not found');
+    }
+    if (row.status !== 'active') {
+      throw new Error(`Encounter is ${row.status}`);
+    }
+    if (row.cell_h3 !== cellH3) {
+      throw new Error('You must be in the encounter cell');
+    }
+
+    return row;
+  }
+
+  /**
+   * Close an encounter without a capture.
+   */
+  private async endEncounter(
+    client: pg.PoolClient,
+    row: EncounterRow,
+    status: 'fled' | 'abandoned',
+    now: Date
+  ): Promise<SynthlingEncounter> {
+    await client.query(
+      `UPDATE synthling_encounters
+       SET status = $2, capture_attempts = $3, weaken_progress = $4, ended_at = $5
+       WHERE id = $1`,
+      [row.id, status, row.capture_attempts, row.weaken_progress, now]
+    );
+
+    return {
+      ...this.mapRow(row),
+      status,
+      endedAt: now,
+    };
+  }
+
+  /**
+   * Award capture influence to the player's crew in the capture cell.
+   */
+  private async awardCaptureInfluence(userId: string, cellH3: string): Promise<number> {
+    const userResult = await query<{ crew_id: string | null }>(
+      `SELECT crew_id FROM users WHERE id = $1`,
+      [userId]
+    );
+
+    const crewId = userResult.rows[0]?.crew_id;
+    if (!crewId) {
+      return 0;
+    }
+
+    const event = await influenceManager.awardInfluence(cellH3, crewId, userId, 'synthling_capture');
+    return event.amount;
+  }
+
+  /**
+   * Map a database row to an encounter.
+   */
+  private mapRow(row: EncounterRow): SynthlingEncounter {
+    return {
+      id: row.id,
+      spawnId: row.spawn_id,
+      userId: row.user_id,
+      synthling: {
+        ...row.synthling,
+        capturedAt: new Date(row.synthling.capturedAt),
+        capturedFingerprint: {
+          ...row.synthling.capturedFingerprint,
+          capturedAt: new Date(row.synthling.capturedFingerprint.capturedAt),
+        },
+      },
+      status: row.status,
+      startedAt: row.started_at,
+      endedAt: row.ended_at ?? undefined,
+      captureAttempts: row.capture_attempts,
+      weakenProgress: row.weaken_progress,
+    };
+  }
+}
+
+// Singleton instance
+export const encounterManager = new EncounterManager();
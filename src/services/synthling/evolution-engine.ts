@@ -0,0 +1,526 @@
+/**
+ * Evolution Engine - Requirement checks and evolution of captured Synthlings.
+ *
+ * Handles:
+ * - Checking every evolution requirement type (level, location,
+ *   fingerprint_diversity, battle_wins, item) with a reason per unmet one
+ * - Rejecting places too similar to earlier evolution locations
+ * - Blending 30% of the new place into the imprint
+ * - Stat growth, the move to the next archetype in the chain and its moves
+ * - Persisting the EvolutionRecord and consuming required items
+ *
+ * Fingerprint diversity counts the trigger fingerprint plus the owner's
+ * fingerprints captured since the Synthling's last evolution (or capture):
+ * places count as distinct when their similarity is below 0.5.
+ *
+ * See specs/synthling-generation/spec.md (FR-4) for full specification.
+ */
+
+import { v4 as uuid } from 'uuid';
+import { query, transaction } from '../../db/connection.js';
+import { fingerprintAssembler } from '../fingerprint/assembler.js';
+import { archetypeRegistry } from './archetype-registry.js';
+import { synthlingGenerator } from './generator.js';
+import { synthlingCollection } from './collection.js';
+import { moveCatalog } from './move-catalog.js';
+import { getWeeklySalt } from './seeded-random.js';
+import { createLogger } from '../../utils/logger.js';
+import type {
+  Synthling,
+  SynthlingArchetype,
+  SynthlingImprint,
+  SynthlingStats,
+  EvolutionRequirement,
+  EvolutionRecord,
+} from '../../types/synthling.js';
+import type { PlaceFingerprint, SurfaceType } from '../../types/fingerprint.js';
+
+const logger = createLogger('evolution-engine');
+
+/**
+ * Evolution tuning.
+ */
+const EVOLUTION_CONFIG = {
+  // Fingerprints with similarity below this count as distinct places
+  distinctSimilarity: 0.5,
+  // Share of the imprint taken from the new place
+  blendWeight: 0.3,
+  // Stat multiplier applied on top of the archetype base-stat ratio
+  stageGrowth: 1.1,
+  // Share of the scene a location requirement's surface type must cover
+  locationSurfaceShare: 0.3,
+  // Fingerprints considered for diversity
+  maxDiversityCandidates: 50,
+};
+
+/**
+ * Status of one evolution requirement.
+ */
+export interface RequirementStatus extends EvolutionRequirement {
+  met: boolean;
+  reason?: string;
+}
+
+/**
+ * Evolution eligibility for a Synthling at a place.
+ */
+export interface EvolutionCheck {
+  synthlingId: string;
+  fromArchetypeId: string;
+  toArchetypeId: string | null;
+  eligible: boolean;
+  requirements: RequirementStatus[];
+  reasons: string[];  // One per unmet requirement or blocking condition
+}
+
+/**
+ * Everything the requirement checks look at besides the Synthling itself.
+ */
+export interface EvolutionContext {
+  fingerprint: PlaceFingerprint;            // Where the evolution happens
+  diversityCandidates: PlaceFingerprint[];  // Owner's fingerprints since last evolution
+  battleWins: number;
+  items: Record<string, number>;            // Owner's inventory
+}
+
+export type EvolutionResult =
+  | { evolved: true; check: EvolutionCheck; synthling: Synthling; record: EvolutionRecord }
+  | { evolved: false; check: EvolutionCheck };
+
+/**
+ * Evolution Engine Service
+ */
+export class EvolutionEngine {
+  /**
+   * Check whether a Synthling can evolve with the given context. Pure.
+   */
+  checkEvolution(synthling: Synthling, context: EvolutionContext): EvolutionCheck {
+    const archetype = this.requireArchetype(synthling.archetypeId);
+    const name = synthling.nickname ?? archetype.name;
+    const targetId = archetype.evolutionChain?.evolvesTo ?? null;
+
+    if (!targetId) {
+      return {
+        synthlingId: synthling.id,
+        fromArchetypeId: archetype.id,
+        toArchetypeId: null,
+        eligible: false,
+        requirements: [],
+        reasons: [`${name} is fully evolved`],
+      };
+    }
+
+    const reasons: string[] = [];
+
+    // Spec edge case: identical evolution locations
+    const familiar = synthling.evolutionHistory.some(
+      (record) =>
+        record.triggerFingerprint &&
+        !this.isDistinct(record.triggerFingerprint, context.fingerprint)
+    );
+    if (familiar) {
+      reasons.push(`This place feels familiar to ${name}`);
+    }
+
+    const requirements = (archetype.evolutionChain?.evolutionRequirements ?? []).map(
+      (requirement) => this.checkRequirement(synthling, requirement, context)
+    );
+
+    for (const status of requirements) {
+      if (status.reason) {
+        reasons.push(status.reason);
+      }
+    }
+
+    return {
+      synthlingId: synthling.id,
+      fromArchetypeId: archetype.id,
+      toArchetypeId: targetId,
+      eligible: reasons.length === 0,
+      requirements,
+      reasons,
+    };
+  }
+
+  /**
+   * Evolve a Synthling into a target archetype. Pure.
+   */
+  applyEvolution(
+    synthling: Synthling,
+    target: SynthlingArchetype,
+    fingerprint: PlaceFingerprint,
+    cellH3: string,
+    now: Date = new Date()
+  ): { synthling: Synthling; record: EvolutionRecord } {
+    const current = this.requireArchetype(synthling.archetypeId);
+    const incoming = synthlingGenerator.generate(target, fingerprint, getWeeklySalt(now)).imprint;
+    const stats = this.growStats(synthling.stats, current.baseStats, target.baseStats);
+    const hpRatio = synthling.condition.maxHp > 0
+      ? synthling.condition.currentHp / synthling.condition.maxHp
+      : 1;
+
+    const record: EvolutionRecord = {
+      fromArchetype: current.id,
+      toArchetype: target.id,
+      evolvedAt: now,
+      triggerFingerprint: { ...fingerprint, deviceId: '' },
+      locationCell: cellH3,
+    };
+
+    return {
+      synthling: {
+        ...synthling,
+        archetypeId: target.id,
+        imprint: this.blendImprint(synthling.imprint, incoming, EVOLUTION_CONFIG.blendWeight),
+        stats,
+        moves: moveCatalog.getLearnedMoves(target, synthling.level),
+        condition: {
+          ...synthling.condition,
+          maxHp: stats.vitality,
+          currentHp: Math.round(stats.vitality * hpRatio),
+        },
+        evolutionHistory: [...synthling.evolutionHistory, record],
+      },
+      record,
+    };
+  }
+
+  /**
+   * Count mutually distinct places, greedily, starting from the first
+   * fingerprint.
+   */
+  countDistinctFingerprints(fingerprints: PlaceFingerprint[]): number {
+    const distinct: PlaceFingerprint[] = [];
+
+    for (const fingerprint of fingerprints) {
+      if (distinct.every((other) => this.isDistinct(other, fingerprint))) {
+        distinct.push(fingerprint);
+      }
+    }
+
+    return distinct.length;
+  }
+
+  /**
+   * Blend an imprint toward another. Continuous values interpolate;
+   * categorical traits switch only once the incoming weight reaches half.
+   */
+  blendImprint(current: SynthlingImprint, incoming: SynthlingImprint, weight: number): SynthlingImprint {
+    const lerp = (a: number, b: number) => round(a + (b - a) * weight);
+    const lerpColor = (a: { r: number; g: number; b: number }, b: { r: number; g: number; b: number }) => ({
+      r: Math.round(a.r + (b.r - a.r) * weight),
+      g: Math.round(a.g + (b.g - a.g) * weight),
+      b: Math.round(a.b + (b.b - a.b) * weight),
+    });
+    const pick = <T>(a: T, b: T): T => (weight >= 0.5 ? b : a);
+
+    return {
+      palette: {
+        primary: lerpColor(current.palette.primary, incoming.palette.primary),
+        secondary: lerpColor(current.palette.secondary, incoming.palette.secondary),
+        accent: lerpColor(current.palette.accent, incoming.palette.accent),
+      },
+      pattern: {
+        type: pick(current.pattern.type, incoming.pattern.type),
+        intensity: lerp(current.pattern.intensity, incoming.pattern.intensity),
+      },
+      morphology: {
+        scale: lerp(current.morphology.scale, incoming.morphology.scale),
+        proportion: lerp(current.morphology.proportion, incoming.morphology.proportion),
+        texture: pick(current.morphology.texture, incoming.morphology.texture),
+      },
+      voice: {
+        pitch: lerp(current.voice.pitch, incoming.voice.pitch),
+        timbre: pick(current.voice.timbre, incoming.voice.timbre),
+        rhythm: lerp(current.voice.rhythm, incoming.voice.rhythm),
+      },
+    };
+  }
+
+  /**
+   * Stat growth: scale each stat by the target/current base-stat ratio,
+   * plus the per-stage growth bonus.
+   */
+  growStats(stats: SynthlingStats, fromBase: SynthlingStats, toBase: SynthlingStats): SynthlingStats {
+    const grow = (key: keyof SynthlingStats) =>
+      Math.max(1, Math.round(stats[key] * (toBase[key] / fromBase[key]) * EVOLUTION_CONFIG.stageGrowth));
+
+    return {
+      vitality: grow('vitality'),
+      power: grow('power'),
+      resilience: grow('resilience'),
+      agility: grow('agility'),
+      focus: grow('focus'),
+    };
+  }
+
+  /**
+   * Check evolution eligibility for one of a user's Synthlings at a place.
+   */
+  async getEvolutionStatus(
+    userId: string,
+    synthlingId: string,
+    fingerprintId: string
+  ): Promise<EvolutionCheck> {
+    const synthling = await this.requireOwnedSynthling(userId, synthlingId);
+    const context = await this.loadContext(userId, synthling, fingerprintId);
+    return this.checkEvolution(synthling, context);
+  }
+
+  /**
+   * Evolve one of a user's Synthlings at the place a fingerprint was
+   * captured. The fingerprint must be the user's and from their current cell.
+   */
+  async evolve(
+    userId: string,
+    synthlingId: string,
+    fingerprintId: string,
+    cellH3: string,
+    now: Date = new Date()
+  ): Promise<EvolutionResult> {
+    const synthling = await this.requireOwnedSynthling(userId, synthlingId);
+    const context = await this.loadContext(userId, synthling, fingerprintId);
+
+    if (context.fingerprint.locality.h3Cell !== cellH3) {
+      throw new Error('Fingerprint was not captured in your current cell');
+    }
+
+    const check = this.checkEvolution(synthling, context);
+    if (!check.eligible || !check.toArchetypeId) {
+      return { evolved: false, check };
+    }
+
+    const target = this.requireArchetype(check.toArchetypeId);
+    const { synthling: evolved, record } = this.applyEvolution(
+      synthling,
+      target,
+      context.fingerprint,
+      cellH3,
+      now
+    );
+    const items = check.requirements.filter((r) => r.type === 'item').map((r) => String(r.value));
+
+    await transaction(async (client) => {
+      const updated = await client.query(
+        `UPDATE synthlings
+         SET archetype_id = $3, rarity = $4, imprint = $5, stats = $6, condition = $7, moves = $9
+         WHERE id = $1 AND owner_id = $2 AND archetype_id = $8`,
+        [
+          synthling.id,
+          userId,
+          target.id,
+          target.rarity,
+          JSON.stringify(evolved.imprint),
+          JSON.stringify(evolved.stats),
+          JSON.stringify(evolved.condition),
+          synthling.archetypeId,
+          JSON.stringify(evolved.moves),
+        ]
+      );
+
+      if (updated.rowCount === 0) {
+        throw new Error('Synthling changed during evolution, try again');
+      }
+
+      await client.query(
+        `INSERT INTO synthling_evolutions (
+          id, synthling_id, from_archetype, to_archetype, evolved_at, trigger_fingerprint, location_cell
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          uuid(),
+          synthling.id,
+          record.fromArchetype,
+          record.toArchetype,
+          record.evolvedAt,
+          JSON.stringify(record.triggerFingerprint),
+          record.locationCell,
+        ]
+      );
+
+      for (const itemId of items) {
+        const consumed = await client.query(
+          `UPDATE user_items SET quantity = quantity - 1
+           WHERE user_id = $1 AND item_id = $2 AND quantity > 0`,
+          [userId, itemId]
+        );
+        if (consumed.rowCount === 0) {
+          throw new Error(`Missing required item: ${itemId}`);
+        }
+      }
+    });
+
+    logger.info(
+      { synthlingId: synthling.id, userId, from: record.fromArchetype, to: record.toArchetype },
+      'Synthling evolved'
+    );
+
+    return { evolved: true, check, synthling: evolved, record };
+  }
+
+  /**
+   * Check a single requirement.
+   */
+  private checkRequirement(
+    synthling: Synthling,
+    requirement: EvolutionRequirement,
+    context: EvolutionContext
+  ): RequirementStatus {
+    const unmet = (reason: string): RequirementStatus => ({ ...requirement, met: false, reason });
+    const met: RequirementStatus = { ...requirement, met: true };
+
+    switch (requirement.type) {
+      case 'level': {
+        const level = Number(requirement.value);
+        return synthling.level >= level
+          ? met
+          : unmet(`Reach level ${level} (currently level ${synthling.level})`);
+      }
+
+      case 'fingerprint_diversity': {
+        const needed = Number(requirement.value);
+        const distinct = this.countDistinctFingerprints([
+          context.fingerprint,
+          ...context.diversityCandidates.filter((fp) => fp.id !== context.fingerprint.id),
+        ]);
+        return distinct >= needed
+          ? met
+          : unmet(`Visit ${needed} distinct places (${distinct} so far)`);
+      }
+
+      case 'battle_wins': {
+        const wins = Number(requirement.value);
+        return context.battleWins >= wins
+          ? met
+          : unmet(`Win ${wins} battles (${context.battleWins} so far)`);
+      }
+
+      case 'location': {
+        const surface = String(requirement.value) as SurfaceType;
+        const share = context.fingerprint.geometry.surfaceDistribution[surface] ?? 0;
+        return share >= EVOLUTION_CONFIG.locationSurfaceShare
+          ? met
+          : unmet(`Evolve somewhere with more ${surface} in view`);
+      }
+
+      case 'item': {
+        const itemId = String(requirement.value);
+        return (context.items[itemId] ?? 0) > 0
+          ? met
+          : unmet(`Requires a ${itemId}`);
+      }
+    }
+  }
+
+  /**
+   * Whether two fingerprints count as distinct places.
+   */
+  private isDistinct(a: PlaceFingerprint, b: PlaceFingerprint): boolean {
+    return fingerprintAssembler.calculateSimilarity(a, b).overall < EVOLUTION_CONFIG.distinctSimilarity;
+  }
+
+  /**
+   * Load requirement context from the database.
+   */
+  private async loadContext(
+    userId: string,
+    synthling: Synthling,
+    fingerprintId: string
+  ): Promise<EvolutionContext> {
+    const lastEvolution = synthling.evolutionHistory[synthling.evolutionHistory.length - 1];
+    const since = lastEvolution?.evolvedAt ?? synthling.capturedAt;
+
+    const [fingerprintResult, candidatesResult, winsResult, itemsResult] = await Promise.all([
+      query<FingerprintRow>(
+        `SELECT ${FINGERPRINT_COLUMNS} FROM fingerprints WHERE id = $1 AND user_id = $2`,
+        [fingerprintId, userId]
+      ),
+      query<FingerprintRow>(
+        `SELECT ${FINGERPRINT_COLUMNS} FROM fingerprints
+         WHERE user_id = $1 AND captured_at > $2
+         ORDER BY captured_at DESC
+         LIMIT $3`,
+        [userId, since, EVOLUTION_CONFIG.maxDiversityCandidates]
+      ),
+      query<{ battle_wins: number }>(
+        `SELECT battle_wins FROM synthlings WHERE id = $1`,
+        [synthling.id]
+      ),
+      query<{ item_id: string; quantity: number }>(
+        `SELECT item_id, quantity FROM user_items WHERE user_id = $1 AND quantity > 0`,
+        [userId]
+      ),
+    ]);
+
+    const fingerprintRow = fingerprintResult.rows[0];
+    if (!fingerprintRow) {
+      throw new Error('Fingerprint not found');
+    }
+
+    return {
+      fingerprint: mapFingerprintRow(fingerprintRow),
+      diversityCandidates: candidatesResult.rows.map(mapFingerprintRow),
+      battleWins: winsResult.rows[0]?.battle_wins ?? 0,
+      items: Object.fromEntries(itemsResult.rows.map((row) => [row.item_id, row.quantity])),
+    };
+  }
+
+  private async requireOwnedSynthling(userId: string, synthlingId: string): Promise<Synthling> {
+    const synthling = await synthlingCollection.getOwnedSynthling(userId, synthlingId);
+    if (!synthling) {
+      throw new Error('Synthling not found');
+    }
+    return synthling;
+  }
+
+  private requireArchetype(archetypeId: string): SynthlingArchetype {
+    const archetype = archetypeRegistry.get(archetypeId);
+    if (!archetype) {
+      throw new Error(`Unknown archetype: ${archetypeId}`);
+    }
+    return archetype;
+  }
+}
+
+/**
+ * Fingerprint row as stored in the fingerprints table.
+ */
+interface FingerprintRow {
+  id: string;
+  version: number;
+  hash: string;
+  device_id: string;
+  palette: PlaceFingerprint['palette'];
+  geometry: PlaceFingerprint['geometry'];
+  motion: PlaceFingerprint['motion'];
+  audio: PlaceFingerprint['audio'];
+  locality: PlaceFingerprint['locality'];
+  captured_at: Date;
+}
+
+const FINGERPRINT_COLUMNS =
+  'id, version, hash, device_id, palette, geometry, motion, audio, locality, captured_at';
+
+function mapFingerprintRow(row: FingerprintRow): PlaceFingerprint {
+  return {
+    version: row.version as 1,
+    id: row.id,
+    hash: row.hash,
+    deviceId: row.device_id,
+    palette: row.palette,
+    geometry: row.geometry,
+    motion: row.motion,
+    audio: row.audio,
+    locality: row.locality,
+    capturedAt: row.captured_at,
+  };
+}
+
+/**
+ * Round to the generator's imprint precision.
+ */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// Singleton instance
+export const evolutionEngine = new EvolutionEngine();
@@ -0,0 +1,382 @@
+/**
+ * Synthling Generator - Fingerprint-driven imprint derivation.
+ *
+ * Handles:
+ * - Seed computation from archetype, fingerprint and weekly salt
+ * - Palette → colors, geometry → morphology
+ * - Motion → agility, audio → voice
+ *
+ * Output is fully deterministic: identical inputs always produce
+ * byte-identical imprints (spec FR-3).
+ *
+ * See specs/synthling-generation/spec.md for full specification.
+ */
+
+import { hashSeed, getWeeklySalt, SeededRandom } from './seeded-random.js';
+import { createLogger } from '../../utils/logger.js';
+import type {
+  SynthlingArchetype,
+  SynthlingImprint,
+  SynthlingStats,
+} from '../../types/synthling.js';
+import type {
+  PlaceFingerprint,
+  VisualPalette,
+  GeometryDescriptor,
+  MotionDescriptor,
+  AudioDescriptor,
+  SurfaceType,
+} from '../../types/fingerprint.js';
+
+const logger = createLogger('synthling-generator');
+
+type RGB = { r: number; g: number; b: number };
+
+/**
+ * Generation tuning.
+ */
+const GENERATION_CONFIG = {
+  maxHueShiftDegrees: 12,
+  scaleRange: [0.8, 1.2] as [number, number],
+  pitchRange: [0.5, 2.0] as [number, number],
+  centroidLogRange: [2, 3.9] as [number, number],  // log10(100Hz) - log10(~8kHz)
+  agilityBiasRange: [0.85, 1.15] as [number, number],
+  statVariance: 0.05,
+  precision: 4,
+};
+
+/**
+ * Surface type → morphology texture.
+ */
+const SURFACE_TEXTURES: Record<SurfaceType, SynthlingImprint['morphology']['texture']> = {
+  building: 'crystalline',
+  road: 'rough',
+  ground: 'rough',
+  vegetation: 'organic',
+  water: 'organic',
+  sky: 'smooth',
+  unknown: 'smooth',
+};
+
+/**
+ * Result of generating a Synthling from an archetype and fingerprint.
+ */
+export interface GeneratedSynthling {
+  seed: string;
+  salt: string;
+  archetypeId: string;
+  imprint: SynthlingImprint;
+  stats: SynthlingStats;
+}
+
+/**
+ * Synthling Generator Service
+ *
+ * Maps a PlaceFingerprint onto an archetype to produce a unique imprint.
+ */
+export class SynthlingGenerator {
+  /**
+   * Compute the generation seed: hash(archetypeId, fingerprint.hash, salt).
+   */
+  computeSeed(archetypeId: string, fingerprintHash: string, salt: string): string {
+    return hashSeed(archetypeId, fingerprintHash, salt);
+  }
+
+  /**
+   * Generate imprint and stats for an archetype at a place.
+   *
+   * @param archetype Base archetype
+   * @param fingerprint Fingerprint of the capture/spawn location
+   * @param salt Weekly salt (defaults to the current ISO week)
+   */
+  generate(
+    archetype: SynthlingArchetype,
+    fingerprint: PlaceFingerprint,
+    salt: string = getWeeklySalt()
+  ): GeneratedSynthling {
+    const seed = this.computeSeed(archetype.id, fingerprint.hash, salt);
+    const imprint = this.deriveImprint(archetype, fingerprint, seed);
+    const stats = this.deriveStats(archetype.baseStats, fingerprint.motion, seed);
+
+    logger.debug(
+      { archetypeId: archetype.id, fingerprintId: fingerprint.id, seed: seed.slice(0, 8) },
+      'Synthling generated'
+    );
+
+    return {
+      seed,
+      salt,
+      archetypeId: archetype.id,
+      imprint,
+      stats,
+    };
+  }
+
+  /**
+   * Derive the visual/aural imprint from a fingerprint.
+   * Each component draws from its own sub-seed so adding a new derived
+   * attribute never shifts the values of existing ones.
+   */
+  deriveImprint(
+    archetype: SynthlingArchetype,
+    fingerprint: PlaceFingerprint,
+    seed: string
+  ): SynthlingImprint {
+    return {
+      palette: this.deriveColors(fingerprint.palette, new SeededRandom(hashSeed(seed, 'palette'))),
+      pattern: this.derivePattern(
+        fingerprint.palette,
+        fingerprint.geometry,
+        new SeededRandom(hashSeed(seed, 'pattern'))
+      ),
+      morphology: this.deriveMorphology(
+        fingerprint.geometry,
+        new SeededRandom(hashSeed(seed, 'morphology'))
+      ),
+      voice: this.deriveVoice(
+        archetype,
+        fingerprint.audio,
+        new SeededRandom(hashSeed(seed, 'voice'))
+      ),
+    };
+  }
+
+  /**
+   * Palette → colors.
+   * Primary is the dominant color with a small hue shift, secondary the
+   * runner-up, accent the third (or a brightened primary if missing).
+   */
+  private deriveColors(palette: VisualPalette, rng: SeededRandom): SynthlingImprint['palette'] {
+    const ranked = palette.colors
+      .map((c, index) => ({ c, index }))
+      .sort((x, y) => y.c.weight - x.c.weight || x.index - y.index)
+      .map(({ c }) => ({ r: c.r, g: c.g, b: c.b }));
+
+    const dominant = ranked[0] ?? { r: 128, g: 128, b: 128 };
+    const hueShift = rng.range(-GENERATION_CONFIG.maxHueShiftDegrees, GENERATION_CONFIG.maxHueShiftDegrees);
+
+    const primary = shiftHue(dominant, hueShift);
+    const secondary = ranked[1] ?? mixColors(primary, { r: 0, g: 0, b: 0 }, 0.35);
+    const accent = ranked[2] ?? mixColors(primary, { r: 255, g: 255, b: 255 }, palette.brightness * 0.6);
+
+    return {
+      primary: roundColor(primary),
+      secondary: roundColor(secondary),
+      accent: roundColor(accent),
+    };
+  }
+
+  /**
+   * Palette + geometry → surface pattern.
+   */
+  private derivePattern(
+    palette: VisualPalette,
+    geometry: GeometryDescriptor,
+    rng: SeededRandom
+  ): SynthlingImprint['pattern'] {
+    const magnitudes = geometry.edgeHistogram.map((b) => b.magnitude);
+    const magnitudeSum = magnitudes.reduce((s, m) => s + m, 0);
+    const maxEdgeShare = magnitudeSum > 0 ? Math.max(...magnitudes) / magnitudeSum : 0;
+    const topWeight = Math.max(0, ...palette.colors.map((c) => c.weight));
+
+    let type: SynthlingImprint['pattern']['type'];
+    if (geometry.complexity < 0.2) {
+      type = 'solid';
+    } else if (maxEdgeShare > 0.25) {
+      type = 'striped';
+    } else if (palette.saturation > 0.6) {
+      type = 'spotted';
+    } else if (topWeight < 0.35) {
+      type = 'marbled';
+    } else {
+      type = 'gradient';
+    }
+
+    return {
+      type,
+      intensity: round(clamp(geometry.complexity * 0.7 + rng.range(0, 0.3), 0, 1)),
+    };
+  }
+
+  /**
+   * Geometry → morphology.
+   * Vertical scenes grow taller, larger creatures; the dominant surface
+   * decides the skin texture.
+   */
+  private deriveMorphology(
+    geometry: GeometryDescriptor,
+    rng: SeededRandom
+  ): SynthlingImprint['morphology'] {
+    const [minScale, maxScale] = GENERATION_CONFIG.scaleRange;
+    const verticality = (clamp(geometry.verticalBias, -1, 1) + 1) / 2;
+    const scale = minScale + (maxScale - minScale) * (verticality * 0.75 + rng.range(0, 0.25));
+
+    return {
+      scale: round(clamp(scale, minScale, maxScale)),
+      proportion: round(1 + clamp(geometry.verticalBias, -1, 1) * 0.25 + rng.range(-0.05, 0.05)),
+      texture: SURFACE_TEXTURES[dominantSurface(geometry.surfaceDistribution)],
+    };
+  }
+
+  /**
+   * Audio → voice.
+   * Pitch follows the spectral centroid on a log scale, clamped to the
+   * archetype's pitch range. Silent captures get a neutral voice.
+   */
+  private deriveVoice(
+    archetype: SynthlingArchetype,
+    audio: AudioDescriptor,
+    rng: SeededRandom
+  ): SynthlingImprint['voice'] {
+    const [archMinPitch, archMaxPitch] = archetype.audioTemplate.pitchRange;
+
+    if (audio.loudness === 0 && audio.spectralCentroid === 0) {
+      return {
+        pitch: round(clamp(1, archMinPitch, archMaxPitch)),
+        timbre: 'warm',
+        rhythm: 1,
+      };
+    }
+
+    const [minLog, maxLog] = GENERATION_CONFIG.centroidLogRange;
+    const [minPitch, maxPitch] = GENERATION_CONFIG.pitchRange;
+    const centroidLog = Math.log10(Math.max(1, audio.spectralCentroid));
+    const t = clamp((centroidLog - minLog) / (maxLog - minLog), 0, 1);
+    const pitch = minPitch + (maxPitch - minPitch) * t + rng.range(-0.05, 0.05);
+
+    let timbre: SynthlingImprint['voice']['timbre'];
+    if (audio.harmonicRatio >= 0.5) {
+      timbre = audio.dominantFrequencyBand === 'high' ? 'bright' : 'warm';
+    } else {
+      timbre = audio.dominantFrequencyBand === 'low' ? 'hollow' : 'metallic';
+    }
+
+    return {
+      pitch: round(clamp(pitch, archMinPitch, archMaxPitch)),
+      timbre,
+      rhythm: round(0.5 + clamp(audio.rhythmDensity, 0, 1) * 1.5),
+    };
+  }
+
+  /**
+   * Motion → agility, plus small seeded variance on the other stats.
+   */
+  deriveStats(
+    baseStats: SynthlingStats,
+    motion: MotionDescriptor,
+    seed: string
+  ): SynthlingStats {
+    const rng = new SeededRandom(hashSeed(seed, 'stats'));
+    const [minBias, maxBias] = GENERATION_CONFIG.agilityBiasRange;
+    const variance = () => 1 + rng.range(-GENERATION_CONFIG.statVariance, GENERATION_CONFIG.statVariance);
+    const agilityBias = minBias + (maxBias - minBias) * clamp(motion.level, 0, 1);
+
+    return {
+      vitality: Math.max(1, Math.round(baseStats.vitality * variance())),
+      power: Math.max(1, Math.round(baseStats.power * variance())),
+      resilience: Math.max(1, Math.round(baseStats.resilience * variance())),
+      agility: Math.max(1, Math.round(baseStats.agility * agilityBias * variance())),
+      focus: Math.max(1, Math.round(baseStats.focus * variance())),
+    };
+  }
+}
+
+/**
+ * Clamp a value to [min, max].
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Round to a fixed precision so serialized imprints are stable.
+ */
+function round(value: number): number {
+  const factor = Math.pow(10, GENERATION_CONFIG.precision);
+  return Math.round(value * factor) / factor;
+}
+
+function roundColor(c: RGB): RGB {
+  return {
+    r: Math.round(clamp(c.r, 0, 255)),
+    g: Math.round(clamp(c.g, 0, 255)),
+    b: Math.round(clamp(c.b, 0, 255)),
+  };
+}
+
+function mixColors(a: RGB, b: RGB, t: number): RGB {
+  return {
+    r: a.r + (b.r - a.r) * t,
+    g: a.g + (b.g - a.g) * t,
+    b: a.b + (b.b - a.b) * t,
+  };
+}
+
+/**
+ * Rotate a color's hue by the given degrees (HSL space).
+ */
+function shiftHue(c: RGB, degrees: number): RGB {
+  const r = c.r / 255;
+  const g = c.g / 255;
+  const b = c.b / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) {
+    return { ...c };
+  }
+
+  const s = l > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  let h: number;
+  if (max === r) {
+    h = ((g - b) / delta + (g < b ? 6 : 0)) * 60;
+  } else if (max === g) {
+    h = ((b - r) / delta + 2) * 60;
+  } else {
+    h = ((r - g) / delta + 4) * 60;
+  }
+
+  h = (((h + degrees) % 360) + 360) % 360;
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const hueToChannel = (t: number) => {
+    let tt = t;
+    if (tt < 0) tt += 1;
+    if (tt > 1) tt -= 1;
+    if (tt < 1 / 6) return p + (q - p) * 6 * tt;
+    if (tt < 1 / 2) return q;
+    if (tt < 2 / 3) return p + (q - p) * (2 / 3 - tt) * 6;
+    return p;
+  };
+
+  const hk = h / 360;
+  return {
+    r: hueToChannel(hk + 1 / 3) * 255,
+    g: hueToChannel(hk) * 255,
+    b: hueToChannel(hk - 1 / 3) * 255,
+  };
+}
+
+/**
+ * Surface type with the largest share (ties broken alphabetically).
+ */
+function dominantSurface(distribution: Record<SurfaceType, number>): SurfaceType {
+  let best: SurfaceType = 'unknown';
+  let bestShare = -1;
+
+  for (const key of Object.keys(distribution).sort() as SurfaceType[]) {
+    const share = distribution[key] ?? 0;
+    if (share > bestShare && key in SURFACE_TEXTURES) {
+      best = key;
+      bestShare = share;
+    }
+  }
+
+  return best;
+}
+
+// Singleton instance
+export const synthlingGenerator = new SynthlingGenerator();
@@ -0,0 +1,30 @@
+/**
+ * Synthling Service
+ *
+ * Procedural creature generation from Place Fingerprints.
+ *
+ * See specs/synthling-generation/spec.md for full specification.
+ */
+
+export { synthlingGenerator } from './generator.js';
+export type { GeneratedSynthling } from './generator.js';
+export { archetypeRegistry, ArchetypeRegistry } from './archetype-registry.js';
+export { affinityScorer } from './affinity-scorer.js';
+export type { AffinityScore, AffinityBreakdown, AffinityRankOptions } from './affinity-scorer.js';
+export { spawnEngine } from './spawn-engine.js';
+export type { SpawnWindow, SpawnPlanInput, TerritoryModifier } from './spawn-engine.js';
+export { encounterManager } from './encounter-manager.js';
+export type { CaptureOutcome, CaptureResult } from './encounter-manager.js';
+export { synthlingCollection } from './collection.js';
+export type { CollectionFilter, CollectionPage } from './collection.js';
+export { evolutionEngine } from './evolution-engine.js';
+export type {
+  EvolutionCheck,
+  EvolutionContext,
+  EvolutionResult,
+  RequirementStatus,
+} from './evolution-engine.js';
+export { moveCatalog } from './move-catalog.js';
+export { battleEngine } from './battle-engine.js';
+export type { BattleSetup, BattleSide } from './battle-engine.js';
+export { hashSeed, getWeeklySalt, SeededRandom } from './seeded-random.js';
@@ -0,0 +1,328 @@
+/**
+ * Move Catalog - Battle moves and terrains referenced by archetype move pools.
+ *
+ * Handles:
+ * - Move definitions (power, accuracy, focus cost, cooldown, effects)
+ * - Terrain definitions created by terrain effects
+ * - Which moves a Synthling knows at a given level
+ *
+ * Effect values by type:
+ * - damage: hit power
+ * - heal:   percent of max HP
+ * - buff/debuff: percent change to `stat` for BUFF_DURATION turns
+ * - status: intensity of `status` (burn: percent of max HP per turn)
+ * - terrain: turns the `terrain` lasts
+ */
+
+import type { BattleTerrain, SynthlingArchetype, SynthlingMove } from '../../types/synthling.js';
+
+/**
+ * Moves, keyed by ID.
+ */
+const MOVES: Record<string, Omit<SynthlingMove, 'id'>> = {
+  tackle: {
+    name: 'Tackle',
+    type: 'physical',
+    power: 40,
+    accuracy: 100,
+    focusCost: 0,
+    cooldown: 0,
+    effects: [{ type: 'damage', target: 'enemy', value: 40 }],
+  },
+  focus_up: {
+    name: 'Focus Up',
+    type: 'status',
+    power: 0,
+    accuracy: 100,
+    focusCost: 0,
+    cooldown: 3,
+    effects: [{ type: 'buff', target: 'self', value: 30, stat: 'focus' }],
+  },
+  spark_jab: {
+    name: 'Spark Jab',
+    type: 'special',
+    power: 50,
+    accuracy: 95,
+    focusCost: 10,
+    cooldown: 0,
+    effects: [
+      { type: 'damage', target: 'enemy', value: 50 },
+      { type: 'status', target: 'enemy', value: 5, status: 'burn', chance: 20 },
+    ],
+  },
+  flare_burst: {
+    name: 'Flare Burst',
+    type: 'special',
+    power: 90,
+    accuracy: 85,
+    focusCost: 35,
+    cooldown: 2,
+    effects: [
+      { type: 'damage', target: 'enemy', value: 90 },
+      { type: 'status', target: 'enemy', value: 8, status: 'burn', chance: 30 },
+    ],
+  },
+  dazzle: {
+    name: 'Dazzle',
+    type: 'status',
+    power: 0,
+    accuracy: 90,
+    focusCost: 15,
+    cooldown: 2,
+    effects: [{ type: 'debuff', target: 'enemy', value: 25, stat: 'agility' }],
+  },
+  overcharge: {
+    name: 'Overcharge',
+    type: 'special',
+    power: 120,
+    accuracy: 80,
+    focusCost: 50,
+    cooldown: 4,
+    effects: [
+      { type: 'damage', target: 'enemy', value: 120 },
+      { type: 'debuff', target: 'self', value: 30, stat: 'focus' },
+    ],
+  },
+  splash: {
+    name: 'Splash',
+    type: 'special',
+    power: 45,
+    accuracy: 100,
+    focusCost: 5,
+    cooldown: 0,
+    effects: [{ type: 'damage', target: 'enemy', value: 45 }],
+  },
+  undertow: {
+    name: 'Undertow',
+    type: 'physical',
+    power: 65,
+    accuracy: 90,
+    focusCost: 20,
+    cooldown: 1,
+    effects: [
+      { type: 'damage', target: 'enemy', value: 65 },
+      { type: 'debuff', target: 'enemy', value: 20, stat: 'agility', chance: 50 },
+    ],
+  },
+  soothing_mist: {
+    name: 'Soothing Mist',
+    type: 'terrain',
+    power: 0,
+    accuracy: 100,
+    focusCost: 25,
+    cooldown: 4,
+    effects: [
+      { type: 'heal', target: 'self', value: 25 },
+      { type: 'terrain', target: 'field', value: 3, terrain: 'mist' },
+    ],
+  },
+  tidal_surge: {
+    name: 'Tidal Surge',
+    type: 'special',
+    power: 95,
+    accuracy: 85,
+    focusCost: 40,
+    cooldown: 3,
+    effects: [
+      { type: 'damage', target: 'enemy', value: 95 },
+      { type: 'terrain', target: 'field', value: 3, terrain: 'flood' },
+    ],
+  },
+  stone_bash: {
+    name: 'Stone Bash',
+    type: 'physical',
+    power: 60,
+    accuracy: 95,
+    focusCost: 10,
+    cooldown: 0,
+    effects: [
+      { type: 'damage', target: 'enemy', value: 60 },
+      { type: 'status', target: 'enemy', value: 1, status: 'stun', chance: 10 },
+    ],
+  },
+  bulwark: {
+    name: 'Bulwark',
+    type: 'status',
+    power: 0,
+    accuracy: 100,
+    focusCost: 15,
+    cooldown: 3,
+    effects: [{ type: 'buff', target: 'self', value: 40, stat: 'resilience' }],
+  },
+  quake: {
+    name: 'Quake',
+    type: 'physical',
+    power: 100,
+    accuracy: 85,
+    focusCost: 40,
+    cooldown: 3,
+    effects: [
+      { type: 'damage', target: 'enemy', value: 100 },
+      { type: 'terrain', target: 'field', value: 3, terrain: 'rubble' },
+    ],
+  },
+  root_bind: {
+    name: 'Root Bind',
+    type: 'status',
+    power: 0,
+    accuracy: 90,
+    focusCost: 20,
+    cooldown: 3,
+    effects: [
+      { type: 'debuff', target: 'enemy', value: 40, stat: 'agility' },
+      { type: 'status', target: 'enemy', value: 1, status: 'stun', chance: 30 },
+    ],
+  },
+  shade_strike: {
+    name: 'Shade Strike',
+    type: 'physical',
+    power: 55,
+    accuracy: 95,
+    focusCost: 10,
+    cooldown: 0,
+    effects: [{ type: 'damage', target: 'enemy', value: 55 }],
+  },
+  drain: {
+    name: 'Drain',
+    type: 'special',
+    power: 60,
+    accuracy: 95,
+    focusCost: 20,
+    cooldown: 1,
+    effects: [
+      { type: 'damage', target: 'enemy', value: 60 },
+      { type: 'heal', target: 'self', value: 15 },
+    ],
+  },
+  veil: {
+    name: 'Veil',
+    type: 'status',
+    power: 0,
+    accuracy: 100,
+    focusCost: 20,
+    cooldown: 3,
+    effects: [
+      { type: 'buff', target: 'self', value: 25, stat: 'resilience' },
+      { type: 'buff', target: 'self', value: 15, stat: 'agility' },
+    ],
+  },
+  null_field: {
+    name: 'Null Field',
+    type: 'terrain',
+    power: 0,
+    accuracy: 100,
+    focusCost: 30,
+    cooldown: 4,
+    effects: [{ type: 'terrain', target: 'field', value: 4, terrain: 'null' }],
+  },
+  thrum: {
+    name: 'Thrum',
+    type: 'special',
+    power: 45,
+    accuracy: 100,
+    focusCost: 5,
+    cooldown: 0,
+    effects: [{ type: 'damage', target: 'enemy', value: 45 }],
+  },
+  static_shock: {
+    name: 'Static Shock',
+    type: 'special',
+    power: 65,
+    accuracy: 90,
+    focusCost: 20,
+    cooldown: 1,
+    effects: [
+      { type: 'damage', target: 'enemy', value: 65 },
+      { type: 'status', target: 'enemy', value: 1, status: 'stun', chance: 20 },
+    ],
+  },
+  resonate: {
+    name: 'Resonate',
+    type: 'status',
+    power: 0,
+    accuracy: 100,
+    focusCost: 15,
+    cooldown: 3,
+    effects: [
+      { type: 'buff', target: 'self', value: 25, stat: 'power' },
+      { type: 'buff', target: 'self', value: 25, stat: 'focus' },
+    ],
+  },
+  feedback: {
+    name: 'Feedback',
+    type: 'special',
+    power: 80,
+    accuracy: 90,
+    focusCost: 30,
+    cooldown: 2,
+    effects: [
+      { type: 'damage', target: 'enemy', value: 80 },
+      { type: 'debuff', target: 'enemy', value: 20, stat: 'resilience', chance: 50 },
+    ],
+  },
+};
+
+/**
+ * Terrains, keyed by type. Effects apply to every active Synthling at the
+ * end of each turn while the terrain lasts.
+ */
+const TERRAINS: Record<string, Omit<BattleTerrain, 'duration'>> = {
+  mist: { type: 'mist', effects: [{ type: 'heal', target: 'field', value: 5 }] },
+  flood: { type: 'flood', effects: [{ type: 'debuff', target: 'field', value: 10, stat: 'agility' }] },
+  rubble: { type: 'rubble', effects: [{ type: 'damage', target: 'field', value: 4 }] },
+  null: { type: 'null', effects: [{ type: 'debuff', target: 'field', value: 15, stat: 'focus' }] },
+};
+
+/**
+ * Level at which each move-pool slot is learned.
+ */
+const LEARN_LEVELS = [1, 1, 5, 10, 16, 24];
+
+/**
+ * Moves a Synthling can know at once.
+ */
+const MAX_KNOWN_MOVES = 4;
+
+/**
+ * Move Catalog
+ */
+export class MoveCatalog {
+  /**
+   * Get a move by ID.
+   */
+  get(id: string): SynthlingMove | undefined {
+    const move = MOVES[id];
+    return move ? { id, ...move, effects: move.effects.map((e) => ({ ...e })) } : undefined;
+  }
+
+  /**
+   * Check whether a move exists.
+   */
+  has(id: string): boolean {
+    return id in MOVES;
+  }
+
+  /**
+   * Create a terrain of a type.
+   */
+  createTerrain(type: string, duration: number): BattleTerrain | undefined {
+    const terrain = TERRAINS[type];
+    return terrain ? { ...terrain, effects: terrain.effects.map((e) => ({ ...e })), duration } : undefined;
+  }
+
+  /**
+   * Moves known at a level: the most recently learned move-pool slots,
+   * up to MAX_KNOWN_MOVES, in pool order.
+   */
+  getLearnedMoves(archetype: SynthlingArchetype, level: number): SynthlingMove[] {
+    const learned = archetype.movePool.filter((_, i) => level >= (LEARN_LEVELS[i] ?? Infinity));
+
+    return learned
+      .slice(-MAX_KNOWN_MOVES)
+      .map((id) => this.get(id))
+      .filter((move): move is SynthlingMove => move !== undefined);
+  }
+}
+
+// Singleton instance
+export const moveCatalog = new MoveCatalog();
@@ -0,0 +1,131 @@
+/**
+ * Seeded Random - Deterministic hashing and pseudo-random numbers.
+ *
+ * Everything procedural in the Synthling system (imprints, spawns, battles)
+ * must be reproducible from its inputs, so Math.random() is never used.
+ * Seeds are SHA-256 digests of the input parts; the generator is sfc32,
+ * which is fast, has a 128-bit state and produces identical sequences on
+ * every JS engine.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Hash a list of seed parts into a hex digest.
+ * Parts are joined with ':' so ('a', 'bc') and ('ab', 'c') differ.
+ */
+export function hashSeed(...parts: Array<string | number>): string {
+  return createHash('sha256').update(parts.map(String).join(':')).digest('hex');
+}
+
+/**
+ * Weekly salt for generation seeds (ISO week, e.g. "2026-W42").
+ * Rotates every Monday 00:00 UTC so the same place yields the same
+ * creature within a week but varies across weeks.
+ */
+export function getWeeklySalt(date: Date = new Date()): string {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const dayOfWeek = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - dayOfWeek);  // Thursday decides the ISO year
+  const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((d.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Deterministic PRNG seeded from a hex digest.
+ */
+export class SeededRandom {
+  private a: number;
+  private b: number;
+  private c: number;
+  private d: number;
+
+  constructor(seed: string) {
+    const digest = /^[0-9a-f]{32,}$/i.test(seed) ? seed : hashSeed(seed);
+    this.a = parseInt(digest.slice(0, 8), 16) >>> 0;
+    this.b = parseInt(digest.slice(8, 16), 16) >>> 0;
+    this.c = parseInt(digest.slice(16, 24), 16) >>> 0;
+    this.d = parseInt(digest.slice(24, 32), 16) >>> 0;
+
+    // Warm up so nearby seeds diverge
+    for (let i = 0; i < 12; i++) {
+      this.next();
+    }
+  }
+
+  /**
+   * Next float in [0, 1).
+   */
+  next(): number {
+    this.a >>>= 0;
+    this.b >>>= 0;
+    this.c >>>= 0;
+    this.d >>>= 0;
+    let t = (this.a + this.b) | 0;
+    this.a = this.b ^ (this.b >>> 9);
+    this.b = (this.c + (this.c << 3)) | 0;
+    this.c = (this.c << 21) | (this.c >>> 11);
+    this.d = (this.d + 1) | 0;
+    t = (t + this.d) | 0;
+    this.c = (this.c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max).
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max] (inclusive).
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * True with the given probability (0-1).
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick one item uniformly.
+   */
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error('Cannot pick from an empty list');
+    }
+    return items[Math.floor(this.next() * items.length)] as T;
+  }
+
+  /**
+   * Pick a key from a weight map. Keys are visited in sorted order so the
+   * result does not depend on object insertion order.
+   */
+  weighted<K extends string>(weights: Record<K, number>): K {
+    const entries = (Object.entries(weights) as Array<[K, number]>)
+      .filter(([, w]) => w > 0)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    if (entries.length === 0) {
+      throw new Error('Cannot pick from an empty weight map');
+    }
+
+    const total = entries.reduce((sum, [, w]) => sum + w, 0);
+    let roll = this.next() * total;
+
+    for (const [key, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) {
+        return key;
+      }
+    }
+
+    return (entries[entries.length - 1] as [K, number])[0];
+  }
+}
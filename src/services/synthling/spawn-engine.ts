@@ -0,0 +1,520 @@
+/**
+ * Spawn Engine - Deterministic Synthling spawn seeding.
+ *
+ * Handles:
+ * - Seeding: hash(districtId, timeWindow, locality.h3Cell)
+ * - Spawn count from spawn_configs and scanner modules
+ * - Rarity roll (70/20/8/2) with territory-control modifiers
+ * - Weighted archetype selection per rarity tier
+ *
+ * Everything that feeds the roll is a property of the cell, never of the
+ * viewer, so two players in the same cell and time window always see the
+ * same spawns. Territory modifiers (turf spec FR-6) are therefore read
+ * from the cell's control state:
+ * - friendly:  controlled, no rival outpost present     → +5% rare
+ * - contested: control changed hands and is unsettled  → +10% uncommon
+ * - rival:     controlled, outpost of another crew here → +2% legendary
+ *
+ * See specs/synthling-generation/spec.md (FR-5) and
+ * specs/turf-mechanics/spec.md (FR-6) for full specification.
+ */
+
+import { query } from '../../db/connection.js';
+import { redis, RedisKeys, RedisTTL } from '../../db/redis.js';
+import { outpostManager } from '../turf/outpost-manager.js';
+import { realtimeBus, RealtimeTopics } from '../realtime/event-bus.js';
+import { archetypeRegistry } from './archetype-registry.js';
+import { affinityScorer } from './affinity-scorer.js';
+import { synthlingGenerator } from './generator.js';
+import { hashSeed, getWeeklySalt, SeededRandom } from './seeded-random.js';
+import { createLogger } from '../../utils/logger.js';
+import type { SynthlingArchetype, SynthlingSpawn } from '../../types/synthling.js';
+import type { PlaceFingerprint } from '../../types/fingerprint.js';
+import type { SpawnConfig } from '../../types/turf.js';
+
+const logger = createLogger('spawn-engine');
+
+type Rarity = SynthlingSpawn['rarity'];
+
+/**
+ * Territory state of a cell from the spawn table's point of view.
+ */
+export type TerritoryModifier = 'neutral' | 'friendly' | 'contested' | 'rival';
+
+/**
+ * Spawn tuning.
+ */
+const SPAWN_CONFIG = {
+  windowMinutes: 60,
+  maxSpawnsPerWindow: 12,
+  baseRarity: {
+    common: 0.70,
+    uncommon: 0.20,
+    rare: 0.08,
+    legendary: 0.02,
+  } as Record<Rarity, number>,
+  territoryBonus: {
+    neutral: null,
+    friendly: { tier: 'rare', amount: 0.05 },
+    contested: { tier: 'uncommon', amount: 0.10 },
+    rival: { tier: 'legendary', amount: 0.02 },
+  } as Record<TerritoryModifier, { tier: Rarity; amount: number } | null>,
+  levelRanges: {
+    common: [1, 5],
+    uncommon: [3, 8],
+    rare: [6, 12],
+    legendary: [10, 15],
+  } as Record<Rarity, [number, number]>,
+  // Keeps poorly matching archetypes possible, just unlikely
+  affinityFloor: 0.1,
+};
+
+/**
+ * Rarity tiers from most to least rare, used for pool fallback.
+ */
+const RARITY_ORDER: Rarity[] = ['legendary', 'rare', 'uncommon', 'common'];
+
+/**
+ * Hourly spawn window.
+ */
+export interface SpawnWindow {
+  key: string;  // e.g. "2026-01-29T14"
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Everything needed to plan spawns for one cell and window.
+ */
+export interface SpawnPlanInput {
+  districtId: string;
+  cellH3: string;
+  window: SpawnWindow;
+  config: SpawnConfig;
+  scannerMultiplier: number;
+  territory: TerritoryModifier;
+  fingerprint: PlaceFingerprint;  // Reference fingerprint for the cell
+  archetypes?: SynthlingArchetype[];
+}
+
+/**
+ * Spawn Engine Service
+ */
+export class SpawnEngine {
+  /**
+   * Get the spawn window containing a moment (UTC hour buckets).
+   */
+  getWindow(date: Date = new Date()): SpawnWindow {
+    const windowMs = SPAWN_CONFIG.windowMinutes * 60 * 1000;
+    const startMs = Math.floor(date.getTime() / windowMs) * windowMs;
+    const start = new Date(startMs);
+
+    return {
+      key: start.toISOString().slice(0, 13),
+      start,
+      end: new Date(startMs + windowMs),
+    };
+  }
+
+  /**
+   * Compute the spawn seed: hash(districtId, timeWindow, h3Cell).
+   */
+  computeSeed(districtId: string, timeWindow: string, cellH3: string): string {
+    return hashSeed(districtId, timeWindow, cellH3);
+  }
+
+  /**
+   * Rarity probabilities after the spawn config multiplier and territory
+   * bonus. Bonuses come out of the common tier.
+   */
+  buildRarityTable(rarityMultiplier: number, territory: TerritoryModifier): Record<Rarity, number> {
+    const table = { ...SPAWN_CONFIG.baseRarity };
+
+    for (const tier of ['uncommon', 'rare', 'legendary'] as const) {
+      table[tier] *= rarityMultiplier;
+    }
+
+    const bonus = SPAWN_CONFIG.territoryBonus[territory];
+    if (bonus) {
+      table[bonus.tier] += bonus.amount;
+    }
+
+    table.common = Math.max(0, 1 - table.uncommon - table.rare - table.legendary);
+    return table;
+  }
+
+  /**
+   * Classify a cell for territory modifiers.
+   */
+  resolveTerritory(
+    controllingCrewId: string | null,
+    contested: boolean,
+    outpostCrewId: string | null
+  ): TerritoryModifier {
+    if (contested) {
+      return 'contested';
+    }
+    if (!controllingCrewId) {
+      return 'neutral';
+    }
+    if (outpostCrewId && outpostCrewId !== controllingCrewId) {
+      return 'rival';
+    }
+    return 'friendly';
+  }
+
+  /**
+   * Plan spawns for a cell and window. Pure: identical input always yields
+   * identical spawns, including IDs.
+   */
+  planSpawns(input: SpawnPlanInput): SynthlingSpawn[] {
+    const seed = this.computeSeed(input.districtId, input.window.key, input.cellH3);
+    const archetypes = input.archetypes ?? archetypeRegistry.getAll();
+    const archetypesById = new Map(archetypes.map((a) => [a.id, a]));
+    const rarityTable = this.buildRarityTable(input.config.rarityMultiplier, input.territory);
+    const pools = this.buildPools(archetypes, input.fingerprint, input.config.archetypeWeights);
+    const salt = getWeeklySalt(input.window.start);
+
+    const count = this.rollSpawnCount(
+      input.config.baseSpawnRate * input.scannerMultiplier,
+      new SeededRandom(hashSeed(seed, 'count'))
+    );
+
+    const spawns: SynthlingSpawn[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const rarity = new SeededRandom(hashSeed(seed, 'rarity', i)).weighted(rarityTable);
+      const slot = new SeededRandom(hashSeed(seed, 'slot', i));
+      const { tier, pool } = this.resolvePool(pools, rarity);
+
+      if (!pool) {
+        break;
+      }
+
+      const archetype = archetypesById.get(slot.weighted(pool));
+      if (!archetype) {
+        break;
+      }
+
+      const [minLevel, maxLevel] = SPAWN_CONFIG.levelRanges[tier];
+
+      spawns.push({
+        id: toUuid(hashSeed(seed, 'spawn', i)),
+        archetypeId: archetype.id,
+        cellH3: input.cellH3,
+        fingerprint: input.fingerprint,
+        imprint: synthlingGenerator.generate(archetype, input.fingerprint, salt).imprint,
+        spawnedAt: input.window.start,
+        expiresAt: input.window.end,
+        level: slot.int(minLevel, maxLevel),
+        rarity: tier,
+        visible: true,
+      });
+    }
+
+    return spawns;
+  }
+
+  /**
+   * Get spawns in a cell for the window containing `now`.
+   *
+   * Imprints come from the cell's reference fingerprint (see
+   * getReferenceFingerprint). A cell nobody has fingerprinted yet has
+   * nothing to derive creatures from, so it has no spawns.
+   *
+   * The first request in a window computes and caches the spawn set, and
+   * announces its visible spawns to cell and district subscribers; later
+   * requests in the same window read the cache.
+   */
+  async getSpawns(cellH3: string, now: Date = new Date()): Promise<SynthlingSpawn[]> {
+    const window = this.getWindow(now);
+    const cacheKey = RedisKeys.spawns(cellH3, window.key);
+
+    const cached = await redis.get(cacheKey);
+    if (cached) {
+      return deserializeSpawns(cached);
+    }
+
+    const [cell, config, scannerMultiplier, outpost, reference] = await Promise.all([
+      this.getCellState(cellH3),
+      this.getSpawnConfig(cellH3),
+      outpostManager.getSpawnMultiplier(cellH3),
+      outpostManager.getOutpostAtCell(cellH3),
+      this.getReferenceFingerprint(cellH3, window),
+    ]);
+
+    if (!reference) {
+      logger.debug({ cellH3, window: window.key }, 'No fingerprint for cell, skipping spawns');
+      return [];
+    }
+
+    const territory = this.resolveTerritory(
+      cell.controllingCrewId,
+      cell.contested,
+      outpost?.crewId ?? null
+    );
+
+    const spawns = this.planSpawns({
+      districtId: cell.districtId,
+      cellH3,
+      window,
+      config,
+      scannerMultiplier,
+      territory,
+      fingerprint: reference,
+    });
+
+    const ttlSeconds = Math.max(
+      1,
+      Math.min(RedisTTL.spawns, Math.ceil((window.end.getTime() - now.getTime()) / 1000))
+    );
+    await redis.setex(cacheKey, ttlSeconds, JSON.stringify(spawns));
+
+    await query(
+      `UPDATE spawn_configs
+       SET modified_spawn_rate = $2, last_spawn_at = NOW()
+       WHERE cell_h3 = $1`,
+      [cellH3, config.baseSpawnRate * scannerMultiplier]
+    );
+
+    logger.debug(
+      { cellH3, window: window.key, territory, count: spawns.length },
+      'Spawns computed'
+    );
+
+    const visible = spawns.filter((s) => s.visible);
+    if (visible.length > 0) {
+      const districtId = cell.districtId !== 'unassigned' ? cell.districtId : undefined;
+      await realtimeBus.publish(
+        'spawns_appeared',
+        [RealtimeTopics.cell(cellH3), ...(districtId ? [RealtimeTopics.district(districtId)] : [])],
+        {
+          cellH3,
+          districtId,
+          spawns: visible.map((s) => ({
+            id: s.id,
+            archetypeId: s.archetypeId,
+            rarity: s.rarity,
+            level: s.level,
+            expiresAt: s.expiresAt.toISOString(),
+          })),
+        }
+      );
+    }
+
+    return spawns;
+  }
+
+  /**
+   * Find a spawn by ID within a cell's current window.
+   */
+  async getSpawn(
+    spawnId: string,
+    cellH3: string,
+    now: Date = new Date()
+  ): Promise<SynthlingSpawn | null> {
+    const spawns = await this.getSpawns(cellH3, now);
+    return spawns.find((s) => s.id === spawnId) ?? null;
+  }
+
+  /**
+   * Get spawn config for a cell, falling back to table defaults.
+   */
+  async getSpawnConfig(cellH3: string): Promise<SpawnConfig> {
+    const result = await query<{
+      cell_h3: string;
+      base_spawn_rate: number;
+      modified_spawn_rate: number;
+      rarity_multiplier: number;
+      archetype_weights: Record<string, number>;
+    }>(
+      `SELECT cell_h3, base_spawn_rate, modified_spawn_rate, rarity_multiplier, archetype_weights
+       FROM spawn_configs WHERE cell_h3 = $1`,
+      [cellH3]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return {
+        cellH3,
+        baseSpawnRate: 1.0,
+        modifiedSpawnRate: 1.0,
+        rarityMultiplier: 1.0,
+        archetypeWeights: {},
+      };
+    }
+
+    return {
+      cellH3: row.cell_h3,
+      baseSpawnRate: Number(row.base_spawn_rate),
+      modifiedSpawnRate: Number(row.modified_spawn_rate),
+      rarityMultiplier: Number(row.rarity_multiplier),
+      archetypeWeights: row.archetype_weights ?? {},
+    };
+  }
+
+  /**
+   * Weighted archetype pools per rarity tier. Weight is the configured
+   * archetype weight (default 1, 0 disables) scaled by place affinity.
+   */
+  private buildPools(
+    archetypes: SynthlingArchetype[],
+    fingerprint: PlaceFingerprint,
+    configuredWeights: Record<string, number>
+  ): Record<Rarity, Record<string, number>> {
+    const pools: Record<Rarity, Record<string, number>> = {
+      common: {},
+      uncommon: {},
+      rare: {},
+      legendary: {},
+    };
+
+    for (const archetype of archetypes) {
+      const configured = configuredWeights[archetype.id] ?? 1;
+      if (configured <= 0) {
+        continue;
+      }
+
+      const affinity = affinityScorer.score(archetype, fingerprint).score;
+      pools[archetype.rarity][archetype.id] = configured * (SPAWN_CONFIG.affinityFloor + affinity);
+    }
+
+    return pools;
+  }
+
+  /**
+   * Pool for a rolled rarity, stepping down to more common tiers when a
+   * tier has no eligible archetypes.
+   */
+  private resolvePool(
+    pools: Record<Rarity, Record<string, number>>,
+    rarity: Rarity
+  ): { tier: Rarity; pool: Record<string, number> | null } {
+    for (const tier of RARITY_ORDER.slice(RARITY_ORDER.indexOf(rarity))) {
+      if (Object.keys(pools[tier]).length > 0) {
+        return { tier, pool: pools[tier] };
+      }
+    }
+    return { tier: rarity, pool: null };
+  }
+
+  /**
+   * Spawns per window: whole part of the rate, plus one more with
+   * probability equal to the fractional part.
+   */
+  private rollSpawnCount(ratePerHour: number, rng: SeededRandom): number {
+    const expected = Math.max(0, ratePerHour) * (SPAWN_CONFIG.windowMinutes / 60);
+    const whole = Math.floor(expected);
+    const count = whole + (rng.chance(expected - whole) ? 1 : 0);
+    return Math.min(count, SPAWN_CONFIG.maxSpawnsPerWindow);
+  }
+
+  /**
+   * District and control state for a cell.
+   */
+  private async getCellState(cellH3: string): Promise<{
+    districtId: string;
+    controllingCrewId: string | null;
+    contested: boolean;
+  }> {
+    const result = await query<{
+      district_id: string | null;
+      controlling_crew_id: string | null;
+      contested_since: Date | null;
+    }>(
+      `SELECT district_id, controlling_crew_id, contested_since
+       FROM turf_cells WHERE h3_index = $1`,
+      [cellH3]
+    );
+
+    const row = result.rows[0];
+    return {
+      districtId: row?.district_id ?? 'unassigned',
+      controllingCrewId: row?.controlling_crew_id ?? null,
+      contested: row?.contested_since != null,
+    };
+  }
+
+  /**
+   * Reference fingerprint for a cell and window: the most recent one
+   * captured before the window began, or failing that the earliest one
+   * captured during it. Either choice stays fixed for the whole window as
+   * new fingerprints arrive.
+   */
+  private async getReferenceFingerprint(
+    cellH3: string,
+    window: SpawnWindow
+  ): Promise<PlaceFingerprint | null> {
+    const result = await query<{
+      id: string;
+      version: number;
+      hash: string;
+      device_id: string;
+      palette: PlaceFingerprint['palette'];
+      geometry: PlaceFingerprint['geometry'];
+      motion: PlaceFingerprint['motion'];
+      audio: PlaceFingerprint['audio'];
+      locality: PlaceFingerprint['locality'];
+      captured_at: Date;
+    }>(
+      `SELECT id, version, hash, device_id, palette, geometry, motion, audio, locality, captured_at
+       FROM fingerprints
+       WHERE (locality->>'h3Cell')::text = $1 AND captured_at < $3
+       ORDER BY
+         (captured_at < $2) DESC,
+         CASE WHEN captured_at < $2 THEN captured_at END DESC,
+         captured_at ASC,
+         id
+       LIMIT 1`,
+      [cellH3, window.start, window.end]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      version: row.version as 1,
+      id: row.id,
+      hash: row.hash,
+      deviceId: row.device_id,
+      palette: row.palette,
+      geometry: row.geometry,
+      motion: row.motion,
+      audio: row.audio,
+      locality: row.locality,
+      capturedAt: row.captured_at,
+    };
+  }
+}
+
+/**
+ * Format a hex digest as a UUID string so spawn IDs fit UUID columns.
+ */
+function toUuid(digest: string): string {
+  return [
+    digest.slice(0, 8),
+    digest.slice(8, 12),
+    digest.slice(12, 16),
+    digest.slice(16, 20),
+    digest.slice(20, 32),
+  ].join('-');
+}
+
+/**
+ * Revive dates in cached spawns.
+ */
+function deserializeSpawns(json: string): SynthlingSpawn[] {
+  const parsed = JSON.parse(json) as SynthlingSpawn[];
+
+  return parsed.map((s) => ({
+    ...s,
+    spawnedAt: new Date(s.spawnedAt),
+    expiresAt: new Date(s.expiresAt),
+    fingerprint: { ...s.fingerprint, capturedAt: new Date(s.fingerprint.capturedAt) },
+  }));
+}
+
+// Singleton instance
+export const spawnEngine = new SpawnEngine();
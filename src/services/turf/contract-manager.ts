@@ -0,0 +1,455 @@
+/**
+ * Contract Manager - District contracts and their rewards.
+ *
+ * Handles:
+ * - Generating capture/survey/patrol/raid/defend contracts per district
+ * - Claiming contracts
+ * - Advancing requirements from fingerprints, captures, cell visits and raids
+ * - Paying rewards on completion
+ *
+ * Progress only counts inside the contract's district. Completion and
+ * payout happen in the same transaction, so a contract is paid once.
+ *
+ * See specs/turf-mechanics/spec.md for full specification.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type pg from 'pg';
+import { query, transaction } from '../../db/connection.js';
+import { influenceManager } from './influence-manager.js';
+import { moduleItemId } from './outpost-manager.js';
+import { toTerritoryCell } from './territory.js';
+import { hashSeed, SeededRandom } from '../synthling/seeded-random.js';
+import { createLogger } from '../../utils/logger.js';
+import type {
+  Contract,
+  ContractProgressType,
+  ContractRequirement,
+  ContractReward,
+  ContractType,
+  OutpostModuleType,
+} from '../../types/turf.js';
+
+const logger = createLogger('contract-manager');
+
+/**
+ * Contract configuration.
+ */
+const CONTRACT_CONFIG = {
+  perDistrict: 3,         // Open contracts kept available per district
+  durationHours: 24,
+  maxActivePerUser: 3,
+};
+
+interface ContractTemplate {
+  title: string;
+  description: string;  // {target} and {district} are filled in
+  requirement: ContractProgressType;
+  target: [number, number];
+  influence: number;
+  bonus?: 'resource' | 'outpost_module';
+}
+
+/**
+ * Contract templates by type. Influence follows the spec's 15-50 range.
+ */
+const CONTRACT_TEMPLATES: Record<ContractType, ContractTemplate> = {
+  capture: {
+    title: 'Capture Challenge',
+    description: 'Capture {target} Synthlings in {district}.',
+    requirement: 'synthling_capture',
+    target: [3, 5],
+    influence: 30,
+    bonus: 'resource',
+  },
+  survey: {
+    title: 'Survey Mission',
+    description: 'Submit {target} place fingerprints in {district}.',
+    requirement: 'fingerprint_submission',
+    target: [4, 8],
+    influence: 20,
+  },
+  patrol: {
+    title: 'Patrol Route',
+    description: 'Visit {target} different cells in {district}.',
+    requirement: 'cell_visit',
+    target: [5, 10],
+    influence: 15,
+  },
+  raid: {
+    title: 'Strike Order',
+    description: 'Win a raid in {district}.',
+    requirement: 'raid_success',
+    target: [1, 1],
+    influence: 50,
+    bonus: 'outpost_module',
+  },
+  defend: {
+    title: 'Hold the Line',
+    description: 'Defend a raid in {district}.',
+    requirement: 'raid_defense',
+    target: [1, 1],
+    influence: 40,
+    bonus: 'resource',
+  },
+};
+
+/**
+ * Relative generation weights by type.
+ */
+const TYPE_WEIGHTS: Record<ContractType, number> = {
+  capture: 3,
+  survey: 3,
+  patrol: 2,
+  raid: 1,
+  defend: 1,
+};
+
+/**
+ * Inventory items granted as resource rewards (evolution items).
+ */
+const RESOURCE_ITEMS = ['storm_core', 'bedrock_core'] as const;
+
+const MODULE_TYPES: readonly OutpostModuleType[] = ['scanner', 'amplifier', 'shield', 'beacon'];
+
+interface ContractRow {
+  id: string;
+  district_id: string;
+  type: ContractType;
+  title: string;
+  description: string;
+  requirements: ContractRequirement[];
+  rewards: ContractReward[];
+  expires_at: Date;
+  claimed_by: string | null;
+  claimed_at: Date | null;
+  completed_at: Date | null;
+  visited_cells: string[];
+}
+
+/**
+ * Contract Manager Service
+ */
+export class ContractManager {
+  /**
+   * Top up a district's open contracts. Returns the number generated.
+   */
+  async generateContracts(
+    districtId: string,
+    districtName: string,
+    now: Date = new Date()
+  ): Promise<number> {
+    const open = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM contracts
+       WHERE district_id = $1 AND claimed_by IS NULL AND completed_at IS NULL AND expires_at > $2`,
+      [districtId, now]
+    );
+
+    const missing = CONTRACT_CONFIG.perDistrict - parseInt(open.rows[0]?.count ?? '0', 10);
+    if (missing <= 0) {
+      return 0;
+    }
+
+    const rng = new SeededRandom(hashSeed('contracts', districtId, now.getTime()));
+    const expiresAt = new Date(now.getTime() + CONTRACT_CONFIG.durationHours * 60 * 60 * 1000);
+
+    for (let i = 0; i < missing; i++) {
+      const type = rng.weighted(TYPE_WEIGHTS);
+      const contract = this.buildContract(rng, type, districtId, districtName, expiresAt);
+
+      await query(
+        `INSERT INTO contracts (id, district_id, type, title, description, requirements, rewards, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          contract.id,
+          districtId,
+          type,
+          contract.title,
+          contract.description,
+          JSON.stringify(contract.requirements),
+          JSON.stringify(contract.rewards),
+          expiresAt,
+        ]
+      );
+    }
+
+    logger.debug({ districtId, generated: missing }, 'Contracts generated');
+
+    return missing;
+  }
+
+  /**
+   * Top up open contracts in every district. Returns the number generated.
+   */
+  async generateAllContracts(now: Date = new Date()): Promise<number> {
+    const districts = await query<{ id: string; name: string }>(
+      `SELECT id, name FROM districts`
+    );
+
+    let generated = 0;
+    for (const district of districts.rows) {
+      generated += await this.generateContracts(district.id, district.name, now);
+    }
+
+    if (generated > 0) {
+      logger.info({ generated }, 'District contracts generated');
+    }
+
+    return generated;
+  }
+
+  /**
+   * Contracts in a district that the user can see: open ones plus the
+   * user's own active claims.
+   */
+  async getDistrictContracts(
+    districtId: string,
+    userId: string,
+    now: Date = new Date()
+  ): Promise<Contract[]> {
+    const result = await query<ContractRow>(
+      `SELECT * FROM contracts
+       WHERE district_id = $1 AND completed_at IS NULL AND expires_at > $3
+         AND (claimed_by IS NULL OR claimed_by = $2)
+       ORDER BY expires_at, id`,
+      [districtId, userId, now]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * Contracts a user has claimed, most recent first.
+   */
+  async getUserContracts(userId: string, limit: number = 20): Promise<Contract[]> {
+    const result = await query<ContractRow>(
+      `SELECT * FROM contracts WHERE claimed_by = $1 ORDER BY claimed_at DESC LIMIT $2`,
+      [userId, limit]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * Delete expired contracts nobody claimed. Claimed ones are kept as the
+   * player's history. Returns the number deleted.
+   */
+  async expireContracts(now: Date = new Date()): Promise<number> {
+    const result = await query(
+      `DELETE FROM contracts
+       WHERE claimed_by IS NULL AND completed_at IS NULL AND expires_at <= $1`,
+      [now]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Claim an open contract.
+   */
+  async claimContract(contractId: string, userId: string, now: Date = new Date()): Promise<Contract> {
+    const active = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM contracts
+       WHERE claimed_by = $1 AND completed_at IS NULL AND expires_at > $2`,
+      [userId, now]
+    );
+
+    if (parseInt(active.rows[0]?.count ?? '0', 10) >= CONTRACT_CONFIG.maxActivePerUser) {
+      throw new Error(`Cannot hold more than ${CONTRACT_CONFIG.maxActivePerUser} active contracts`);
+    }
+
+    // Conditional update so two players cannot claim the same contract
+    const result = await query<ContractRow>(
+      `UPDATE contracts SET claimed_by = $2, claimed_at = $3
+       WHERE id = $1 AND claimed_by IS NULL AND completed_at IS NULL AND expires_at > $3
+       RETURNING *`,
+      [contractId, userId, now]
+    );
+
+    if (!result.rows[0]) {
+      const existing = await query<{ id: string }>(
+        `SELECT id FROM contracts WHERE id = $1`,
+        [contractId]
+      );
+
+      throw new Error(existing.rows[0] ? 'Contract is no longer available' : 'Contract not found');
+    }
+
+    logger.info({ contractId, userId }, 'Contract claimed');
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  /**
+   * Advance the user's claimed contracts in the cell's district for one
+   * action. Finer cells count as their territory cell. Returns the
+   * contracts this action completed.
+   *
+   * Never throws: a tracking failure must not fail the action itself.
+   */
+  async recordProgress(
+    userId: string,
+    type: ContractProgressType,
+    cellH3: string,
+    now: Date = new Date()
+  ): Promise<Contract[]> {
+    try {
+      const territoryCell = toTerritoryCell(cellH3);
+
+      const completed = await transaction(async (client) => {
+        const result = await client.query<ContractRow>(
+          `SELECT c.* FROM contracts c
+           JOIN turf_cells t ON t.district_id = c.district_id AND t.h3_index = $3
+           WHERE c.claimed_by = $1 AND c.completed_at IS NULL AND c.expires_at > $4
+             AND c.requirements @> $2::jsonb
+           FOR UPDATE OF c`,
+          [userId, JSON.stringify([{ type }]), territoryCell, now]
+        );
+
+        const done: ContractRow[] = [];
+
+        for (const row of result.rows) {
+          if (type === 'cell_visit' && row.visited_cells.includes(territoryCell)) {
+            continue;
+          }
+
+          const requirements = row.requirements.map((r) =>
+            r.type === type ? { ...r, current: Math.min(r.target, r.current + 1) } : r
+          );
+          const visitedCells = type === 'cell_visit' ? [...row.visited_cells, territoryCell] : row.visited_cells;
+          const complete = requirements.every((r) => r.current >= r.target);
+
+          await client.query(
+            `UPDATE contracts SET requirements = $2, visited_cells = $3, completed_at = $4 WHERE id = $1`,
+            [row.id, JSON.stringify(requirements), visitedCells, complete ? now : null]
+          );
+
+          if (complete) {
+            await this.payRewards(client, row, userId, territoryCell);
+            done.push({ ...row, requirements, visited_cells: visitedCells, completed_at: now });
+          }
+        }
+
+        return done;
+      });
+
+      for (const row of completed) {
+        logger.info({ contractId: row.id, userId, type: row.type }, 'Contract completed');
+      }
+
+      return completed.map((row) => this.mapRow(row));
+    } catch (error) {
+      logger.warn({ error, userId, type, cellH3 }, 'Failed to record contract progress');
+      return [];
+    }
+  }
+
+  /**
+   * Pay a completed contract's rewards. Influence goes to the user's crew
+   * in the cell where the contract was completed.
+   */
+  private async payRewards(
+    client: pg.PoolClient,
+    row: ContractRow,
+    userId: string,
+    cellH3: string
+  ): Promise<void> {
+    const userResult = await client.query<{ crew_id: string | null }>(
+      `SELECT crew_id FROM users WHERE id = $1`,
+      [userId]
+    );
+    const crewId = userResult.rows[0]?.crew_id;
+
+    for (const reward of row.rewards) {
+      switch (reward.type) {
+        case 'influence':
+          if (crewId) {
+            const multiplier = reward.amount / influenceManager.getBaseAmount('contract_completion');
+            await influenceManager.awardInfluence(
+              cellH3, crewId, userId, 'contract_completion', multiplier, client
+            );
+          }
+          break;
+
+        case 'resource':
+        case 'outpost_module': {
+          const itemId = reward.type === 'resource'
+            ? String(reward.details?.itemId)
+            : moduleItemId(
+              reward.details?.moduleType as OutpostModuleType,
+              Number(reward.details?.level ?? 1)
+            );
+
+          await client.query(
+            `INSERT INTO user_items (user_id, item_id, quantity)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (user_id, item_id) DO UPDATE SET quantity = user_items.quantity + EXCLUDED.quantity`,
+            [userId, itemId, reward.amount]
+          );
+          break;
+        }
+
+        case 'synthling':
+          // Not generated yet; nothing to grant
+          logger.warn({ contractId: row.id }, 'Synthling contract rewards are not supported');
+          break;
+      }
+    }
+  }
+
+  /**
+   * Build a contract from its type's template.
+   */
+  private buildContract(
+    rng: SeededRandom,
+    type: ContractType,
+    districtId: string,
+    districtName: string,
+    expiresAt: Date
+  ): Contract {
+    const template = CONTRACT_TEMPLATES[type];
+    const target = rng.int(template.target[0], template.target[1]);
+
+    const rewards: ContractReward[] = [{ type: 'influence', amount: template.influence }];
+    if (template.bonus === 'resource') {
+      rewards.push({ type: 'resource', amount: 1, details: { itemId: rng.pick(RESOURCE_ITEMS) } });
+    } else if (template.bonus === 'outpost_module') {
+      rewards.push({ type: 'outpost_module', amount: 1, details: { moduleType: rng.pick(MODULE_TYPES), level: 1 } });
+    }
+
+    return {
+      id: uuid(),
+      districtId,
+      type,
+      title: template.title,
+      description: template.description
+        .replace('{target}', String(target))
+        .replace('{district}', districtName),
+      requirements: [{ type: template.requirement, target, current: 0 }],
+      rewards,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Map a database row to a contract.
+   */
+  private mapRow(row: ContractRow): Contract {
+    return {
+      id: row.id,
+      districtId: row.district_id,
+      type: row.type,
+      title: row.title,
+      description: row.description,
+      requirements: row.requirements,
+      rewards: row.rewards,
+      expiresAt: row.expires_at,
+      claimedBy: row.claimed_by ?? undefined,
+      claimedAt: row.claimed_at ?? undefined,
+      completedAt: row.completed_at ?? undefined,
+    };
+  }
+}
+
+// Singleton instance
+export const contractManager = new ContractManager();
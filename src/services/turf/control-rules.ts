@@ -0,0 +1,127 @@
+/**
+ * Control Rules - Pure cell control and influence cap rules.
+ *
+ * Handles:
+ * - Cell control: plurality with a 20% minimum share (turf spec FR-3)
+ * - Tie-breaking by most recent influence action
+ * - When a cell counts as contested
+ * - Influence caps per player and per cell (turf spec FR-2)
+ *
+ * No I/O; the influence manager and raid engine apply these to locked
+ * cell rows.
+ *
+ * See specs/turf-mechanics/spec.md for full specification.
+ */
+
+/**
+ * Control thresholds.
+ */
+export const CONTROL_RULES = {
+  minControlShare: 0.2,   // Share of the cell's influence needed to control it
+};
+
+/**
+ * Influence caps.
+ */
+export const INFLUENCE_CAPS = {
+  perPlayerPerCell: 1000,
+  perCell: 10000,
+};
+
+export interface CellControlState {
+  controllingCrewId: string | null;
+  contested: boolean;
+  share: number;  // Leader's share of the cell's influence, 0-1
+}
+
+/**
+ * Round influence to the 2 decimal places the database stores.
+ */
+export function roundInfluence(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Crews sharing the top score, if more than one does. Ties are broken
+ * by most recent influence action, which the caller looks up only for
+ * these crews.
+ */
+export function findTiedLeaders(scores: Record<string, number>): string[] {
+  let top = 0;
+  let leaders: string[] = [];
+
+  for (const [crewId, score] of Object.entries(scores)) {
+    if (score <= 0) {
+      continue;
+    }
+    if (score > top) {
+      top = score;
+      leaders = [crewId];
+    } else if (score === top) {
+      leaders.push(crewId);
+    }
+  }
+
+  return leaders.length > 1 ? leaders : [];
+}
+
+/**
+ * Work out who controls a cell.
+ *
+ * The crew with the most influence controls the cell if it holds at
+ * least 20% of it; ties go to the crew that gained influence most
+ * recently (then lowest crew ID, so the result is stable). A cell with
+ * influence is contested while no crew reaches 20% or the lead is tied.
+ *
+ * @param lastInfluenceAt Epoch ms of each crew's latest influence gain
+ */
+export function resolveCellControl(
+  scores: Record<string, number>,
+  lastInfluenceAt: Record<string, number> = {}
+): CellControlState {
+  const entries = Object.entries(scores)
+    .filter(([, score]) => score > 0)
+    .sort(([crewA, scoreA], [crewB, scoreB]) =>
+      scoreB - scoreA
+        || (lastInfluenceAt[crewB] ?? 0) - (lastInfluenceAt[crewA] ?? 0)
+        || (crewA < crewB ? -1 : crewA > crewB ? 1 : 0)
+    );
+
+  // Summed after sorting so the share doesn't depend on key order
+  const total = entries.reduce((sum, [, score]) => sum + score, 0);
+
+  const [leader, runnerUp] = entries;
+  if (!leader || total <= 0) {
+    return { controllingCrewId: null, contested: false, share: 0 };
+  }
+
+  const share = leader[1] / total;
+  if (share < CONTROL_RULES.minControlShare) {
+    return { controllingCrewId: null, contested: true, share };
+  }
+
+  return {
+    controllingCrewId: leader[0],
+    contested: runnerUp !== undefined && runnerUp[1] === leader[1],
+    share,
+  };
+}
+
+/**
+ * How much of an award fits under the player and cell caps.
+ * Never negative; rounded down so the caps are never exceeded.
+ */
+export function capInfluenceAmount(
+  amount: number,
+  playerInfluence: number,
+  cellTotal: number
+): number {
+  const allowed = Math.min(
+    amount,
+    INFLUENCE_CAPS.perPlayerPerCell - playerInfluence,
+    INFLUENCE_CAPS.perCell - cellTotal
+  );
+
+  // The epsilon absorbs float noise such as 0.29 * 100 = 28.999...
+  return allowed > 0 ? Math.floor(allowed * 100 + 1e-9) / 100 : 0;
+}
@@ -0,0 +1,345 @@
+/**
+ * Control Tracker - District control and control-change history.
+ *
+ * Handles:
+ * - District control rollup from cell control (turf spec FR-3)
+ * - Recording cell captures, contested cells and district gains/losses
+ * - Querying control history for news feeds and analytics
+ *
+ * A crew controls a district when it holds a majority of the district's
+ * cells: 4 of 7, 10 of 19. Only the district of a cell that changed hands
+ * is recomputed. The cell row is locked before the district row, so
+ * concurrent captures in one district are counted one after the other.
+ *
+ * See specs/turf-mechanics/spec.md for full specification.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type pg from 'pg';
+import { query, transaction } from '../../db/connection.js';
+import { realtimeBus, RealtimeTopics } from '../realtime/event-bus.js';
+import { createLogger } from '../../utils/logger.js';
+import type { ControlEvent, ControlEventType } from '../../types/turf.js';
+import type { RealtimeTopic } from '../../types/realtime.js';
+
+const logger = createLogger('control-tracker');
+
+/**
+ * Control history query limits.
+ */
+const HISTORY_CONFIG = {
+  defaultLimit: 50,
+  maxLimit: 200,
+};
+
+/**
+ * A cell's control before and after an update.
+ */
+export interface CellControlChange {
+  cellH3: string;
+  districtId: string | null;
+  previousCrewId: string | null;
+  newCrewId: string | null;
+  contestedStarted: boolean;
+}
+
+export interface ControlEventFilter {
+  districtId?: string;
+  crewId?: string;       // Matches either side of the event
+  cellH3?: string;
+  types?: ControlEventType[];
+  before?: Date;         // For paging back through history
+  limit?: number;
+}
+
+interface ControlEventRow {
+  id: string;
+  event_type: ControlEventType;
+  cell_h3: string | null;
+  district_id: string | null;
+  crew_id: string | null;
+  other_crew_id: string | null;
+  occurred_at: Date;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Cells needed to control a district of the given size.
+ */
+export function majorityThreshold(cellCount: number): number {
+  return Math.floor(cellCount / 2) + 1;
+}
+
+/**
+ * Control Tracker Service
+ */
+export class ControlTracker {
+  /**
+   * Record a cell's control change and roll it up into its district.
+   * Runs inside the caller's transaction, with the cell row locked.
+   */
+  async recordCellChange(
+    change: CellControlChange,
+    client: pg.PoolClient,
+    now: Date = new Date()
+  ): Promise<ControlEvent[]> {
+    const events: ControlEvent[] = [];
+    const districtId = change.districtId ?? undefined;
+    const changedHands = change.previousCrewId !== change.newCrewId;
+
+    if (changedHands && change.newCrewId) {
+      events.push(this.buildEvent('cell_captured', now, {
+        cellH3: change.cellH3,
+        districtId,
+        crewId: change.newCrewId,
+        otherCrewId: change.previousCrewId ?? undefined,
+      }));
+    } else if (changedHands && change.previousCrewId) {
+      events.push(this.buildEvent('cell_lost', now, {
+        cellH3: change.cellH3,
+        districtId,
+        crewId: change.previousCrewId,
+      }));
+    }
+
+    if (change.contestedStarted) {
+      events.push(this.buildEvent('contested_started', now, {
+        cellH3: change.cellH3,
+        districtId,
+        crewId: change.newCrewId ?? undefined,
+        otherCrewId: change.previousCrewId ?? undefined,
+      }));
+    }
+
+    if (changedHands && change.districtId) {
+      events.push(...await this.rollupDistrict(change.districtId, client, now));
+    }
+
+    await this.saveEvents(events, client);
+
+    if (events.length > 0) {
+      logger.debug(
+        { cellH3: change.cellH3, types: events.map((e) => e.type) },
+        'Control changed'
+      );
+    }
+
+    return events;
+  }
+
+  /**
+   * Recompute a district's controller, control percentage and total
+   * influence from its cells. Pass a client to run inside the caller's
+   * transaction.
+   */
+  async updateDistrictControl(
+    districtId: string,
+    client?: pg.PoolClient,
+    now: Date = new Date()
+  ): Promise<ControlEvent[]> {
+    if (!client) {
+      return transaction((c) => this.updateDistrictControl(districtId, c, now));
+    }
+
+    const events = await this.rollupDistrict(districtId, client, now);
+    await this.saveEvents(events, client);
+
+    return events;
+  }
+
+  /**
+   * Control history, newest first.
+   */
+  async getEvents(filter: ControlEventFilter = {}): Promise<ControlEvent[]> {
+    const limit = Math.min(
+      Math.max(filter.limit ?? HISTORY_CONFIG.defaultLimit, 1),
+      HISTORY_CONFIG.maxLimit
+    );
+
+    const result = await query<ControlEventRow>(
+      `SELECT id, event_type, cell_h3, district_id, crew_id, other_crew_id, occurred_at, metadata
+       FROM control_events
+       WHERE ($1::uuid IS NULL OR district_id = $1)
+         AND ($2::uuid IS NULL OR crew_id = $2 OR other_crew_id = $2)
+         AND ($3::text IS NULL OR cell_h3 = $3)
+         AND ($4::text[] IS NULL OR event_type = ANY($4))
+         AND ($5::timestamptz IS NULL OR occurred_at < $5)
+       ORDER BY occurred_at DESC
+       LIMIT $6`,
+      [
+        filter.districtId ?? null,
+        filter.crewId ?? null,
+        filter.cellH3 ?? null,
+        filter.types && filter.types.length > 0 ? filter.types : null,
+        filter.before ?? null,
+        limit,
+      ]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * Work out the district's controller from its cells and store it.
+   * Returns gain/loss events, which the caller saves.
+   */
+  private async rollupDistrict(
+    districtId: string,
+    client: pg.PoolClient,
+    now: Date
+  ): Promise<ControlEvent[]> {
+    const district = await client.query<{ controlling_crew_id: string | null }>(
+      `SELECT controlling_crew_id FROM districts WHERE id = $1 FOR UPDATE`,
+      [districtId]
+    );
+
+    if (!district.rows[0]) {
+      return [];
+    }
+
+    const counts = await client.query<{
+      controlling_crew_id: string | null;
+      cells: string;
+      influence: string;
+    }>(
+      `SELECT controlling_crew_id, COUNT(*) as cells, COALESCE(SUM(total_influence), 0) as influence
+       FROM turf_cells
+       WHERE district_id = $1
+       GROUP BY controlling_crew_id`,
+      [districtId]
+    );
+
+    let totalCells = 0;
+    let totalInfluence = 0;
+    for (const row of counts.rows) {
+      totalCells += parseInt(row.cells, 10);
+      totalInfluence += Number(row.influence);
+    }
+
+    const threshold = majorityThreshold(totalCells);
+    let controller: { crewId: string; cells: number } | null = null;
+    for (const row of counts.rows) {
+      const cells = parseInt(row.cells, 10);
+      if (row.controlling_crew_id && cells >= threshold) {
+        controller = { crewId: row.controlling_crew_id, cells };
+      }
+    }
+
+    const controlPercentage = controller && totalCells > 0
+      ? Math.round((controller.cells / totalCells) * 10000) / 100
+      : 0;
+
+    await client.query(
+      `UPDATE districts
+       SET controlling_crew_id = $2, control_percentage = $3, total_influence = $4
+       WHERE id = $1`,
+      [districtId, controller?.crewId ?? null, controlPercentage, totalInfluence]
+    );
+
+    const previousCrewId = district.rows[0].controlling_crew_id;
+    const newCrewId = controller?.crewId ?? null;
+    if (previousCrewId === newCrewId) {
+      return [];
+    }
+
+    const metadata = {
+      cells: controller?.cells ?? 0,
+      totalCells,
+      threshold,
+    };
+
+    const events: ControlEvent[] = [];
+    if (previousCrewId) {
+      events.push(this.buildEvent('district_lost', now, {
+        districtId,
+        crewId: previousCrewId,
+        otherCrewId: newCrewId ?? undefined,
+        metadata,
+      }));
+    }
+    if (newCrewId) {
+      events.push(this.buildEvent('district_gained', now, {
+        districtId,
+        crewId: newCrewId,
+        otherCrewId: previousCrewId ?? undefined,
+        metadata,
+      }));
+    }
+
+    logger.info({ districtId, previousCrewId, newCrewId, ...metadata }, 'District control changed');
+
+    return events;
+  }
+
+  /**
+   * Insert events into the history table and push them to subscribers
+   * once the transaction commits.
+   */
+  private async saveEvents(events: ControlEvent[], client: pg.PoolClient): Promise<void> {
+    for (const event of events) {
+      await client.query(
+        `INSERT INTO control_events
+           (id, event_type, cell_h3, district_id, crew_id, other_crew_id, occurred_at, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          event.id,
+          event.type,
+          event.cellH3 ?? null,
+          event.districtId ?? null,
+          event.crewId ?? null,
+          event.otherCrewId ?? null,
+          event.occurredAt,
+          JSON.stringify(event.metadata ?? {}),
+        ]
+      );
+
+      const topics: RealtimeTopic[] = [
+        ...(event.cellH3 ? [RealtimeTopics.cell(event.cellH3)] : []),
+        ...(event.districtId ? [RealtimeTopics.district(event.districtId)] : []),
+        ...(event.crewId ? [RealtimeTopics.crew(event.crewId)] : []),
+        ...(event.otherCrewId ? [RealtimeTopics.crew(event.otherCrewId)] : []),
+      ];
+
+      await realtimeBus.publish(
+        'control_changed',
+        topics,
+        {
+          controlEventId: event.id,
+          controlEventType: event.type,
+          cellH3: event.cellH3,
+          districtId: event.districtId,
+          crewId: event.crewId,
+          otherCrewId: event.otherCrewId,
+        },
+        client
+      );
+    }
+  }
+
+  private buildEvent(
+    type: ControlEventType,
+    occurredAt: Date,
+    fields: Omit<ControlEvent, 'id' | 'type' | 'occurredAt'>
+  ): ControlEvent {
+    return { id: uuid(), type, occurredAt, ...fields };
+  }
+
+  /**
+   * Map a database row to an event.
+   */
+  private mapRow(row: ControlEventRow): ControlEvent {
+    return {
+      id: row.id,
+      type: row.event_type,
+      cellH3: row.cell_h3 ?? undefined,
+      districtId: row.district_id ?? undefined,
+      crewId: row.crew_id ?? undefined,
+      otherCrewId: row.other_crew_id ?? undefined,
+      occurredAt: row.occurred_at,
+      metadata: row.metadata,
+    };
+  }
+}
+
+// Singleton instance
+export const controlTracker = new ControlTracker();
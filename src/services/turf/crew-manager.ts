@@ -0,0 +1,545 @@
+/**
+ * Crew Manager - Crew membership lifecycle.
+ *
+ * Handles:
+ * - Founding a crew
+ * - Invite codes, joining and leaving
+ * - Roles (leader, officer, member), promotions and kicks
+ * - Leadership succession when the leader leaves
+ * - Reassigning or forfeiting a departing member's outposts
+ * - The crew-switch cooldown (no influence or raids for 7 days)
+ * - Crew statistics
+ *
+ * Membership lives on users (crew_id, crew_role). Every change locks the
+ * crew row, so changes to one crew apply one at a time.
+ *
+ * See specs/turf-mechanics/spec.md for full specification.
+ */
+
+import { randomBytes } from 'crypto';
+import type pg from 'pg';
+import { query, transaction } from '../../db/connection.js';
+import { derivedConfig } from '../../config/index.js';
+import { realtimeGateway } from '../realtime/gateway.js';
+import { createLogger } from '../../utils/logger.js';
+import type { CrewDeparture, CrewInvite, CrewMember, CrewRole } from '../../types/turf.js';
+
+const logger = createLogger('crew-manager');
+
+/**
+ * Invite code alphabet, without look-alike characters (0/O, 1/I).
+ */
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+/**
+ * SQL ranking a role column by seniority, for succession and listings.
+ */
+function roleRank(column: string): string {
+  return `CASE ${column} WHEN 'leader' THEN 0 WHEN 'officer' THEN 1 ELSE 2 END`;
+}
+
+export interface InviteOptions {
+  maxUses: number;
+  expiresInHours: number;
+}
+
+export interface CrewMembership {
+  crewId: string;
+  role: CrewRole;
+}
+
+interface CrewInviteRow {
+  id: string;
+  crew_id: string;
+  code: string;
+  created_by: string;
+  max_uses: number;
+  uses: number;
+  expires_at: Date;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Crew Manager Service
+ */
+export class CrewManager {
+  /**
+   * Found a crew led by the founder. Returns the crew ID.
+   */
+  async createCrew(
+    name: string,
+    tag: string,
+    color: string,
+    founderId: string,
+    now: Date = new Date()
+  ): Promise<string> {
+    const crewId = await transaction(async (client) => {
+      const founder = await this.getMembership(founderId, client);
+      if (founder) {
+        throw new Error('Already in a crew');
+      }
+
+      const result = await client.query<{ id: string }>(
+        `INSERT INTO crews (name, tag, color, member_count)
+         VALUES ($1, $2, $3, 1)
+         ON CONFLICT DO NOTHING
+         RETURNING id`,
+        [name, tag, color]
+      );
+
+      const id = result.rows[0]?.id;
+      if (!id) {
+        throw new Error('Crew name or tag already taken');
+      }
+
+      await client.query(
+        `UPDATE users SET crew_id = $2, crew_role = 'leader', crew_joined_at = $3 WHERE id = $1`,
+        [founderId, id, now]
+      );
+
+      return id;
+    });
+
+    logger.info({ crewId, name, founderId }, 'Crew created');
+
+    return crewId;
+  }
+
+  /**
+   * Create an invite code for the actor's crew. Leaders and officers only.
+   */
+  async createInvite(actorId: string, options: InviteOptions, now: Date = new Date()): Promise<CrewInvite> {
+    const actor = await this.requireOfficer(actorId, 'manage invites');
+    const expiresAt = new Date(now.getTime() + options.expiresInHours * 60 * 60 * 1000);
+
+    // Codes are random; retry on the rare collision
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const result = await query<CrewInviteRow>(
+        `INSERT INTO crew_invites (crew_id, code, created_by, max_uses, expires_at, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (code) DO NOTHING
+         RETURNING *`,
+        [actor.crewId, generateInviteCode(), actorId, options.maxUses, expiresAt, now]
+      );
+
+      if (result.rows[0]) {
+        return this.mapInvite(result.rows[0]);
+      }
+    }
+
+    throw new Error('Could not generate an invite code');
+  }
+
+  /**
+   * Usable invites of the actor's crew. Leaders and officers only.
+   */
+  async listInvites(actorId: string, now: Date = new Date()): Promise<CrewInvite[]> {
+    const actor = await this.requireOfficer(actorId, 'manage invites');
+
+    const result = await query<CrewInviteRow>(
+      `SELECT * FROM crew_invites
+       WHERE crew_id = $1 AND revoked_at IS NULL AND expires_at > $2 AND uses < max_uses
+       ORDER BY created_at DESC`,
+      [actor.crewId, now]
+    );
+
+    return result.rows.map((row) => this.mapInvite(row));
+  }
+
+  /**
+   * Revoke one of the actor's crew's invites. Leaders and officers only.
+   */
+  async revokeInvite(actorId: string, inviteId: string, now: Date = new Date()): Promise<void> {
+    const actor = await this.requireOfficer(actorId, 'manage invites');
+
+    const result = await query(
+      `UPDATE crew_invites SET revoked_at = $3
+       WHERE id = $1 AND crew_id = $2 AND revoked_at IS NULL`,
+      [inviteId, actor.crewId, now]
+    );
+
+    if (result.rowCount === 0) {
+      throw new Error('Invite not found');
+    }
+  }
+
+  /**
+   * Join a crew with an invite code. Returns the crew ID. Joining a crew
+   * everyone has left makes the player its leader.
+   */
+  async joinCrew(userId: string, code: string, now: Date = new Date()): Promise<string> {
+    const crewId = await transaction(async (client) => {
+      if (await this.getMembership(userId, client)) {
+        throw new Error('Already in a crew');
+      }
+
+      const result = await client.query<CrewInviteRow>(
+        `SELECT * FROM crew_invites WHERE code = $1 FOR UPDATE`,
+        [code.toUpperCase()]
+      );
+
+      const invite = result.rows[0];
+      if (
+        !invite ||
+        invite.revoked_at ||
+        invite.expires_at.getTime() <= now.getTime() ||
+        invite.uses >= invite.max_uses
+      ) {
+        throw new Error('Invalid or expired invite code');
+      }
+
+      await this.lockCrew(invite.crew_id, client);
+
+      const members = await client.query<{ count: string }>(
+        `SELECT COUNT(*) as count FROM users WHERE crew_id = $1`,
+        [invite.crew_id]
+      );
+
+      const memberCount = parseInt(members.rows[0]?.count ?? '0', 10);
+      if (memberCount >= derivedConfig.crewMaxMembers) {
+        throw new Error('Crew is full');
+      }
+
+      await client.query(
+        `UPDATE crew_invites SET uses = uses + 1 WHERE id = $1`,
+        [invite.id]
+      );
+
+      // A leader who left last had nobody to hand over to; the next to join leads
+      await client.query(
+        `UPDATE users SET crew_id = $2, crew_role = $4, crew_joined_at = $3 WHERE id = $1`,
+        [userId, invite.crew_id, now, memberCount === 0 ? 'leader' : 'member']
+      );
+
+      return invite.crew_id;
+    });
+
+    await this.updateCrewStats(crewId);
+
+    logger.info({ crewId, userId }, 'Crew joined');
+
+    return crewId;
+  }
+
+  /**
+   * Leave the user's crew. Starts the crew-switch cooldown.
+   */
+  async leaveCrew(userId: string, now: Date = new Date()): Promise<CrewDeparture> {
+    const departure = await transaction(async (client) => {
+      const membership = await this.getMembership(userId, client);
+      if (!membership) {
+        throw new Error('Not in a crew');
+      }
+
+      await this.lockCrew(membership.crewId, client);
+
+      return this.removeMember(userId, membership, client, now);
+    });
+
+    await this.updateCrewStats(departure.crewId);
+
+    logger.info({ userId, ...departure }, 'Crew left');
+
+    return departure;
+  }
+
+  /**
+   * Remove a member. Leaders can remove anyone; officers only members.
+   * The removed player gets the same cooldown as leaving.
+   */
+  async kickMember(actorId: string, targetId: string, now: Date = new Date()): Promise<CrewDeparture> {
+    if (actorId === targetId) {
+      throw new Error('Leave the crew instead of removing yourself');
+    }
+
+    const departure = await transaction(async (client) => {
+      const actor = await this.getMembership(actorId, client);
+      const target = await this.getMembership(targetId, client);
+
+      if (!actor || !target || target.crewId !== actor.crewId) {
+        throw new Error('Not a member of your crew');
+      }
+
+      const allowed = actor.role === 'leader' || (actor.role === 'officer' && target.role === 'member');
+      if (!allowed) {
+        throw new Error('Not allowed to remove this member');
+      }
+
+      await this.lockCrew(actor.crewId, client);
+
+      return this.removeMember(targetId, target, client, now);
+    });
+
+    await this.updateCrewStats(departure.crewId);
+
+    logger.info({ actorId, targetId, ...departure }, 'Crew member removed');
+
+    return departure;
+  }
+
+  /**
+   * Change a member's role. Leader only. Making someone leader hands over
+   * leadership; the old leader becomes an officer.
+   */
+  async setMemberRole(actorId: string, targetId: string, role: CrewRole): Promise<void> {
+    if (actorId === targetId) {
+      throw new Error('Cannot change your own role');
+    }
+
+    await transaction(async (client) => {
+      const actor = await this.getMembership(actorId, client);
+      const target = await this.getMembership(targetId, client);
+
+      if (!actor || !target || target.crewId !== actor.crewId) {
+        throw new Error('Not a member of your crew');
+      }
+
+      if (actor.role !== 'leader') {
+        throw new Error('Only the crew leader can change roles');
+      }
+
+      await this.lockCrew(actor.crewId, client);
+
+      // Demote first; a crew has at most one leader at any time
+      if (role === 'leader') {
+        await client.query(`UPDATE users SET crew_role = 'officer' WHERE id = $1`, [actorId]);
+      }
+
+      await client.query(`UPDATE users SET crew_role = $2 WHERE id = $1`, [targetId, role]);
+    });
+
+    logger.info({ actorId, targetId, role }, 'Crew role changed');
+  }
+
+  /**
+   * Members of a crew, leader first, then officers, then by join date.
+   */
+  async getMembers(crewId: string): Promise<CrewMember[]> {
+    const result = await query<{
+      id: string;
+      username: string | null;
+      crew_role: CrewRole;
+      crew_joined_at: Date;
+    }>(
+      `SELECT id, username, crew_role, crew_joined_at
+       FROM users
+       WHERE crew_id = $1
+       ORDER BY ${roleRank('crew_role')}, crew_joined_at`,
+      [crewId]
+    );
+
+    return result.rows.map((row) => ({
+      userId: row.id,
+      username: row.username ?? undefined,
+      role: row.crew_role,
+      joinedAt: row.crew_joined_at,
+    }));
+  }
+
+  /**
+   * End of the user's crew-switch cooldown, or null if none is active.
+   * Pass a client to read inside the caller's transaction.
+   */
+  async getCooldownUntil(userId: string, now: Date = new Date(), client?: pg.PoolClient): Promise<Date | null> {
+    const run = client ? client.query.bind(client) : query;
+
+    const result = await run<{ crew_cooldown_until: Date }>(
+      `SELECT crew_cooldown_until FROM users WHERE id = $1 AND crew_cooldown_until > $2`,
+      [userId, now]
+    );
+
+    return result.rows[0]?.crew_cooldown_until ?? null;
+  }
+
+  /**
+   * The user's membership, if they lead or are an officer of a crew.
+   * Throws otherwise; `action` completes the error message.
+   */
+  async requireOfficer(userId: string, action: string): Promise<CrewMembership> {
+    const result = await query<{ crew_id: string | null; crew_role: CrewRole | null }>(
+      `SELECT crew_id, crew_role FROM users WHERE id = $1`,
+      [userId]
+    );
+
+    const row = result.rows[0];
+    if (!row?.crew_id || !row.crew_role) {
+      throw new Error('Not in a crew');
+    }
+
+    if (row.crew_role === 'member') {
+      throw new Error(`Only leaders and officers can ${action}`);
+    }
+
+    return { crewId: row.crew_id, role: row.crew_role };
+  }
+
+  /**
+   * Recompute a crew's member count, influence and controlled territory.
+   */
+  async updateCrewStats(crewId: string): Promise<void> {
+    await query(
+      `UPDATE crews
+       SET
+         total_influence = (
+           SELECT COALESCE(SUM((influence_scores->>$1)::numeric), 0)
+           FROM turf_cells
+           WHERE influence_scores ? $1
+         ),
+         controlled_cells = (
+           SELECT COUNT(*) FROM turf_cells WHERE controlling_crew_id = $1::uuid
+         ),
+         controlled_districts = (
+           SELECT COUNT(*) FROM districts WHERE controlling_crew_id = $1::uuid
+         ),
+         member_count = (
+           SELECT COUNT(*) FROM users WHERE crew_id = $1::uuid
+         ),
+         updated_at = NOW()
+       WHERE id = $1`,
+      [crewId]
+    );
+  }
+
+  /**
+   * Take a member out of their crew: pass on leadership, hand their
+   * outposts to the most senior member without one in that district (or
+   * forfeit them), start the cooldown, and close their realtime streams
+   * on commit. The crew row must be locked.
+   */
+  private async removeMember(
+    userId: string,
+    membership: CrewMembership,
+    client: pg.PoolClient,
+    now: Date
+  ): Promise<CrewDeparture> {
+    // Switching crews mid-raid would move a squad to the other side
+    const pendingRaid = await client.query(
+      `SELECT id FROM raids
+       WHERE status != 'resolved'
+         AND (attacking_user_id = $1
+           OR defended_by = $1
+           OR target_outpost_id IN (SELECT id FROM outposts WHERE owner_id = $1))
+       LIMIT 1`,
+      [userId]
+    );
+
+    if (pendingRaid.rows[0]) {
+      throw new Error('Cannot leave a crew during a pending raid');
+    }
+
+    const cooldownUntil = new Date(now.getTime() + derivedConfig.crewCooldownDays * 24 * 60 * 60 * 1000);
+
+    await client.query(
+      `UPDATE users
+       SET crew_id = NULL, crew_role = NULL, crew_joined_at = NULL, crew_cooldown_until = $2
+       WHERE id = $1`,
+      [userId, cooldownUntil]
+    );
+
+    // Streams subscribed to the old crew's topic would keep receiving it
+    await realtimeGateway.disconnectUser(userId, { reason: 'crew_changed' }, client);
+
+    const departure: CrewDeparture = {
+      crewId: membership.crewId,
+      reassignedOutposts: 0,
+      forfeitedOutposts: 0,
+      cooldownUntil,
+    };
+
+    if (membership.role === 'leader') {
+      const successor = await client.query<{ id: string }>(
+        `SELECT id FROM users
+         WHERE crew_id = $1
+         ORDER BY ${roleRank('crew_role')}, crew_joined_at, id
+         LIMIT 1`,
+        [membership.crewId]
+      );
+
+      const successorId = successor.rows[0]?.id;
+      if (successorId) {
+        await client.query(`UPDATE users SET crew_role = 'leader' WHERE id = $1`, [successorId]);
+        departure.newLeaderId = successorId;
+      }
+    }
+
+    const outposts = await client.query<{ id: string; district_id: string }>(
+      `SELECT id, district_id FROM outposts
+       WHERE owner_id = $1 AND crew_id = $2
+       ORDER BY deployed_at`,
+      [userId, membership.crewId]
+    );
+
+    for (const outpost of outposts.rows) {
+      // One outpost per player per district (FR-4)
+      const heir = await client.query<{ id: string }>(
+        `SELECT u.id FROM users u
+         WHERE u.crew_id = $1
+           AND NOT EXISTS (
+             SELECT 1 FROM outposts o WHERE o.owner_id = u.id AND o.district_id = $2
+           )
+         ORDER BY ${roleRank('u.crew_role')}, u.crew_joined_at
+         LIMIT 1`,
+        [membership.crewId, outpost.district_id]
+      );
+
+      const heirId = heir.rows[0]?.id;
+      if (heirId) {
+        await client.query(
+          `UPDATE outposts SET owner_id = $2, updated_at = NOW() WHERE id = $1`,
+          [outpost.id, heirId]
+        );
+        departure.reassignedOutposts++;
+      } else {
+        await client.query(`DELETE FROM outposts WHERE id = $1`, [outpost.id]);
+        departure.forfeitedOutposts++;
+      }
+    }
+
+    return departure;
+  }
+
+  private async getMembership(userId: string, client: pg.PoolClient): Promise<CrewMembership | null> {
+    const result = await client.query<{ crew_id: string | null; crew_role: CrewRole | null }>(
+      `SELECT crew_id, crew_role FROM users WHERE id = $1 FOR UPDATE`,
+      [userId]
+    );
+
+    const row = result.rows[0];
+    if (!row?.crew_id || !row.crew_role) {
+      return null;
+    }
+
+    return { crewId: row.crew_id, role: row.crew_role };
+  }
+
+  private async lockCrew(crewId: string, client: pg.PoolClient): Promise<void> {
+    await client.query(`SELECT id FROM crews WHERE id = $1 FOR UPDATE`, [crewId]);
+  }
+
+  private mapInvite(row: CrewInviteRow): CrewInvite {
+    return {
+      id: row.id,
+      crewId: row.crew_id,
+      code: row.code,
+      createdBy: row.created_by,
+      maxUses: row.max_uses,
+      uses: row.uses,
+      expiresAt: row.expires_at,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+function generateInviteCode(): string {
+  const bytes = randomBytes(INVITE_CODE_LENGTH);
+  let code = '';
+  for (const byte of bytes) {
+    code += INVITE_ALPHABET[byte % INVITE_ALPHABET.length];
+  }
+  return code;
+}
+
+// Singleton instance
+export const crewManager = new CrewManager();
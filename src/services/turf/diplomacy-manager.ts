@@ -0,0 +1,313 @@
+/**
+ * Diplomacy Manager - Relations between crews.
+ *
+ * Handles:
+ * - Alliance and non-aggression proposals, acceptance and expiry
+ * - Declared rivalries
+ * - Ending agreements and cancelling proposals
+ * - Lookups for raids: the active relation between two crews, and allies
+ *
+ * Alliances and pacts need the other crew to accept; a rivalry is
+ * declared by one crew and applies to both. A pair of crews has at most
+ * one open proposal or agreement, enforced by a partial unique index.
+ * Leaders and officers act for their crew.
+ *
+ * See specs/turf-mechanics/spec.md for full specification.
+ */
+
+import { v4 as uuid } from 'uuid';
+import { query, transaction } from '../../db/connection.js';
+import { crewManager } from './crew-manager.js';
+import { createLogger } from '../../utils/logger.js';
+import type { CrewRelation, CrewRelationStatus, CrewRelationType } from '../../types/turf.js';
+
+const logger = createLogger('diplomacy-manager');
+
+/**
+ * Diplomacy configuration.
+ */
+const DIPLOMACY_CONFIG = {
+  proposalExpiryHours: 48,
+  maxDurationDays: 30,
+  rivalryDays: 7,  // Default length of a declared rivalry
+};
+
+interface CrewRelationRow {
+  id: string;
+  type: CrewRelationType;
+  status: CrewRelationStatus;
+  proposer_crew_id: string;
+  target_crew_id: string;
+  proposed_by: string;
+  responded_by: string | null;
+  duration_days: number | null;
+  proposed_at: Date;
+  proposal_expires_at: Date | null;
+  started_at: Date | null;
+  expires_at: Date | null;
+  ended_at: Date | null;
+}
+
+/**
+ * SQL matching relations still in force at the given time parameter:
+ * proposals awaiting an answer and active agreements, including any the
+ * expiry job has not reached yet.
+ */
+function openAt(nowParam: string): string {
+  return `(
+    (status = 'proposed' AND proposal_expires_at > ${nowParam})
+    OR (status = 'active' AND (expires_at IS NULL OR expires_at > ${nowParam}))
+  )`;
+}
+
+/**
+ * Diplomacy Manager Service
+ */
+export class DiplomacyManager {
+  /**
+   * Propose an alliance or non-aggression pact to another crew, or declare
+   * a rivalry, which takes effect immediately. Without a duration,
+   * alliances and pacts last until ended and rivalries last 7 days.
+   */
+  async propose(
+    actorId: string,
+    targetCrewId: string,
+    type: CrewRelationType,
+    durationDays?: number,
+    now: Date = new Date()
+  ): Promise<CrewRelation> {
+    const actor = await crewManager.requireOfficer(actorId, 'manage diplomacy');
+
+    if (actor.crewId === targetCrewId) {
+      throw new Error('Cannot propose to your own crew');
+    }
+
+    if (durationDays !== undefined && (durationDays < 1 || durationDays > DIPLOMACY_CONFIG.maxDurationDays)) {
+      throw new Error(`Duration must be 1-${DIPLOMACY_CONFIG.maxDurationDays} days`);
+    }
+
+    const target = await query<{ id: string }>(`SELECT id FROM crews WHERE id = $1`, [targetCrewId]);
+    if (!target.rows[0]) {
+      throw new Error('Crew not found');
+    }
+
+    const rivalry = type === 'rivalry';
+    const duration = durationDays ?? (rivalry ? DIPLOMACY_CONFIG.rivalryDays : null);
+
+    const row = await transaction(async (client) => {
+      // Free the pair's slot from anything that lapsed since the last expiry run
+      await client.query(
+        `UPDATE crew_relations SET status = 'expired'
+         WHERE status IN ('proposed', 'active')
+           AND NOT ${openAt('$3')}
+           AND LEAST(proposer_crew_id, target_crew_id) = LEAST($1::uuid, $2::uuid)
+           AND GREATEST(proposer_crew_id, target_crew_id) = GREATEST($1::uuid, $2::uuid)`,
+        [actor.crewId, targetCrewId, now]
+      );
+
+      const result = await client.query<CrewRelationRow>(
+        `INSERT INTO crew_relations (id, type, status, proposer_crew_id, target_crew_id, proposed_by,
+                                     duration_days, proposed_at, proposal_expires_at, started_at, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         ON CONFLICT DO NOTHING
+         RETURNING *`,
+        [
+          uuid(),
+          type,
+          rivalry ? 'active' : 'proposed',
+          actor.crewId,
+          targetCrewId,
+          actorId,
+          duration,
+          now,
+          rivalry ? null : new Date(now.getTime() + DIPLOMACY_CONFIG.proposalExpiryHours * 60 * 60 * 1000),
+          rivalry ? now : null,
+          rivalry && duration ? addDays(now, duration) : null,
+        ]
+      );
+
+      if (!result.rows[0]) {
+        throw new Error('These crews already have an open proposal or agreement');
+      }
+
+      return result.rows[0];
+    });
+
+    logger.info(
+      { relationId: row.id, type, proposerCrewId: actor.crewId, targetCrewId },
+      rivalry ? 'Rivalry declared' : 'Relation proposed'
+    );
+
+    return this.mapRow(row);
+  }
+
+  /**
+   * Accept or decline a proposal made to the actor's crew.
+   */
+  async respond(actorId: string, relationId: string, accept: boolean, now: Date = new Date()): Promise<CrewRelation> {
+    const actor = await crewManager.requireOfficer(actorId, 'manage diplomacy');
+
+    const row = await transaction(async (client) => {
+      const result = await client.query<CrewRelationRow>(
+        `SELECT * FROM crew_relations WHERE id = $1 FOR UPDATE`,
+        [relationId]
+      );
+
+      const relation = result.rows[0];
+      if (!relation || relation.target_crew_id !== actor.crewId || relation.status !== 'proposed') {
+        throw new Error('Proposal not found');
+      }
+
+      if (!relation.proposal_expires_at || relation.proposal_expires_at <= now) {
+        throw new Error('Proposal has expired');
+      }
+
+      const expiresAt = accept && relation.duration_days ? addDays(now, relation.duration_days) : null;
+
+      const updated = await client.query<CrewRelationRow>(
+        `UPDATE crew_relations
+         SET status = $2, responded_by = $3, started_at = $4, expires_at = $5
+         WHERE id = $1
+         RETURNING *`,
+        [relationId, accept ? 'active' : 'declined', actorId, accept ? now : null, expiresAt]
+      );
+
+      return updated.rows[0] ?? relation;
+    });
+
+    logger.info({ relationId, accept, crewId: actor.crewId }, accept ? 'Proposal accepted' : 'Proposal declined');
+
+    return this.mapRow(row);
+  }
+
+  /**
+   * Withdraw a proposal, or end an agreement. Either crew can end an
+   * alliance or pact; only the declaring crew can end a rivalry.
+   */
+  async end(actorId: string, relationId: string, now: Date = new Date()): Promise<CrewRelation> {
+    const actor = await crewManager.requireOfficer(actorId, 'manage diplomacy');
+
+    const result = await query<CrewRelationRow>(
+      `SELECT * FROM crew_relations WHERE id = $1 AND ${openAt('$2')}`,
+      [relationId, now]
+    );
+
+    const relation = result.rows[0];
+    const involved = relation?.proposer_crew_id === actor.crewId || relation?.target_crew_id === actor.crewId;
+    if (!relation || !involved) {
+      throw new Error('Relation not found');
+    }
+
+    const proposing = relation.proposer_crew_id === actor.crewId;
+    if (relation.status === 'proposed' && !proposing) {
+      throw new Error('Decline the proposal instead');
+    }
+    if (relation.type === 'rivalry' && !proposing) {
+      throw new Error('Only the declaring crew can end a rivalry');
+    }
+
+    const status: CrewRelationStatus = relation.status === 'proposed' ? 'cancelled' : 'ended';
+
+    const updated = await query<CrewRelationRow>(
+      `UPDATE crew_relations
+       SET status = $2, ended_at = $3, ended_by = $4
+       WHERE id = $1 AND status = $5
+       RETURNING *`,
+      [relationId, status, now, actorId, relation.status]
+    );
+
+    if (!updated.rows[0]) {
+      throw new Error('Relation not found');
+    }
+
+    logger.info({ relationId, status, crewId: actor.crewId }, 'Relation ended');
+
+    return this.mapRow(updated.rows[0]);
+  }
+
+  /**
+   * Open proposals and agreements involving a crew, newest first.
+   */
+  async getRelations(crewId: string, now: Date = new Date()): Promise<CrewRelation[]> {
+    const result = await query<CrewRelationRow>(
+      `SELECT * FROM crew_relations
+       WHERE (proposer_crew_id = $1 OR target_crew_id = $1) AND ${openAt('$2')}
+       ORDER BY proposed_at DESC`,
+      [crewId, now]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * The agreement or rivalry in force between two crews, if any.
+   */
+  async getActiveRelation(crewA: string, crewB: string, now: Date = new Date()): Promise<CrewRelation | null> {
+    const result = await query<CrewRelationRow>(
+      `SELECT * FROM crew_relations
+       WHERE status = 'active'
+         AND (expires_at IS NULL OR expires_at > $3)
+         AND ((proposer_crew_id = $1 AND target_crew_id = $2)
+           OR (proposer_crew_id = $2 AND target_crew_id = $1))
+       LIMIT 1`,
+      [crewA, crewB, now]
+    );
+
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  /**
+   * IDs of the crews allied with a crew.
+   */
+  async getAllies(crewId: string, now: Date = new Date()): Promise<string[]> {
+    const result = await query<{ ally_id: string }>(
+      `SELECT CASE WHEN proposer_crew_id = $1 THEN target_crew_id ELSE proposer_crew_id END AS ally_id
+       FROM crew_relations
+       WHERE type = 'alliance'
+         AND status = 'active'
+         AND (expires_at IS NULL OR expires_at > $2)
+         AND (proposer_crew_id = $1 OR target_crew_id = $1)`,
+      [crewId, now]
+    );
+
+    return result.rows.map((row) => row.ally_id);
+  }
+
+  /**
+   * Mark lapsed proposals and agreements expired. Returns the number updated.
+   */
+  async expireRelations(now: Date = new Date()): Promise<number> {
+    const result = await query(
+      `UPDATE crew_relations SET status = 'expired'
+       WHERE status IN ('proposed', 'active') AND NOT ${openAt('$1')}`,
+      [now]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  private mapRow(row: CrewRelationRow): CrewRelation {
+    return {
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      proposerCrewId: row.proposer_crew_id,
+      targetCrewId: row.target_crew_id,
+      proposedBy: row.proposed_by,
+      respondedBy: row.responded_by ?? undefined,
+      durationDays: row.duration_days ?? undefined,
+      proposedAt: row.proposed_at,
+      proposalExpiresAt: row.proposal_expires_at ?? undefined,
+      startedAt: row.started_at ?? undefined,
+      expiresAt: row.expires_at ?? undefined,
+      endedAt: row.ended_at ?? undefined,
+    };
+  }
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+// Singleton instance
+export const diplomacyManager = new DiplomacyManager();
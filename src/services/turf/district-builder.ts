@@ -0,0 +1,345 @@
+/**
+ * District Builder - Groups turf cells into districts.
+ *
+ * Handles:
+ * - Tiling a region into 7- or 19-cell hex clusters (turf spec FR-1)
+ * - Skipping cells that intersect exclusion zones
+ * - Naming districts
+ * - Renaming and removing districts
+ *
+ * Clusters are gridDisk(center, k) for k = 1 (7 cells) or k = 2 (19 cells).
+ * Their centers sit on a lattice in H3 local IJ coordinates spanned by
+ * (2k+1, k) and (-k, k+1), so neighbouring clusters touch without overlap.
+ * Rebuilding a region never moves cells that already have a district:
+ * a build continues the lattice of nearby districts of the same size and
+ * skips clusters that overlap existing ones, so overlapping builds leave
+ * no fragments along the seam.
+ * Districts are tiled from territory cells, the cells influence is
+ * awarded in.
+ *
+ * See specs/turf-mechanics/spec.md for full specification.
+ */
+
+import * as h3 from 'h3-js';
+import { v4 as uuid } from 'uuid';
+import { query, transaction } from '../../db/connection.js';
+import { zoneChecker } from '../geofencing/zone-checker.js';
+import { TERRITORY_RESOLUTION, territoryCellAt } from './territory.js';
+import { hashSeed, SeededRandom } from '../synthling/seeded-random.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('district-builder');
+
+export type DistrictClusterSize = 7 | 19;
+
+/**
+ * Cluster ring radius by size.
+ */
+const CLUSTER_RINGS: Record<DistrictClusterSize, number> = {
+  7: 1,
+  19: 2,
+};
+
+/**
+ * Name parts. Names are seeded by the center cell, so rebuilding a
+ * region gives districts the same names.
+ */
+const NAME_PREFIXES = [
+  'Amber', 'Ash', 'Brass', 'Cedar', 'Cobalt', 'Copper', 'Crimson', 'Echo',
+  'Ember', 'Fern', 'Flint', 'Golden', 'Granite', 'Harbor', 'Hollow', 'Iron',
+  'Ivy', 'Jade', 'Juniper', 'Lantern', 'Maple', 'Neon', 'Oak', 'Onyx',
+  'Pine', 'Quartz', 'Raven', 'Rust', 'Sable', 'Silver', 'Slate', 'Willow',
+] as const;
+
+const NAME_SUFFIXES = [
+  'Heights', 'Flats', 'Row', 'Commons', 'Yards', 'Gardens', 'Crossing', 'Quarter',
+  'Park', 'Square', 'Terrace', 'Point', 'Landing', 'Junction', 'Hill', 'Reach',
+] as const;
+
+export interface DistrictBuildOptions {
+  region: string;           // Region label, e.g. the city name
+  latitude: number;         // Region center
+  longitude: number;
+  radiusKm: number;
+  clusterSize: DistrictClusterSize;
+}
+
+/**
+ * Planned cluster before exclusion and persistence.
+ */
+export interface DistrictPlan {
+  centerH3: string;
+  cells: string[];
+}
+
+export interface DistrictBuildResult {
+  region: string;
+  districts: Array<{ id: string; name: string; centerH3: string; cellCount: number }>;
+  excludedCells: number;
+  skippedDistricts: number;  // Clusters overlapping existing districts or wholly excluded
+}
+
+export interface DistrictSummary {
+  id: string;
+  name: string;
+  centerH3: string;
+  region?: string;
+  cellCount: number;
+  controllingCrewId?: string;
+}
+
+/**
+ * District Builder Service
+ */
+export class DistrictBuilder {
+  /**
+   * Tile the cells within radiusCells of the origin into clusters, on the
+   * lattice through anchorH3 (by default the origin itself).
+   * Only clusters that fit entirely inside the region are returned.
+   */
+  planDistricts(
+    originH3: string,
+    radiusCells: number,
+    clusterSize: DistrictClusterSize,
+    anchorH3: string = originH3
+  ): DistrictPlan[] {
+    const k = CLUSTER_RINGS[clusterSize];
+    const v1 = { i: 2 * k + 1, j: k };
+    const v2 = { i: -k, j: k + 1 };
+    const origin = h3.cellToLocalIj(originH3, anchorH3);
+    const steps = Math.ceil((radiusCells + h3.gridDistance(originH3, anchorH3)) / k) + 1;
+
+    const plans: DistrictPlan[] = [];
+    const seen = new Set<string>();
+
+    for (let a = -steps; a <= steps; a++) {
+      for (let b = -steps; b <= steps; b++) {
+        let center: string;
+        try {
+          center = h3.localIjToCell(originH3, {
+            i: origin.i + a * v1.i + b * v2.i,
+            j: origin.j + a * v1.j + b * v2.j,
+          });
+        } catch {
+          // Too far from the origin or across a pentagon
+          continue;
+        }
+
+        if (seen.has(center) || h3.gridDistance(originH3, center) + k > radiusCells) {
+          continue;
+        }
+
+        seen.add(center);
+        plans.push({ centerH3: center, cells: h3.gridDisk(center, k) });
+      }
+    }
+
+    // Nearest to the origin first, so names and IDs are stable
+    return plans.sort(
+      (x, y) => h3.gridDistance(originH3, x.centerH3) - h3.gridDistance(originH3, y.centerH3)
+        || (x.centerH3 < y.centerH3 ? -1 : x.centerH3 > y.centerH3 ? 1 : 0)
+    );
+  }
+
+  /**
+   * Build and persist districts for a region.
+   */
+  async buildDistricts(options: DistrictBuildOptions): Promise<DistrictBuildResult> {
+    const originH3 = territoryCellAt(options.latitude, options.longitude);
+    const cellSpacingKm = h3.getHexagonEdgeLengthAvg(TERRITORY_RESOLUTION, h3.UNITS.km) * Math.sqrt(3);
+    const radiusCells = Math.max(CLUSTER_RINGS[options.clusterSize], Math.round(options.radiusKm / cellSpacingKm));
+
+    const anchorH3 = await this.findAnchor(originH3, radiusCells, options.clusterSize);
+    const plans = this.planDistricts(originH3, radiusCells, options.clusterSize, anchorH3);
+    const allCells = plans.flatMap((p) => p.cells);
+    const excluded = await zoneChecker.findExcludedCells(allCells);
+
+    const result = await transaction(async (client) => {
+      const assigned = await client.query<{ h3_index: string }>(
+        `SELECT h3_index FROM turf_cells WHERE h3_index = ANY($1) AND district_id IS NOT NULL`,
+        [allCells]
+      );
+      const taken = new Set(assigned.rows.map((r) => r.h3_index));
+
+      const names = await client.query<{ name: string }>(
+        `SELECT name FROM districts`
+      );
+      const usedNames = new Set(names.rows.map((r) => r.name));
+
+      const districts: DistrictBuildResult['districts'] = [];
+      let skippedDistricts = 0;
+
+      for (const plan of plans) {
+        // A cluster that overlaps an existing district would leave a fragment
+        const cells = plan.cells.filter((c) => !excluded.has(c));
+        if (cells.length === 0 || plan.cells.some((c) => taken.has(c))) {
+          skippedDistricts++;
+          continue;
+        }
+
+        const id = uuid();
+        const name = this.nameDistrict(plan.centerH3, usedNames);
+        usedNames.add(name);
+
+        await client.query(
+          `INSERT INTO districts (id, name, center_h3, metadata)
+           VALUES ($1, $2, $3, $4)`,
+          [
+            id,
+            name,
+            plan.centerH3,
+            JSON.stringify({
+              region: options.region,
+              clusterSize: options.clusterSize,
+              excludedCells: plan.cells.filter((c) => excluded.has(c)),
+            }),
+          ]
+        );
+
+        await client.query(
+          `INSERT INTO turf_cells (h3_index, district_id, last_decay_at)
+           SELECT cell, $2, NOW() FROM unnest($1::text[]) AS cell
+           ON CONFLICT (h3_index) DO UPDATE SET district_id = EXCLUDED.district_id
+           WHERE turf_cells.district_id IS NULL`,
+          [cells, id]
+        );
+
+        districts.push({ id, name, centerH3: plan.centerH3, cellCount: cells.length });
+      }
+
+      return { districts, skippedDistricts };
+    });
+
+    logger.info(
+      {
+        region: options.region,
+        originH3,
+        anchorH3,
+        districts: result.districts.length,
+        excludedCells: excluded.size,
+        skippedDistricts: result.skippedDistricts,
+      },
+      'Districts built'
+    );
+
+    return {
+      region: options.region,
+      districts: result.districts,
+      excludedCells: excluded.size,
+      skippedDistricts: result.skippedDistricts,
+    };
+  }
+
+  /**
+   * List districts, optionally for one region.
+   */
+  async listDistricts(region?: string): Promise<DistrictSummary[]> {
+    const result = await query<{
+      id: string;
+      name: string;
+      center_h3: string;
+      controlling_crew_id: string | null;
+      metadata: Record<string, unknown>;
+      cell_count: string;
+    }>(
+      `SELECT d.id, d.name, d.center_h3, d.controlling_crew_id, d.metadata,
+              (SELECT COUNT(*) FROM turf_cells t WHERE t.district_id = d.id) as cell_count
+       FROM districts d
+       WHERE $1::text IS NULL OR d.metadata->>'region' = $1
+       ORDER BY d.name`,
+      [region ?? null]
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      centerH3: row.center_h3,
+      region: typeof row.metadata.region === 'string' ? row.metadata.region : undefined,
+      cellCount: parseInt(row.cell_count, 10),
+      controllingCrewId: row.controlling_crew_id ?? undefined,
+    }));
+  }
+
+  /**
+   * Rename a district.
+   */
+  async renameDistrict(districtId: string, name: string): Promise<void> {
+    const result = await query(
+      `UPDATE districts SET name = $2 WHERE id = $1`,
+      [districtId, name]
+    );
+
+    if (result.rowCount === 0) {
+      throw new Error('District not found');
+    }
+  }
+
+  /**
+   * Remove a district and release its cells. Districts with outposts
+   * cannot be removed.
+   */
+  async deleteDistrict(districtId: string): Promise<void> {
+    await transaction(async (client) => {
+      const outposts = await client.query<{ id: string }>(
+        `SELECT id FROM outposts WHERE district_id = $1 LIMIT 1`,
+        [districtId]
+      );
+
+      if (outposts.rows[0]) {
+        throw new Error('District has outposts');
+      }
+
+      await client.query(`UPDATE turf_cells SET district_id = NULL WHERE district_id = $1`, [districtId]);
+      await client.query(`DELETE FROM contracts WHERE district_id = $1`, [districtId]);
+
+      const result = await client.query(`DELETE FROM districts WHERE id = $1`, [districtId]);
+      if (result.rowCount === 0) {
+        throw new Error('District not found');
+      }
+    });
+
+    logger.info({ districtId }, 'District deleted');
+  }
+
+  /**
+   * Center of the existing district of this cluster size nearest the
+   * origin, among those that may reach into the region, so a new build
+   * continues the existing tiling. The origin when there is none.
+   */
+  private async findAnchor(
+    originH3: string,
+    radiusCells: number,
+    clusterSize: DistrictClusterSize
+  ): Promise<string> {
+    const candidates = h3.gridDisk(originH3, radiusCells + CLUSTER_RINGS[clusterSize]);
+    const existing = await query<{ center_h3: string }>(
+      `SELECT center_h3 FROM districts
+       WHERE center_h3 = ANY($1) AND (metadata->>'clusterSize')::int = $2`,
+      [candidates, clusterSize]
+    );
+
+    const centers = existing.rows
+      .map((r) => r.center_h3)
+      .sort((x, y) => h3.gridDistance(originH3, x) - h3.gridDistance(originH3, y) || (x < y ? -1 : x > y ? 1 : 0));
+
+    return centers[0] ?? originH3;
+  }
+
+  /**
+   * Pick a name for a district, numbering repeats.
+   */
+  private nameDistrict(centerH3: string, usedNames: Set<string>): string {
+    const rng = new SeededRandom(hashSeed('district', centerH3));
+    const base = `${rng.pick(NAME_PREFIXES)} ${rng.pick(NAME_SUFFIXES)}`;
+
+    let name = base;
+    for (let n = 2; usedNames.has(name); n++) {
+      name = `${base} ${n}`;
+    }
+
+    return name;
+  }
+}
+
+// Singleton instance
+export const districtBuilder = new DistrictBuilder();
@@ -10,7 +10,9 @@ import * as h3 from 'h3-js';
 import { query } from '../../db/connection.js';
 import { influenceManager } from './influence-manager.js';
 import { outpostManager } from './outpost-manager.js';
-import { createLogger } from '../../utils/logger.js';
+import { contractManager } from './contract-manager.js';
+import { crewManager } from './crew-manager.js';
+import { territoryCellAt } from './territory.js';
 import type {
   TurfCell,
   District,
@@ -18,11 +20,15 @@ import type {
   TerritorySnapshot,
 } from '../../types/turf.js';
 
-const logger = createLogger('turf');
-
 export { influenceManager } from './influence-manager.js';
 export { outpostManager } from './outpost-manager.js';
 export { raidEngine } from './raid-engine.js';
+export { contractManager } from './contract-manager.js';
+export { districtBuilder } from './district-builder.js';
+export { controlTracker } from './control-tracker.js';
+export { crewManager } from './crew-manager.js';
+export { diplomacyManager } from './diplomacy-manager.js';
+export { presenceManager } from './presence-manager.js';
 
 /**
  * Turf Service
@@ -39,8 +45,8 @@ export class TurfService {
     latitude: number,
     longitude: number
   ): Promise<TerritorySnapshot> {
-    const currentCell = h3.latLngToCell(latitude, longitude, 9);
-    const nearbyCellIndices = h3.gridDisk(currentCell, 2);  // ~500m radius
+    const currentCell = territoryCellAt(latitude, longitude);
+    const nearbyCellIndices = h3.gridDisk(currentCell, 2);  // ~5km radius
 
     // Get current cell's district
     const districtResult = await query<{
@@ -94,6 +100,11 @@ export class TurfService {
     // Get crew rankings for the district
     const rankings = await this.getDistrictRankings(currentDistrict.id);
 
+    // Open contracts and the user's active claims in the district
+    const activeContracts = districtResult.rows[0]
+      ? await contractManager.getDistrictContracts(currentDistrict.id, userId)
+      : [];
+
     return {
       userId,
       crewId,
@@ -101,7 +112,7 @@ export class TurfService {
       currentDistrict,
       nearbyCells,
       nearbyOutposts: nearbyOutposts.filter((o) => o !== null),
-      activeContracts: [],  // TODO: Implement contract fetching
+      activeContracts,
       crewRankings: rankings,
       timestamp: new Date(),
     };
@@ -269,7 +280,7 @@ export class TurfService {
   }
 
   /**
-   * Create a new crew.
+   * Create a new crew led by its founder.
    */
   async createCrew(
     name: string,
@@ -277,22 +288,7 @@ export class TurfService {
     color: string,
     founderId: string
   ): Promise<Crew> {
-    const result = await query<{ id: string }>(
-      `INSERT INTO crews (name, tag, color, member_count)
-       VALUES ($1, $2, $3, 1)
-       RETURNING id`,
-      [name, tag, color]
-    );
-
-    const crewId = result.rows[0]!.id;
-
-    // Assign founder to crew
-    await query(
-      `UPDATE users SET crew_id = $1 WHERE id = $2`,
-      [crewId, founderId]
-    );
-
-    logger.info({ crewId, name, founderId }, 'Crew created');
+    const crewId = await crewManager.createCrew(name, tag, color, founderId);
 
     return this.getCrew(crewId) as Promise<Crew>;
   }
@@ -301,27 +297,7 @@ export class TurfService {
    * Update crew statistics.
    */
   async updateCrewStats(crewId: string): Promise<void> {
-    await query(
-      `UPDATE crews
-       SET
-         total_influence = (
-           SELECT COALESCE(SUM((influence_scores->>$1)::numeric), 0)
-           FROM turf_cells
-           WHERE influence_scores ? $1
-         ),
-         controlled_cells = (
-           SELECT COUNT(*) FROM turf_cells WHERE controlling_crew_id = $1::uuid
-         ),
-         controlled_districts = (
-           SELECT COUNT(*) FROM districts WHERE controlling_crew_id = $1::uuid
-         ),
-         member_count = (
-           SELECT COUNT(*) FROM users WHERE crew_id = $1::uuid
-         ),
-         updated_at = NOW()
-       WHERE id = $1`,
-      [crewId]
-    );
+    await crewManager.updateCrewStats(crewId);
   }
 
   /**
@@ -357,18 +333,20 @@ export class TurfService {
   }
 
   /**
-   * Run periodic maintenance (decay, ticks, stats).
+   * Run periodic maintenance (decay, ticks, contracts).
    */
   async runMaintenance(): Promise<{
     decayedCells: number;
     tickedOutposts: number;
+    generatedContracts: number;
   }> {
-    const [decayedCells, tickedOutposts] = await Promise.all([
+    const [decayedCells, tickedOutposts, generatedContracts] = await Promise.all([
       influenceManager.processDecay(),
       outpostManager.processAllTicks(),
+      contractManager.generateAllContracts(),
     ]);
 
-    return { decayedCells, tickedOutposts };
+    return { decayedCells, tickedOutposts, generatedContracts };
   }
 }
 
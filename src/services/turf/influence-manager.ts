@@ -4,14 +4,26 @@
  * Handles:
  * - Influence accumulation from various sources
  * - Influence decay processing
- * - Control calculations
+ * - Influence caps per player and per cell
+ * - Cell control calculations (district rollup in the control tracker)
  *
  * See specs/turf-mechanics/spec.md for full specification.
  */
 
 import { v4 as uuid } from 'uuid';
-import { query } from '../../db/connection.js';
+import type pg from 'pg';
+import { query, transaction } from '../../db/connection.js';
 import { derivedConfig } from '../../config/index.js';
+import { controlTracker } from './control-tracker.js';
+import { crewManager } from './crew-manager.js';
+import { toTerritoryCell } from './territory.js';
+import { realtimeBus, RealtimeTopics } from '../realtime/event-bus.js';
+import {
+  capInfluenceAmount,
+  findTiedLeaders,
+  resolveCellControl,
+  roundInfluence,
+} from './control-rules.js';
 import { createLogger } from '../../utils/logger.js';
 import type { InfluenceSource, InfluenceEvent, TurfCell } from '../../types/turf.js';
 
@@ -27,6 +39,8 @@ const INFLUENCE_AMOUNTS: Record<InfluenceSource, number> = {
   outpost_passive: 5,  // Per hour
   raid_success: 50,
   raid_defense: 25,
+  raid_loss: 0,     // Variable, settled by the raid engine
+  raid_penalty: 0,  // Variable, settled by the raid engine
 };
 
 /**
@@ -44,17 +58,59 @@ export class InfluenceManager {
   }
 
   /**
-   * Award influence to a crew at a cell.
+   * Base influence for a source, before multipliers.
+   */
+  getBaseAmount(source: InfluenceSource): number {
+    return INFLUENCE_AMOUNTS[source];
+  }
+
+  /**
+   * Award influence to a crew at a cell, capped per player and per cell.
+   * The returned event carries the amount actually applied. Finer cells
+   * count toward their territory cell.
+   * Pass a client to run inside the caller's transaction.
    */
   async awardInfluence(
     cellH3: string,
     crewId: string,
     userId: string,
     source: InfluenceSource,
-    multiplier: number = 1.0
+    multiplier: number = 1.0,
+    client?: pg.PoolClient
   ): Promise<InfluenceEvent> {
-    const baseAmount = INFLUENCE_AMOUNTS[source];
-    const amount = baseAmount * multiplier;
+    if (!client) {
+      return transaction((c) => this.awardInfluence(cellH3, crewId, userId, source, multiplier, c));
+    }
+
+    cellH3 = toTerritoryCell(cellH3);
+
+    const requested = INFLUENCE_AMOUNTS[source] * multiplier;
+
+    // Create the cell on first influence, then lock it
+    await client.query(
+      `INSERT INTO turf_cells (h3_index, last_decay_at)
+       VALUES ($1, NOW())
+       ON CONFLICT (h3_index) DO NOTHING`,
+      [cellH3]
+    );
+
+    const cell = await client.query<{
+      influence_scores: Record<string, number> | null;
+      player_influence: Record<string, number> | null;
+      district_id: string | null;
+    }>(
+      `SELECT influence_scores, player_influence, district_id FROM turf_cells WHERE h3_index = $1 FOR UPDATE`,
+      [cellH3]
+    );
+
+    const scores = toScores(cell.rows[0]?.influence_scores);
+    const players = toScores(cell.rows[0]?.player_influence);
+    const cellTotal = Object.values(scores).reduce((sum, v) => sum + v, 0);
+
+    // Players who recently switched crews earn nothing until the cooldown ends
+    const timestamp = new Date();
+    const cooldownUntil = await crewManager.getCooldownUntil(userId, timestamp, client);
+    const amount = cooldownUntil ? 0 : capInfluenceAmount(requested, players[userId] ?? 0, cellTotal);
 
     // Record event
     const event: InfluenceEvent = {
@@ -64,87 +120,148 @@ export class InfluenceManager {
       userId,
       source,
       amount,
-      timestamp: new Date(),
+      timestamp,
+      metadata: cooldownUntil
+        ? { requestedAmount: requested, crewCooldownUntil: cooldownUntil.toISOString() }
+        : amount < requested ? { requestedAmount: requested } : undefined,
     };
 
-    await query(
-      `INSERT INTO influence_events (id, cell_h3, crew_id, user_id, source, amount, timestamp)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [event.id, cellH3, crewId, userId, source, amount, event.timestamp]
+    await client.query(
+      `INSERT INTO influence_events (id, cell_h3, crew_id, user_id, source, amount, timestamp, metadata)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [event.id, cellH3, crewId, userId, source, amount, event.timestamp, JSON.stringify(event.metadata ?? {})]
     );
 
-    // Update cell influence
-    await this.updateCellInfluence(cellH3, crewId, amount);
+    if (amount > 0) {
+      scores[crewId] = roundInfluence((scores[crewId] ?? 0) + amount);
+      players[userId] = roundInfluence((players[userId] ?? 0) + amount);
+
+      const totalInfluence = roundInfluence(Object.values(scores).reduce((sum, v) => sum + v, 0));
+
+      await client.query(
+        `UPDATE turf_cells
+         SET influence_scores = $2, player_influence = $3, total_influence = $4, updated_at = NOW()
+         WHERE h3_index = $1`,
+        [cellH3, JSON.stringify(scores), JSON.stringify(players), totalInfluence]
+      );
+
+      await this.updateCellControl(cellH3, client);
+
+      const districtId = cell.rows[0]?.district_id ?? undefined;
+      await realtimeBus.publish(
+        'influence_changed',
+        [
+          RealtimeTopics.cell(cellH3),
+          RealtimeTopics.crew(crewId),
+          ...(districtId ? [RealtimeTopics.district(districtId)] : []),
+        ],
+        {
+          cellH3,
+          districtId,
+          crewId,
+          source,
+          amount,
+          crewInfluence: scores[crewId] ?? 0,
+          totalInfluence,
+        },
+        client
+      );
+    }
 
     logger.debug(
-      { cellH3, crewId, source, amount },
-      'Influence awarded'
+      { cellH3, crewId, source, amount, requested },
+      amount < requested ? 'Influence capped' : 'Influence awarded'
     );
 
     return event;
   }
 
   /**
-   * Update cell influence scores.
+   * Update cell control from current influence (turf spec FR-3), then
+   * record any change and roll it up into the cell's district.
+   * Pass a client to run inside the caller's transaction.
    */
-  private async updateCellInfluence(
-    cellH3: string,
-    crewId: string,
-    amount: number
-  ): Promise<void> {
-    await query(
-      `INSERT INTO turf_cells (h3_index, influence_scores, total_influence, last_decay_at)
-       VALUES ($1, jsonb_build_object($2::text, $3::numeric), $3, NOW())
-       ON CONFLICT (h3_index) DO UPDATE SET
-         influence_scores = turf_cells.influence_scores ||
-           jsonb_build_object($2::text,
-             COALESCE((turf_cells.influence_scores->>$2)::numeric, 0) + $3
-           ),
-         total_influence = (
-           SELECT COALESCE(SUM(value::numeric), 0)
-           FROM jsonb_each_text(
-             turf_cells.influence_scores ||
-             jsonb_build_object($2::text,
-               COALESCE((turf_cells.influence_scores->>$2)::numeric, 0) + $3
-             )
-           )
-         ),
-         updated_at = NOW()`,
-      [cellH3, crewId, amount]
+  async updateCellControl(cellH3: string, client?: pg.PoolClient): Promise<string | null> {
+    if (!client) {
+      return transaction((c) => this.updateCellControl(cellH3, c));
+    }
+
+    const result = await client.query<{
+      controlling_crew_id: string | null;
+      contested_since: Date | null;
+      influence_scores: Record<string, number> | null;
+      district_id: string | null;
+    }>(
+      `SELECT controlling_crew_id, contested_since, influence_scores, district_id
+       FROM turf_cells
+       WHERE h3_index = $1
+       FOR UPDATE`,
+      [cellH3]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const scores = toScores(row.influence_scores);
+    const tied = findTiedLeaders(scores);
+    const lastInfluenceAt = tied.length > 0 ? await this.getLastInfluenceAt(cellH3, tied, client) : {};
+    const control = resolveCellControl(scores, lastInfluenceAt);
+
+    const previousCrewId = row.controlling_crew_id ?? null;
+    const newCrewId = control.controllingCrewId;
+    const contestedSince = control.contested ? (row.contested_since ?? new Date()) : null;
+    const contestedStarted = !row.contested_since && contestedSince !== null;
+
+    if (newCrewId === previousCrewId && contestedSince === row.contested_since) {
+      return newCrewId;
+    }
+
+    await client.query(
+      `UPDATE turf_cells
+       SET controlling_crew_id = $2, contested_since = $3, updated_at = NOW()
+       WHERE h3_index = $1`,
+      [cellH3, newCrewId, contestedSince]
     );
 
-    // Update cell control if needed
-    await this.updateCellControl(cellH3);
+    if (newCrewId !== previousCrewId || contestedStarted) {
+      await controlTracker.recordCellChange(
+        {
+          cellH3,
+          districtId: row.district_id ?? null,
+          previousCrewId,
+          newCrewId,
+          contestedStarted,
+        },
+        client
+      );
+    }
+
+    return newCrewId;
   }
 
   /**
-   * Update cell control based on current influence scores.
+   * Latest influence gain per crew at a cell, for breaking ties.
    */
-  async updateCellControl(cellH3: string): Promise<string | null> {
-    const result = await query<{ controlling_crew_id: string | null }>(
-      `UPDATE turf_cells
-       SET controlling_crew_id = (
-         SELECT key::uuid
-         FROM jsonb_each_text(influence_scores)
-         ORDER BY value::numeric DESC
-         LIMIT 1
-       ),
-       contested_since = CASE
-         WHEN controlling_crew_id IS NOT NULL AND controlling_crew_id != (
-           SELECT key::uuid
-           FROM jsonb_each_text(influence_scores)
-           ORDER BY value::numeric DESC
-           LIMIT 1
-         )
-         THEN NOW()
-         ELSE contested_since
-       END
-       WHERE h3_index = $1
-       RETURNING controlling_crew_id`,
-      [cellH3]
+  private async getLastInfluenceAt(
+    cellH3: string,
+    crewIds: string[],
+    client: pg.PoolClient
+  ): Promise<Record<string, number>> {
+    const result = await client.query<{ crew_id: string; last_at: Date }>(
+      `SELECT crew_id, MAX(timestamp) as last_at
+       FROM influence_events
+       WHERE cell_h3 = $1 AND crew_id = ANY($2::uuid[]) AND amount > 0
+       GROUP BY crew_id`,
+      [cellH3, crewIds]
     );
 
-    return result.rows[0]?.controlling_crew_id ?? null;
+    const lastAt: Record<string, number> = {};
+    for (const row of result.rows) {
+      lastAt[row.crew_id] = new Date(row.last_at).getTime();
+    }
+    return lastAt;
   }
 
   /**
@@ -305,5 +422,16 @@ export class InfluenceManager {
   }
 }
 
+/**
+ * Numeric influence map from a JSONB column.
+ */
+function toScores(value: Record<string, number> | null | undefined): Record<string, number> {
+  const scores: Record<string, number> = {};
+  for (const [key, score] of Object.entries(value ?? {})) {
+    scores[key] = Number(score);
+  }
+  return scores;
+}
+
 // Singleton instance
 export const influenceManager = new InfluenceManager();
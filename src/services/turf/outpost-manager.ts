@@ -8,9 +8,12 @@
  * - Damage and repair
  */
 
+import * as h3 from 'h3-js';
 import { v4 as uuid } from 'uuid';
-import { query } from '../../db/connection.js';
+import type pg from 'pg';
+import { query, transaction } from '../../db/connection.js';
 import { influenceManager } from './influence-manager.js';
+import { realtimeBus, RealtimeTopics } from '../realtime/event-bus.js';
 import { createLogger } from '../../utils/logger.js';
 import type { Outpost, OutpostModule, OutpostModuleType } from '../../types/turf.js';
 
@@ -37,6 +40,13 @@ const MODULE_EFFECTS: Record<OutpostModuleType, Record<number, number>> = {
   beacon: { 1: 1.1, 2: 1.25, 3: 1.5 },    // Crew attraction radius
 };
 
+/**
+ * Inventory item a module is installed from (earned from contracts).
+ */
+export function moduleItemId(moduleType: OutpostModuleType, level: number): string {
+  return `module_${moduleType}_${level}`;
+}
+
 /**
  * Outpost Manager Service
  */
@@ -177,34 +187,76 @@ export class OutpostManager {
   }
 
   /**
-   * Install a module on an outpost.
+   * Whether a user may change an outpost: its owner, or a leader or
+   * officer of the crew that owns it. False when the outpost is missing.
+   * With a client, locks the outpost row for the caller's transaction.
+   */
+  async canManageOutpost(outpostId: string, userId: string, client?: pg.PoolClient): Promise<boolean> {
+    const run = client ? client.query.bind(client) : query;
+
+    const result = await run<{ owner_id: string; crew_officer: boolean | null }>(
+      `SELECT o.owner_id,
+              u.crew_id = o.crew_id AND u.crew_role IN ('leader', 'officer') AS crew_officer
+       FROM outposts o
+       LEFT JOIN users u ON u.id = $2
+       WHERE o.id = $1
+       ${client ? 'FOR UPDATE OF o' : ''}`,
+      [outpostId, userId]
+    );
+
+    const row = result.rows[0];
+    return row !== undefined && (row.owner_id === userId || row.crew_officer === true);
+  }
+
+  /**
+   * Install a module on an outpost, for its owner or an officer of its crew.
+   * Spends one matching module item from the actor's inventory.
    */
   async installModule(
     outpostId: string,
+    actorId: string,
     moduleType: OutpostModuleType,
     level: number = 1
   ): Promise<OutpostModule> {
-    const outpost = await this.getOutpost(outpostId);
-    if (!outpost) {
-      throw new Error('Outpost not found');
-    }
-
-    const levelConfig = OUTPOST_LEVELS[outpost.level as keyof typeof OUTPOST_LEVELS];
-    if (outpost.modules.length >= levelConfig.maxModules) {
-      throw new Error('Outpost has maximum modules for its level');
-    }
-
-    // Check if module type already exists
-    const existingModule = outpost.modules.find((m) => m.type === moduleType);
-    if (existingModule) {
-      throw new Error('Module type already installed');
-    }
-
-    await query(
-      `INSERT INTO outpost_modules (outpost_id, type, level)
-       VALUES ($1, $2, $3)`,
-      [outpostId, moduleType, level]
-    );
+    await transaction(async (client) => {
+      // The outpost stays locked until the module is in, so ownership
+      // and the module count cannot change in between
+      if (!(await this.canManageOutpost(outpostId, actorId, client))) {
+        throw new Error('Not allowed to modify this outpost');
+      }
+
+      const outpost = await this.getOutpost(outpostId);
+      if (!outpost) {
+        throw new Error('Outpost not found');
+      }
+
+      const levelConfig = OUTPOST_LEVELS[outpost.level as keyof typeof OUTPOST_LEVELS];
+      if (outpost.modules.length >= levelConfig.maxModules) {
+        throw new Error('Outpost has maximum modules for its level');
+      }
+
+      // Check if module type already exists
+      const existingModule = outpost.modules.find((m) => m.type === moduleType);
+      if (existingModule) {
+        throw new Error('Module type already installed');
+      }
+
+      const itemId = moduleItemId(moduleType, level);
+      const consumed = await client.query(
+        `UPDATE user_items SET quantity = quantity - 1
+         WHERE user_id = $1 AND item_id = $2 AND quantity > 0`,
+        [actorId, itemId]
+      );
+      if (consumed.rowCount === 0) {
+        throw new Error(`Missing required item: ${itemId}`);
+      }
+
+      await client.query(
+        `INSERT INTO outpost_modules (outpost_id, type, level)
+         VALUES ($1, $2, $3)`,
+        [outpostId, moduleType, level]
+      );
+    });
 
     // Recalculate influence if amplifier
     if (moduleType === 'amplifier') {
@@ -212,7 +264,7 @@ export class OutpostManager {
     }
 
     logger.info(
-      { outpostId, moduleType, level },
+      { outpostId, actorId, moduleType, level },
       'Module installed'
     );
 
@@ -333,8 +385,9 @@ export class OutpostManager {
 
   /**
    * Damage an outpost.
+   * Pass a client to run inside the caller's transaction.
    */
-  async damageOutpost(outpostId: string, damage: number): Promise<number> {
+  async damageOutpost(outpostId: string, damage: number, client?: pg.PoolClient): Promise<number> {
     const outpost = await this.getOutpost(outpostId);
     if (!outpost) {
       throw new Error('Outpost not found');
@@ -349,7 +402,8 @@ export class OutpostManager {
 
     const newHealth = Math.max(0, outpost.health - damage);
 
-    await query(
+    const run = client ? client.query.bind(client) : query;
+    await run(
       `UPDATE outposts SET health = $1, updated_at = NOW() WHERE id = $2`,
       [newHealth, outpostId]
     );
@@ -359,6 +413,24 @@ export class OutpostManager {
       'Outpost damaged'
     );
 
+    await realtimeBus.publish(
+      'outpost_damaged',
+      [
+        RealtimeTopics.cell(outpost.cellH3),
+        RealtimeTopics.district(outpost.districtId),
+        RealtimeTopics.crew(outpost.crewId),
+      ],
+      {
+        outpostId,
+        cellH3: outpost.cellH3,
+        districtId: outpost.districtId,
+        crewId: outpost.crewId,
+        damage,
+        health: newHealth,
+      },
+      client
+    );
+
     return newHealth;
   }
 
@@ -417,6 +489,26 @@ export class OutpostManager {
     return outposts.filter((o): o is Outpost => o !== null);
   }
 
+  /**
+   * Get the given crews' outposts within `rings` cells of a cell.
+   */
+  async getNearbyOutposts(cellH3: string, crewIds: string[], rings: number = 1): Promise<Outpost[]> {
+    if (crewIds.length === 0) {
+      return [];
+    }
+
+    const result = await query<{ id: string }>(
+      `SELECT id FROM outposts WHERE cell_h3 = ANY($1) AND crew_id = ANY($2)`,
+      [h3.gridDisk(cellH3, rings), crewIds]
+    );
+
+    const outposts = await Promise.all(
+      result.rows.map((row) => this.getOutpost(row.id))
+    );
+
+    return outposts.filter((o): o is Outpost => o !== null);
+  }
+
   /**
    * Get spawn rate multiplier for a cell (from scanner modules).
    */
@@ -433,6 +525,27 @@ export class OutpostManager {
 
     return MODULE_EFFECTS.scanner[scanner.level as 1 | 2 | 3] ?? 1.0;
   }
+
+  /**
+   * Crew attraction radius multiplier from the strongest beacon module on
+   * the crew's outposts within `radiusKm` of a cell's centre.
+   */
+  async getBeaconMultiplier(crewId: string, cellH3: string, radiusKm: number): Promise<number> {
+    const center = h3.cellToLatLng(cellH3);
+
+    let multiplier = 1.0;
+    for (const outpost of await this.getCrewOutposts(crewId)) {
+      const beacon = outpost.modules.find((m) => m.type === 'beacon');
+      if (
+        beacon &&
+        h3.greatCircleDistance(center, h3.cellToLatLng(outpost.cellH3), h3.UNITS.km) <= radiusKm
+      ) {
+        multiplier = Math.max(multiplier, MODULE_EFFECTS.beacon[beacon.level as 1 | 2 | 3] ?? 1.0);
+      }
+    }
+
+    return multiplier;
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,244 @@
+/**
+ * Presence Manager - Where crewmates are, at a privacy-safe resolution.
+ *
+ * Handles:
+ * - Recording each player's last validated location as a coarse cell
+ * - Listing crewmates near a player, widened by crew beacon outposts
+ * - The per-player "hide me" setting
+ * - Pushing presence changes to the crewmates whose radius covers them
+ *
+ * Presence lives only in Redis and expires shortly after a player stops
+ * validating locations. Cells are snapped to resolution 7 or coarser and
+ * precise coordinates are never stored.
+ *
+ * See specs/safety-geofencing/spec.md (FR-5) for full specification.
+ */
+
+import * as h3 from 'h3-js';
+import { query } from '../../db/connection.js';
+import { redis, RedisKeys, RedisTTL } from '../../db/redis.js';
+import { config } from '../../config/index.js';
+import { outpostManager } from './outpost-manager.js';
+import { realtimeBus, RealtimeTopics } from '../realtime/event-bus.js';
+import { createLogger } from '../../utils/logger.js';
+import type { CrewPresence, CrewPresenceView } from '../../types/turf.js';
+import type { RealtimeTopic } from '../../types/realtime.js';
+
+const logger = createLogger('presence-manager');
+
+/**
+ * Presence configuration.
+ */
+const PRESENCE_CONFIG = {
+  resolution: Math.min(config.H3_RESOLUTION_STORAGE, 7),  // FR-5: resolution 7 or coarser
+  baseRadiusKm: 3,  // Crewmates this close are shown; beacons extend it
+};
+
+interface StoredPresence {
+  crewId: string;
+  cellH3: string;
+  updatedAt: string;
+}
+
+function parsePresence(raw: string | null | undefined): StoredPresence | null {
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw) as StoredPresence;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Distance between two cell centres.
+ */
+function cellDistanceKm(a: string, b: string): number {
+  return h3.greatCircleDistance(h3.cellToLatLng(a), h3.cellToLatLng(b), h3.UNITS.km);
+}
+
+/**
+ * Presence Manager Service
+ */
+export class PresenceManager {
+  /**
+   * Record a player's validated location. Only crew members are tracked.
+   * Best effort: failures are logged and never fail the caller.
+   */
+  async recordPresence(userId: string, h3Cell: string, now: Date = new Date()): Promise<void> {
+    try {
+      const user = await this.getSettings(userId);
+      if (!user?.crewId) {
+        return;
+      }
+
+      const cellH3 = h3.getResolution(h3Cell) > PRESENCE_CONFIG.resolution
+        ? h3.cellToParent(h3Cell, PRESENCE_CONFIG.resolution)
+        : h3Cell;
+
+      const previous = parsePresence(await redis.get(RedisKeys.presence(userId)));
+      const presence: StoredPresence = { crewId: user.crewId, cellH3, updatedAt: now.toISOString() };
+      await redis.setex(RedisKeys.presence(userId), RedisTTL.presence, JSON.stringify(presence));
+
+      const moved = previous?.cellH3 !== cellH3 || previous.crewId !== user.crewId;
+      if (moved && !user.hidden) {
+        const previousCellH3 = previous?.crewId === user.crewId ? previous.cellH3 : null;
+        await this.publishPresence(userId, user.crewId, cellH3, previousCellH3);
+      }
+    } catch (error) {
+      logger.warn({ error, userId }, 'Failed to record presence');
+    }
+  }
+
+  /**
+   * Hide the player from crewmates, or show them again.
+   */
+  async setHidden(userId: string, hidden: boolean): Promise<void> {
+    const result = await query<{ crew_id: string | null }>(
+      `UPDATE users SET presence_hidden = $2 WHERE id = $1 RETURNING crew_id`,
+      [userId, hidden]
+    );
+
+    if (!result.rows[0]) {
+      throw new Error('User not found');
+    }
+
+    const crewId = result.rows[0].crew_id;
+    const presence = parsePresence(await redis.get(RedisKeys.presence(userId)));
+
+    // Crewmates' maps drop or restore the player right away; dropping
+    // reveals no location, so the whole crew is told
+    if (crewId && presence?.crewId === crewId) {
+      if (hidden) {
+        await realtimeBus.publish('presence_changed', [RealtimeTopics.crew(crewId)], {
+          userId,
+          crewId,
+          cellH3: null,
+        });
+      } else {
+        await this.publishPresence(userId, crewId, presence.cellH3, null);
+      }
+    }
+
+    logger.info({ userId, hidden }, 'Presence visibility changed');
+  }
+
+  /**
+   * Crewmates near the player's last validated location. The radius is
+   * multiplied by the strongest beacon on a crew outpost within the base
+   * radius. Hidden crewmates are left out.
+   */
+  async getNearbyCrewmates(userId: string): Promise<CrewPresenceView> {
+    const user = await this.getSettings(userId);
+    if (!user?.crewId) {
+      throw new Error('Not in a crew');
+    }
+    const crewId = user.crewId;
+
+    const own = parsePresence(await redis.get(RedisKeys.presence(userId)));
+    if (!own || own.crewId !== crewId) {
+      return { cellH3: null, radiusKm: PRESENCE_CONFIG.baseRadiusKm, hidden: user.hidden, members: [] };
+    }
+
+    const radiusKm = await this.getRadiusKm(crewId, own.cellH3);
+
+    const crewmates = await query<{ id: string; username: string | null }>(
+      `SELECT id, username FROM users WHERE crew_id = $1 AND id <> $2 AND NOT presence_hidden`,
+      [crewId, userId]
+    );
+
+    const stored = crewmates.rows.length > 0
+      ? await redis.mget(crewmates.rows.map((row) => RedisKeys.presence(row.id)))
+      : [];
+
+    const members: CrewPresence[] = [];
+    crewmates.rows.forEach((row, i) => {
+      const presence = parsePresence(stored[i]);
+      if (presence?.crewId === crewId && cellDistanceKm(own.cellH3, presence.cellH3) <= radiusKm) {
+        members.push({
+          userId: row.id,
+          username: row.username ?? undefined,
+          cellH3: presence.cellH3,
+          updatedAt: new Date(presence.updatedAt),
+        });
+      }
+    });
+
+    return { cellH3: own.cellH3, radiusKm, hidden: user.hidden, members };
+  }
+
+  /**
+   * Push a player's cell to each crewmate whose radius, as listed by
+   * getNearbyCrewmates, covers it. Crewmates whose radius covered only
+   * the previous cell get a null cell, so their map drops the player.
+   */
+  private async publishPresence(
+    userId: string,
+    crewId: string,
+    cellH3: string,
+    previousCellH3: string | null
+  ): Promise<void> {
+    const crewmates = await query<{ id: string }>(
+      `SELECT id FROM users WHERE crew_id = $1 AND id <> $2`,
+      [crewId, userId]
+    );
+
+    const stored = crewmates.rows.length > 0
+      ? await redis.mget(crewmates.rows.map((row) => RedisKeys.presence(row.id)))
+      : [];
+
+    const radii = new Map<string, number>();
+    const inRange: RealtimeTopic[] = [];
+    const leftRange: RealtimeTopic[] = [];
+
+    for (const [i, row] of crewmates.rows.entries()) {
+      const viewer = parsePresence(stored[i]);
+      if (viewer?.crewId !== crewId) {
+        continue;
+      }
+
+      let radiusKm = radii.get(viewer.cellH3);
+      if (radiusKm === undefined) {
+        radiusKm = await this.getRadiusKm(crewId, viewer.cellH3);
+        radii.set(viewer.cellH3, radiusKm);
+      }
+
+      if (cellDistanceKm(viewer.cellH3, cellH3) <= radiusKm) {
+        inRange.push(RealtimeTopics.user(row.id));
+      } else if (previousCellH3 && cellDistanceKm(viewer.cellH3, previousCellH3) <= radiusKm) {
+        leftRange.push(RealtimeTopics.user(row.id));
+      }
+    }
+
+    if (inRange.length > 0) {
+      await realtimeBus.publish('presence_changed', inRange, { userId, crewId, cellH3 });
+    }
+    if (leftRange.length > 0) {
+      await realtimeBus.publish('presence_changed', leftRange, { userId, crewId, cellH3: null });
+    }
+  }
+
+  /**
+   * Presence radius at a cell: the base radius times the strongest crew
+   * beacon within it.
+   */
+  private async getRadiusKm(crewId: string, cellH3: string): Promise<number> {
+    const beacon = await outpostManager.getBeaconMultiplier(crewId, cellH3, PRESENCE_CONFIG.baseRadiusKm);
+    return Math.round(PRESENCE_CONFIG.baseRadiusKm * beacon * 100) / 100;
+  }
+
+  private async getSettings(userId: string): Promise<{ crewId: string | null; hidden: boolean } | null> {
+    const result = await query<{ crew_id: string | null; presence_hidden: boolean }>(
+      `SELECT crew_id, presence_hidden FROM users WHERE id = $1`,
+      [userId]
+    );
+
+    const row = result.rows[0];
+    return row ? { crewId: row.crew_id, hidden: row.presence_hidden } : null;
+  }
+}
+
+// Singleton instance
+export const presenceManager = new PresenceManager();
@@ -2,18 +2,37 @@
  * Raid Engine - Territory conflict resolution.
  *
  * Handles:
- * - Raid initiation
- * - Defense calculation
- * - Raid resolution
- * - Rewards and penalties
+ * - Raid initiation with an attacker-committed Synthling squad
+ * - Defender squad assignment from the outpost owner and crew
+ * - A 4-hour window for the defending crew to commit its own squad
+ * - Raid resolution by simulated squad battle when the window expires
+ * - Influence transfer, failure penalties and cooldowns
+ * - Diplomacy: no raids on allies or pact partners, a larger transfer
+ *   from rivals, and defense support from allied outposts
+ *
+ * A cell has at most one active raid, enforced by a partial unique index.
+ * Settlement runs in one transaction holding the raid and cell row locks,
+ * so concurrent resolvers never settle the same raid twice and the
+ * influence_events written always reconcile with the cell's scores.
+ *
+ * See specs/turf-mechanics/spec.md (FR-5) for full specification.
  */
 
 import { v4 as uuid } from 'uuid';
-import { query } from '../../db/connection.js';
+import type pg from 'pg';
+import { query, transaction } from '../../db/connection.js';
 import { influenceManager } from './influence-manager.js';
 import { outpostManager } from './outpost-manager.js';
+import { contractManager } from './contract-manager.js';
+import { crewManager } from './crew-manager.js';
+import { diplomacyManager } from './diplomacy-manager.js';
+import { capInfluenceAmount, roundInfluence } from './control-rules.js';
+import { synthlingCollection } from '../synthling/collection.js';
+import { battleEngine } from '../synthling/battle-engine.js';
+import { realtimeBus, RealtimeTopics } from '../realtime/event-bus.js';
 import { createLogger } from '../../utils/logger.js';
-import type { Raid, RaidResult } from '../../types/turf.js';
+import type { InfluenceSource, Outpost, Raid, RaidBattle, RaidResult } from '../../types/turf.js';
+import type { Synthling } from '../../types/synthling.js';
 
 const logger = createLogger('raid-engine');
 
@@ -21,44 +40,102 @@ const logger = createLogger('raid-engine');
  * Raid configuration.
  */
 const RAID_CONFIG = {
-  minAttackPower: 10,
+  maxSquadSize: 3,
+  windowHours: 4,
   raidCooldownMinutes: 30,
-  influenceTransferRate: 0.2,  // 20% of difference transferred
+  influenceTransferRate: 0.2,  // 20% of defender's cell influence transferred
+  rivalTransferRate: 0.3,      // 30% when the crews are declared rivals
+  failurePenaltyRate: 0.25,    // Attacker loses 25% of their cell influence on failure
+  failureCooldownHours: 24,    // Before the attacker can raid that cell again
+  defenseReward: 25,
   outpostDamageBase: 20,
-  defenseBonus: 1.2,  // Defenders get 20% bonus
+  defenseBonus: 1.2,  // Defenders get 20% bonus resilience
+  outpostBonusPerLevel: 0.05,
+  shieldBonusPerLevel: 0.05,
+  alliedOutpostBonusPerLevel: 0.02,  // Per level of each allied outpost around the cell
+  alliedOutpostBonusMax: 0.1,
 };
 
+/**
+ * Raid row as stored in the raids table.
+ */
+interface RaidRow {
+  id: string;
+  attacking_crew_id: string;
+  attacking_user_id: string;
+  target_cell_h3: string;
+  target_outpost_id: string | null;
+  defending_crew_id: string | null;
+  status: 'pending' | 'in_progress' | 'resolved';
+  attacker_squad: string[];
+  defender_squad: string[];
+  defended_by: string | null;
+  attack_power: number;
+  defense_power: number;
+  started_at: Date;
+  window_ends_at: Date;
+  resolved_at: Date | null;
+  attacker_cooldown_until: Date | null;
+  against_rival: boolean;
+  result: RaidResult | null;
+}
+
+/**
+ * One influence change made by raid settlement.
+ */
+interface InfluenceChange {
+  crewId: string;
+  userId: string;
+  source: InfluenceSource;
+  amount: number;
+}
+
 /**
  * Raid Engine Service
  */
 export class RaidEngine {
   /**
-   * Initiate a raid on a cell.
+   * Initiate a raid on a cell with a squad of the attacker's Synthlings.
+   * The raid stays pending until its window ends.
    */
   async initiateRaid(
     targetCellH3: string,
     attackingCrewId: string,
     attackingUserId: string,
-    attackPower: number
+    squadIds: string[],
+    now: Date = new Date()
   ): Promise<Raid> {
-    // Validate attack power
-    if (attackPower < RAID_CONFIG.minAttackPower) {
-      throw new Error(`Minimum attack power is ${RAID_CONFIG.minAttackPower}`);
-    }
+    this.validateSquadIds(squadIds);
+    await this.assertNoCrewCooldown(attackingUserId, now);
 
     // Check cooldown
     const recentRaid = await query<{ id: string }>(
       `SELECT id FROM raids
        WHERE attacking_user_id = $1
-         AND started_at > NOW() - INTERVAL '${RAID_CONFIG.raidCooldownMinutes} minutes'
+         AND started_at > $2::timestamptz - INTERVAL '${RAID_CONFIG.raidCooldownMinutes} minutes'
        LIMIT 1`,
-      [attackingUserId]
+      [attackingUserId, now]
     );
 
     if (recentRaid.rows[0]) {
       throw new Error(`Must wait ${RAID_CONFIG.raidCooldownMinutes} minutes between raids`);
     }
 
+    // Failed raids lock the attacker out of that cell for a while
+    const failedRaid = await query<{ attacker_cooldown_until: Date }>(
+      `SELECT attacker_cooldown_until FROM raids
+       WHERE attacking_user_id = $1 AND target_cell_h3 = $2 AND attacker_cooldown_until > $3
+       ORDER BY attacker_cooldown_until DESC
+       LIMIT 1`,
+      [attackingUserId, targetCellH3, now]
+    );
+
+    if (failedRaid.rows[0]) {
+      throw new Error(
+        `Cannot raid this cell again until ${failedRaid.rows[0].attacker_cooldown_until.toISOString()}`
+      );
+    }
+
     // Get target cell info
     const cellInfo = await influenceManager.getCellInfluence(targetCellH3);
 
@@ -72,81 +149,267 @@ export class RaidEngine {
       throw new Error('Cannot raid your own crew');
     }
 
-    // Check for outpost
+    const relation = await diplomacyManager.getActiveRelation(attackingCrewId, cellInfo.controllingCrewId, now);
+
+    if (relation?.type === 'alliance') {
+      throw new Error('Cannot raid an allied crew');
+    }
+
+    if (relation?.type === 'non_aggression') {
+      throw new Error('Cannot raid a crew you have a non-aggression pact with');
+    }
+
+    const againstRival = relation?.type === 'rivalry';
+
+    // One active raid per cell
+    const activeRaid = await query<{ id: string }>(
+      `SELECT id FROM raids
+       WHERE target_cell_h3 = $1 AND status IN ('pending', 'in_progress')
+       LIMIT 1`,
+      [targetCellH3]
+    );
+
+    if (activeRaid.rows[0]) {
+      throw new Error('Cell is already under raid');
+    }
+
+    const attackerSquad = await this.loadSquad(attackingUserId, squadIds);
+
+    // Defenders come from the outpost owner first, then the rest of the crew
     const outpost = await outpostManager.getOutpostAtCell(targetCellH3);
+    const defenderSquad = await synthlingCollection.getCrewDefenders(
+      cellInfo.controllingCrewId,
+      outpost?.ownerId ?? null,
+      RAID_CONFIG.maxSquadSize
+    );
 
-    // Calculate defense power
-    const defensePower = await this.calculateDefensePower(targetCellH3, cellInfo.controllingCrewId);
+    const alliedOutposts = await this.getAlliedOutposts(cellInfo.controllingCrewId, targetCellH3, now);
+    const attackPower = this.getSquadRating(attackerSquad);
+    const defensePower = this.getDefensePower(defenderSquad, outpost, alliedOutposts);
+    const windowEndsAt = new Date(now.getTime() + RAID_CONFIG.windowHours * 60 * 60 * 1000);
 
     // Create raid
     const raidId = uuid();
 
-    await query(
-      `INSERT INTO raids (id, attacking_crew_id, attacking_user_id, target_cell_h3,
-                          target_outpost_id, attack_power, defense_power)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    try {
+      await query(
+        `INSERT INTO raids (id, attacking_crew_id, attacking_user_id, target_cell_h3,
+                            target_outpost_id, defending_crew_id, attacker_squad, defender_squad,
+                            attack_power, defense_power, started_at, window_ends_at, against_rival)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+        [
+          raidId,
+          attackingCrewId,
+          attackingUserId,
+          targetCellH3,
+          outpost?.id ?? null,
+          cellInfo.controllingCrewId,
+          squadIds,
+          defenderSquad.map((s) => s.id),
+          attackPower,
+          defensePower,
+          now,
+          windowEndsAt,
+          againstRival,
+        ]
+      );
+    } catch (error) {
+      // Lost a race with another raid on the same cell
+      if (isUniqueViolation(error)) {
+        throw new Error('Cell is already under raid');
+      }
+      throw error;
+    }
+
+    logger.info(
+      { raidId, targetCellH3, attackingCrewId, defendingCrewId: cellInfo.controllingCrewId, windowEndsAt },
+      'Raid initiated'
+    );
+
+    await realtimeBus.publish(
+      'raid_started',
       [
+        RealtimeTopics.cell(targetCellH3),
+        RealtimeTopics.crew(attackingCrewId),
+        RealtimeTopics.crew(cellInfo.controllingCrewId),
+      ],
+      {
         raidId,
+        cellH3: targetCellH3,
         attackingCrewId,
-        attackingUserId,
-        targetCellH3,
-        outpost?.id ?? null,
-        attackPower,
-        defensePower,
-      ]
+        defendingCrewId: cellInfo.controllingCrewId,
+        windowEndsAt: windowEndsAt.toISOString(),
+      }
     );
 
-    logger.info(
-      { raidId, targetCellH3, attackingCrewId, attackPower, defensePower },
-      'Raid initiated'
+    return this.mapRow({
+      id: raidId,
+      attacking_crew_id: attackingCrewId,
+      attacking_user_id: attackingUserId,
+      target_cell_h3: targetCellH3,
+      target_outpost_id: outpost?.id ?? null,
+      defending_crew_id: cellInfo.controllingCrewId,
+      status: 'pending',
+      attacker_squad: squadIds,
+      defender_squad: defenderSquad.map((s) => s.id),
+      defended_by: null,
+      attack_power: attackPower,
+      defense_power: defensePower,
+      started_at: now,
+      window_ends_at: windowEndsAt,
+      resolved_at: null,
+      attacker_cooldown_until: null,
+      against_rival: againstRival,
+      result: null,
+    });
+  }
+
+  /**
+   * Commit a defending crew member's squad to a pending raid, replacing
+   * the automatically assigned defenders. One commitment per raid.
+   */
+  async defendRaid(
+    raidId: string,
+    defendingCrewId: string,
+    defendingUserId: string,
+    squadIds: string[],
+    now: Date = new Date()
+  ): Promise<Raid> {
+    this.validateSquadIds(squadIds);
+    await this.assertNoCrewCooldown(defendingUserId, now);
+
+    const raid = await this.getRaid(raidId);
+
+    if (!raid) {
+      throw new Error('Raid not found');
+    }
+
+    if (raid.defendingCrewId !== defendingCrewId) {
+      throw new Error('Only the defending crew can defend this raid');
+    }
+
+    if (raid.status !== 'pending' || raid.windowEndsAt <= now) {
+      throw new Error('Raid window has closed');
+    }
+
+    if (raid.defendedBy) {
+      throw new Error('Raid already defended');
+    }
+
+    const defenderSquad = await this.loadSquad(defendingUserId, squadIds);
+    const outpost = await outpostManager.getOutpostAtCell(raid.targetCellH3);
+    const alliedOutposts = await this.getAlliedOutposts(defendingCrewId, raid.targetCellH3, now);
+    const defensePower = this.getDefensePower(defenderSquad, outpost, alliedOutposts);
+
+    // Conditional update so a concurrent defense or resolution wins cleanly
+    const updated = await query(
+      `UPDATE raids
+       SET defender_squad = $2, defense_power = $3, defended_by = $4, defended_at = $5
+       WHERE id = $1 AND status = 'pending' AND defended_by IS NULL AND window_ends_at > $5`,
+      [raidId, squadIds, defensePower, defendingUserId, now]
     );
 
-    // For now, resolve immediately (async raids would use a job queue)
-    return this.resolveRaid(raidId);
+    if (updated.rowCount === 0) {
+      throw new Error('Raid can no longer be defended');
+    }
+
+    logger.info({ raidId, defendingCrewId, defendingUserId, defensePower }, 'Raid defended');
+
+    return {
+      ...raid,
+      defenderSquad: squadIds,
+      defensePower,
+      defendedBy: defendingUserId,
+    };
+  }
+
+  /**
+   * Resolve pending raids whose window has ended. Returns the number
+   * resolved; failures are logged and retried on the next run.
+   */
+  async resolveExpiredRaids(now: Date = new Date(), limit: number = 50): Promise<number> {
+    const expired = await query<{ id: string }>(
+      `SELECT id FROM raids
+       WHERE status = 'pending' AND window_ends_at <= $1
+       ORDER BY window_ends_at ASC
+       LIMIT $2`,
+      [now, limit]
+    );
+
+    let resolved = 0;
+
+    for (const { id } of expired.rows) {
+      try {
+        await this.resolveRaid(id, now);
+        resolved++;
+      } catch (error) {
+        logger.error({ raidId: id, error }, 'Failed to resolve raid');
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Pending raids against a crew's cells, soonest window end first.
+   */
+  async getIncomingRaids(crewId: string): Promise<Raid[]> {
+    const result = await query<RaidRow>(
+      `SELECT * FROM raids
+       WHERE defending_crew_id = $1 AND status = 'pending'
+       ORDER BY window_ends_at ASC`,
+      [crewId]
+    );
+
+    return result.rows.map((row) => this.mapRow(row));
   }
 
   /**
-   * Calculate defense power for a cell.
+   * Resilience multiplier for defenders: the base defender bonus, plus
+   * outpost level and shield module bonuses, plus support from allied
+   * outposts around the cell (up to +0.1).
    */
-  async calculateDefensePower(cellH3: string, defendingCrewId: string): Promise<number> {
-    // Base defense = crew's influence in cell
-    const cellInfo = await influenceManager.getCellInfluence(cellH3);
-    const baseDefense = cellInfo?.influenceScores[defendingCrewId] ?? 0;
+  getDefenseBonus(outpost: Outpost | null, alliedOutposts: Outpost[] = []): number {
+    let bonus = RAID_CONFIG.defenseBonus;
 
-    // Outpost bonus
-    const outpost = await outpostManager.getOutpostAtCell(cellH3);
-    const outpostBonus = outpost ? outpost.level * 10 : 0;
+    const alliedLevels = alliedOutposts.reduce((sum, o) => sum + o.level, 0);
+    bonus += Math.min(alliedLevels * RAID_CONFIG.alliedOutpostBonusPerLevel, RAID_CONFIG.alliedOutpostBonusMax);
 
-    // Shield module bonus (already factors into damage, but also affects base defense)
-    let shieldBonus = 0;
     if (outpost) {
+      bonus += outpost.level * RAID_CONFIG.outpostBonusPerLevel;
+
       const shield = outpost.modules.find((m) => m.type === 'shield');
       if (shield) {
-        shieldBonus = shield.level * 5;
+        bonus += shield.level * RAID_CONFIG.shieldBonusPerLevel;
       }
     }
 
-    // Apply defender bonus
-    const totalDefense = (baseDefense + outpostBonus + shieldBonus) * RAID_CONFIG.defenseBonus;
+    return Math.round(bonus * 100) / 100;
+  }
 
-    return Math.round(totalDefense * 100) / 100;
+  /**
+   * Squad rating: total stats, scaled by remaining HP. For display; the
+   * battle decides the outcome.
+   */
+  getSquadRating(squad: Synthling[]): number {
+    const rating = squad.reduce((sum, synthling) => {
+      const { vitality, power, resilience, agility, focus } = synthling.stats;
+      const hpRatio = synthling.condition.maxHp > 0
+        ? synthling.condition.currentHp / synthling.condition.maxHp
+        : 0;
+      return sum + (vitality + power + resilience + agility + focus) * hpRatio;
+    }, 0);
+
+    return Math.round(rating * 100) / 100;
   }
 
   /**
-   * Resolve a raid.
+   * Resolve a raid: lock the squads, fight the squad battle, then settle
+   * influence, outpost damage, battle wins and the raid record, all in a
+   * single transaction.
    */
-  async resolveRaid(raidId: string): Promise<Raid> {
-    const raidRow = await query<{
-      id: string;
-      attacking_crew_id: string;
-      attacking_user_id: string;
-      target_cell_h3: string;
-      target_outpost_id: string | null;
-      status: string;
-      attack_power: number;
-      defense_power: number;
-      started_at: Date;
-    }>(
+  async resolveRaid(raidId: string, now: Date = new Date()): Promise<Raid> {
+    const raidRow = await query<RaidRow>(
       `SELECT * FROM raids WHERE id = $1`,
       [raidId]
     );
@@ -161,112 +424,427 @@ export class RaidEngine {
       throw new Error('Raid already resolved');
     }
 
-    // Determine winner
-    const success = raid.attack_power > raid.defense_power;
-    let influenceTransferred = 0;
-    let outpostDamage = 0;
+    const [outpost, alliedOutposts] = await Promise.all([
+      outpostManager.getOutpostAtCell(raid.target_cell_h3),
+      this.getAlliedOutposts(raid.defending_crew_id, raid.target_cell_h3, now),
+    ]);
 
-    if (success) {
-      // Calculate influence transfer
-      const difference = raid.attack_power - raid.defense_power;
-      influenceTransferred = Math.round(difference * RAID_CONFIG.influenceTransferRate);
-
-      // Award influence to attacker
-      await influenceManager.awardInfluence(
-        raid.target_cell_h3,
-        raid.attacking_crew_id,
-        raid.attacking_user_id,
-        'raid_success'
+    const { result, controllingCrewId, success, defenseRecipient, cooldownUntil } = await transaction(async (client) => {
+      // Lock the raid; a concurrent resolver waits here, then sees it resolved
+      const locked = await client.query<{ status: RaidRow['status'] }>(
+        `SELECT status FROM raids WHERE id = $1 FOR UPDATE`,
+        [raidId]
       );
 
-      // Damage outpost if exists
-      if (raid.target_outpost_id) {
+      if (locked.rows[0]?.status === 'resolved') {
+        throw new Error('Raid already resolved');
+      }
+
+      // Squads may have changed hands or fainted since the raid started
+      const { attackers, defenders } = await this.lockSquads(client, raid);
+
+      // Undefended cells fall to any attacker that still has a squad
+      const battle = attackers.length > 0 && defenders.length > 0
+        ? this.fight(raid, attackers, defenders, this.getDefenseBonus(outpost, alliedOutposts))
+        : undefined;
+      const success = battle ? battle.winner === 'attacker' : attackers.length > 0;
+
+      // Defense reward goes to whoever held the line
+      const defenseRecipient = raid.defended_by ?? outpost?.ownerId ?? defenders[0]?.ownerId ?? null;
+      const cooldownUntil = success
+        ? null
+        : new Date(now.getTime() + RAID_CONFIG.failureCooldownHours * 60 * 60 * 1000);
+
+      const cell = await client.query<{
+        controlling_crew_id: string | null;
+        influence_scores: Record<string, number>;
+        player_influence: Record<string, number> | null;
+      }>(
+        `SELECT controlling_crew_id, influence_scores, player_influence
+         FROM turf_cells WHERE h3_index = $1 FOR UPDATE`,
+        [raid.target_cell_h3]
+      );
+
+      const scores = cell.rows[0]?.influence_scores ?? {};
+      const players = cell.rows[0]?.player_influence ?? {};
+      const defendingCrewId = raid.defending_crew_id ?? cell.rows[0]?.controlling_crew_id ?? null;
+      const settlement = this.planSettlement(raid, success, scores, players, defendingCrewId, defenseRecipient);
+
+      await this.applyInfluenceChanges(client, raid, scores, players, settlement.changes, now);
+
+      let outpostDamage = 0;
+      if (success && raid.target_outpost_id) {
         outpostDamage = RAID_CONFIG.outpostDamageBase;
-        await outpostManager.damageOutpost(raid.target_outpost_id, outpostDamage);
+        await outpostManager.damageOutpost(raid.target_outpost_id, outpostDamage, client);
       }
-    } else {
-      // Defender gets bonus
-      const cellInfo = await influenceManager.getCellInfluence(raid.target_cell_h3);
-      if (cellInfo?.controllingCrewId) {
-        await query(
-          `INSERT INTO influence_events (cell_h3, crew_id, user_id, source, amount, timestamp)
-           SELECT $1, $2, owner_id, 'raid_defense', $3, NOW()
-           FROM outposts WHERE cell_h3 = $1
-           UNION ALL
-           SELECT $1, $2, $4, 'raid_defense', $3, NOW()
-           WHERE NOT EXISTS (SELECT 1 FROM outposts WHERE cell_h3 = $1)
-           LIMIT 1`,
-          [
-            raid.target_cell_h3,
-            cellInfo.controllingCrewId,
-            25,  // Defense reward
-            raid.attacking_user_id,  // Placeholder, not actually awarded to attacker
-          ]
+
+      // Credit the winning squad (counts toward battle_wins evolutions)
+      if (battle && battle.winner !== 'draw') {
+        const winners = (battle.winner === 'attacker' ? attackers : defenders).map((s) => s.id);
+        await client.query(
+          `UPDATE synthlings SET battle_wins = battle_wins + 1 WHERE id = ANY($1)`,
+          [winners]
         );
       }
-    }
 
-    // Build result
-    const result: RaidResult = {
-      success,
-      influenceTransferred,
-      outpostDamage: outpostDamage > 0 ? outpostDamage : undefined,
-      attackerRewards: success
-        ? [{ type: 'influence', amount: influenceTransferred }]
-        : [],
-      defenderLosses: success
-        ? [
-            { type: 'influence', amount: influenceTransferred },
-            ...(outpostDamage > 0 ? [{ type: 'outpost_health' as const, amount: outpostDamage }] : []),
-          ]
-        : [],
-    };
+      const newController = await influenceManager.updateCellControl(raid.target_cell_h3, client);
+
+      const raidResult: RaidResult = {
+        success,
+        influenceTransferred: settlement.influenceTransferred,
+        attackerPenalty: settlement.attackerPenalty > 0 ? settlement.attackerPenalty : undefined,
+        outpostDamage: outpostDamage > 0 ? outpostDamage : undefined,
+        attackerRewards: success
+          ? [{ type: 'influence', amount: settlement.influenceTransferred }]
+          : [],
+        defenderLosses: success
+          ? [
+              { type: 'influence', amount: settlement.influenceTransferred },
+              ...(outpostDamage > 0 ? [{ type: 'outpost_health' as const, amount: outpostDamage }] : []),
+            ]
+          : [],
+        battle,
+      };
+
+      await client.query(
+        `UPDATE raids
+         SET status = 'resolved', resolved_at = $3, result = $1, attacker_cooldown_until = $4
+         WHERE id = $2`,
+        [JSON.stringify(raidResult), raidId, now, cooldownUntil]
+      );
 
-    // Update raid record
-    await query(
-      `UPDATE raids
-       SET status = 'resolved', resolved_at = NOW(), result = $1
-       WHERE id = $2`,
-      [JSON.stringify(result), raidId]
-    );
+      return { result: raidResult, controllingCrewId: newController, success, defenseRecipient, cooldownUntil };
+    });
+
+    // Advance raid and defend contracts once the outcome is committed
+    if (success) {
+      await contractManager.recordProgress(raid.attacking_user_id, 'raid_success', raid.target_cell_h3, now);
+    } else if (defenseRecipient) {
+      await contractManager.recordProgress(defenseRecipient, 'raid_defense', raid.target_cell_h3, now);
+    }
 
     logger.info(
-      { raidId, success, influenceTransferred, outpostDamage },
+      {
+        raidId,
+        success,
+        influenceTransferred: result.influenceTransferred,
+        attackerPenalty: result.attackerPenalty,
+        controllingCrewId,
+        turns: result.battle?.turns,
+      },
       'Raid resolved'
     );
 
-    return {
-      id: raid.id,
-      attackingCrewId: raid.attacking_crew_id,
-      attackingUserId: raid.attacking_user_id,
-      targetCellH3: raid.target_cell_h3,
-      targetOutpostId: raid.target_outpost_id ?? undefined,
+    await realtimeBus.publish(
+      'raid_resolved',
+      [
+        RealtimeTopics.cell(raid.target_cell_h3),
+        RealtimeTopics.crew(raid.attacking_crew_id),
+        ...(raid.defending_crew_id ? [RealtimeTopics.crew(raid.defending_crew_id)] : []),
+      ],
+      {
+        raidId,
+        cellH3: raid.target_cell_h3,
+        attackingCrewId: raid.attacking_crew_id,
+        defendingCrewId: raid.defending_crew_id ?? undefined,
+        success,
+        influenceTransferred: result.influenceTransferred,
+        controllingCrewId,
+      }
+    );
+
+    return this.mapRow({
+      ...raid,
       status: 'resolved',
-      attackPower: Number(raid.attack_power),
-      defensePower: Number(raid.defense_power),
-      startedAt: raid.started_at,
-      resolvedAt: new Date(),
+      resolved_at: now,
+      attacker_cooldown_until: cooldownUntil,
       result,
+    });
+  }
+
+  /**
+   * Influence changes for a raid outcome. Success moves a share of the
+   * defending crew's cell influence to the attacker (a larger share from
+   * rivals); failure costs the
+   * attacker a share of theirs and rewards the defender, up to the
+   * influence caps.
+   *
+   * Each change's userId is the player whose action caused it.
+   */
+  private planSettlement(
+    raid: RaidRow,
+    success: boolean,
+    scores: Record<string, number>,
+    players: Record<string, number>,
+    defendingCrewId: string | null,
+    defenseRecipient: string | null
+  ): { changes: InfluenceChange[]; influenceTransferred: number; attackerPenalty: number } {
+    const changes: InfluenceChange[] = [];
+    let influenceTransferred = 0;
+    let attackerPenalty = 0;
+
+    if (success) {
+      const defenderInfluence = defendingCrewId ? Number(scores[defendingCrewId] ?? 0) : 0;
+      const rate = raid.against_rival ? RAID_CONFIG.rivalTransferRate : RAID_CONFIG.influenceTransferRate;
+      influenceTransferred = roundInfluence(defenderInfluence * rate);
+
+      if (defendingCrewId && influenceTransferred > 0) {
+        changes.push(
+          { crewId: defendingCrewId, userId: raid.attacking_user_id, source: 'raid_loss', amount: -influenceTransferred },
+          { crewId: raid.attacking_crew_id, userId: raid.attacking_user_id, source: 'raid_success', amount: influenceTransferred }
+        );
+      }
+    } else {
+      const attackerInfluence = Number(scores[raid.attacking_crew_id] ?? 0);
+      attackerPenalty = roundInfluence(attackerInfluence * RAID_CONFIG.failurePenaltyRate);
+
+      if (attackerPenalty > 0) {
+        changes.push({
+          crewId: raid.attacking_crew_id,
+          userId: raid.attacking_user_id,
+          source: 'raid_penalty',
+          amount: -attackerPenalty,
+        });
+      }
+
+      // The reward is new influence, so it counts toward the caps
+      const cellTotal = Object.values(scores).reduce((sum, v) => sum + Number(v), 0) - attackerPenalty;
+      const defenseReward = defenseRecipient
+        ? capInfluenceAmount(RAID_CONFIG.defenseReward, Number(players[defenseRecipient] ?? 0), cellTotal)
+        : 0;
+
+      if (defendingCrewId && defenseRecipient && defenseReward > 0) {
+        changes.push({
+          crewId: defendingCrewId,
+          userId: defenseRecipient,
+          source: 'raid_defense',
+          amount: defenseReward,
+        });
+      }
+    }
+
+    return { changes, influenceTransferred, attackerPenalty };
+  }
+
+  /**
+   * Apply influence changes to the locked cell and record one
+   * influence_event per change, so events reconcile with the scores.
+   * Players' shares shrink with their crew's losses.
+   */
+  private async applyInfluenceChanges(
+    client: pg.PoolClient,
+    raid: RaidRow,
+    scores: Record<string, number>,
+    players: Record<string, number>,
+    changes: InfluenceChange[],
+    now: Date
+  ): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    const updated: Record<string, number> = {};
+    for (const [crewId, score] of Object.entries(scores)) {
+      updated[crewId] = Number(score);
+    }
+
+    const updatedPlayers: Record<string, number> = {};
+    for (const [userId, amount] of Object.entries(players)) {
+      updatedPlayers[userId] = Number(amount);
+    }
+
+    // Losses come out of the losing crew's players' shares
+    const losingCrewIds = [...new Set(changes.filter((c) => c.amount < 0).map((c) => c.crewId))];
+    const members = losingCrewIds.length > 0 && Object.keys(updatedPlayers).length > 0
+      ? await client.query<{ id: string; crew_id: string }>(
+          `SELECT id, crew_id FROM users WHERE id = ANY($1) AND crew_id = ANY($2)`,
+          [Object.keys(updatedPlayers), losingCrewIds]
+        )
+      : { rows: [] };
+
+    for (const change of changes) {
+      const next = roundInfluence((updated[change.crewId] ?? 0) + change.amount);
+      if (next > 0) {
+        updated[change.crewId] = next;
+      } else {
+        delete updated[change.crewId];
+      }
+
+      if (change.amount < 0) {
+        const crewPlayers = members.rows.filter((m) => m.crew_id === change.crewId).map((m) => m.id);
+        deductPlayerInfluence(updatedPlayers, crewPlayers, -change.amount);
+      } else if (change.source === 'raid_defense') {
+        // Transfers move existing influence; only rewards add to a player's share
+        updatedPlayers[change.userId] = roundInfluence((updatedPlayers[change.userId] ?? 0) + change.amount);
+      }
+
+      await client.query(
+        `INSERT INTO influence_events (id, cell_h3, crew_id, user_id, source, amount, timestamp, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          uuid(),
+          raid.target_cell_h3,
+          change.crewId,
+          change.userId,
+          change.source,
+          change.amount,
+          now,
+          JSON.stringify({ raidId: raid.id }),
+        ]
+      );
+    }
+
+    const total = roundInfluence(Object.values(updated).reduce((sum, v) => sum + v, 0));
+
+    await client.query(
+      `UPDATE turf_cells
+       SET influence_scores = $2, total_influence = $3, player_influence = $4, updated_at = NOW()
+       WHERE h3_index = $1`,
+      [raid.target_cell_h3, JSON.stringify(updated), total, JSON.stringify(updatedPlayers)]
+    );
+  }
+
+  /**
+   * Run the auto-battle between the two squads. Seeded by the raid ID so
+   * the stored log can be replayed.
+   */
+  private fight(
+    raid: RaidRow,
+    attackers: Synthling[],
+    defenders: Synthling[],
+    defenseBonus: number
+  ): RaidBattle {
+    const seed = `raid:${raid.id}`;
+    const battle = battleEngine.simulate({
+      id: raid.id,
+      type: 'raid',
+      seed,
+      sides: [
+        { id: 'attacker', userId: raid.attacking_user_id, squad: attackers },
+        {
+          id: 'defender',
+          squad: defenders.map((s) => ({
+            ...s,
+            stats: { ...s.stats, resilience: Math.round(s.stats.resilience * defenseBonus) },
+          })),
+        },
+      ],
+      startedAt: raid.started_at,
+    });
+
+    return {
+      seed,
+      defenseBonus,
+      winner: battle.winner === 'attacker' || battle.winner === 'defender' ? battle.winner : 'draw',
+      turns: battle.currentTurn,
+      log: battle.log,
     };
   }
 
+  private validateSquadIds(squadIds: string[]): void {
+    if (
+      squadIds.length === 0 ||
+      squadIds.length > RAID_CONFIG.maxSquadSize ||
+      new Set(squadIds).size !== squadIds.length
+    ) {
+      throw new Error(`Raid squads must have 1-${RAID_CONFIG.maxSquadSize} different Synthlings`);
+    }
+  }
+
+  /**
+   * Players who recently switched crews sit out raids until the cooldown ends.
+   */
+  private async assertNoCrewCooldown(userId: string, now: Date): Promise<void> {
+    const cooldownUntil = await crewManager.getCooldownUntil(userId, now);
+
+    if (cooldownUntil) {
+      throw new Error(`Crew cooldown active until ${cooldownUntil.toISOString()}`);
+    }
+  }
+
+  /**
+   * Load a user's squad, checking ownership, health and that no member is
+   * already committed to another active raid.
+   */
+  private async loadSquad(userId: string, squadIds: string[]): Promise<Synthling[]> {
+    const squad = await synthlingCollection.getOwnedSquad(userId, squadIds);
+
+    if (squad.length !== squadIds.length) {
+      throw new Error('Squad contains Synthlings you do not own');
+    }
+
+    if (squad.some((s) => s.condition.currentHp <= 0)) {
+      throw new Error('Fainted Synthlings cannot raid');
+    }
+
+    const committed = await query<{ id: string }>(
+      `SELECT id FROM raids
+       WHERE status IN ('pending', 'in_progress')
+         AND (attacker_squad && $1::uuid[] OR defended_by IS NOT NULL AND defender_squad && $1::uuid[])
+       LIMIT 1`,
+      [squadIds]
+    );
+
+    if (committed.rows[0]) {
+      throw new Error('Synthlings are already committed to another raid');
+    }
+
+    return squad;
+  }
+
+  /**
+   * Lock both squads for settlement, keeping only Synthlings that can
+   * still fight: the attacker's own, and defenders owned by the responder
+   * (or, with no responder, anyone) still in the defending crew, with HP left.
+   */
+  private async lockSquads(
+    client: pg.PoolClient,
+    raid: RaidRow
+  ): Promise<{ attackers: Synthling[]; defenders: Synthling[] }> {
+    const attackers = await synthlingCollection.getSquad(raid.attacker_squad, client);
+    const defenders = await synthlingCollection.getSquad(raid.defender_squad, client);
+
+    const owners = [...new Set(defenders.map((s) => s.ownerId))];
+    const crewOwners = raid.defending_crew_id && owners.length > 0
+      ? await client.query<{ id: string }>(
+          `SELECT id FROM users WHERE id = ANY($1) AND crew_id = $2`,
+          [owners, raid.defending_crew_id]
+        )
+      : { rows: [] };
+    const defendingOwners = new Set(crewOwners.rows.map((r) => r.id));
+
+    return {
+      attackers: attackers.filter((s) => s.ownerId === raid.attacking_user_id && s.condition.currentHp > 0),
+      defenders: defenders.filter((s) =>
+        defendingOwners.has(s.ownerId) &&
+        (raid.defended_by === null || s.ownerId === raid.defended_by) &&
+        s.condition.currentHp > 0
+      ),
+    };
+  }
+
+  private getDefensePower(squad: Synthling[], outpost: Outpost | null, alliedOutposts: Outpost[]): number {
+    return Math.round(this.getSquadRating(squad) * this.getDefenseBonus(outpost, alliedOutposts) * 100) / 100;
+  }
+
+  /**
+   * Outposts of the defending crew's allies around the target cell.
+   */
+  private async getAlliedOutposts(defendingCrewId: string | null, cellH3: string, now: Date): Promise<Outpost[]> {
+    if (!defendingCrewId) {
+      return [];
+    }
+
+    const allies = await diplomacyManager.getAllies(defendingCrewId, now);
+
+    return outpostManager.getNearbyOutposts(cellH3, allies);
+  }
+
   /**
    * Get raid by ID.
    */
   async getRaid(raidId: string): Promise<Raid | null> {
-    const result = await query<{
-      id: string;
-      attacking_crew_id: string;
-      attacking_user_id: string;
-      target_cell_h3: string;
-      target_outpost_id: string | null;
-      status: 'pending' | 'in_progress' | 'resolved';
-      attack_power: number;
-      defense_power: number;
-      started_at: Date;
-      resolved_at: Date | null;
-      result: RaidResult | null;
-    }>(
+    const result = await query<RaidRow>(
       `SELECT * FROM raids WHERE id = $1`,
       [raidId]
     );
@@ -275,94 +853,87 @@ export class RaidEngine {
       return null;
     }
 
-    const row = result.rows[0];
-    return {
-      id: row.id,
-      attackingCrewId: row.attacking_crew_id,
-      attackingUserId: row.attacking_user_id,
-      targetCellH3: row.target_cell_h3,
-      targetOutpostId: row.target_outpost_id ?? undefined,
-      status: row.status,
-      attackPower: Number(row.attack_power),
-      defensePower: Number(row.defense_power),
-      startedAt: row.started_at,
-      resolvedAt: row.resolved_at ?? undefined,
-      result: row.result ?? undefined,
-    };
+    return this.mapRow(result.rows[0]);
   }
 
   /**
    * Get recent raids for a cell.
    */
   async getCellRaids(cellH3: string, limit: number = 20): Promise<Raid[]> {
-    const result = await query<{
-      id: string;
-      attacking_crew_id: string;
-      attacking_user_id: string;
-      target_cell_h3: string;
-      target_outpost_id: string | null;
-      status: 'pending' | 'in_progress' | 'resolved';
-      attack_power: number;
-      defense_power: number;
-      started_at: Date;
-      resolved_at: Date | null;
-      result: RaidResult | null;
-    }>(
+    const result = await query<RaidRow>(
       `SELECT * FROM raids WHERE target_cell_h3 = $1 ORDER BY started_at DESC LIMIT $2`,
       [cellH3, limit]
     );
 
-    return result.rows.map((row) => ({
-      id: row.id,
-      attackingCrewId: row.attacking_crew_id,
-      attackingUserId: row.attacking_user_id,
-      targetCellH3: row.target_cell_h3,
-      targetOutpostId: row.target_outpost_id ?? undefined,
-      status: row.status,
-      attackPower: Number(row.attack_power),
-      defensePower: Number(row.defense_power),
-      startedAt: row.started_at,
-      resolvedAt: row.resolved_at ?? undefined,
-      result: row.result ?? undefined,
-    }));
+    return result.rows.map((row) => this.mapRow(row));
   }
 
   /**
    * Get user's raid history.
    */
   async getUserRaids(userId: string, limit: number = 50): Promise<Raid[]> {
-    const result = await query<{
-      id: string;
-      attacking_crew_id: string;
-      attacking_user_id: string;
-      target_cell_h3: string;
-      target_outpost_id: string | null;
-      status: 'pending' | 'in_progress' | 'resolved';
-      attack_power: number;
-      defense_power: number;
-      started_at: Date;
-      resolved_at: Date | null;
-      result: RaidResult | null;
-    }>(
+    const result = await query<RaidRow>(
       `SELECT * FROM raids WHERE attacking_user_id = $1 ORDER BY started_at DESC LIMIT $2`,
       [userId, limit]
     );
 
-    return result.rows.map((row) => ({
+    return result.rows.map((row) => this.mapRow(row));
+  }
+
+  /**
+   * Map a database row to a Raid.
+   */
+  private mapRow(row: RaidRow): Raid {
+    return {
       id: row.id,
       attackingCrewId: row.attacking_crew_id,
       attackingUserId: row.attacking_user_id,
       targetCellH3: row.target_cell_h3,
       targetOutpostId: row.target_outpost_id ?? undefined,
+      defendingCrewId: row.defending_crew_id ?? undefined,
       status: row.status,
+      attackerSquad: row.attacker_squad,
+      defenderSquad: row.defender_squad,
+      defendedBy: row.defended_by ?? undefined,
       attackPower: Number(row.attack_power),
       defensePower: Number(row.defense_power),
       startedAt: row.started_at,
+      windowEndsAt: row.window_ends_at,
       resolvedAt: row.resolved_at ?? undefined,
+      attackerCooldownUntil: row.attacker_cooldown_until ?? undefined,
+      againstRival: row.against_rival || undefined,
       result: row.result ?? undefined,
-    }));
+    };
+  }
+}
+
+/**
+ * Take a loss out of players' influence in proportion to their shares.
+ * Players left with nothing are dropped.
+ */
+function deductPlayerInfluence(players: Record<string, number>, userIds: string[], loss: number): void {
+  const held = userIds.reduce((sum, userId) => sum + (players[userId] ?? 0), 0);
+  if (held <= 0) {
+    return;
+  }
+
+  for (const userId of userIds) {
+    const share = players[userId] ?? 0;
+    const next = roundInfluence(share - (loss * share) / held);
+    if (next > 0) {
+      players[userId] = next;
+    } else {
+      delete players[userId];
+    }
   }
 }
 
+/**
+ * Postgres unique_violation.
+ */
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+}
+
 // Singleton instance
 export const raidEngine = new RaidEngine();
@@ -0,0 +1,50 @@
+/**
+ * Territory cells - The H3 resolution turf is held at.
+ *
+ * Handles:
+ * - The territory resolution shared by districts, influence and contracts
+ * - Mapping finer cells onto their territory cell
+ *
+ * Players are only ever located by their storage-resolution cell (7,
+ * about 5 km²; safety-geofencing spec, location privacy), and that is
+ * the cell fingerprints, captures and cell visits carry. Territory uses
+ * the same resolution rather than the turf spec's resolution 8, which a
+ * resolution 7 cell cannot be narrowed to, so every influence award and
+ * contract step lands in a district cell.
+ */
+
+import * as h3 from 'h3-js';
+import { config } from '../../config/index.js';
+
+/**
+ * Resolution of turf cells and the cells districts are tiled from.
+ */
+export const TERRITORY_RESOLUTION = config.H3_RESOLUTION_STORAGE;
+
+/**
+ * Territory cell containing a location.
+ */
+export function territoryCellAt(latitude: number, longitude: number): string {
+  return h3.latLngToCell(latitude, longitude, TERRITORY_RESOLUTION);
+}
+
+/**
+ * Territory cell containing a cell. Finer cells map to their ancestor;
+ * coarser cells span several territory cells and are rejected.
+ */
+export function toTerritoryCell(h3Index: string): string {
+  const resolution = h3.getResolution(h3Index);
+  if (resolution < TERRITORY_RESOLUTION) {
+    throw new Error(`Cell ${h3Index} is coarser than territory resolution ${TERRITORY_RESOLUTION}`);
+  }
+
+  return resolution === TERRITORY_RESOLUTION ? h3Index : h3.cellToParent(h3Index, TERRITORY_RESOLUTION);
+}
+
+/**
+ * Whether a string is a valid cell toTerritoryCell accepts: one at the
+ * territory resolution or finer.
+ */
+export function hasTerritoryCell(h3Index: string): boolean {
+  return h3.isValidCell(h3Index) && h3.getResolution(h3Index) >= TERRITORY_RESOLUTION;
+}
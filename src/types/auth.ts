@@ -0,0 +1,43 @@
+/**
+ * Authentication types - device credentials and session tokens.
+ */
+
+/**
+ * Signed claims carried by an access token.
+ */
+export interface AccessTokenClaims {
+  sub: string;   // User ID
+  sid: string;   // Session ID
+  did: string;   // Device ID the session is bound to
+  iat: number;   // Issued at (seconds since epoch)
+  exp: number;   // Expires at (seconds since epoch)
+}
+
+/**
+ * Authenticated caller, resolved server-side for every request.
+ */
+export interface AuthUser {
+  userId: string;
+  crewId: string | null;   // From users.crew_id, never from the client
+  sessionId: string;
+  deviceId: string;
+}
+
+/**
+ * Tokens issued at login and on refresh.
+ */
+export interface AuthTokens {
+  accessToken: string;
+  accessTokenExpiresAt: Date;
+  refreshToken: string;      // Single use; each refresh issues a new one
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * Result of registering a new player on a device.
+ */
+export interface Registration {
+  userId: string;
+  deviceSecret: string;      // Returned once; the device stores it to log in again
+  tokens: AuthTokens;
+}
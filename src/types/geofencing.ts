@@ -17,6 +17,7 @@ export type ZoneCategory =
 export type ZoneSource =
   | 'osm'           // OpenStreetMap
   | 'safegraph'     // SafeGraph commercial data
+  | 'open_data'     // Municipal open-data feeds
   | 'manual'        // Admin-entered
   | 'user_report';  // Community-reported
 
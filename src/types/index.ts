@@ -6,3 +6,6 @@ export * from './geofencing.js';
 export * from './fingerprint.js';
 export * from './turf.js';
 export * from './synthling.js';
+export * from './jobs.js';
+export * from './auth.js';
+export * from './realtime.js';
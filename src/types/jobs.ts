@@ -0,0 +1,51 @@
+/**
+ * Background job types - scheduled maintenance and expirations.
+ */
+
+/**
+ * Counts a job reports, stored with its run.
+ */
+export type JobResult = Record<string, number>;
+
+/**
+ * Periodic background job.
+ */
+export interface JobDefinition {
+  name: string;              // Unique, used for the lock and run history
+  description: string;
+  intervalSeconds: number;   // Minimum time between run starts, across all instances
+  timeoutSeconds: number;    // Run is failed (and its lock lapses) after this
+  run: (now: Date) => Promise<JobResult>;
+}
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+/**
+ * One execution of a job.
+ */
+export interface JobRun {
+  id: string;
+  jobName: string;
+  instanceId: string;
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  result?: JobResult;
+  error?: string;
+}
+
+/**
+ * Job state for the admin status endpoint.
+ */
+export interface JobStatus {
+  name: string;
+  description: string;
+  intervalSeconds: number;
+  locked: boolean;            // Some instance is running it now
+  lastRun?: JobRun;
+  lastSuccessAt?: Date;
+  lastFailure?: JobRun;
+  recentFailures: number;     // Failed runs in the last 24 hours
+  nextRunAt: Date;
+}
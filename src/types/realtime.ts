@@ -0,0 +1,91 @@
+/**
+ * Realtime types - events pushed to subscribed clients.
+ */
+
+import type { ControlEventType, InfluenceSource } from './turf.js';
+
+/**
+ * What a client can subscribe to: `cell:{h3Index}`, `district:{id}` or
+ * `crew:{id}`; streams also get their player's `user:{id}` events.
+ * Every event lists the topics it belongs to.
+ */
+export type RealtimeTopic = `cell:${string}` | `district:${string}` | `crew:${string}` | `user:${string}`;
+
+/**
+ * Payload of each event type.
+ */
+export interface RealtimeEventData {
+  // Never names the player: cell and district topics reach other crews
+  influence_changed: {
+    cellH3: string;
+    districtId?: string;
+    crewId: string;
+    source: InfluenceSource;
+    amount: number;
+    crewInfluence: number;   // The crew's influence in the cell afterwards
+    totalInfluence: number;  // All crews' influence in the cell afterwards
+  };
+  control_changed: {
+    controlEventId: string;
+    controlEventType: ControlEventType;
+    cellH3?: string;
+    districtId?: string;
+    crewId?: string;
+    otherCrewId?: string;
+  };
+  outpost_damaged: {
+    outpostId: string;
+    cellH3: string;
+    districtId: string;
+    crewId: string;
+    damage: number;
+    health: number;
+  };
+  raid_started: {
+    raidId: string;
+    cellH3: string;
+    attackingCrewId: string;
+    defendingCrewId: string;
+    windowEndsAt: string;
+  };
+  raid_resolved: {
+    raidId: string;
+    cellH3: string;
+    attackingCrewId: string;
+    defendingCrewId?: string;
+    success: boolean;
+    influenceTransferred: number;
+    controllingCrewId: string | null;
+  };
+  presence_changed: {
+    userId: string;
+    crewId: string;
+    cellH3: string | null;   // null: the player hid or left the recipient's radius
+  };
+  streams_closed: {
+    userId: string;
+    sessionId?: string;      // Only this session's streams; all when unset
+    reason: 'crew_changed' | 'session_ended';
+  };
+  spawns_appeared: {
+    cellH3: string;
+    districtId?: string;
+    spawns: Array<{
+      id: string;
+      archetypeId: string;
+      rarity: 'common' | 'uncommon' | 'rare' | 'legendary';
+      level: number;
+      expiresAt: string;
+    }>;
+  };
+}
+
+export type RealtimeEventType = keyof RealtimeEventData;
+
+export interface RealtimeEvent<K extends RealtimeEventType = RealtimeEventType> {
+  id: string;
+  type: K;
+  topics: RealtimeTopic[];
+  occurredAt: Date;
+  data: RealtimeEventData[K];
+}
@@ -151,6 +151,9 @@ export interface MoveEffect {
   target: 'self' | 'enemy' | 'all_enemies' | 'all_allies' | 'field';
   value: number;
   chance?: number;  // 0-100 for probabilistic effects
+  stat?: keyof SynthlingStats;  // buff/debuff: stat affected
+  status?: string;              // status: effect applied (e.g. burn, stun)
+  terrain?: string;             // terrain: terrain type created
 }
 
 /**
@@ -230,6 +233,7 @@ export interface SynthlingEncounter {
 export interface Battle {
   id: string;
   type: 'wild' | 'pvp' | 'raid';
+  seed: string;  // Replaying with the same seed and squads reproduces the battle
   participants: BattleParticipant[];
   currentTurn: number;
   turnOrder: string[];  // Synthling IDs
@@ -3,12 +3,14 @@
  * See specs/turf-mechanics/spec.md for full specification.
  */
 
+import type { BattleLogEntry } from './synthling.js';
+
 /**
  * H3 cell with influence data.
  * Basic unit of territory control.
  */
 export interface TurfCell {
-  h3Index: string;          // H3 index at gameplay resolution (9)
+  h3Index: string;          // H3 index at territory resolution (7)
   districtId: string;       // Parent district
   controllingCrewId?: string;
   influenceScores: Record<string, number>;  // crewId -> influence
@@ -47,6 +49,95 @@ export interface Crew {
   createdAt: Date;
 }
 
+/**
+ * Crew roles. Leaders manage roles; leaders and officers manage invites
+ * and kicks.
+ */
+export type CrewRole = 'leader' | 'officer' | 'member';
+
+/**
+ * Crew member with their role.
+ */
+export interface CrewMember {
+  userId: string;
+  username?: string;
+  role: CrewRole;
+  joinedAt: Date;
+}
+
+/**
+ * Invite code for joining a crew.
+ */
+export interface CrewInvite {
+  id: string;
+  crewId: string;
+  code: string;
+  createdBy: string;
+  maxUses: number;
+  uses: number;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * What happened to a departing member's outposts.
+ */
+export interface CrewDeparture {
+  crewId: string;
+  newLeaderId?: string;           // Set when the leader left
+  reassignedOutposts: number;     // Handed to a remaining member
+  forfeitedOutposts: number;      // Removed; no member could take them
+  cooldownUntil: Date;            // No influence or raids until then
+}
+
+/**
+ * Diplomatic relation between two crews.
+ * - alliance: no raids between them; allied outposts near a raided cell
+ *   strengthen its defense
+ * - non_aggression: no raids between them
+ * - rivalry: declared by one crew; raids between them transfer more influence
+ */
+export type CrewRelationType = 'alliance' | 'non_aggression' | 'rivalry';
+
+export type CrewRelationStatus = 'proposed' | 'active' | 'declined' | 'cancelled' | 'ended' | 'expired';
+
+export interface CrewRelation {
+  id: string;
+  type: CrewRelationType;
+  status: CrewRelationStatus;
+  proposerCrewId: string;        // Proposer, or the crew that declared a rivalry
+  targetCrewId: string;
+  proposedBy: string;
+  respondedBy?: string;
+  durationDays?: number;         // Unset: lasts until ended
+  proposedAt: Date;
+  proposalExpiresAt?: Date;      // Proposals only
+  startedAt?: Date;
+  expiresAt?: Date;
+  endedAt?: Date;
+}
+
+/**
+ * A crewmate's last validated location, coarsened to a presence cell.
+ */
+export interface CrewPresence {
+  userId: string;
+  username?: string;
+  cellH3: string;                // Resolution 7 or coarser (geofencing FR-5)
+  updatedAt: Date;
+}
+
+/**
+ * Crewmates near the viewer. The radius grows when the viewer is near one
+ * of the crew's beacon outposts.
+ */
+export interface CrewPresenceView {
+  cellH3: string | null;         // Viewer's presence cell; null if no recent location
+  radiusKm: number;
+  hidden: boolean;               // Viewer is hidden from crewmates
+  members: CrewPresence[];
+}
+
 /**
  * Influence source types.
  */
@@ -55,8 +146,10 @@ export type InfluenceSource =
   | 'synthling_capture'       // +5 base
   | 'contract_completion'     // Variable
   | 'outpost_passive'         // Hourly tick
-  | 'raid_success'            // Variable
-  | 'raid_defense';           // Variable
+  | 'raid_success'            // Variable, taken from the defending crew
+  | 'raid_defense'            // Variable
+  | 'raid_loss'               // Negative, lost to a successful raid
+  | 'raid_penalty';           // Negative, attacker's failed raid
 
 /**
  * Influence change event.
@@ -72,6 +165,31 @@ export interface InfluenceEvent {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Control change types.
+ */
+export type ControlEventType =
+  | 'cell_captured'       // crewId took the cell from otherCrewId (if any)
+  | 'cell_lost'           // crewId lost the cell and no crew holds it
+  | 'contested_started'   // No crew has a 20% share or the lead is tied; crewId holds it, if any
+  | 'district_gained'     // crewId reached a majority of the district's cells
+  | 'district_lost';      // crewId fell below a majority; otherCrewId took over (if any)
+
+/**
+ * Recorded change in cell or district control.
+ * History for news feeds and analytics.
+ */
+export interface ControlEvent {
+  id: string;
+  type: ControlEventType;
+  cellH3?: string;
+  districtId?: string;
+  crewId?: string;
+  otherCrewId?: string;
+  occurredAt: Date;
+  metadata?: Record<string, unknown>;
+}
+
 /**
  * Influence decay configuration.
  */
@@ -122,20 +240,41 @@ export interface Raid {
   attackingUserId: string;
   targetCellH3: string;
   targetOutpostId?: string;
+  defendingCrewId?: string;
   status: 'pending' | 'in_progress' | 'resolved';
-  attackPower: number;
-  defensePower: number;
+  attackerSquad: string[];  // Synthling IDs
+  defenderSquad: string[];  // Synthling IDs, empty if the cell was undefended
+  defendedBy?: string;      // Crew member who committed the defender squad
+  attackPower: number;      // Squad rating
+  defensePower: number;     // Squad rating incl. outpost bonus
   startedAt: Date;
+  windowEndsAt: Date;       // Resolves when the defender window ends
   resolvedAt?: Date;
+  attackerCooldownUntil?: Date;  // Set after a failed raid on this cell
+  againstRival?: boolean;   // The crews were declared rivals when the raid began
   result?: RaidResult;
 }
 
 export interface RaidResult {
   success: boolean;
   influenceTransferred: number;
+  attackerPenalty?: number;  // Influence the attacker lost on failure
   outpostDamage?: number;
   attackerRewards: RaidReward[];
   defenderLosses: RaidLoss[];
+  battle?: RaidBattle;  // Absent if the cell was undefended
+}
+
+/**
+ * Auto-battle that decided a raid. Replaying the seed with the
+ * raid's squads reproduces the log.
+ */
+export interface RaidBattle {
+  seed: string;
+  defenseBonus: number;  // Resilience multiplier applied to the defender squad
+  winner: 'attacker' | 'defender' | 'draw';
+  turns: number;
+  log: BattleLogEntry[];
 }
 
 export interface RaidReward {
@@ -173,6 +312,7 @@ export interface Contract {
   rewards: ContractReward[];
   expiresAt: Date;
   claimedBy?: string;
+  claimedAt?: Date;
   completedAt?: Date;
 }
 
@@ -184,11 +324,21 @@ export type ContractType =
   | 'defend';      // Defend against raids
 
 export interface ContractRequirement {
-  type: string;
+  type: ContractProgressType;
   target: number;
   current: number;
 }
 
+/**
+ * Player actions that advance contract requirements.
+ */
+export type ContractProgressType =
+  | 'synthling_capture'
+  | 'fingerprint_submission'
+  | 'cell_visit'          // Distinct cells only
+  | 'raid_success'
+  | 'raid_defense';
+
 export interface ContractReward {
   type: 'influence' | 'resource' | 'synthling' | 'outpost_module';
   amount: number;